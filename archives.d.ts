@@ -0,0 +1,89 @@
+import * as Glob from 'glob';
+/**
+ * Possible formats of an archive.
+ */
+export declare type ArchiveFormat = 'tar' | 'tgz' | 'zip';
+/**
+ * Options for 'createArchive()'.
+ */
+export interface CreateArchiveOptions {
+    /**
+     * The directory, the patterns and the paths inside the archive are relative to. Default: current directory
+     */
+    cwd?: string;
+    /**
+     * The format. Default: detected by the extension of the archive
+     */
+    format?: ArchiveFormat;
+    /**
+     * Additional options for the patterns (s. 'glob()').
+     */
+    glob?: Glob.IOptions;
+    /**
+     * The compression level (0 - 9) for tar.gz and zip. Default: 6
+     */
+    level?: number;
+    /**
+     * A prefix for all paths inside the archive, like 'my-app-1.0.0/'.
+     */
+    prefix?: string;
+    /**
+     * A function, which returns the path inside the archive for a relative path.
+     * If it returns an empty value, the file is skipped.
+     */
+    rewrite?: (path: string) => string;
+}
+/**
+ * Options for 'extractArchive()'.
+ */
+export interface ExtractArchiveOptions {
+    /**
+     * The format. Default: detected by the extension or the magic bytes of the archive
+     */
+    format?: ArchiveFormat;
+    /**
+     * The maximum number of entries. Default: 10000
+     */
+    maxEntries?: number;
+    /**
+     * The maximum ratio between the extracted data and the archive,
+     * which is checked after more than 1 MB has been extracted. Default: 100
+     */
+    maxRatio?: number;
+    /**
+     * The maximum size of the extracted data, in bytes. Default: 1 GB
+     */
+    maxSize?: number;
+    /**
+     * Overwrite existing files or not. Default: (true)
+     */
+    overwrite?: boolean;
+    /**
+     * The number of leading path components to remove. Default: 0
+     */
+    strip?: number;
+}
+/**
+ * Creates an archive.
+ *
+ * @param {string} file The path of the archive.
+ * @param {string|string[]} patterns One or more file or pattern (s. 'glob()').
+ * @param {CreateArchiveOptions} [opts] The options.
+ *
+ * @returns {Promise<string[]>} The promise with the paths inside the archive.
+ */
+export declare function createArchive(file: string, patterns: string | string[], opts?: CreateArchiveOptions): Promise<string[]>;
+/**
+ * Extracts an archive.
+ *
+ * The paths of the entries are checked, so nothing can be written outside of the target directory.
+ * Symbolic links and other special entries are skipped.
+ * Errors have a 'code' property: 'EARCHIVELIMIT', 'EBADARCHIVE' or 'EUNSAFEPATH'.
+ *
+ * @param {string} file The path of the archive.
+ * @param {string} dest The target directory.
+ * @param {ExtractArchiveOptions} [opts] The options.
+ *
+ * @returns {Promise<string[]>} The promise with the paths of the extracted files.
+ */
+export declare function extractArchive(file: string, dest: string, opts?: ExtractArchiveOptions): Promise<string[]>;
@@ -0,0 +1,1201 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as fs from 'fs';
+import * as Glob from 'glob';
+import * as Path from 'path';
+import * as TB from './index';
+import * as zlib from 'zlib';
+
+
+/**
+ * Possible formats of an archive.
+ */
+export type ArchiveFormat = 'tar' | 'tgz' | 'zip';
+
+/**
+ * Options for 'createArchive()'.
+ */
+export interface CreateArchiveOptions {
+    /**
+     * The directory, the patterns and the paths inside the archive are relative to. Default: current directory
+     */
+    cwd?: string;
+    /**
+     * The format. Default: detected by the extension of the archive
+     */
+    format?: ArchiveFormat;
+    /**
+     * Additional options for the patterns (s. 'glob()').
+     */
+    glob?: Glob.IOptions;
+    /**
+     * The compression level (0 - 9) for tar.gz and zip. Default: 6
+     */
+    level?: number;
+    /**
+     * A prefix for all paths inside the archive, like 'my-app-1.0.0/'.
+     */
+    prefix?: string;
+    /**
+     * A function, which returns the path inside the archive for a relative path.
+     * If it returns an empty value, the file is skipped.
+     */
+    rewrite?: (path: string) => string;
+}
+
+/**
+ * Options for 'extractArchive()'.
+ */
+export interface ExtractArchiveOptions {
+    /**
+     * The format. Default: detected by the extension or the magic bytes of the archive
+     */
+    format?: ArchiveFormat;
+    /**
+     * The maximum number of entries. Default: 10000
+     */
+    maxEntries?: number;
+    /**
+     * The maximum ratio between the extracted data and the archive,
+     * which is checked after more than 1 MB has been extracted. Default: 100
+     */
+    maxRatio?: number;
+    /**
+     * The maximum size of the extracted data, in bytes. Default: 1 GB
+     */
+    maxSize?: number;
+    /**
+     * Overwrite existing files or not. Default: (true)
+     */
+    overwrite?: boolean;
+    /**
+     * The number of leading path components to remove. Default: 0
+     */
+    strip?: number;
+}
+
+
+interface ArchiveSink {
+    bytesWritten: number;
+    end(): Promise<any>;
+    write(data: Buffer): Promise<any>;
+}
+
+interface ExtractContext {
+    archiveSize: number;
+    dest: string;
+    extracted: string[];
+    maxEntries: number;
+    maxRatio: number;
+    maxSize: number;
+    overwrite: boolean;
+    strip: number;
+    totalEntries: number;
+    totalSize: number;
+}
+
+interface TarEntry {
+    mode: number;
+    mtime: number;
+    name: string;
+    size: number;
+    type: string;
+}
+
+interface ZipEntry {
+    compressedSize: number;
+    crc32: number;
+    flags: number;
+    localHeaderOffset: number;
+    method: number;
+    name: string;
+    size: number;
+}
+
+
+const CRC32_TABLE = createCrc32Table();
+/**
+ * The size of extracted data, after which the ratio is checked.
+ */
+const RATIO_CHECK_SIZE = 1024 * 1024;
+const TAR_BLOCK_SIZE = 512;
+
+
+function checkLimits(ctx: ExtractContext, additionalBytes: number) {
+    ctx.totalSize += additionalBytes;
+
+    if (ctx.totalSize > ctx.maxSize) {
+        throw createArchiveError(`Archive contains more than ${ctx.maxSize} bytes!`, 'EARCHIVELIMIT');
+    }
+
+    if (ctx.totalSize > RATIO_CHECK_SIZE && ctx.totalSize > ctx.archiveSize * ctx.maxRatio) {
+        throw createArchiveError(`Compression ratio of archive is higher than ${ctx.maxRatio}!`, 'EARCHIVELIMIT');
+    }
+}
+
+function createArchiveError(msg: string, code: string): any {
+    let err: any = new Error(msg);
+    err.code = code;
+
+    return err;
+}
+
+function createCrc32Table(): number[] {
+    let table: number[] = [];
+
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+
+        table.push(c >>> 0);
+    }
+
+    return table;
+}
+
+function createTarHeader(name: string, size: number, mode: number, mtime: Date, type = '0'): Buffer {
+    let header = Buffer.alloc(TAR_BLOCK_SIZE);
+
+    // names, which do not fit, are stored in a PAX header
+    let splitted = splitTarName(name) || {
+        name: Buffer.from(name, 'utf8').slice(0, 100),
+        prefix: Buffer.alloc(0),
+    };
+
+    splitted.name.copy(header, 0);
+    writeOctal(header, mode & 0o7777, 100, 8);
+    writeOctal(header, 0, 108, 8);  // uid
+    writeOctal(header, 0, 116, 8);  // gid
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write('        ', 148, 8, 'ascii');  // checksum placeholder
+    header.write(type, 156, 1, 'ascii');
+    header.write('ustar\u000000', 257, 8, 'ascii');
+    splitted.prefix.copy(header, 345);
+
+    let checksum = 0;
+    for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+        checksum += header[i];
+    }
+    header.write(toOctalString(checksum, 6) + '\u0000 ', 148, 8, 'ascii');
+
+    return header;
+}
+
+function detectArchiveFormat(file: string, format: string): Promise<ArchiveFormat> {
+    format = TB.normalizeString(format);
+    if ('' !== format) {
+        return Promise.resolve(toArchiveFormat(format, file));
+    }
+
+    let name = TB.normalizeString(Path.basename(file));
+    if (/\.(tar\.gz|tgz)$/.test(name)) {
+        return Promise.resolve<ArchiveFormat>('tgz');
+    }
+    if (/\.tar$/.test(name)) {
+        return Promise.resolve<ArchiveFormat>('tar');
+    }
+    if (/\.zip$/.test(name)) {
+        return Promise.resolve<ArchiveFormat>('zip');
+    }
+
+    // magic bytes
+    return TB.detectContent(file).then((info) => {
+        if ('magic' === info.detector) {
+            switch (info.extension) {
+                case 'gz':
+                    return toArchiveFormat('tgz', file);
+
+                case 'tar':
+                case 'zip':
+                    return toArchiveFormat(info.extension, file);
+            }
+        }
+
+        return toArchiveFormat(null, file);
+    });
+}
+
+function extractTar(file: string, gzipped: boolean, ctx: ExtractContext): Promise<any> {
+    let input: NodeJS.ReadableStream = fs.createReadStream(file);
+    if (gzipped) {
+        let gunzip = zlib.createGunzip();
+        input.once('error', (err: any) => gunzip.emit('error', err));
+
+        input = input.pipe(gunzip);
+    }
+
+    let header = Buffer.alloc(0);
+    let entry: TarEntry;
+    let fd: number;
+    let metaData: Buffer[];
+    let remaining = 0;
+    let skip = 0;
+    let longName: string;
+    let isEnd = false;
+
+    let close = TB.promisify<any>(fs.close);
+    let write = TB.promisify<number>(fs.write);
+
+    let finishEntry = (): Promise<any> => {
+        let finishedEntry = entry;
+        entry = null;
+
+        if (metaData) {
+            let data = Buffer.concat(metaData).toString('utf8');
+            metaData = null;
+
+            if ('L' === finishedEntry.type) {
+                // GNU long name
+                longName = data.replace(/\u0000+$/, '');
+            }
+            else {
+                // PAX header
+                let match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data);
+                if (match) {
+                    longName = match[1];
+                }
+            }
+
+            return Promise.resolve();
+        }
+
+        if (TB.isNullOrUndefined(fd)) {
+            return Promise.resolve();
+        }
+
+        let fileFd = fd;
+        fd = undefined;
+
+        return close(fileFd).then(() => {
+            let target = ctx.extracted[ctx.extracted.length - 1];
+            return TB.promisify<any>(fs.utimes)(target, finishedEntry.mtime, finishedEntry.mtime);
+        });
+    };
+
+    let startEntry = (): Promise<any> => {
+        if (header.every(b => 0 === b)) {
+            isEnd = true;
+            return Promise.resolve();
+        }
+
+        entry = parseTarHeader(header);
+        header = Buffer.alloc(0);
+
+        remaining = entry.size;
+        skip = (TAR_BLOCK_SIZE - entry.size % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE;
+
+        if ('x' === entry.type || 'L' === entry.type) {
+            if (entry.size > RATIO_CHECK_SIZE) {
+                throw createArchiveError('Invalid tar header!', 'EBADARCHIVE');
+            }
+
+            metaData = [];
+            return Promise.resolve();
+        }
+
+        let name = entry.name;
+        if (!TB.isNullOrUndefined(longName)) {
+            name = longName;
+            longName = undefined;
+        }
+
+        if ([ '0', '\u0000', '5' ].indexOf(entry.type) < 0) {
+            // links, devices, global headers, etc.
+            return Promise.resolve();
+        }
+
+        if (++ctx.totalEntries > ctx.maxEntries) {
+            throw createArchiveError(`Archive contains more than ${ctx.maxEntries} entries!`, 'EARCHIVELIMIT');
+        }
+
+        let target = resolveEntryPath(ctx, name);
+        if (!target) {
+            return Promise.resolve();
+        }
+
+        if ('5' === entry.type) {
+            return TB.mkdirs(target);
+        }
+
+        return openTargetFile(target, entry.mode, ctx).then((targetFd) => {
+            fd = targetFd;
+
+            if (!TB.isNullOrUndefined(fd)) {
+                ctx.extracted.push(target);
+            }
+
+            if (0 === remaining) {
+                return finishEntry();
+            }
+        });
+    };
+
+    let processChunk = (chunk: Buffer): Promise<any> => {
+        if (isEnd || chunk.length < 1) {
+            return Promise.resolve();
+        }
+
+        if (entry) {
+            let n = Math.min(remaining, chunk.length);
+            let data = chunk.slice(0, n);
+            remaining -= n;
+
+            let handleData: Promise<any>;
+            if (metaData) {
+                metaData.push(data);
+                handleData = Promise.resolve();
+            }
+            else if (!TB.isNullOrUndefined(fd)) {
+                checkLimits(ctx, n);
+                handleData = write(fd, data, 0, data.length, null);
+            }
+            else {
+                handleData = Promise.resolve();
+            }
+
+            return handleData.then(() => {
+                if (0 === remaining) {
+                    return finishEntry();
+                }
+            }).then(() => {
+                return processChunk(chunk.slice(n));
+            });
+        }
+
+        // padding after the data of an entry
+        if (skip > 0) {
+            let n = Math.min(skip, chunk.length);
+            skip -= n;
+
+            return processChunk(chunk.slice(n));
+        }
+
+        let n = Math.min(TAR_BLOCK_SIZE - header.length, chunk.length);
+        header = Buffer.concat([ header, chunk.slice(0, n) ]);
+
+        let handleHeader = Promise.resolve();
+        if (TAR_BLOCK_SIZE === header.length) {
+            handleHeader = startEntry();
+        }
+
+        return handleHeader.then(() => {
+            return processChunk(chunk.slice(n));
+        });
+    };
+
+    return forEachChunk(input, processChunk).then(() => {
+        if (entry && !isEnd) {
+            throw createArchiveError('Unexpected end of archive!', 'EBADARCHIVE');
+        }
+    }, (err) => {
+        if (!TB.isNullOrUndefined(fd)) {
+            return close(fd).catch(() => { }).then(() => {
+                throw err;
+            });
+        }
+
+        throw err;
+    });
+}
+
+function extractZip(file: string, ctx: ExtractContext): Promise<any> {
+    let open = TB.promisify<number>(fs.open);
+    let close = TB.promisify<any>(fs.close);
+
+    let fd: number;
+
+    return open(file, 'r').then((zipFd) => {
+        fd = zipFd;
+
+        return readZipEntries(fd, ctx.archiveSize);
+    }).then((entries) => {
+        if (entries.length > ctx.maxEntries) {
+            throw createArchiveError(`Archive contains more than ${ctx.maxEntries} entries!`, 'EARCHIVELIMIT');
+        }
+
+        let declaredSize = entries.map(e => e.size).reduce((x, y) => x + y, 0);
+        if (declaredSize > ctx.maxSize) {
+            throw createArchiveError(`Archive contains more than ${ctx.maxSize} bytes!`, 'EARCHIVELIMIT');
+        }
+
+        return TB.eachSeries(entries, (e) => {
+            ++ctx.totalEntries;
+
+            return extractZipEntry(file, fd, e, ctx);
+        });
+    }).then(() => {
+        return close(fd);
+    }, (err) => {
+        let cleanup = Promise.resolve();
+        if (!TB.isNullOrUndefined(fd)) {
+            cleanup = close(fd).catch(() => { });
+        }
+
+        return cleanup.then(() => {
+            throw err;
+        });
+    });
+}
+
+function extractZipEntry(file: string, zipFd: number, entry: ZipEntry, ctx: ExtractContext): Promise<any> {
+    if (entry.flags & 0x01) {
+        return Promise.reject(createArchiveError(`'${entry.name}' is encrypted!`, 'EBADARCHIVE'));
+    }
+
+    if (0 !== entry.method && 8 !== entry.method) {
+        return Promise.reject(createArchiveError(`Compression method ${entry.method} of '${entry.name}' is NOT supported!`, 'EBADARCHIVE'));
+    }
+
+    let target = resolveEntryPath(ctx, entry.name);
+    if (!target) {
+        return Promise.resolve();
+    }
+
+    if (/\/$/.test(entry.name)) {
+        return TB.mkdirs(target);
+    }
+
+    let close = TB.promisify<any>(fs.close);
+    let write = TB.promisify<number>(fs.write);
+
+    let fd: number;
+    let crc = 0;
+    let size = 0;
+
+    return readAt(zipFd, entry.localHeaderOffset, 30).then((localHeader) => {
+        if (0x04034b50 !== localHeader.readUInt32LE(0)) {
+            throw createArchiveError(`Invalid local header of '${entry.name}'!`, 'EBADARCHIVE');
+        }
+
+        let dataOffset = entry.localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+        return openTargetFile(target, 0o644, ctx).then((targetFd) => {
+            fd = targetFd;
+            if (TB.isNullOrUndefined(fd)) {
+                return;
+            }
+
+            ctx.extracted.push(target);
+
+            if (entry.compressedSize < 1) {
+                return;
+            }
+
+            let input: NodeJS.ReadableStream = fs.createReadStream(file, {
+                end: dataOffset + entry.compressedSize - 1,
+                start: dataOffset,
+            });
+            if (8 === entry.method) {
+                let inflate = zlib.createInflateRaw();
+                input.once('error', (err: any) => inflate.emit('error', err));
+
+                input = input.pipe(inflate);
+            }
+
+            return forEachChunk(input, (chunk) => {
+                size += chunk.length;
+                if (size > entry.size) {
+                    // the header lies about the size
+                    throw createArchiveError(`'${entry.name}' is larger than declared!`, 'EARCHIVELIMIT');
+                }
+
+                checkLimits(ctx, chunk.length);
+                crc = updateCrc32(crc, chunk);
+
+                return write(fd, chunk, 0, chunk.length, null);
+            });
+        });
+    }).then(() => {
+        if (TB.isNullOrUndefined(fd)) {
+            return;
+        }
+
+        if (size !== entry.size || crc !== entry.crc32) {
+            throw createArchiveError(`'${entry.name}' is corrupt!`, 'EBADARCHIVE');
+        }
+    }).then(() => {
+        if (!TB.isNullOrUndefined(fd)) {
+            return close(fd);
+        }
+    }, (err) => {
+        let cleanup = Promise.resolve();
+        if (!TB.isNullOrUndefined(fd)) {
+            cleanup = close(fd).catch(() => { });
+        }
+
+        return cleanup.then(() => {
+            throw err;
+        });
+    });
+}
+
+function forEachChunk(stream: NodeJS.ReadableStream, action: (chunk: Buffer) => any): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let failed = false;
+        let fail = (err: any) => {
+            if (!failed) {
+                failed = true;
+
+                stream.removeAllListeners('data');
+                if ('function' === typeof (<any>stream).destroy) {
+                    (<any>stream).destroy();
+                }
+
+                reject(err);
+            }
+        };
+
+        // 'end' can be emitted, before the action for the last chunk has been finished
+        let pending = Promise.resolve();
+
+        stream.on('data', (chunk: Buffer) => {
+            stream.pause();
+
+            pending = pending.then(() => action(chunk)).then(() => {
+                if (!failed) {
+                    stream.resume();
+                }
+            }, fail);
+        });
+        stream.once('end', () => {
+            pending.then(() => {
+                if (!failed) {
+                    resolve();
+                }
+            });
+        });
+        stream.once('error', fail);
+    });
+}
+
+function openSink(file: string, gzip: boolean, level: number): Promise<ArchiveSink> {
+    return TB.mkdirs(Path.dirname(file)).then(() => {
+        let out = fs.createWriteStream(file);
+
+        let target: NodeJS.WritableStream = out;
+        if (gzip) {
+            let gzipStream = zlib.createGzip({
+                level: level,
+            });
+            gzipStream.pipe(out);
+
+            target = gzipStream;
+        }
+
+        let onError: (err: any) => void;
+        let failed = new Promise<any>((resolve, reject) => {
+            onError = reject;
+        });
+        failed.catch(() => { });  // handled by the callers
+
+        out.once('error', onError);
+        target.once('error', onError);
+
+        let sink: ArchiveSink = {
+            bytesWritten: 0,
+            end: () => {
+                return Promise.race([
+                    new Promise<any>((resolve) => {
+                        out.once('close', resolve);
+                        target.end();
+                    }),
+                    failed,
+                ]);
+            },
+            write: (data) => {
+                sink.bytesWritten += data.length;
+
+                return Promise.race([
+                    new Promise<any>((resolve) => {
+                        if (target.write(data)) {
+                            resolve();
+                        }
+                        else {
+                            target.once('drain', resolve);
+                        }
+                    }),
+                    failed,
+                ]);
+            },
+        };
+
+        return sink;
+    });
+}
+
+function openTargetFile(target: string, mode: number, ctx: ExtractContext): Promise<number> {
+    return TB.mkdirs(Path.dirname(target)).then(() => {
+        return TB.promisify<number>(fs.open)(target, ctx.overwrite ? 'w' : 'wx', (mode & 0o777) || 0o644);
+    }).catch((err) => {
+        if ('EEXIST' === err.code && !ctx.overwrite) {
+            return undefined;  // keep existing file
+        }
+
+        throw err;
+    });
+}
+
+function parseTarHeader(header: Buffer): TarEntry {
+    let checksum = 0;
+    for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+        checksum += (i >= 148 && i < 156) ? 0x20 : header[i];
+    }
+
+    if (checksum !== readOctal(header, 148, 8)) {
+        throw createArchiveError('Invalid tar header!', 'EBADARCHIVE');
+    }
+
+    let name = readString(header, 0, 100);
+    if ('ustar' === readString(header, 257, 6)) {
+        let prefix = readString(header, 345, 155);
+        if ('' !== prefix) {
+            name = prefix + '/' + name;
+        }
+    }
+
+    return {
+        mode: readOctal(header, 100, 8),
+        mtime: readOctal(header, 136, 12),
+        name: name,
+        size: readOctal(header, 124, 12),
+        type: String.fromCharCode(header[156]),
+    };
+}
+
+function readAt(fd: number, position: number, length: number): Promise<Buffer> {
+    let buffer = Buffer.alloc(length);
+
+    return TB.promisify<number>(fs.read)(fd, buffer, 0, length, position).then((bytesRead) => {
+        return buffer.slice(0, bytesRead);
+    });
+}
+
+function readOctal(buffer: Buffer, offset: number, length: number): number {
+    if (buffer[offset] & 0x80) {
+        // GNU base-256 encoding
+        let value = 0;
+        for (let i = offset + 1; i < offset + length; i++) {
+            value = value * 256 + buffer[i];
+        }
+
+        return value;
+    }
+
+    let value = parseInt(readString(buffer, offset, length).trim() || '0', 8);
+    if (isNaN(value)) {
+        throw createArchiveError('Invalid tar header!', 'EBADARCHIVE');
+    }
+
+    return value;
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+    let data = buffer.slice(offset, offset + length);
+
+    let end = data.indexOf(0);
+    if (end > -1) {
+        data = data.slice(0, end);
+    }
+
+    return data.toString('utf8');
+}
+
+function readZipEntries(fd: number, archiveSize: number): Promise<ZipEntry[]> {
+    // end of central directory: 22 bytes + comment (max. 65535 bytes)
+    let tailSize = Math.min(archiveSize, 22 + 65535);
+
+    return readAt(fd, archiveSize - tailSize, tailSize).then((tail) => {
+        let eocd = -1;
+        for (let i = tail.length - 22; i >= 0; i--) {
+            if (0x06054b50 === tail.readUInt32LE(i)) {
+                eocd = i;
+                break;
+            }
+        }
+
+        if (eocd < 0) {
+            throw createArchiveError('Invalid zip archive!', 'EBADARCHIVE');
+        }
+
+        let count = tail.readUInt16LE(eocd + 10);
+        let cdSize = tail.readUInt32LE(eocd + 12);
+        let cdOffset = tail.readUInt32LE(eocd + 16);
+
+        if (0xFFFF === count || 0xFFFFFFFF === cdOffset) {
+            throw createArchiveError('ZIP64 archives are NOT supported!', 'EBADARCHIVE');
+        }
+
+        return readAt(fd, cdOffset, cdSize).then((cd) => {
+            let entries: ZipEntry[] = [];
+
+            let pos = 0;
+            for (let i = 0; i < count; i++) {
+                if (pos + 46 > cd.length || 0x02014b50 !== cd.readUInt32LE(pos)) {
+                    throw createArchiveError('Invalid central directory!', 'EBADARCHIVE');
+                }
+
+                let flags = cd.readUInt16LE(pos + 8);
+                let nameLength = cd.readUInt16LE(pos + 28);
+                let extraLength = cd.readUInt16LE(pos + 30);
+                let commentLength = cd.readUInt16LE(pos + 32);
+
+                let nameBytes = cd.slice(pos + 46, pos + 46 + nameLength);
+
+                entries.push({
+                    compressedSize: cd.readUInt32LE(pos + 20),
+                    crc32: cd.readUInt32LE(pos + 16),
+                    flags: flags,
+                    localHeaderOffset: cd.readUInt32LE(pos + 42),
+                    method: cd.readUInt16LE(pos + 10),
+                    // bit 11 => UTF-8, otherwise code page 437, which is compatible for ASCII names
+                    name: nameBytes.toString((flags & 0x0800) ? 'utf8' : 'latin1'),
+                    size: cd.readUInt32LE(pos + 24),
+                });
+
+                pos += 46 + nameLength + extraLength + commentLength;
+            }
+
+            return entries;
+        });
+    });
+}
+
+function resolveEntryPath(ctx: ExtractContext, name: string): string {
+    name = TB.toStringSafe(name).split('\\').join('/');
+
+    if (/^[a-z]:/i.test(name) || /^\//.test(name)) {
+        throw createArchiveError(`Absolute path '${name}' is NOT allowed!`, 'EUNSAFEPATH');
+    }
+
+    let parts = name.split('/').filter(p => '' !== p && '.' !== p);
+    if (parts.indexOf('..') > -1) {
+        throw createArchiveError(`Path '${name}' is outside of the target directory!`, 'EUNSAFEPATH');
+    }
+
+    parts = parts.slice(ctx.strip);
+    if (parts.length < 1) {
+        return null;
+    }
+
+    let target = Path.resolve.apply(null, [ ctx.dest ].concat(parts));
+    if (0 !== target.indexOf(ctx.dest + Path.sep)) {
+        throw createArchiveError(`Path '${name}' is outside of the target directory!`, 'EUNSAFEPATH');
+    }
+
+    return target;
+}
+
+function splitTarName(name: string): { name: Buffer, prefix: Buffer } {
+    let nameBytes = Buffer.from(name, 'utf8');
+    if (nameBytes.length <= 100) {
+        return {
+            name: nameBytes,
+            prefix: Buffer.alloc(0),
+        };
+    }
+
+    let parts = name.split('/');
+    for (let i = 1; i < parts.length; i++) {
+        let prefix = Buffer.from(parts.slice(0, i).join('/'), 'utf8');
+        let rest = Buffer.from(parts.slice(i).join('/'), 'utf8');
+
+        if (prefix.length <= 155 && rest.length <= 100) {
+            return {
+                name: rest,
+                prefix: prefix,
+            };
+        }
+    }
+
+    return null;
+}
+
+function toArchiveFormat(format: string, file: string): ArchiveFormat {
+    switch (TB.normalizeString(format)) {
+        case 'tar':
+            return 'tar';
+
+        case 'tar.gz':
+        case 'tgz':
+            return 'tgz';
+
+        case 'zip':
+            return 'zip';
+    }
+
+    throw createArchiveError(`Could not detect archive format of '${file}'!`, 'EBADARCHIVE');
+}
+
+function toDosDateTime(date: Date): { date: number, time: number } {
+    let year = Math.max(1980, date.getFullYear());
+
+    return {
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    };
+}
+
+function toOctalString(value: number, length: number): string {
+    let str = value.toString(8);
+    while (str.length < length) {
+        str = '0' + str;
+    }
+
+    return str;
+}
+
+function updateCrc32(crc: number, data: Buffer): number {
+    crc = (crc ^ 0xFFFFFFFF) >>> 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function writeOctal(buffer: Buffer, value: number, offset: number, length: number) {
+    let str = toOctalString(value, length - 1);
+    if (str.length > length - 1) {
+        throw createArchiveError(`Value ${value} is too large for a tar header!`, 'EARCHIVELIMIT');
+    }
+
+    buffer.write(str + '\u0000', offset, length, 'ascii');
+}
+
+function writeTar(sink: ArchiveSink, files: { name: string, path: string, stats: fs.Stats }[]): Promise<any> {
+    return TB.eachSeries(files, (f) => {
+        let writeHeader: Promise<any>;
+        if (!splitTarName(f.name)) {
+            // too long for name and prefix => PAX header
+            // with a record like '<length> path=<name>\n', where the length includes itself
+            let record = ` path=${f.name}\n`;
+            let recordLength = Buffer.byteLength(record, 'utf8');
+
+            let length = recordLength + TB.toStringSafe(recordLength).length;
+            if (TB.toStringSafe(length).length > TB.toStringSafe(recordLength).length) {
+                ++length;
+            }
+
+            let pax = Buffer.from(length + record, 'utf8');
+
+            writeHeader = sink.write(createTarHeader('PaxHeader', pax.length, 0o644, f.stats.mtime, 'x')).then(() => {
+                return writeTarData(sink, pax);
+            }).then(() => {
+                return sink.write(createTarHeader(f.name, f.stats.size, f.stats.mode, f.stats.mtime));
+            });
+        }
+        else {
+            writeHeader = sink.write(createTarHeader(f.name, f.stats.size, f.stats.mode, f.stats.mtime));
+        }
+
+        return writeHeader.then(() => {
+            let size = 0;
+
+            return forEachChunk(fs.createReadStream(f.path), (chunk) => {
+                size += chunk.length;
+
+                return sink.write(chunk);
+            }).then(() => {
+                if (size !== f.stats.size) {
+                    throw new Error(`'${f.path}' has been changed while creating the archive!`);
+                }
+
+                return writeTarPadding(sink, size);
+            });
+        });
+    }).then(() => {
+        // end of archive
+        return sink.write(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+    });
+}
+
+function writeTarData(sink: ArchiveSink, data: Buffer): Promise<any> {
+    return sink.write(data).then(() => {
+        return writeTarPadding(sink, data.length);
+    });
+}
+
+function writeTarPadding(sink: ArchiveSink, size: number): Promise<any> {
+    let padding = (TAR_BLOCK_SIZE - size % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE;
+    if (padding > 0) {
+        return sink.write(Buffer.alloc(padding));
+    }
+
+    return Promise.resolve();
+}
+
+function writeZip(sink: ArchiveSink, files: { name: string, path: string, stats: fs.Stats }[], level: number): Promise<any> {
+    if (files.length > 0xFFFF) {
+        return Promise.reject(createArchiveError('ZIP64 archives are NOT supported!', 'EARCHIVELIMIT'));
+    }
+
+    let centralDirectory: Buffer[] = [];
+
+    return TB.eachSeries(files, (f) => {
+        let name = Buffer.from(f.name, 'utf8');
+        let dosTime = toDosDateTime(f.stats.mtime);
+        let offset = sink.bytesWritten;
+
+        // bit 3 => sizes and CRC follow the data
+        // bit 11 => UTF-8 names
+        let flags = 0x0808;
+
+        let localHeader = Buffer.alloc(30);
+        localHeader.writeUInt32LE(0x04034b50, 0);
+        localHeader.writeUInt16LE(20, 4);
+        localHeader.writeUInt16LE(flags, 6);
+        localHeader.writeUInt16LE(8, 8);  // deflate
+        localHeader.writeUInt16LE(dosTime.time, 10);
+        localHeader.writeUInt16LE(dosTime.date, 12);
+        localHeader.writeUInt16LE(name.length, 26);
+
+        let crc = 0;
+        let size = 0;
+        let compressedSize = 0;
+
+        return sink.write(Buffer.concat([ localHeader, name ])).then(() => {
+            let input = fs.createReadStream(f.path);
+            let deflate = zlib.createDeflateRaw({
+                level: level,
+            });
+
+            input.on('data', (chunk: Buffer) => {
+                crc = updateCrc32(crc, chunk);
+                size += chunk.length;
+            });
+            input.once('error', (err: any) => deflate.emit('error', err));
+
+            return forEachChunk(input.pipe(deflate), (chunk) => {
+                compressedSize += chunk.length;
+
+                return sink.write(chunk);
+            });
+        }).then(() => {
+            if (size > 0xFFFFFFFE || sink.bytesWritten > 0xFFFFFFFE) {
+                throw createArchiveError('ZIP64 archives are NOT supported!', 'EARCHIVELIMIT');
+            }
+
+            let descriptor = Buffer.alloc(16);
+            descriptor.writeUInt32LE(0x08074b50, 0);
+            descriptor.writeUInt32LE(crc, 4);
+            descriptor.writeUInt32LE(compressedSize, 8);
+            descriptor.writeUInt32LE(size, 12);
+
+            let entry = Buffer.alloc(46);
+            entry.writeUInt32LE(0x02014b50, 0);
+            entry.writeUInt16LE((3 << 8) | 20, 4);  // made by UNIX
+            entry.writeUInt16LE(20, 6);
+            entry.writeUInt16LE(flags, 8);
+            entry.writeUInt16LE(8, 10);
+            entry.writeUInt16LE(dosTime.time, 12);
+            entry.writeUInt16LE(dosTime.date, 14);
+            entry.writeUInt32LE(crc, 16);
+            entry.writeUInt32LE(compressedSize, 20);
+            entry.writeUInt32LE(size, 24);
+            entry.writeUInt16LE(name.length, 28);
+            entry.writeUInt32LE(((f.stats.mode & 0xFFFF) << 16) >>> 0, 38);
+            entry.writeUInt32LE(offset, 42);
+
+            centralDirectory.push(entry, name);
+
+            return sink.write(descriptor);
+        });
+    }).then(() => {
+        let cd = Buffer.concat(centralDirectory);
+        let cdOffset = sink.bytesWritten;
+
+        let eocd = Buffer.alloc(22);
+        eocd.writeUInt32LE(0x06054b50, 0);
+        eocd.writeUInt16LE(files.length, 8);
+        eocd.writeUInt16LE(files.length, 10);
+        eocd.writeUInt32LE(cd.length, 12);
+        eocd.writeUInt32LE(cdOffset, 16);
+
+        return sink.write(Buffer.concat([ cd, eocd ]));
+    });
+}
+
+
+/**
+ * Creates an archive.
+ * 
+ * @param {string} file The path of the archive.
+ * @param {string|string[]} patterns One or more file or pattern (s. 'glob()').
+ * @param {CreateArchiveOptions} [opts] The options.
+ * 
+ * @returns {Promise<string[]>} The promise with the paths inside the archive.
+ */
+export function createArchive(file: string, patterns: string | string[], opts?: CreateArchiveOptions): Promise<string[]> {
+    if (!opts) {
+        opts = {};
+    }
+
+    file = Path.resolve(TB.toStringSafe(file));
+
+    let cwd = Path.resolve(TB.toStringSafe(opts.cwd) || process.cwd());
+    let prefix = TB.toStringSafe(opts.prefix).split('\\').join('/');
+
+    let level = parseInt(TB.toStringSafe(opts.level).trim());
+    if (isNaN(level)) {
+        level = 6;
+    }
+
+    let globOpts: Glob.IOptions = {};
+    for (let p in opts.glob || {}) {
+        (<any>globOpts)[p] = (<any>opts.glob)[p];
+    }
+    globOpts.cwd = cwd;
+    globOpts.nodir = true;
+
+    let format: ArchiveFormat;
+    let files: { name: string, path: string, stats: fs.Stats }[] = [];
+    let sink: ArchiveSink;
+
+    return new Promise<ArchiveFormat>((resolve, reject) => {
+        try {
+            resolve(toArchiveFormat(TB.toStringSafe(opts.format) ||
+                                    (/\.(tar\.gz|tgz)$/i.test(file) ? 'tgz' : Path.extname(file).substr(1)), file));
+        }
+        catch (e) {
+            reject(e);
+        }
+    }).then((f) => {
+        format = f;
+
+        return TB.glob(patterns, globOpts);
+    }).then((matches) => {
+        return TB.eachSeries(matches.sort(), (m) => {
+            let path = Path.resolve(cwd, m);
+            if (path === file) {
+                return;  // the archive itself
+            }
+
+            let name = Path.relative(cwd, path).split(Path.sep).join('/');
+            if (opts.rewrite) {
+                name = TB.toStringSafe(opts.rewrite(name)).split('\\').join('/');
+                if ('' === name.trim()) {
+                    return;
+                }
+            }
+            name = (prefix + name).replace(/^\/+/, '');
+
+            return TB.promisify<fs.Stats>(fs.stat)(path).then((stats) => {
+                files.push({
+                    name: name,
+                    path: path,
+                    stats: stats,
+                });
+            });
+        });
+    }).then(() => {
+        return openSink(file, 'tgz' === format, level);
+    }).then((s) => {
+        sink = s;
+
+        if ('zip' === format) {
+            return writeZip(sink, files, level);
+        }
+
+        return writeTar(sink, files);
+    }).then(() => {
+        return sink.end();
+    }).then(() => {
+        return files.map(f => f.name);
+    }, (err) => {
+        let cleanup = Promise.resolve();
+        if (sink) {
+            cleanup = sink.end().catch(() => { }).then(() => {
+                return TB.remove(file);
+            }).catch(() => { });
+        }
+
+        return cleanup.then(() => {
+            throw err;
+        });
+    });
+}
+
+/**
+ * Extracts an archive.
+ * 
+ * The paths of the entries are checked, so nothing can be written outside of the target directory.
+ * Symbolic links and other special entries are skipped.
+ * Errors have a 'code' property: 'EARCHIVELIMIT', 'EBADARCHIVE' or 'EUNSAFEPATH'.
+ * 
+ * @param {string} file The path of the archive.
+ * @param {string} dest The target directory.
+ * @param {ExtractArchiveOptions} [opts] The options.
+ * 
+ * @returns {Promise<string[]>} The promise with the paths of the extracted files.
+ */
+export function extractArchive(file: string, dest: string, opts?: ExtractArchiveOptions): Promise<string[]> {
+    if (!opts) {
+        opts = {};
+    }
+
+    file = Path.resolve(TB.toStringSafe(file));
+
+    let toNumber = (val: any, defValue: number) => {
+        let n = parseFloat(TB.toStringSafe(val).trim());
+
+        return isNaN(n) ? defValue : n;
+    };
+
+    let ctx: ExtractContext = {
+        archiveSize: undefined,
+        dest: Path.resolve(TB.toStringSafe(dest)),
+        extracted: [],
+        maxEntries: toNumber(opts.maxEntries, 10000),
+        maxRatio: toNumber(opts.maxRatio, 100),
+        maxSize: toNumber(opts.maxSize, 1024 * 1024 * 1024),
+        overwrite: TB.toBooleanSafe(opts.overwrite, true),
+        strip: Math.max(0, toNumber(opts.strip, 0)),
+        totalEntries: 0,
+        totalSize: 0,
+    };
+
+    let format: ArchiveFormat;
+
+    return TB.promisify<fs.Stats>(fs.stat)(file).then((stats) => {
+        ctx.archiveSize = stats.size;
+
+        return detectArchiveFormat(file, opts.format);
+    }).then((f) => {
+        format = f;
+
+        return TB.mkdirs(ctx.dest);
+    }).then(() => {
+        if ('zip' === format) {
+            return extractZip(file, ctx);
+        }
+
+        return extractTar(file, 'tgz' === format, ctx);
+    }).then(() => {
+        return ctx.extracted;
+    });
+}
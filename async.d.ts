@@ -0,0 +1,241 @@
+/**
+ * A cancellation token.
+ */
+export interface CancellationToken {
+    /**
+     * Gets if cancellation has been requested or not.
+     */
+    readonly isCancellationRequested: boolean;
+    /**
+     * Registers a listener, which is invoked when cancellation is requested.
+     * If cancellation has already been requested, the listener is invoked immediately.
+     *
+     * @param {Function} listener The listener.
+     *
+     * @returns {Function} The function, which unregisters the listener.
+     */
+    onCancellationRequested(listener: (reason: any) => void): () => void;
+    /**
+     * Gets the reason of the cancellation.
+     */
+    readonly reason: any;
+    /**
+     * Throws a cancellation error, if cancellation has been requested.
+     */
+    throwIfCancellationRequested(): void;
+}
+/**
+ * Options for 'retry()'.
+ */
+export interface RetryOptions {
+    /**
+     * The initial delay between two attempts, in milliseconds. Default: 100
+     */
+    delay?: number;
+    /**
+     * The factor, the delay is multiplied with after each attempt. Default: 2
+     */
+    factor?: number;
+    /**
+     * The relative amount of random jitter (0 - 1), which is applied to each delay. Default: 0
+     */
+    jitter?: number;
+    /**
+     * The maximum delay between two attempts, in milliseconds.
+     */
+    maxDelay?: number;
+    /**
+     * The maximum number of retries. Default: 3
+     */
+    retries?: number;
+    /**
+     * Checks if an error should be retried. Default: all errors are retried
+     *
+     * @param {any} err The error.
+     * @param {number} attempt The number of the failed attempt (beginning at 1).
+     *
+     * @returns {boolean} Retry or not.
+     */
+    shouldRetry?: (err: any, attempt: number) => boolean;
+    /**
+     * The cancellation token.
+     */
+    token?: CancellationToken;
+}
+/**
+ * A source of a cancellation token.
+ */
+export declare class CancellationTokenSource {
+    /**
+     * Stores if cancellation has been requested or not.
+     */
+    protected _isCancellationRequested: boolean;
+    /**
+     * Stores the listeners.
+     */
+    protected _listeners: ((reason: any) => void)[];
+    /**
+     * Stores the reason.
+     */
+    protected _reason: any;
+    /**
+     * Stores the token.
+     */
+    protected _token: CancellationToken;
+    /**
+     * Initializes a new instance of that class.
+     */
+    constructor();
+    /**
+     * Requests cancellation.
+     *
+     * @param {any} [reason] The reason.
+     *
+     * @chainable
+     */
+    cancel(reason?: any): this;
+    /**
+     * Gets the token.
+     */
+    readonly token: CancellationToken;
+}
+/**
+ * A semaphore, which limits the number of operations, which run at the same time.
+ */
+export declare class Semaphore {
+    /**
+     * Stores the number of acquired slots.
+     */
+    protected _acquired: number;
+    /**
+     * Stores the maximum number of slots.
+     */
+    protected _max: number;
+    /**
+     * Stores the waiting operations.
+     */
+    protected _waiting: (() => void)[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} [max] The maximum number of operations at the same time. Default: 1
+     */
+    constructor(max?: number);
+    /**
+     * Acquires a slot.
+     *
+     * @returns {Promise<Function>} The promise with the function, which releases the slot.
+     */
+    acquire(): Promise<() => void>;
+    /**
+     * Gets the number of available slots.
+     */
+    readonly available: number;
+    /**
+     * Runs an action inside a slot.
+     *
+     * @param {Function} action The action.
+     *
+     * @returns {Promise<T>} The promise with the result of the action.
+     */
+    use<T>(action: () => T | PromiseLike<T>): Promise<T>;
+    /**
+     * Gets the number of waiting operations.
+     */
+    readonly waiting: number;
+}
+/**
+ * A mutex, which allows only one operation at the same time.
+ */
+export declare class Mutex extends Semaphore {
+    /**
+     * Initializes a new instance of that class.
+     */
+    constructor();
+}
+/**
+ * Creates a function, which delays the invocation of another function until it has not been called for a while.
+ * All calls in between are fulfilled with the result of the final invocation.
+ *
+ * @param {Function} func The function to invoke.
+ * @param {number} wait The time to wait, in milliseconds.
+ *
+ * @returns {Function} The debounced function.
+ */
+export declare function debounce<TResult>(func: (...args: any[]) => TResult | PromiseLike<TResult>, wait: number): (...args: any[]) => Promise<TResult>;
+/**
+ * Returns a promise, which is fulfilled after a while.
+ *
+ * @param {number} ms The time to wait, in milliseconds.
+ * @param {T} [value] The value to fulfill the promise with.
+ * @param {CancellationToken} [token] The cancellation token.
+ *
+ * @returns {Promise<T>} The promise.
+ */
+export declare function delay<T>(ms: number, value?: T, token?: CancellationToken): Promise<T>;
+/**
+ * Invokes an async function for each item, one after another.
+ *
+ * @param {T[]} items The items.
+ * @param {Function} iterator The function to invoke.
+ * @param {CancellationToken} [token] The cancellation token.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function eachSeries<T>(items: T[], iterator: (item: T, index: number) => any, token?: CancellationToken): Promise<any>;
+/**
+ * Invokes an async function for each item, with a limited number of invocations at the same time.
+ *
+ * @param {T[]} items The items.
+ * @param {number} limit The maximum number of invocations at the same time.
+ * @param {Function} iterator The function to invoke.
+ * @param {CancellationToken} [token] The cancellation token.
+ *
+ * @returns {Promise<TResult[]>} The promise with the results, in the order of the items.
+ */
+export declare function mapLimit<T, TResult>(items: T[], limit: number, iterator: (item: T, index: number) => TResult | PromiseLike<TResult>, token?: CancellationToken): Promise<TResult[]>;
+/**
+ * Creates a new cancellation token source.
+ *
+ * @returns {CancellationTokenSource} The new source.
+ */
+export declare function newCancellationTokenSource(): CancellationTokenSource;
+/**
+ * Converts a function with a node-style callback (err, result) to a function, which returns a promise.
+ *
+ * @param {Function} func The function to convert.
+ * @param {any} [thisArg] The underlying object / value for the function.
+ *
+ * @returns {Function} The new function.
+ */
+export declare function promisify<TResult>(func: Function, thisArg?: any): (...args: any[]) => Promise<TResult>;
+/**
+ * Invokes an action and retries it if it fails.
+ *
+ * @param {Function} action The action, which receives the number of the attempt (beginning at 1).
+ * @param {RetryOptions} [opts] The options.
+ *
+ * @returns {Promise<T>} The promise with the result of the action.
+ */
+export declare function retry<T>(action: (attempt: number) => T | PromiseLike<T>, opts?: RetryOptions): Promise<T>;
+/**
+ * Creates a function, which invokes another function at most once in a period.
+ * Calls inside a period are fulfilled with the result of the next invocation at the end of the period,
+ * which uses the arguments of the latest call.
+ *
+ * @param {Function} func The function to invoke.
+ * @param {number} wait The length of a period, in milliseconds.
+ *
+ * @returns {Function} The throttled function.
+ */
+export declare function throttle<TResult>(func: (...args: any[]) => TResult | PromiseLike<TResult>, wait: number): (...args: any[]) => Promise<TResult>;
+/**
+ * Rejects if a promise or an action is not fulfilled in time.
+ *
+ * @param {PromiseLike<T>|Function} promiseOrAction The promise or the action, which returns the result.
+ * @param {number} ms The maximum time, in milliseconds.
+ * @param {string} [msg] The custom error message.
+ *
+ * @returns {Promise<T>} The promise with the result.
+ */
+export declare function timeout<T>(promiseOrAction: PromiseLike<T> | (() => T | PromiseLike<T>), ms: number, msg?: string): Promise<T>;
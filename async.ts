@@ -0,0 +1,681 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as TB from './index';
+
+
+/**
+ * A cancellation token.
+ */
+export interface CancellationToken {
+    /**
+     * Gets if cancellation has been requested or not.
+     */
+    readonly isCancellationRequested: boolean;
+    /**
+     * Registers a listener, which is invoked when cancellation is requested.
+     * If cancellation has already been requested, the listener is invoked immediately.
+     * 
+     * @param {Function} listener The listener.
+     * 
+     * @returns {Function} The function, which unregisters the listener.
+     */
+    onCancellationRequested(listener: (reason: any) => void): () => void;
+    /**
+     * Gets the reason of the cancellation.
+     */
+    readonly reason: any;
+    /**
+     * Throws a cancellation error, if cancellation has been requested.
+     */
+    throwIfCancellationRequested(): void;
+}
+
+/**
+ * Options for 'retry()'.
+ */
+export interface RetryOptions {
+    /**
+     * The initial delay between two attempts, in milliseconds. Default: 100
+     */
+    delay?: number;
+    /**
+     * The factor, the delay is multiplied with after each attempt. Default: 2
+     */
+    factor?: number;
+    /**
+     * The relative amount of random jitter (0 - 1), which is applied to each delay. Default: 0
+     */
+    jitter?: number;
+    /**
+     * The maximum delay between two attempts, in milliseconds.
+     */
+    maxDelay?: number;
+    /**
+     * The maximum number of retries. Default: 3
+     */
+    retries?: number;
+    /**
+     * Checks if an error should be retried. Default: all errors are retried
+     * 
+     * @param {any} err The error.
+     * @param {number} attempt The number of the failed attempt (beginning at 1).
+     * 
+     * @returns {boolean} Retry or not.
+     */
+    shouldRetry?: (err: any, attempt: number) => boolean;
+    /**
+     * The cancellation token.
+     */
+    token?: CancellationToken;
+}
+
+
+/**
+ * A source of a cancellation token.
+ */
+export class CancellationTokenSource {
+    /**
+     * Stores if cancellation has been requested or not.
+     */
+    protected _isCancellationRequested = false;
+    /**
+     * Stores the listeners.
+     */
+    protected _listeners: ((reason: any) => void)[] = [];
+    /**
+     * Stores the reason.
+     */
+    protected _reason: any;
+    /**
+     * Stores the token.
+     */
+    protected _token: CancellationToken;
+
+    /**
+     * Initializes a new instance of that class.
+     */
+    constructor() {
+        let me = this;
+
+        me._token = {
+            get isCancellationRequested() {
+                return me._isCancellationRequested;
+            },
+            onCancellationRequested: (listener) => {
+                if (me._isCancellationRequested) {
+                    listener(me._reason);
+
+                    return () => { };
+                }
+
+                me._listeners.push(listener);
+
+                return () => {
+                    let index = me._listeners.indexOf(listener);
+                    if (index > -1) {
+                        me._listeners.splice(index, 1);
+                    }
+                };
+            },
+            get reason() {
+                return me._reason;
+            },
+            throwIfCancellationRequested: () => {
+                if (me._isCancellationRequested) {
+                    throw createCancellationError(me._reason);
+                }
+            },
+        };
+    }
+
+    /**
+     * Requests cancellation.
+     * 
+     * @param {any} [reason] The reason.
+     * 
+     * @chainable
+     */
+    public cancel(reason?: any): this {
+        if (this._isCancellationRequested) {
+            return this;
+        }
+
+        this._isCancellationRequested = true;
+        this._reason = reason;
+
+        this._listeners.splice(0).forEach(l => {
+            try {
+                l(reason);
+            }
+            catch (e) {
+                console.log('[ERROR.ts-toolbox] CancellationTokenSource.cancel(): ' + e);
+            }
+        });
+
+        return this;
+    }
+
+    /**
+     * Gets the token.
+     */
+    public get token(): CancellationToken {
+        return this._token;
+    }
+}
+
+/**
+ * A semaphore, which limits the number of operations, which run at the same time.
+ */
+export class Semaphore {
+    /**
+     * Stores the number of acquired slots.
+     */
+    protected _acquired = 0;
+    /**
+     * Stores the maximum number of slots.
+     */
+    protected _max: number;
+    /**
+     * Stores the waiting operations.
+     */
+    protected _waiting: (() => void)[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {number} [max] The maximum number of operations at the same time. Default: 1
+     */
+    constructor(max = 1) {
+        max = parseInt(TB.toStringSafe(max).trim());
+        if (isNaN(max) || max < 1) {
+            max = 1;
+        }
+
+        this._max = max;
+    }
+
+    /**
+     * Acquires a slot.
+     * 
+     * @returns {Promise<Function>} The promise with the function, which releases the slot.
+     */
+    public acquire(): Promise<() => void> {
+        let me = this;
+
+        return new Promise<() => void>((resolve) => {
+            let grant = () => {
+                ++me._acquired;
+
+                let isReleased = false;
+                resolve(() => {
+                    if (isReleased) {
+                        return;
+                    }
+                    isReleased = true;
+
+                    --me._acquired;
+
+                    let next = me._waiting.shift();
+                    if (next) {
+                        next();
+                    }
+                });
+            };
+
+            if (me._acquired < me._max) {
+                grant();
+            }
+            else {
+                me._waiting.push(grant);
+            }
+        });
+    }
+
+    /**
+     * Gets the number of available slots.
+     */
+    public get available(): number {
+        return Math.max(0, this._max - this._acquired);
+    }
+
+    /**
+     * Runs an action inside a slot.
+     * 
+     * @param {Function} action The action.
+     * 
+     * @returns {Promise<T>} The promise with the result of the action.
+     */
+    public use<T>(action: () => T | PromiseLike<T>): Promise<T> {
+        let me = this;
+
+        return new Promise<T>((resolve, reject) => {
+            me.acquire().then((release) => {
+                invoke(action).then((result) => {
+                    release();
+                    resolve(result);
+                }, (err) => {
+                    release();
+                    reject(err);
+                });
+            });
+        });
+    }
+
+    /**
+     * Gets the number of waiting operations.
+     */
+    public get waiting(): number {
+        return this._waiting.length;
+    }
+}
+
+/**
+ * A mutex, which allows only one operation at the same time.
+ */
+export class Mutex extends Semaphore {
+    /**
+     * Initializes a new instance of that class.
+     */
+    constructor() {
+        super(1);
+    }
+}
+
+function createCancellationError(reason: any): any {
+    let err: any = new Error('Operation has been cancelled' + (TB.isNullOrUndefined(reason) ? '' : (': ' + reason)) + '!');
+    err.code = 'ECANCELED';
+    err.reason = reason;
+
+    return err;
+}
+
+function invoke<T>(action: () => T | PromiseLike<T>): Promise<T> {
+    try {
+        return TB.asPromise(action());
+    }
+    catch (e) {
+        return Promise.reject(e);
+    }
+}
+
+
+/**
+ * Creates a function, which delays the invocation of another function until it has not been called for a while.
+ * All calls in between are fulfilled with the result of the final invocation.
+ * 
+ * @param {Function} func The function to invoke.
+ * @param {number} wait The time to wait, in milliseconds.
+ * 
+ * @returns {Function} The debounced function.
+ */
+export function debounce<TResult>(func: (...args: any[]) => TResult | PromiseLike<TResult>, wait: number): (...args: any[]) => Promise<TResult> {
+    let timer: NodeJS.Timer;
+    let pending: { reject: (err: any) => void, resolve: (result: TResult) => void }[] = [];
+
+    return function() {
+        let thisArg = this;
+        let args = TB.toArray(arguments);
+
+        return new Promise<TResult>((resolve, reject) => {
+            pending.push({
+                reject: reject,
+                resolve: resolve,
+            });
+
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                let callers = pending.splice(0);
+
+                invoke(() => func.apply(thisArg, args)).then((result: TResult) => {
+                    callers.forEach(c => c.resolve(result));
+                }, (err) => {
+                    callers.forEach(c => c.reject(err));
+                });
+            }, wait);
+        });
+    };
+}
+
+/**
+ * Returns a promise, which is fulfilled after a while.
+ * 
+ * @param {number} ms The time to wait, in milliseconds.
+ * @param {T} [value] The value to fulfill the promise with.
+ * @param {CancellationToken} [token] The cancellation token.
+ * 
+ * @returns {Promise<T>} The promise.
+ */
+export function delay<T>(ms: number, value?: T, token?: CancellationToken): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        let unregister = () => { };
+
+        let timer = setTimeout(() => {
+            unregister();
+            resolve(value);
+        }, ms);
+
+        if (token) {
+            unregister = token.onCancellationRequested((reason) => {
+                clearTimeout(timer);
+                reject(createCancellationError(reason));
+            });
+        }
+    });
+}
+
+/**
+ * Invokes an async function for each item, one after another.
+ * 
+ * @param {T[]} items The items.
+ * @param {Function} iterator The function to invoke.
+ * @param {CancellationToken} [token] The cancellation token.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function eachSeries<T>(items: T[],
+                              iterator: (item: T, index: number) => any,
+                              token?: CancellationToken): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let list = TB.isNullOrUndefined(items) ? [] : TB.asArray(items, false);
+        let index = -1;
+
+        let next = () => {
+            if (token && token.isCancellationRequested) {
+                reject(createCancellationError(token.reason));
+                return;
+            }
+
+            if (++index >= list.length) {
+                resolve();
+                return;
+            }
+
+            invoke(() => iterator(list[index], index)).then(next, reject);
+        };
+
+        next();
+    });
+}
+
+/**
+ * Invokes an async function for each item, with a limited number of invocations at the same time.
+ * 
+ * @param {T[]} items The items.
+ * @param {number} limit The maximum number of invocations at the same time.
+ * @param {Function} iterator The function to invoke.
+ * @param {CancellationToken} [token] The cancellation token.
+ * 
+ * @returns {Promise<TResult[]>} The promise with the results, in the order of the items.
+ */
+export function mapLimit<T, TResult>(items: T[], limit: number,
+                                     iterator: (item: T, index: number) => TResult | PromiseLike<TResult>,
+                                     token?: CancellationToken): Promise<TResult[]> {
+    return new Promise<TResult[]>((resolve, reject) => {
+        let list = TB.isNullOrUndefined(items) ? [] : TB.asArray(items, false);
+        let results: TResult[] = new Array(list.length);
+
+        limit = parseInt(TB.toStringSafe(limit).trim());
+        if (isNaN(limit) || limit < 1) {
+            limit = 1;
+        }
+
+        let nextIndex = 0;
+        let running = 0;
+        let isFailed = false;
+
+        let fail = (err: any) => {
+            if (!isFailed) {
+                isFailed = true;
+                reject(err);
+            }
+        };
+
+        let next = () => {
+            if (isFailed) {
+                return;
+            }
+
+            if (token && token.isCancellationRequested) {
+                fail(createCancellationError(token.reason));
+                return;
+            }
+
+            if (nextIndex >= list.length) {
+                if (running < 1) {
+                    resolve(results);
+                }
+
+                return;
+            }
+
+            let index = nextIndex++;
+            ++running;
+
+            invoke(() => iterator(list[index], index)).then((result) => {
+                --running;
+                results[index] = result;
+
+                next();
+            }, fail);
+        };
+
+        if (list.length < 1) {
+            next();
+        }
+        else {
+            for (let i = 0; i < Math.min(limit, list.length); i++) {
+                next();
+            }
+        }
+    });
+}
+
+/**
+ * Creates a new cancellation token source.
+ * 
+ * @returns {CancellationTokenSource} The new source.
+ */
+export function newCancellationTokenSource(): CancellationTokenSource {
+    return new CancellationTokenSource();
+}
+
+/**
+ * Converts a function with a node-style callback (err, result) to a function, which returns a promise.
+ * 
+ * @param {Function} func The function to convert.
+ * @param {any} [thisArg] The underlying object / value for the function.
+ * 
+ * @returns {Function} The new function.
+ */
+export function promisify<TResult>(func: Function, thisArg?: any): (...args: any[]) => Promise<TResult> {
+    return function() {
+        let args = TB.toArray(arguments);
+
+        return new Promise<TResult>((resolve, reject) => {
+            try {
+                func.apply(thisArg, args.concat([ TB.createSimpleCompletedAction(resolve, reject) ]));
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    };
+}
+
+/**
+ * Invokes an action and retries it if it fails.
+ * 
+ * @param {Function} action The action, which receives the number of the attempt (beginning at 1).
+ * @param {RetryOptions} [opts] The options.
+ * 
+ * @returns {Promise<T>} The promise with the result of the action.
+ */
+export function retry<T>(action: (attempt: number) => T | PromiseLike<T>, opts?: RetryOptions): Promise<T> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let getNumber = (val: any, defaultValue: number) => {
+        let n = parseFloat(TB.toStringSafe(val).trim());
+
+        return isNaN(n) ? defaultValue : n;
+    };
+
+    let retries = getNumber(opts.retries, 3);
+    let initialDelay = getNumber(opts.delay, 100);
+    let factor = getNumber(opts.factor, 2);
+    let jitter = Math.min(1, Math.max(0, getNumber(opts.jitter, 0)));
+    let maxDelay = getNumber(opts.maxDelay, Number.MAX_VALUE);
+
+    return new Promise<T>((resolve, reject) => {
+        let attempt = 0;
+
+        let tryAction = () => {
+            if (opts.token && opts.token.isCancellationRequested) {
+                reject(createCancellationError(opts.token.reason));
+                return;
+            }
+
+            ++attempt;
+
+            invoke(() => action(attempt)).then(resolve, (err) => {
+                if (attempt > retries || (opts.shouldRetry && !opts.shouldRetry(err, attempt))) {
+                    reject(err);
+                    return;
+                }
+
+                let ms = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+                ms = ms * (1 - jitter + Math.random() * jitter * 2);
+
+                delay(Math.round(ms), null, opts.token).then(tryAction, reject);
+            });
+        };
+
+        tryAction();
+    });
+}
+
+/**
+ * Creates a function, which invokes another function at most once in a period.
+ * Calls inside a period are fulfilled with the result of the next invocation at the end of the period,
+ * which uses the arguments of the latest call.
+ * 
+ * @param {Function} func The function to invoke.
+ * @param {number} wait The length of a period, in milliseconds.
+ * 
+ * @returns {Function} The throttled function.
+ */
+export function throttle<TResult>(func: (...args: any[]) => TResult | PromiseLike<TResult>, wait: number): (...args: any[]) => Promise<TResult> {
+    let lastInvocation = 0;
+    let timer: NodeJS.Timer;
+    let pending: { reject: (err: any) => void, resolve: (result: TResult) => void }[] = [];
+    let lastArgs: any[];
+    let lastThisArg: any;
+
+    let run = () => {
+        timer = null;
+        lastInvocation = Date.now();
+
+        let callers = pending.splice(0);
+
+        invoke(() => func.apply(lastThisArg, lastArgs)).then((result: TResult) => {
+            callers.forEach(c => c.resolve(result));
+        }, (err) => {
+            callers.forEach(c => c.reject(err));
+        });
+    };
+
+    return function() {
+        lastThisArg = this;
+        lastArgs = TB.toArray(arguments);
+
+        return new Promise<TResult>((resolve, reject) => {
+            pending.push({
+                reject: reject,
+                resolve: resolve,
+            });
+
+            let remaining = wait - (Date.now() - lastInvocation);
+            if (remaining <= 0) {
+                clearTimeout(timer);
+                run();
+            }
+            else if (!timer) {
+                timer = setTimeout(run, remaining);
+            }
+        });
+    };
+}
+
+/**
+ * Rejects if a promise or an action is not fulfilled in time.
+ * 
+ * @param {PromiseLike<T>|Function} promiseOrAction The promise or the action, which returns the result.
+ * @param {number} ms The maximum time, in milliseconds.
+ * @param {string} [msg] The custom error message.
+ * 
+ * @returns {Promise<T>} The promise with the result.
+ */
+export function timeout<T>(promiseOrAction: PromiseLike<T> | (() => T | PromiseLike<T>), ms: number, msg?: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        let isDone = false;
+
+        let timer = setTimeout(() => {
+            if (isDone) {
+                return;
+            }
+            isDone = true;
+
+            let err: any = new Error(TB.isEmptyString(msg) ? `Operation timed out after ${ms} ms!` : msg);
+            err.code = 'ETIMEDOUT';
+
+            reject(err);
+        }, ms);
+
+        let promise: Promise<T>;
+        if ('function' === typeof promiseOrAction) {
+            promise = invoke(<() => T | PromiseLike<T>>promiseOrAction);
+        }
+        else {
+            promise = TB.asPromise(promiseOrAction);
+        }
+
+        promise.then((result) => {
+            if (!isDone) {
+                isDone = true;
+                clearTimeout(timer);
+
+                resolve(result);
+            }
+        }, (err) => {
+            if (!isDone) {
+                isDone = true;
+                clearTimeout(timer);
+
+                reject(err);
+            }
+        });
+    });
+}
@@ -0,0 +1,118 @@
+import * as http from 'http';
+import * as Routing from './routing';
+/**
+ * Options for a body parser.
+ */
+export interface BodyParserOptions {
+    /**
+     * The default string encoding, if the request does not define a charset. Default: utf8
+     *
+     * Requests with an unsupported charset are rejected with 415.
+     */
+    encoding?: string;
+    /**
+     * The maximum size of the body, in bytes. Default: 'DefaultMaxBodySize'
+     */
+    maxSize?: number;
+}
+/**
+ * Options for the multipart body parser.
+ */
+export interface MultipartBodyParserOptions extends BodyParserOptions {
+    /**
+     * The maximum size of an uploaded file, in bytes. Default: 'DefaultMaxUploadSize'
+     *
+     * The content of files does not count for 'maxSize'.
+     */
+    maxFileSize?: number;
+    /**
+     * The maximum number of uploaded files. Default: 'DefaultMaxUploadFiles'
+     */
+    maxFiles?: number;
+    /**
+     * The maximum number of parts (fields and files). Default: 'DefaultMaxUploadParts'
+     */
+    maxParts?: number;
+    /**
+     * The directory where uploaded files are written to. Default: <TEMP>/ts-toolbox-uploads
+     */
+    uploadDir?: string;
+}
+/**
+ * An uploaded file.
+ */
+export interface UploadedFile {
+    /**
+     * The name of the form field.
+     */
+    field: string;
+    /**
+     * The original filename.
+     */
+    filename: string;
+    /**
+     * The MIME type.
+     */
+    mime: string;
+    /**
+     * The path of the file on disk.
+     */
+    path: string;
+    /**
+     * The size in bytes.
+     */
+    size: number;
+}
+/**
+ * Creates a middleware that parses the body of a request by its content type
+ * (JSON, text, urlencoded or multipart/form-data).
+ *
+ * @param {MultipartBodyParserOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function bodyParser(opts?: MultipartBodyParserOptions): Routing.HttpMiddleware;
+/**
+ * Creates a middleware that parses JSON request bodies.
+ *
+ * @param {BodyParserOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function jsonBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware;
+/**
+ * Creates a middleware that parses multipart/form-data request bodies.
+ *
+ * Fields are written to 'ctx.body', files are streamed to disk and
+ * stored in 'ctx.files'.
+ *
+ * @param {MultipartBodyParserOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function multipartBodyParser(opts?: MultipartBodyParserOptions): Routing.HttpMiddleware;
+/**
+ * Reads the body of a request.
+ *
+ * @param {http.IncomingMessage} req The request.
+ * @param {number} [maxSize] The maximum size, in bytes. Default: 'DefaultMaxBodySize'
+ *
+ * @returns {Promise<Buffer>} The promise with the data.
+ */
+export declare function readBody(req: http.IncomingMessage, maxSize?: number): Promise<Buffer>;
+/**
+ * Creates a middleware that parses text/* request bodies.
+ *
+ * @param {BodyParserOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function textBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware;
+/**
+ * Creates a middleware that parses application/x-www-form-urlencoded request bodies.
+ *
+ * @param {BodyParserOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function urlEncodedBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware;
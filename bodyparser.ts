@@ -0,0 +1,702 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as QueryString from 'querystring';
+import * as Routing from './routing';
+import * as TB from './index';
+
+
+/**
+ * Options for a body parser.
+ */
+export interface BodyParserOptions {
+    /**
+     * The default string encoding, if the request does not define a charset. Default: utf8
+     * 
+     * Requests with an unsupported charset are rejected with 415.
+     */
+    encoding?: string;
+    /**
+     * The maximum size of the body, in bytes. Default: 'DefaultMaxBodySize'
+     */
+    maxSize?: number;
+}
+
+/**
+ * Options for the multipart body parser.
+ */
+export interface MultipartBodyParserOptions extends BodyParserOptions {
+    /**
+     * The maximum size of an uploaded file, in bytes. Default: 'DefaultMaxUploadSize'
+     * 
+     * The content of files does not count for 'maxSize'.
+     */
+    maxFileSize?: number;
+    /**
+     * The maximum number of uploaded files. Default: 'DefaultMaxUploadFiles'
+     */
+    maxFiles?: number;
+    /**
+     * The maximum number of parts (fields and files). Default: 'DefaultMaxUploadParts'
+     */
+    maxParts?: number;
+    /**
+     * The directory where uploaded files are written to. Default: <TEMP>/ts-toolbox-uploads
+     */
+    uploadDir?: string;
+}
+
+/**
+ * An uploaded file.
+ */
+export interface UploadedFile {
+    /**
+     * The name of the form field.
+     */
+    field: string;
+    /**
+     * The original filename.
+     */
+    filename: string;
+    /**
+     * The MIME type.
+     */
+    mime: string;
+    /**
+     * The path of the file on disk.
+     */
+    path: string;
+    /**
+     * The size in bytes.
+     */
+    size: number;
+}
+
+interface MultipartLimits {
+    maxFiles: number;
+    maxFileSize: number;
+    maxParts: number;
+    maxSize: number;
+}
+
+interface MultipartPart {
+    field: string;
+    file?: UploadedFile;
+    fileStream?: fs.WriteStream;
+    value?: Buffer[];
+}
+
+
+/**
+ * Creates a middleware that parses the body of a request by its content type
+ * (JSON, text, urlencoded or multipart/form-data).
+ * 
+ * @param {MultipartBodyParserOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function bodyParser(opts?: MultipartBodyParserOptions): Routing.HttpMiddleware {
+    let parsers = [
+        jsonBodyParser(opts),
+        urlEncodedBodyParser(opts),
+        multipartBodyParser(opts),
+        textBodyParser(opts),
+    ];
+
+    return (ctx, next) => {
+        // the parsers are handling different content types,
+        // so each one simply calls the next one if not matching
+        let dispatch = (i: number): Promise<any> => {
+            if (i >= parsers.length) {
+                return next();
+            }
+
+            return TB.asPromise(parsers[i](ctx, () => dispatch(i + 1)));
+        };
+
+        return dispatch(0);
+    };
+}
+
+/**
+ * Creates a middleware that parses JSON request bodies.
+ * 
+ * @param {BodyParserOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function jsonBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware {
+    return createStringBodyParser(opts, (type) => {
+        return 'application/json' === type ||
+               /^application\/(.+)\+json$/.test(type);
+    }, (str) => {
+        try {
+            return TB.fromJSON(str);
+        }
+        catch (e) {
+            throw Routing.createHttpError(400, 'Invalid JSON: ' + e);
+        }
+    });
+}
+
+/**
+ * Creates a middleware that parses multipart/form-data request bodies.
+ * 
+ * Fields are written to 'ctx.body', files are streamed to disk and
+ * stored in 'ctx.files'.
+ * 
+ * @param {MultipartBodyParserOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function multipartBodyParser(opts?: MultipartBodyParserOptions): Routing.HttpMiddleware {
+    if (!opts) {
+        opts = {};
+    }
+
+    return (ctx, next) => {
+        let contentType = parseContentType(ctx.request);
+        if ('multipart/form-data' !== contentType.type) {
+            return next();
+        }
+
+        let boundary = contentType.params['boundary'];
+        if (TB.isEmptyString(boundary)) {
+            throw Routing.createHttpError(400, 'No boundary defined!');
+        }
+
+        let uploadDir = TB.toStringSafe(opts.uploadDir);
+        if (TB.isEmptyString(uploadDir)) {
+            uploadDir = Path.join(OS.tmpdir(), 'ts-toolbox-uploads');
+        }
+        uploadDir = Path.resolve(uploadDir);
+
+        let encoding = getEncoding(contentType, opts);
+
+        return new Promise<any>((resolve, reject) => {
+            TB.mkdirs(uploadDir).then(() => {
+                readMultipart(ctx.request, boundary, uploadDir,
+                              getMultipartLimits(opts), encoding).then((result) => {
+                    ctx.body = result.fields;
+                    ctx.files = result.files;
+
+                    next().then((r) => {
+                        resolve(r);
+                    }, (err) => {
+                        reject(err);
+                    });
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    };
+}
+
+/**
+ * Reads the body of a request.
+ * 
+ * @param {http.IncomingMessage} req The request.
+ * @param {number} [maxSize] The maximum size, in bytes. Default: 'DefaultMaxBodySize'
+ * 
+ * @returns {Promise<Buffer>} The promise with the data.
+ */
+export function readBody(req: http.IncomingMessage, maxSize?: number): Promise<Buffer> {
+    maxSize = getMaxSize({ maxSize: maxSize });
+
+    return new Promise<Buffer>((resolve, reject) => {
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+        try {
+            let contentLength = parseInt(TB.toStringSafe(req.headers['content-length']).trim());
+            if (!isNaN(contentLength) && contentLength > maxSize) {
+                completed(Routing.createHttpError(413));
+                req.resume();
+
+                return;
+            }
+
+            let chunks: Buffer[] = [];
+            let size = 0;
+
+            req.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > maxSize) {
+                    chunks = [];
+                    completed(Routing.createHttpError(413));
+                }
+                else {
+                    chunks.push(chunk);
+                }
+            });
+
+            req.once('error', (err: any) => {
+                completed(err);
+            });
+
+            req.once('end', () => {
+                completed(null, Buffer.concat(chunks));
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Creates a middleware that parses text/* request bodies.
+ * 
+ * @param {BodyParserOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function textBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware {
+    return createStringBodyParser(opts, (type) => {
+        return 0 === type.indexOf('text/');
+    }, (str) => str);
+}
+
+/**
+ * Creates a middleware that parses application/x-www-form-urlencoded request bodies.
+ * 
+ * @param {BodyParserOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function urlEncodedBodyParser(opts?: BodyParserOptions): Routing.HttpMiddleware {
+    return createStringBodyParser(opts, (type) => {
+        return 'application/x-www-form-urlencoded' === type;
+    }, (str) => QueryString.parse(str));
+}
+
+
+function createStringBodyParser(opts: BodyParserOptions,
+                                isMatching: (type: string) => boolean,
+                                parser: (str: string) => any): Routing.HttpMiddleware {
+    if (!opts) {
+        opts = {};
+    }
+
+    return (ctx, next) => {
+        let contentType = parseContentType(ctx.request);
+        if (!isMatching(contentType.type)) {
+            return next();
+        }
+
+        return new Promise<any>((resolve, reject) => {
+            readBody(ctx.request, getMaxSize(opts)).then((data) => {
+                try {
+                    ctx.body = parser(TB.decodeText(data, getEncoding(contentType, opts)));
+                }
+                catch (e) {
+                    reject(e);
+                    return;
+                }
+
+                next().then((result) => {
+                    resolve(result);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    };
+}
+
+function getEncoding(contentType: { params: { [name: string]: string } },
+                     opts: BodyParserOptions): string {
+    let enc = TB.normalizeString(contentType.params['charset']);
+    if ('' === enc) {
+        enc = TB.normalizeString(opts.encoding);
+    }
+    if ('' === enc) {
+        enc = 'utf8';
+    }
+
+    if (!TB.isEncodingSupported(enc)) {
+        throw Routing.createHttpError(415, `Charset '${enc}' is not supported!`);
+    }
+
+    return enc;
+}
+
+function getMaxFileSize(opts: MultipartBodyParserOptions): number {
+    let maxFileSize = parseInt(TB.toStringSafe(opts.maxFileSize).trim());
+    if (isNaN(maxFileSize)) {
+        maxFileSize = parseInt(TB.toStringSafe(TB.DefaultMaxUploadSize).trim());
+    }
+
+    return maxFileSize;
+}
+
+function getMaxSize(opts: BodyParserOptions): number {
+    let maxSize = parseInt(TB.toStringSafe(opts.maxSize).trim());
+    if (isNaN(maxSize)) {
+        maxSize = parseInt(TB.toStringSafe(TB.DefaultMaxBodySize).trim());
+    }
+
+    return maxSize;
+}
+
+function getMultipartLimits(opts: MultipartBodyParserOptions): MultipartLimits {
+    let maxFiles = parseInt(TB.toStringSafe(opts.maxFiles).trim());
+    if (isNaN(maxFiles)) {
+        maxFiles = parseInt(TB.toStringSafe(TB.DefaultMaxUploadFiles).trim());
+    }
+
+    let maxParts = parseInt(TB.toStringSafe(opts.maxParts).trim());
+    if (isNaN(maxParts)) {
+        maxParts = parseInt(TB.toStringSafe(TB.DefaultMaxUploadParts).trim());
+    }
+
+    return {
+        maxFiles: maxFiles,
+        maxFileSize: getMaxFileSize(opts),
+        maxParts: maxParts,
+        maxSize: getMaxSize(opts),
+    };
+}
+
+function parseContentType(req: http.IncomingMessage) {
+    let parts = TB.toStringSafe(req.headers['content-type']).split(';');
+
+    let params: { [name: string]: string } = {};
+    parts.slice(1).forEach(p => {
+        let sep = p.indexOf('=');
+        if (sep > -1) {
+            let name = TB.normalizeString(p.substr(0, sep));
+            let value = p.substr(sep + 1).trim();
+            if (value.length > 1 && '"' === value[0] && '"' === value[value.length - 1]) {
+                value = value.substr(1, value.length - 2);
+            }
+
+            params[name] = value;
+        }
+    });
+
+    return {
+        params: params,
+        type: TB.normalizeString(parts[0]),
+    };
+}
+
+function parsePartHeaders(headerBlock: string): { [name: string]: string } {
+    let headers: { [name: string]: string } = {};
+
+    headerBlock.split('\r\n').forEach(line => {
+        let sep = line.indexOf(':');
+        if (sep > -1) {
+            headers[ TB.normalizeString(line.substr(0, sep)) ] = line.substr(sep + 1).trim();
+        }
+    });
+
+    return headers;
+}
+
+function readMultipart(req: http.IncomingMessage, boundary: string, uploadDir: string,
+                       limits: MultipartLimits, encoding: string): Promise<{ fields: any, files: UploadedFile[] }> {
+    return new Promise<{ fields: any, files: UploadedFile[] }>((resolve, reject) => {
+        let fields: any = {};
+        let files: UploadedFile[] = [];
+        let failed = false;
+        let openStreams = 0;
+        let parsed = false;
+        let parts = 0;
+
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+        let removeFiles = () => {
+            files.splice(0).forEach(f => {
+                fs.unlink(f.path, () => { });
+            });
+        };
+        let fail = (err: any) => {
+            if (failed) {
+                return;
+            }
+            failed = true;
+
+            // remove what has been written so far,
+            // after all streams have been closed
+            if (part && part.fileStream) {
+                part.fileStream.end();
+            }
+            if (openStreams < 1) {
+                removeFiles();
+            }
+
+            // skip the rest of the data
+            req.resume();
+
+            completed(err);
+        };
+        let checkIfFinished = () => {
+            if (failed) {
+                if (openStreams < 1) {
+                    removeFiles();
+                }
+
+                return;
+            }
+
+            if (parsed && openStreams < 1) {
+                completed(null, {
+                    fields: fields,
+                    files: files,
+                });
+            }
+        };
+
+        let delimiter = Buffer.from('\r\n--' + boundary, 'ascii');
+        let headerEnd = Buffer.from('\r\n\r\n', 'ascii');
+
+        // prefix data with CRLF, so first boundary
+        // can be handled like all others
+        let buffer = Buffer.from('\r\n', 'ascii');
+        let filesSize = 0;
+        let size = 0;
+        let state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'end' = 'preamble';
+        let part: MultipartPart;
+
+        let writeToPart = (data: Buffer) => {
+            if (data.length < 1) {
+                return;
+            }
+
+            if (part.fileStream) {
+                filesSize += data.length;
+
+                part.file.size += data.length;
+                if (part.file.size > limits.maxFileSize) {
+                    throw Routing.createHttpError(413, `File '${part.file.filename}' is too large!`);
+                }
+
+                if (!part.fileStream.write(data)) {
+                    req.pause();
+                    part.fileStream.once('drain', () => {
+                        req.resume();
+                    });
+                }
+            }
+            else {
+                part.value.push(data);
+            }
+        };
+
+        let closePart = () => {
+            if (part.fileStream) {
+                part.fileStream.end();
+            }
+            else {
+                let value = TB.decodeText(Buffer.concat(part.value), encoding);
+
+                let existingValue = fields[part.field];
+                if (TB.isNullOrUndefined(existingValue)) {
+                    fields[part.field] = value;
+                }
+                else {
+                    fields[part.field] = TB.asArray(existingValue, false).concat([ value ]);
+                }
+            }
+
+            part = null;
+        };
+
+        let openPart = (headers: { [name: string]: string }) => {
+            if (++parts > limits.maxParts) {
+                throw Routing.createHttpError(413, 'Too many parts!');
+            }
+
+            let disposition = TB.toStringSafe(headers['content-disposition']);
+
+            let nameMatch = /(?:^|;)\s*name="([^"]*)"/i.exec(disposition);
+            let filenameMatch = /(?:^|;)\s*filename="([^"]*)"/i.exec(disposition);
+
+            part = {
+                field: nameMatch ? nameMatch[1] : '',
+            };
+
+            if (filenameMatch) {
+                if (files.length >= limits.maxFiles) {
+                    throw Routing.createHttpError(413, 'Too many files!');
+                }
+
+                let filename = Path.basename(filenameMatch[1].replace(/\\/g, '/'));
+
+                let mime = TB.normalizeString(headers['content-type']);
+                if ('' === mime || 'application/octet-stream' === mime) {
+                    mime = TB.detectMimeByFilename(filename, TB.DefauleMimeType);
+                }
+
+                part.file = {
+                    field: part.field,
+                    filename: filename,
+                    mime: mime,
+                    path: Path.join(uploadDir, TB.uuid()),
+                    size: 0,
+                };
+                files.push(part.file);
+
+                ++openStreams;
+                part.fileStream = fs.createWriteStream(part.file.path);
+                part.fileStream.once('error', (err: any) => {
+                    fail(err);
+                });
+                part.fileStream.once('close', () => {
+                    --openStreams;
+                    checkIfFinished();
+                });
+            }
+            else {
+                part.value = [];
+            }
+        };
+
+        let processBuffer = () => {
+            let hasMore = true;
+
+            while (hasMore) {
+                hasMore = false;
+
+                switch (state) {
+                    case 'preamble':
+                        {
+                            let idx = buffer.indexOf(delimiter);
+                            if (idx > -1) {
+                                buffer = buffer.slice(idx + delimiter.length);
+                                state = 'delimiter';
+                                hasMore = true;
+                            }
+                            else if (buffer.length > delimiter.length) {
+                                buffer = buffer.slice(buffer.length - delimiter.length);
+                            }
+                        }
+                        break;
+
+                    case 'delimiter':
+                        if (buffer.length >= 2) {
+                            let suffix = buffer.toString('ascii', 0, 2);
+                            if ('--' === suffix) {
+                                state = 'end';
+                            }
+                            else if ('\r\n' === suffix) {
+                                buffer = buffer.slice(2);
+                                state = 'headers';
+                                hasMore = true;
+                            }
+                            else {
+                                throw Routing.createHttpError(400, 'Invalid multipart data!');
+                            }
+                        }
+                        break;
+
+                    case 'headers':
+                        {
+                            let idx = buffer.indexOf(headerEnd);
+                            if (idx > -1) {
+                                openPart(parsePartHeaders(buffer.toString('utf8', 0, idx)));
+
+                                buffer = buffer.slice(idx + headerEnd.length);
+                                state = 'body';
+                                hasMore = true;
+                            }
+                        }
+                        break;
+
+                    case 'body':
+                        {
+                            let idx = buffer.indexOf(delimiter);
+                            if (idx > -1) {
+                                writeToPart(buffer.slice(0, idx));
+                                closePart();
+
+                                buffer = buffer.slice(idx + delimiter.length);
+                                state = 'delimiter';
+                                hasMore = true;
+                            }
+                            else if (buffer.length > delimiter.length) {
+                                // keep enough bytes to detect a delimiter
+                                // that is split between two chunks
+                                let safeLength = buffer.length - delimiter.length;
+
+                                writeToPart(buffer.slice(0, safeLength));
+                                buffer = buffer.slice(safeLength);
+                            }
+                        }
+                        break;
+                }
+            }
+        };
+
+        req.on('data', (chunk: Buffer) => {
+            if (failed || 'end' === state) {
+                return;  // epilogue
+            }
+
+            try {
+                buffer = Buffer.concat([ buffer, chunk ]);
+                processBuffer();
+
+                // the content of files is limited by 'maxFileSize'
+                size += chunk.length;
+                if (size - filesSize > limits.maxSize) {
+                    throw Routing.createHttpError(413);
+                }
+            }
+            catch (e) {
+                fail(e);
+            }
+        });
+
+        req.once('error', (err: any) => {
+            fail(err);
+        });
+
+        req.once('end', () => {
+            if (failed) {
+                return;
+            }
+
+            if ('end' !== state) {
+                if (part) {
+                    closePart();
+                }
+
+                fail(Routing.createHttpError(400, 'Unexpected end of multipart data!'));
+                return;
+            }
+
+            parsed = true;
+            checkIfFinished();
+        });
+    });
+}
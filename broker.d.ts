@@ -0,0 +1,409 @@
+import * as Events from 'events';
+import * as net from 'net';
+import * as SecureSockets from './securesockets';
+/**
+ * Options for a broker client.
+ */
+export interface BrokerClientOptions extends SecureSockets.SecureClientPoolOptions {
+    /**
+     * The time to wait for the confirmation of the broker, in milliseconds. Default: 30000
+     */
+    requestTimeout?: number;
+}
+/**
+ * A broker message.
+ */
+export interface BrokerMessage<T> {
+    /**
+     * The ID of the message.
+     */
+    id: string;
+    /**
+     * The payload.
+     */
+    payload: T;
+    /**
+     * The time the message has been published (ISO 8601, UTC).
+     */
+    time: string;
+    /**
+     * The topic.
+     */
+    topic: string;
+}
+/**
+ * Handles a message of a subscription.
+ * If the handler succeeds, the message is acknowledged.
+ *
+ * @param {T} payload The payload.
+ * @param {BrokerMessage<T>} msg The full message.
+ *
+ * @returns {any} The result, which can also be a promise.
+ */
+export declare type BrokerMessageHandler<T> = (payload: T, msg: BrokerMessage<T>) => any;
+/**
+ * Options for a message broker.
+ */
+export interface MessageBrokerOptions extends SecureSockets.SecureChannelOptions {
+    /**
+     * The time to wait for an acknowledgement before a message is delivered again, in milliseconds. Default: 30000
+     */
+    ackTimeout?: number;
+    /**
+     * The name of a durable queue, which receives the messages that have reached 'maxDeliveries'.
+     * If not defined, such messages are dropped.
+     */
+    deadLetterQueue?: string;
+    /**
+     * The maximum number of deliveries of a message, which has not been acknowledged. 0 => no limit. Default: 10
+     */
+    maxDeliveries?: number;
+    /**
+     * The time to wait before a rejected message is delivered again, in milliseconds. Default: 1000
+     */
+    redeliveryDelay?: number;
+    /**
+     * The directory where durable queues are stored. If not defined, durable queues are kept in memory.
+     */
+    storageDir?: string;
+}
+/**
+ * Options for a subscription.
+ */
+export interface SubscribeOptions {
+    /**
+     * The name of a durable queue, which keeps messages until they are acknowledged,
+     * even if no client is connected.
+     * Clients that subscribe to the same queue share its messages.
+     */
+    queue?: string;
+}
+interface BrokerQueue {
+    consumers: BrokerConsumer[];
+    delayed: {
+        [messageId: string]: NodeJS.Timer;
+    };
+    deliveries: {
+        [messageId: string]: number;
+    };
+    durable: boolean;
+    inFlight: {
+        [messageId: string]: InFlightDelivery;
+    };
+    messages: BrokerMessage<any>[];
+    name: string;
+    nextConsumer: number;
+    patterns: string[];
+    saveQueue: Promise<any>;
+}
+interface BrokerConsumer {
+    channel: SecureSockets.SecureChannel;
+    client?: string;
+    pattern: string;
+}
+interface BrokerRequest {
+    client?: string;
+    deliveryId?: string;
+    op: 'ack' | 'deliver' | 'error' | 'nack' | 'ok' | 'publish' | 'subscribe' | 'unsubscribe';
+    message?: BrokerMessage<any>;
+    pattern?: string;
+    payload?: any;
+    queue?: string;
+    requestId?: string;
+    text?: string;
+    topic?: string;
+}
+interface ClientSubscription {
+    handler: BrokerMessageHandler<any>;
+    pattern: string;
+    queue?: string;
+}
+interface InFlightDelivery {
+    consumer: BrokerConsumer;
+    deliveryId: string;
+    timer: NodeJS.Timer;
+}
+interface PendingRequest {
+    reject: (err: any) => void;
+    resolve: (result?: any) => void;
+    timer: NodeJS.Timer;
+}
+/**
+ * A client of a message broker.
+ *
+ * Emits 'connect', 'disconnect' and 'error'.
+ */
+export declare class BrokerClient extends Events.EventEmitter {
+    /**
+     * Stores the ID of that client, which is the same for all connections of the pool.
+     */
+    protected _id: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: BrokerClientOptions;
+    /**
+     * Stores the requests, which wait for a confirmation.
+     */
+    protected _pending: {
+        [requestId: string]: PendingRequest;
+    };
+    /**
+     * Stores the underlying connection pool.
+     */
+    protected _pool: SecureSockets.SecureClientPool;
+    /**
+     * Stores the subscriptions.
+     */
+    protected _subscriptions: ClientSubscription[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} port The TCP port of the broker.
+     * @param {string} [host] The host address of the broker.
+     * @param {BrokerClientOptions} [opts] The options.
+     */
+    constructor(port: number, host?: string, opts?: BrokerClientOptions);
+    /**
+     * Closes the connection.
+     */
+    close(): void;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Handles a message from the broker.
+     *
+     * @param {BrokerRequest} data The message.
+     */
+    protected onMessage(data: BrokerRequest): void;
+    /**
+     * Publishes a message.
+     *
+     * @param {string} topic The topic.
+     * @param {T} payload The payload (must be serializable as JSON).
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the broker has received the message.
+     */
+    publish<T>(topic: string, payload: T): Promise<any>;
+    /**
+     * Sends a request to the broker and waits for the confirmation.
+     *
+     * @param {BrokerRequest} req The request.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected request(req: BrokerRequest): Promise<any>;
+    /**
+     * Starts connecting.
+     *
+     * @chainable
+     */
+    start(): this;
+    /**
+     * Subscribes to topics.
+     *
+     * @param {string} pattern The pattern for the topics, like 'orders/**'.
+     * @param {BrokerMessageHandler<T>} handler The handler for the messages.
+     * @param {SubscribeOptions} [opts] The options.
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the broker has registered the subscription.
+     */
+    subscribe<T>(pattern: string, handler: BrokerMessageHandler<T>, opts?: SubscribeOptions): Promise<any>;
+    /**
+     * Removes the subscriptions for a pattern.
+     *
+     * @param {string} pattern The pattern.
+     * @param {SubscribeOptions} [opts] The options of the subscription.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    unsubscribe(pattern: string, opts?: SubscribeOptions): Promise<any>;
+}
+/**
+ * A publish / subscribe message broker.
+ */
+export declare class MessageBroker {
+    /**
+     * Stores the in-flight deliveries by their ID.
+     */
+    protected _deliveries: {
+        [deliveryId: string]: {
+            messageId: string;
+            queue: BrokerQueue;
+        };
+    };
+    /**
+     * Stores the options.
+     */
+    protected _options: MessageBrokerOptions;
+    /**
+     * Stores the queues.
+     */
+    protected _queues: {
+        [name: string]: BrokerQueue;
+    };
+    /**
+     * Stores the underlying server.
+     */
+    protected _server: net.Server;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {MessageBrokerOptions} [opts] The options.
+     */
+    constructor(opts?: MessageBrokerOptions);
+    /**
+     * Handles an acknowledgement.
+     *
+     * @param {string} deliveryId The ID of the delivery.
+     * @param {boolean} success Message has been handled successfully or not.
+     */
+    protected acknowledge(deliveryId: string, success: boolean): void;
+    /**
+     * Stops the broker.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    close(): Promise<any>;
+    /**
+     * Delivers the pending messages of a queue.
+     *
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected dispatch(queue: BrokerQueue): void;
+    /**
+     * Returns the timeout for acknowledgements.
+     *
+     * @returns {number} The timeout, in milliseconds.
+     */
+    protected getAckTimeout(): number;
+    /**
+     * Returns the maximum number of deliveries of a message.
+     *
+     * @returns {number} The maximum number or 0 for no limit.
+     */
+    protected getMaxDeliveries(): number;
+    /**
+     * Returns the path of the storage file of a queue.
+     *
+     * @param {string} name The name of the queue.
+     *
+     * @returns {string} The path or (false) if durable queues are not persisted.
+     */
+    protected getQueueFile(name: string): string | false;
+    /**
+     * Returns the delay before a rejected message is delivered again.
+     *
+     * @returns {number} The delay, in milliseconds.
+     */
+    protected getRedeliveryDelay(): number;
+    /**
+     * Loads the durable queues from the storage directory.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected loadQueues(): Promise<any>;
+    /**
+     * Returns a queue and creates it if needed.
+     *
+     * @param {string} name The name of the queue.
+     * @param {boolean} durable Is durable or not.
+     *
+     * @returns {BrokerQueue} The queue.
+     */
+    protected getOrCreateQueue(name: string, durable: boolean): BrokerQueue;
+    /**
+     * Handles a request of a client.
+     *
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {BrokerRequest} req The request.
+     */
+    protected onRequest(channel: SecureSockets.SecureChannel, req: BrokerRequest): void;
+    /**
+     * Publishes a message.
+     *
+     * @param {string} topic The topic.
+     * @param {T} payload The payload.
+     *
+     * @returns {BrokerMessage<T>} The published message.
+     */
+    publish<T>(topic: string, payload: T): BrokerMessage<T>;
+    /**
+     * Delivers a message, which has not been acknowledged, again after a delay,
+     * or moves it to the dead letter queue, if it has reached the maximum number of deliveries.
+     *
+     * @param {BrokerQueue} queue The queue.
+     * @param {string} messageId The ID of the message.
+     */
+    protected redeliver(queue: BrokerQueue, messageId: string): void;
+    /**
+     * Removes the consumers of a closed channel.
+     *
+     * @param {SecureSockets.SecureChannel} channel The channel.
+     */
+    protected removeChannel(channel: SecureSockets.SecureChannel): void;
+    /**
+     * Removes a (temporary) queue and its pending deliveries.
+     *
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected removeQueue(queue: BrokerQueue): void;
+    /**
+     * Saves a durable queue.
+     *
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected saveQueue(queue: BrokerQueue): void;
+    /**
+     * Loads the durable queues and starts listening.
+     *
+     * @param {number} port The TCP port.
+     *
+     * @returns {Promise<net.Server>} The promise with the underlying server.
+     */
+    start(port: number): Promise<net.Server>;
+    /**
+     * Adds a subscription.
+     *
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {string} pattern The pattern.
+     * @param {string} [queueName] The name of the durable queue.
+     * @param {string} [client] The ID of the client, which can use more than one channel.
+     */
+    protected subscribe(channel: SecureSockets.SecureChannel, pattern: string, queueName?: string, client?: string): void;
+    /**
+     * Removes a subscription.
+     *
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {string} pattern The pattern.
+     * @param {string} [queueName] The name of the durable queue.
+     * @param {string} [client] The ID of the client, which can use more than one channel.
+     */
+    protected unsubscribe(channel: SecureSockets.SecureChannel, pattern: string, queueName?: string, client?: string): void;
+}
+/**
+ * Creates a new broker client and starts connecting.
+ *
+ * @param {number} port The TCP port of the broker.
+ * @param {string} [host] The host address of the broker.
+ * @param {BrokerClientOptions} [opts] The options.
+ *
+ * @returns {BrokerClient} The new client.
+ */
+export declare function connectToBroker(port: number, host?: string, opts?: BrokerClientOptions): BrokerClient;
+/**
+ * Starts a new message broker.
+ *
+ * @param {number} port The TCP port.
+ * @param {MessageBrokerOptions} [opts] The options.
+ *
+ * @returns {Promise<MessageBroker>} The promise with the new broker.
+ */
+export declare function startBroker(port: number, opts?: MessageBrokerOptions): Promise<MessageBroker>;
+export {};
@@ -0,0 +1,1156 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as Path from 'path';
+import * as SecureSockets from './securesockets';
+import * as TB from './index';
+
+
+/**
+ * Options for a broker client.
+ */
+export interface BrokerClientOptions extends SecureSockets.SecureClientPoolOptions {
+    /**
+     * The time to wait for the confirmation of the broker, in milliseconds. Default: 30000
+     */
+    requestTimeout?: number;
+}
+
+/**
+ * A broker message.
+ */
+export interface BrokerMessage<T> {
+    /**
+     * The ID of the message.
+     */
+    id: string;
+    /**
+     * The payload.
+     */
+    payload: T;
+    /**
+     * The time the message has been published (ISO 8601, UTC).
+     */
+    time: string;
+    /**
+     * The topic.
+     */
+    topic: string;
+}
+
+/**
+ * Handles a message of a subscription.
+ * If the handler succeeds, the message is acknowledged.
+ * 
+ * @param {T} payload The payload.
+ * @param {BrokerMessage<T>} msg The full message.
+ * 
+ * @returns {any} The result, which can also be a promise.
+ */
+export type BrokerMessageHandler<T> = (payload: T, msg: BrokerMessage<T>) => any;
+
+/**
+ * Options for a message broker.
+ */
+export interface MessageBrokerOptions extends SecureSockets.SecureChannelOptions {
+    /**
+     * The time to wait for an acknowledgement before a message is delivered again, in milliseconds. Default: 30000
+     */
+    ackTimeout?: number;
+    /**
+     * The name of a durable queue, which receives the messages that have reached 'maxDeliveries'.
+     * If not defined, such messages are dropped.
+     */
+    deadLetterQueue?: string;
+    /**
+     * The maximum number of deliveries of a message, which has not been acknowledged. 0 => no limit. Default: 10
+     */
+    maxDeliveries?: number;
+    /**
+     * The time to wait before a rejected message is delivered again, in milliseconds. Default: 1000
+     */
+    redeliveryDelay?: number;
+    /**
+     * The directory where durable queues are stored. If not defined, durable queues are kept in memory.
+     */
+    storageDir?: string;
+}
+
+/**
+ * Options for a subscription.
+ */
+export interface SubscribeOptions {
+    /**
+     * The name of a durable queue, which keeps messages until they are acknowledged,
+     * even if no client is connected.
+     * Clients that subscribe to the same queue share its messages.
+     */
+    queue?: string;
+}
+
+interface BrokerQueue {
+    consumers: BrokerConsumer[];
+    delayed: { [messageId: string]: NodeJS.Timer };
+    deliveries: { [messageId: string]: number };
+    durable: boolean;
+    inFlight: { [messageId: string]: InFlightDelivery };
+    messages: BrokerMessage<any>[];
+    name: string;
+    nextConsumer: number;
+    patterns: string[];
+    saveQueue: Promise<any>;
+}
+
+interface BrokerConsumer {
+    channel: SecureSockets.SecureChannel;
+    client?: string;
+    pattern: string;
+}
+
+interface BrokerRequest {
+    client?: string;
+    deliveryId?: string;
+    op: 'ack' | 'deliver' | 'error' | 'nack' | 'ok' | 'publish' | 'subscribe' | 'unsubscribe';
+    message?: BrokerMessage<any>;
+    pattern?: string;
+    payload?: any;
+    queue?: string;
+    requestId?: string;
+    text?: string;
+    topic?: string;
+}
+
+interface ClientSubscription {
+    handler: BrokerMessageHandler<any>;
+    pattern: string;
+    queue?: string;
+}
+
+interface InFlightDelivery {
+    consumer: BrokerConsumer;
+    deliveryId: string;
+    timer: NodeJS.Timer;
+}
+
+interface PendingRequest {
+    reject: (err: any) => void;
+    resolve: (result?: any) => void;
+    timer: NodeJS.Timer;
+}
+
+
+/**
+ * A client of a message broker.
+ * 
+ * Emits 'connect', 'disconnect' and 'error'.
+ */
+export class BrokerClient extends Events.EventEmitter {
+    /**
+     * Stores the ID of that client, which is the same for all connections of the pool.
+     */
+    protected _id: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: BrokerClientOptions;
+    /**
+     * Stores the requests, which wait for a confirmation.
+     */
+    protected _pending: { [requestId: string]: PendingRequest } = {};
+    /**
+     * Stores the underlying connection pool.
+     */
+    protected _pool: SecureSockets.SecureClientPool;
+    /**
+     * Stores the subscriptions.
+     */
+    protected _subscriptions: ClientSubscription[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {number} port The TCP port of the broker.
+     * @param {string} [host] The host address of the broker.
+     * @param {BrokerClientOptions} [opts] The options.
+     */
+    constructor(port: number, host?: string, opts?: BrokerClientOptions) {
+        super();
+
+        let me = this;
+
+        me._id = TB.uuid();
+        me._options = opts || {};
+
+        me._pool = new SecureSockets.SecureClientPool(port, host, me._options);
+        me._pool.on('connect', () => {
+            // restore subscriptions
+            me._subscriptions.forEach(s => {
+                me.request({
+                    op: 'subscribe',
+                    pattern: s.pattern,
+                    queue: s.queue,
+                }).then(() => {
+                }, (err) => {
+                    me.emitError(err, 'constructor');
+                });
+            });
+
+            me.emit('connect');
+        });
+        me._pool.on('disconnect', () => {
+            me.emit('disconnect');
+        });
+        me._pool.on('error', (err: any) => {
+            me.emitError(err, 'constructor');
+        });
+        me._pool.on('message', (data: BrokerRequest) => {
+            me.onMessage(data);
+        });
+    }
+
+    /**
+     * Closes the connection.
+     */
+    public close() {
+        this._pool.close();
+
+        let pending = this._pending;
+        this._pending = {};
+        for (let id in pending) {
+            clearTimeout(pending[id].timer);
+            pending[id].reject(new Error('Client has been closed!'));
+        }
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] BrokerClient.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Handles a message from the broker.
+     * 
+     * @param {BrokerRequest} data The message.
+     */
+    protected onMessage(data: BrokerRequest) {
+        let me = this;
+
+        if (!data) {
+            return;
+        }
+
+        switch (data.op) {
+            case 'deliver':
+                {
+                    let msg = data.message;
+
+                    let handlers = me._subscriptions.filter(s => {
+                        if (TB.isEmptyString(data.queue)) {
+                            return TB.isEmptyString(s.queue) && s.pattern === data.pattern;
+                        }
+
+                        return s.queue === data.queue;
+                    }).map(s => s.handler);
+
+                    let respond = (op: 'ack' | 'nack') => {
+                        me._pool.send({
+                            deliveryId: data.deliveryId,
+                            op: op,
+                        }).then(() => {
+                        }, (err) => {
+                            me.emitError(err, 'onMessage');
+                        });
+                    };
+
+                    Promise.all(handlers.map(h => {
+                        return new Promise<any>((resolve, reject) => {
+                            try {
+                                TB.asPromise(h(msg.payload, msg)).then(resolve, reject);
+                            }
+                            catch (e) {
+                                reject(e);
+                            }
+                        });
+                    })).then(() => {
+                        respond('ack');
+                    }, (err) => {
+                        respond('nack');
+
+                        me.emitError(err, 'onMessage');
+                    });
+                }
+                break;
+
+            case 'error':
+            case 'ok':
+                {
+                    let pending = me._pending[data.requestId];
+                    if (pending) {
+                        delete me._pending[data.requestId];
+                        clearTimeout(pending.timer);
+
+                        if ('ok' === data.op) {
+                            pending.resolve();
+                        }
+                        else {
+                            pending.reject(new Error(data.text));
+                        }
+                    }
+                }
+                break;
+        }
+    }
+
+    /**
+     * Publishes a message.
+     * 
+     * @param {string} topic The topic.
+     * @param {T} payload The payload (must be serializable as JSON).
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the broker has received the message.
+     */
+    public publish<T>(topic: string, payload: T): Promise<any> {
+        return this.request({
+            op: 'publish',
+            payload: payload,
+            topic: TB.toStringSafe(topic),
+        });
+    }
+
+    /**
+     * Sends a request to the broker and waits for the confirmation.
+     * 
+     * @param {BrokerRequest} req The request.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected request(req: BrokerRequest): Promise<any> {
+        let me = this;
+
+        let timeout = parseInt(TB.toStringSafe(me._options.requestTimeout).trim());
+        if (isNaN(timeout)) {
+            timeout = 30000;
+        }
+
+        return new Promise<any>((resolve, reject) => {
+            let requestId = TB.uuid();
+            req.client = me._id;
+            req.requestId = requestId;
+
+            me._pending[requestId] = {
+                reject: reject,
+                resolve: resolve,
+                timer: setTimeout(() => {
+                    delete me._pending[requestId];
+
+                    reject(new Error(`Broker did not answer within ${timeout} ms!`));
+                }, timeout),
+            };
+
+            me._pool.send(req).then(() => {
+            }, (err) => {
+                let pending = me._pending[requestId];
+                if (pending) {
+                    delete me._pending[requestId];
+                    clearTimeout(pending.timer);
+                }
+
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Starts connecting.
+     * 
+     * @chainable
+     */
+    public start(): this {
+        this._pool.start();
+        return this;
+    }
+
+    /**
+     * Subscribes to topics.
+     * 
+     * @param {string} pattern The pattern for the topics, like 'orders/**'.
+     * @param {BrokerMessageHandler<T>} handler The handler for the messages.
+     * @param {SubscribeOptions} [opts] The options.
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the broker has registered the subscription.
+     */
+    public subscribe<T>(pattern: string, handler: BrokerMessageHandler<T>, opts?: SubscribeOptions): Promise<any> {
+        if (!opts) {
+            opts = {};
+        }
+
+        let subscription: ClientSubscription = {
+            handler: handler,
+            pattern: TB.toStringSafe(pattern),
+            queue: TB.isEmptyString(opts.queue) ? undefined : TB.toStringSafe(opts.queue).trim(),
+        };
+        this._subscriptions.push(subscription);
+
+        return this.request({
+            op: 'subscribe',
+            pattern: subscription.pattern,
+            queue: subscription.queue,
+        });
+    }
+
+    /**
+     * Removes the subscriptions for a pattern.
+     * 
+     * @param {string} pattern The pattern.
+     * @param {SubscribeOptions} [opts] The options of the subscription.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public unsubscribe(pattern: string, opts?: SubscribeOptions): Promise<any> {
+        if (!opts) {
+            opts = {};
+        }
+
+        pattern = TB.toStringSafe(pattern);
+        let queue = TB.isEmptyString(opts.queue) ? undefined : TB.toStringSafe(opts.queue).trim();
+
+        this._subscriptions = this._subscriptions.filter(s => {
+            return s.pattern !== pattern || s.queue !== queue;
+        });
+
+        return this.request({
+            op: 'unsubscribe',
+            pattern: pattern,
+            queue: queue,
+        });
+    }
+}
+
+/**
+ * A publish / subscribe message broker.
+ */
+export class MessageBroker {
+    /**
+     * Stores the in-flight deliveries by their ID.
+     */
+    protected _deliveries: { [deliveryId: string]: { messageId: string, queue: BrokerQueue } } = {};
+    /**
+     * Stores the options.
+     */
+    protected _options: MessageBrokerOptions;
+    /**
+     * Stores the queues.
+     */
+    protected _queues: { [name: string]: BrokerQueue } = {};
+    /**
+     * Stores the underlying server.
+     */
+    protected _server: net.Server;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {MessageBrokerOptions} [opts] The options.
+     */
+    constructor(opts?: MessageBrokerOptions) {
+        this._options = opts || {};
+    }
+
+    /**
+     * Handles an acknowledgement.
+     * 
+     * @param {string} deliveryId The ID of the delivery.
+     * @param {boolean} success Message has been handled successfully or not.
+     */
+    protected acknowledge(deliveryId: string, success: boolean) {
+        let delivery = this._deliveries[deliveryId];
+        if (!delivery) {
+            return;
+        }
+
+        delete this._deliveries[deliveryId];
+
+        let queue = delivery.queue;
+
+        let inFlight = queue.inFlight[delivery.messageId];
+        if (inFlight) {
+            clearTimeout(inFlight.timer);
+            delete queue.inFlight[delivery.messageId];
+        }
+
+        if (success) {
+            queue.messages = queue.messages.filter(m => m.id !== delivery.messageId);
+            delete queue.deliveries[delivery.messageId];
+
+            this.saveQueue(queue);
+        }
+        else {
+            this.redeliver(queue, delivery.messageId);
+        }
+
+        this.dispatch(queue);
+    }
+
+    /**
+     * Stops the broker.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public close(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve) => {
+            for (let id in me._deliveries) {
+                let d = me._deliveries[id];
+
+                let inFlight = d.queue.inFlight[d.messageId];
+                if (inFlight) {
+                    clearTimeout(inFlight.timer);
+                }
+            }
+            me._deliveries = {};
+
+            let queues = Object.keys(me._queues).map(x => me._queues[x]);
+            queues.forEach(q => {
+                for (let messageId in q.delayed) {
+                    clearTimeout(q.delayed[messageId]);
+                }
+                q.delayed = {};
+            });
+            let waitForQueues = () => {
+                Promise.all(queues.map(q => q.saveQueue)).then(() => {
+                    resolve();
+                }, () => {
+                    resolve();
+                });
+            };
+
+            if (me._server) {
+                me._server.close(() => {
+                    waitForQueues();
+                });
+                me._server = null;
+            }
+            else {
+                waitForQueues();
+            }
+        });
+    }
+
+    /**
+     * Delivers the pending messages of a queue.
+     * 
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected dispatch(queue: BrokerQueue) {
+        let me = this;
+
+        queue.consumers = queue.consumers.filter(c => c.channel.isOpen);
+
+        queue.messages.filter(m => !queue.inFlight[m.id] && !queue.delayed[m.id]).forEach(m => {
+            if (queue.consumers.length < 1) {
+                return;
+            }
+
+            let consumer = queue.consumers[queue.nextConsumer % queue.consumers.length];
+            queue.nextConsumer = (queue.nextConsumer + 1) % queue.consumers.length;
+
+            let deliveryId = TB.uuid();
+
+            queue.deliveries[m.id] = (queue.deliveries[m.id] || 0) + 1;
+            queue.inFlight[m.id] = {
+                consumer: consumer,
+                deliveryId: deliveryId,
+                timer: setTimeout(() => {
+                    // not acknowledged in time => deliver again
+                    me.acknowledge(deliveryId, false);
+                }, me.getAckTimeout()),
+            };
+            me._deliveries[deliveryId] = {
+                messageId: m.id,
+                queue: queue,
+            };
+
+            consumer.channel.send({
+                deliveryId: deliveryId,
+                message: m,
+                op: 'deliver',
+                pattern: consumer.pattern,
+                queue: queue.durable ? queue.name : undefined,
+            }).then(() => {
+            }, (err) => {
+                console.log('[ERROR.ts-toolbox] MessageBroker.dispatch(): ' + err);
+            });
+        });
+    }
+
+    /**
+     * Returns the timeout for acknowledgements.
+     * 
+     * @returns {number} The timeout, in milliseconds.
+     */
+    protected getAckTimeout(): number {
+        let timeout = parseInt(TB.toStringSafe(this._options.ackTimeout).trim());
+        if (isNaN(timeout) || timeout < 1) {
+            timeout = 30000;
+        }
+
+        return timeout;
+    }
+
+    /**
+     * Returns the maximum number of deliveries of a message.
+     * 
+     * @returns {number} The maximum number or 0 for no limit.
+     */
+    protected getMaxDeliveries(): number {
+        let max = parseInt(TB.toStringSafe(this._options.maxDeliveries).trim());
+        if (isNaN(max) || max < 0) {
+            max = 10;
+        }
+
+        return max;
+    }
+
+    /**
+     * Returns the path of the storage file of a queue.
+     * 
+     * @param {string} name The name of the queue.
+     * 
+     * @returns {string} The path or (false) if durable queues are not persisted.
+     */
+    protected getQueueFile(name: string): string | false {
+        let dir = TB.toStringSafe(this._options.storageDir);
+        if (TB.isEmptyString(dir)) {
+            return false;
+        }
+
+        return Path.join(Path.resolve(dir), encodeURIComponent(name) + '.json');
+    }
+
+    /**
+     * Returns the delay before a rejected message is delivered again.
+     * 
+     * @returns {number} The delay, in milliseconds.
+     */
+    protected getRedeliveryDelay(): number {
+        let delay = parseInt(TB.toStringSafe(this._options.redeliveryDelay).trim());
+        if (isNaN(delay) || delay < 0) {
+            delay = 1000;
+        }
+
+        return delay;
+    }
+
+    /**
+     * Loads the durable queues from the storage directory.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected loadQueues(): Promise<any> {
+        let me = this;
+
+        let dir = TB.toStringSafe(me._options.storageDir);
+        if (TB.isEmptyString(dir)) {
+            return Promise.resolve();
+        }
+        dir = Path.resolve(dir);
+
+        return new Promise<any>((resolve, reject) => {
+            TB.mkdirs(dir).then(() => {
+                fs.readdir(dir, (err, files) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    try {
+                        files.filter(f => /\.json$/i.test(f)).forEach(f => {
+                            let data = TB.fromJSON<any>(fs.readFileSync(Path.join(dir, f), 'utf8'));
+                            if (!data) {
+                                return;
+                            }
+
+                            let queue = me.getOrCreateQueue(TB.toStringSafe(data.name), true);
+                            queue.patterns = TB.asArray<string>(data.patterns);
+                            queue.messages = TB.asArray<BrokerMessage<any>>(data.messages);
+                        });
+
+                        resolve();
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Returns a queue and creates it if needed.
+     * 
+     * @param {string} name The name of the queue.
+     * @param {boolean} durable Is durable or not.
+     * 
+     * @returns {BrokerQueue} The queue.
+     */
+    protected getOrCreateQueue(name: string, durable: boolean): BrokerQueue {
+        let queue = this._queues[name];
+        if (!queue) {
+            this._queues[name] = queue = {
+                consumers: [],
+                delayed: {},
+                deliveries: {},
+                durable: durable,
+                inFlight: {},
+                messages: [],
+                name: name,
+                nextConsumer: 0,
+                patterns: [],
+                saveQueue: Promise.resolve(),
+            };
+        }
+
+        return queue;
+    }
+
+    /**
+     * Handles a request of a client.
+     * 
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {BrokerRequest} req The request.
+     */
+    protected onRequest(channel: SecureSockets.SecureChannel, req: BrokerRequest) {
+        let me = this;
+
+        if (!req) {
+            return;
+        }
+
+        let respond = (err?: any) => {
+            if (TB.isEmptyString(req.requestId)) {
+                return;
+            }
+
+            channel.send({
+                op: err ? 'error' : 'ok',
+                requestId: req.requestId,
+                text: err ? TB.toStringSafe(err.message || err) : undefined,
+            }).then(() => {
+            }, (e) => {
+                console.log('[ERROR.ts-toolbox] MessageBroker.onRequest(): ' + e);
+            });
+        };
+
+        try {
+            switch (req.op) {
+                case 'ack':
+                case 'nack':
+                    me.acknowledge(req.deliveryId, 'ack' === req.op);
+                    break;
+
+                case 'publish':
+                    me.publish(req.topic, req.payload);
+                    respond();
+                    break;
+
+                case 'subscribe':
+                    me.subscribe(channel, req.pattern, req.queue, req.client);
+                    respond();
+                    break;
+
+                case 'unsubscribe':
+                    me.unsubscribe(channel, req.pattern, req.queue, req.client);
+                    respond();
+                    break;
+
+                default:
+                    throw new Error(`Operation '${req.op}' is NOT supported!`);
+            }
+        }
+        catch (e) {
+            respond(e);
+        }
+    }
+
+    /**
+     * Publishes a message.
+     * 
+     * @param {string} topic The topic.
+     * @param {T} payload The payload.
+     * 
+     * @returns {BrokerMessage<T>} The published message.
+     */
+    public publish<T>(topic: string, payload: T): BrokerMessage<T> {
+        topic = TB.toStringSafe(topic);
+        if (TB.isEmptyString(topic)) {
+            throw new Error('No topic defined!');
+        }
+
+        let msg: BrokerMessage<T> = {
+            id: TB.uuid(),
+            payload: payload,
+            time: TB.utcNow().toISOString(),
+            topic: topic,
+        };
+
+        for (let name in this._queues) {
+            let queue = this._queues[name];
+
+            if (TB.match(topic, queue.patterns).length > 0) {
+                queue.messages.push(msg);
+
+                this.saveQueue(queue);
+                this.dispatch(queue);
+            }
+        }
+
+        return msg;
+    }
+
+    /**
+     * Delivers a message, which has not been acknowledged, again after a delay,
+     * or moves it to the dead letter queue, if it has reached the maximum number of deliveries.
+     * 
+     * @param {BrokerQueue} queue The queue.
+     * @param {string} messageId The ID of the message.
+     */
+    protected redeliver(queue: BrokerQueue, messageId: string) {
+        let me = this;
+
+        let maxDeliveries = me.getMaxDeliveries();
+        if (maxDeliveries > 0 && queue.deliveries[messageId] >= maxDeliveries) {
+            let msg = queue.messages.filter(m => m.id === messageId)[0];
+
+            queue.messages = queue.messages.filter(m => m.id !== messageId);
+            delete queue.deliveries[messageId];
+
+            me.saveQueue(queue);
+
+            let deadLetterQueue = TB.toStringSafe(me._options.deadLetterQueue).trim();
+            if (msg && '' !== deadLetterQueue && deadLetterQueue !== queue.name) {
+                let dlq = me.getOrCreateQueue(deadLetterQueue, true);
+                dlq.messages.push(msg);
+
+                me.saveQueue(dlq);
+                me.dispatch(dlq);
+            }
+
+            return;
+        }
+
+        let delay = me.getRedeliveryDelay();
+        if (delay > 0) {
+            queue.delayed[messageId] = setTimeout(() => {
+                delete queue.delayed[messageId];
+
+                me.dispatch(queue);
+            }, delay);
+        }
+    }
+
+    /**
+     * Removes the consumers of a closed channel.
+     * 
+     * @param {SecureSockets.SecureChannel} channel The channel.
+     */
+    protected removeChannel(channel: SecureSockets.SecureChannel) {
+        for (let name in this._queues) {
+            let queue = this._queues[name];
+
+            queue.consumers = queue.consumers.filter(c => c.channel !== channel);
+
+            // deliver in-flight messages of that channel again
+            for (let messageId in queue.inFlight) {
+                let inFlight = queue.inFlight[messageId];
+
+                if (inFlight.consumer.channel === channel) {
+                    clearTimeout(inFlight.timer);
+
+                    delete queue.inFlight[messageId];
+                    delete this._deliveries[inFlight.deliveryId];
+                }
+            }
+
+            if (!queue.durable && queue.consumers.length < 1) {
+                this.removeQueue(queue);
+            }
+            else {
+                this.dispatch(queue);
+            }
+        }
+    }
+
+    /**
+     * Removes a (temporary) queue and its pending deliveries.
+     * 
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected removeQueue(queue: BrokerQueue) {
+        for (let messageId in queue.inFlight) {
+            let inFlight = queue.inFlight[messageId];
+
+            clearTimeout(inFlight.timer);
+            delete this._deliveries[inFlight.deliveryId];
+        }
+        queue.inFlight = {};
+
+        for (let messageId in queue.delayed) {
+            clearTimeout(queue.delayed[messageId]);
+        }
+        queue.delayed = {};
+
+        delete this._queues[queue.name];
+    }
+
+    /**
+     * Saves a durable queue.
+     * 
+     * @param {BrokerQueue} queue The queue.
+     */
+    protected saveQueue(queue: BrokerQueue) {
+        if (!queue.durable) {
+            return;
+        }
+
+        let file = this.getQueueFile(queue.name);
+        if (false === file) {
+            return;
+        }
+
+        let save = () => {
+            return new Promise<any>((resolve) => {
+                let data = JSON.stringify({
+                    messages: queue.messages,
+                    name: queue.name,
+                    patterns: queue.patterns,
+                });
+
+                // write to temp file first, so the file is never corrupted
+                let tempFile = file + '.tmp';
+                fs.writeFile(tempFile, data, 'utf8', (err) => {
+                    if (err) {
+                        console.log('[ERROR.ts-toolbox] MessageBroker.saveQueue(): ' + err);
+                        resolve();
+
+                        return;
+                    }
+
+                    fs.rename(tempFile, <string>file, (err) => {
+                        if (err) {
+                            console.log('[ERROR.ts-toolbox] MessageBroker.saveQueue(): ' + err);
+                        }
+
+                        resolve();
+                    });
+                });
+            });
+        };
+
+        queue.saveQueue = queue.saveQueue.then(save, save);
+    }
+
+    /**
+     * Loads the durable queues and starts listening.
+     * 
+     * @param {number} port The TCP port.
+     * 
+     * @returns {Promise<net.Server>} The promise with the underlying server.
+     */
+    public start(port: number): Promise<net.Server> {
+        let me = this;
+
+        return new Promise<net.Server>((resolve, reject) => {
+            me.loadQueues().then(() => {
+                SecureSockets.startSecureChannelServer(port, (channel) => {
+                    channel.on('message', (req: BrokerRequest) => {
+                        me.onRequest(channel, req);
+                    });
+                    channel.once('close', () => {
+                        me.removeChannel(channel);
+                    });
+                }, me._options).then((server) => {
+                    me._server = server;
+
+                    resolve(server);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Adds a subscription.
+     * 
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {string} pattern The pattern.
+     * @param {string} [queueName] The name of the durable queue.
+     * @param {string} [client] The ID of the client, which can use more than one channel.
+     */
+    protected subscribe(channel: SecureSockets.SecureChannel, pattern: string, queueName?: string, client?: string) {
+        pattern = TB.toStringSafe(pattern);
+        if (TB.isEmptyString(pattern)) {
+            throw new Error('No pattern defined!');
+        }
+
+        client = TB.isEmptyString(client) ? undefined : TB.toStringSafe(client);
+
+        let queue: BrokerQueue;
+        if (TB.isEmptyString(queueName)) {
+            // temporary queue for that subscription,
+            // which is shared by all channels of a client
+            for (let name in this._queues) {
+                let q = this._queues[name];
+
+                if (!q.durable && q.consumers.some(c => isSameClient(c, channel, client) && c.pattern === pattern)) {
+                    queue = q;  // already subscribed
+                    break;
+                }
+            }
+
+            if (!queue) {
+                queue = this.getOrCreateQueue('~' + TB.uuid(), false);
+            }
+        }
+        else {
+            queue = this.getOrCreateQueue(TB.toStringSafe(queueName).trim(), true);
+        }
+
+        if (queue.patterns.indexOf(pattern) < 0) {
+            queue.patterns.push(pattern);
+            this.saveQueue(queue);
+        }
+
+        if (!queue.consumers.some(c => c.channel === channel && c.pattern === pattern)) {
+            queue.consumers.push({
+                channel: channel,
+                client: client,
+                pattern: pattern,
+            });
+        }
+
+        this.dispatch(queue);
+    }
+
+    /**
+     * Removes a subscription.
+     * 
+     * @param {SecureSockets.SecureChannel} channel The channel of the client.
+     * @param {string} pattern The pattern.
+     * @param {string} [queueName] The name of the durable queue.
+     * @param {string} [client] The ID of the client, which can use more than one channel.
+     */
+    protected unsubscribe(channel: SecureSockets.SecureChannel, pattern: string, queueName?: string, client?: string) {
+        pattern = TB.toStringSafe(pattern);
+        client = TB.isEmptyString(client) ? undefined : TB.toStringSafe(client);
+        let isDurable = !TB.isEmptyString(queueName);
+
+        for (let name in this._queues) {
+            let queue = this._queues[name];
+            if (queue.durable !== isDurable ||
+                (isDurable && queue.name !== TB.toStringSafe(queueName).trim())) {
+                continue;
+            }
+
+            queue.consumers = queue.consumers.filter(c => !isSameClient(c, channel, client) || c.pattern !== pattern);
+            if (!queue.durable) {
+                if (queue.consumers.length < 1) {
+                    this.removeQueue(queue);
+                }
+
+                continue;
+            }
+
+            // stop collecting messages for that pattern,
+            // if there is no other subscriber anymore
+            let patternIndex = queue.patterns.indexOf(pattern);
+            if (patternIndex > -1 && !queue.consumers.some(c => c.pattern === pattern)) {
+                queue.patterns.splice(patternIndex, 1);
+                this.saveQueue(queue);
+            }
+        }
+    }
+}
+
+
+function isSameClient(consumer: BrokerConsumer, channel: SecureSockets.SecureChannel, client: string): boolean {
+    if (client) {
+        return consumer.client === client;
+    }
+
+    return consumer.channel === channel;
+}
+
+
+/**
+ * Creates a new broker client and starts connecting.
+ * 
+ * @param {number} port The TCP port of the broker.
+ * @param {string} [host] The host address of the broker.
+ * @param {BrokerClientOptions} [opts] The options.
+ * 
+ * @returns {BrokerClient} The new client.
+ */
+export function connectToBroker(port: number, host?: string, opts?: BrokerClientOptions): BrokerClient {
+    return new BrokerClient(port, host, opts).start();
+}
+
+/**
+ * Starts a new message broker.
+ * 
+ * @param {number} port The TCP port.
+ * @param {MessageBrokerOptions} [opts] The options.
+ * 
+ * @returns {Promise<MessageBroker>} The promise with the new broker.
+ */
+export function startBroker(port: number, opts?: MessageBrokerOptions): Promise<MessageBroker> {
+    return new Promise<MessageBroker>((resolve, reject) => {
+        let broker = new MessageBroker(opts);
+
+        broker.start(port).then(() => {
+            resolve(broker);
+        }, (err) => {
+            reject(err);
+        });
+    });
+}
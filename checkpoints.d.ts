@@ -0,0 +1,320 @@
+import * as Workflows from 'node-workflows';
+/**
+ * A checkpoint of a workflow.
+ */
+export interface Checkpoint {
+    /**
+     * The index of the last completed step or -1 if no step has been completed yet.
+     */
+    completedIndex: number;
+    /**
+     * The error message, if a step failed.
+     */
+    error?: string;
+    /**
+     * The ID of the execution.
+     */
+    id: string;
+    /**
+     * The current result value.
+     */
+    result: any;
+    /**
+     * The current state value.
+     */
+    state: any;
+    /**
+     * The status.
+     */
+    status: CheckpointStatus;
+    /**
+     * The time the checkpoint has been updated (ISO 8601, UTC).
+     */
+    updatedAt: string;
+    /**
+     * The name of the workflow.
+     */
+    workflow: string;
+}
+/**
+ * The context of a step of a checkpointed workflow.
+ */
+export interface CheckpointContext {
+    /**
+     * The current attempt (beginning at 1).
+     */
+    attempt: number;
+    /**
+     * The ID of the execution.
+     */
+    id: string;
+    /**
+     * The zero based index of the step.
+     */
+    index: number;
+    /**
+     * The result value of the workflow.
+     */
+    result: any;
+    /**
+     * The state value, which must be serializable as JSON.
+     */
+    state: any;
+    /**
+     * The underlying workflow context.
+     */
+    workflow: Workflows.WorkflowActionContext;
+}
+/**
+ * Possible values for the status of a checkpoint.
+ *
+ * 'compensated': a step failed and all completed steps have been undone
+ * 'compensating': a step failed and completed steps are undone
+ * 'completed': all steps have been completed
+ * 'running': steps are executed
+ */
+export declare type CheckpointStatus = 'compensated' | 'compensating' | 'completed' | 'running';
+/**
+ * A step of a checkpointed workflow.
+ */
+export interface CheckpointStep {
+    /**
+     * Executes the step.
+     *
+     * @param {CheckpointContext} ctx The context.
+     *
+     * @returns {any} The result, which can also be a promise.
+     */
+    execute: (ctx: CheckpointContext) => any;
+    /**
+     * The name of the step.
+     */
+    name?: string;
+    /**
+     * The number of retries. Default: 0
+     */
+    retries?: number;
+    /**
+     * The time to wait before a retry, in milliseconds. Default: 1000
+     */
+    retryDelay?: number;
+    /**
+     * The maximum time of an attempt, in milliseconds.
+     *
+     * A step, which has timed out, is NOT cancelled: it keeps running, while its retry starts.
+     * Its changes of 'ctx.result' and 'ctx.state' are discarded.
+     */
+    timeout?: number;
+    /**
+     * Undoes the step, if a later step failed.
+     *
+     * @param {CheckpointContext} ctx The context.
+     *
+     * @returns {any} The result, which can also be a promise.
+     */
+    undo?: (ctx: CheckpointContext) => any;
+}
+/**
+ * A possible value for a step.
+ */
+export declare type CheckpointStepType = CheckpointStep | ((ctx: CheckpointContext) => any);
+/**
+ * A storage for checkpoints.
+ */
+export interface CheckpointStore {
+    /**
+     * Loads a checkpoint.
+     *
+     * @param {string} id The ID of the execution.
+     *
+     * @returns {Promise<Checkpoint>} The promise with the checkpoint or (null) if not found.
+     */
+    load(id: string): Promise<Checkpoint>;
+    /**
+     * Saves a checkpoint.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    save(checkpoint: Checkpoint): Promise<any>;
+}
+/**
+ * Options for a checkpointed workflow.
+ */
+export interface CheckpointedWorkflowOptions {
+    /**
+     * The default number of retries of a step. Default: 0
+     */
+    retries?: number;
+    /**
+     * The default time to wait before a retry, in milliseconds. Default: 1000
+     */
+    retryDelay?: number;
+    /**
+     * The store for the checkpoints. Default: in-memory
+     */
+    store?: CheckpointStore;
+    /**
+     * The default maximum time of an attempt, in milliseconds (s. 'CheckpointStep.timeout').
+     */
+    timeout?: number;
+}
+/**
+ * A workflow, which saves a checkpoint after each step, so it can be resumed.
+ */
+export declare class CheckpointedWorkflow {
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: CheckpointedWorkflowOptions;
+    /**
+     * Stores the steps.
+     */
+    protected _steps: CheckpointStep[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} name The unique name.
+     * @param {CheckpointStepType[]} steps The steps.
+     * @param {CheckpointedWorkflowOptions} [opts] The options.
+     */
+    constructor(name: string, steps: CheckpointStepType[], opts?: CheckpointedWorkflowOptions);
+    /**
+     * Undoes the completed steps.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected compensate(checkpoint: Checkpoint): Promise<any>;
+    /**
+     * Creates a step context.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * @param {number} index The index of the step.
+     * @param {Workflows.WorkflowActionContext} workflow The workflow context.
+     *
+     * @returns {CheckpointContext} The context.
+     */
+    protected createContext(checkpoint: Checkpoint, index: number, workflow: Workflows.WorkflowActionContext): CheckpointContext;
+    /**
+     * Executes the steps, beginning after the last completed one.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     *
+     * @returns {Promise<any>} The promise with the result.
+     */
+    protected execute(checkpoint: Checkpoint): Promise<any>;
+    /**
+     * Executes a step with retries and saves the checkpoint.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * @param {number} index The index of the step.
+     * @param {Workflows.WorkflowActionContext} workflow The workflow context.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected executeStep(checkpoint: Checkpoint, index: number, workflow: Workflows.WorkflowActionContext): Promise<any>;
+    /**
+     * Gets the name.
+     */
+    readonly name: string;
+    /**
+     * Resumes an execution from its last checkpoint.
+     *
+     * @param {string} id The ID of the execution.
+     *
+     * @returns {Promise<any>} The promise with the result.
+     */
+    resume(id: string): Promise<any>;
+    /**
+     * Saves a checkpoint.
+     *
+     * @param {Checkpoint} checkpoint The checkpoint.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected save(checkpoint: Checkpoint): Promise<any>;
+    /**
+     * Starts a new execution.
+     *
+     * @param {any} [initialState] The initial state value.
+     * @param {string} [id] The custom ID of the execution.
+     *
+     * @returns {Promise<any>} The promise with the result.
+     */
+    start(initialState?: any, id?: string): Promise<any>;
+    /**
+     * Gets the store.
+     */
+    readonly store: CheckpointStore;
+}
+/**
+ * A checkpoint store, which stores each checkpoint as JSON file inside a directory.
+ */
+export declare class FileCheckpointStore implements CheckpointStore {
+    /**
+     * Stores the directory.
+     */
+    protected _dir: string;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} dir The directory.
+     */
+    constructor(dir: string);
+    /**
+     * Gets the directory.
+     */
+    readonly dir: string;
+    /**
+     * Returns the path of the file of a checkpoint.
+     *
+     * @param {string} id The ID of the execution.
+     *
+     * @returns {string} The path.
+     */
+    protected getFile(id: string): string;
+    /** @inheritdoc */
+    load(id: string): Promise<Checkpoint>;
+    /** @inheritdoc */
+    save(checkpoint: Checkpoint): Promise<any>;
+}
+/**
+ * A checkpoint store, which keeps the checkpoints in memory.
+ */
+export declare class MemoryCheckpointStore implements CheckpointStore {
+    /**
+     * Stores the serialized checkpoints.
+     */
+    protected _checkpoints: {
+        [id: string]: string;
+    };
+    /** @inheritdoc */
+    load(id: string): Promise<Checkpoint>;
+    /** @inheritdoc */
+    save(checkpoint: Checkpoint): Promise<any>;
+}
+/**
+ * Defines a checkpointed workflow, which can be resumed with 'resumeWorkflow()'.
+ *
+ * @param {string} name The unique name.
+ * @param {CheckpointStepType[]} steps The steps.
+ * @param {CheckpointedWorkflowOptions} [opts] The options.
+ *
+ * @returns {CheckpointedWorkflow} The new workflow.
+ */
+export declare function defineWorkflow(name: string, steps: CheckpointStepType[], opts?: CheckpointedWorkflowOptions): CheckpointedWorkflow;
+/**
+ * Resumes the execution of a workflow, which has been defined with 'defineWorkflow()', from its last checkpoint.
+ *
+ * @param {string} id The ID of the execution.
+ *
+ * @returns {Promise<any>} The promise with the result.
+ */
+export declare function resumeWorkflow(id: string): Promise<any>;
@@ -0,0 +1,752 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as fs from 'fs';
+import { Lifecycle } from './lifecycle';
+import * as Path from 'path';
+import * as TB from './index';
+import * as Workflows from 'node-workflows';
+
+
+/**
+ * A checkpoint of a workflow.
+ */
+export interface Checkpoint {
+    /**
+     * The index of the last completed step or -1 if no step has been completed yet.
+     */
+    completedIndex: number;
+    /**
+     * The error message, if a step failed.
+     */
+    error?: string;
+    /**
+     * The ID of the execution.
+     */
+    id: string;
+    /**
+     * The current result value.
+     */
+    result: any;
+    /**
+     * The current state value.
+     */
+    state: any;
+    /**
+     * The status.
+     */
+    status: CheckpointStatus;
+    /**
+     * The time the checkpoint has been updated (ISO 8601, UTC).
+     */
+    updatedAt: string;
+    /**
+     * The name of the workflow.
+     */
+    workflow: string;
+}
+
+/**
+ * The context of a step of a checkpointed workflow.
+ */
+export interface CheckpointContext {
+    /**
+     * The current attempt (beginning at 1).
+     */
+    attempt: number;
+    /**
+     * The ID of the execution.
+     */
+    id: string;
+    /**
+     * The zero based index of the step.
+     */
+    index: number;
+    /**
+     * The result value of the workflow.
+     */
+    result: any;
+    /**
+     * The state value, which must be serializable as JSON.
+     */
+    state: any;
+    /**
+     * The underlying workflow context.
+     */
+    workflow: Workflows.WorkflowActionContext;
+}
+
+/**
+ * Possible values for the status of a checkpoint.
+ * 
+ * 'compensated': a step failed and all completed steps have been undone
+ * 'compensating': a step failed and completed steps are undone
+ * 'completed': all steps have been completed
+ * 'running': steps are executed
+ */
+export type CheckpointStatus = 'compensated' | 'compensating' | 'completed' | 'running';
+
+/**
+ * A step of a checkpointed workflow.
+ */
+export interface CheckpointStep {
+    /**
+     * Executes the step.
+     * 
+     * @param {CheckpointContext} ctx The context.
+     * 
+     * @returns {any} The result, which can also be a promise.
+     */
+    execute: (ctx: CheckpointContext) => any;
+    /**
+     * The name of the step.
+     */
+    name?: string;
+    /**
+     * The number of retries. Default: 0
+     */
+    retries?: number;
+    /**
+     * The time to wait before a retry, in milliseconds. Default: 1000
+     */
+    retryDelay?: number;
+    /**
+     * The maximum time of an attempt, in milliseconds.
+     * 
+     * A step, which has timed out, is NOT cancelled: it keeps running, while its retry starts.
+     * Its changes of 'ctx.result' and 'ctx.state' are discarded.
+     */
+    timeout?: number;
+    /**
+     * Undoes the step, if a later step failed.
+     * 
+     * @param {CheckpointContext} ctx The context.
+     * 
+     * @returns {any} The result, which can also be a promise.
+     */
+    undo?: (ctx: CheckpointContext) => any;
+}
+
+/**
+ * A possible value for a step.
+ */
+export type CheckpointStepType = CheckpointStep | ((ctx: CheckpointContext) => any);
+
+/**
+ * A storage for checkpoints.
+ */
+export interface CheckpointStore {
+    /**
+     * Loads a checkpoint.
+     * 
+     * @param {string} id The ID of the execution.
+     * 
+     * @returns {Promise<Checkpoint>} The promise with the checkpoint or (null) if not found.
+     */
+    load(id: string): Promise<Checkpoint>;
+    /**
+     * Saves a checkpoint.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    save(checkpoint: Checkpoint): Promise<any>;
+}
+
+/**
+ * Options for a checkpointed workflow.
+ */
+export interface CheckpointedWorkflowOptions {
+    /**
+     * The default number of retries of a step. Default: 0
+     */
+    retries?: number;
+    /**
+     * The default time to wait before a retry, in milliseconds. Default: 1000
+     */
+    retryDelay?: number;
+    /**
+     * The store for the checkpoints. Default: in-memory
+     */
+    store?: CheckpointStore;
+    /**
+     * The default maximum time of an attempt, in milliseconds (s. 'CheckpointStep.timeout').
+     */
+    timeout?: number;
+}
+
+
+/**
+ * A workflow, which saves a checkpoint after each step, so it can be resumed.
+ */
+export class CheckpointedWorkflow {
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: CheckpointedWorkflowOptions;
+    /**
+     * Stores the steps.
+     */
+    protected _steps: CheckpointStep[];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} name The unique name.
+     * @param {CheckpointStepType[]} steps The steps.
+     * @param {CheckpointedWorkflowOptions} [opts] The options.
+     */
+    constructor(name: string, steps: CheckpointStepType[], opts?: CheckpointedWorkflowOptions) {
+        this._name = name;
+
+        // work on a copy, so the options of the caller are not changed
+        this._options = {};
+        if (opts) {
+            for (let p in opts) {
+                (<any>this._options)[p] = (<any>opts)[p];
+            }
+        }
+        if (!this._options.store) {
+            this._options.store = new MemoryCheckpointStore();
+        }
+
+        this._steps = TB.asArray(steps).map(s => {
+            if ('function' === typeof s) {
+                return {
+                    execute: <(ctx: CheckpointContext) => any>s,
+                };
+            }
+
+            return <CheckpointStep>s;
+        });
+    }
+
+    /**
+     * Undoes the completed steps.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected compensate(checkpoint: Checkpoint): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let undoNext = () => {
+                if (checkpoint.completedIndex < 0) {
+                    checkpoint.status = 'compensated';
+
+                    me.save(checkpoint).then(resolve, reject);
+                    return;
+                }
+
+                let index = checkpoint.completedIndex;
+                let step = me._steps[index];
+
+                let ctx = me.createContext(checkpoint, index, null);
+
+                new Promise<any>((res, rej) => {
+                    try {
+                        TB.asPromise(step.undo ? step.undo(ctx) : undefined).then(res, rej);
+                    }
+                    catch (e) {
+                        rej(e);
+                    }
+                }).then(() => {
+                    checkpoint.completedIndex = index - 1;
+                    checkpoint.state = ctx.state;
+
+                    me.save(checkpoint).then(undoNext, reject);
+                }, reject);
+            };
+
+            undoNext();
+        });
+    }
+
+    /**
+     * Creates a step context.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * @param {number} index The index of the step.
+     * @param {Workflows.WorkflowActionContext} workflow The workflow context.
+     * 
+     * @returns {CheckpointContext} The context.
+     */
+    protected createContext(checkpoint: Checkpoint, index: number, workflow: Workflows.WorkflowActionContext): CheckpointContext {
+        return {
+            attempt: 1,
+            id: checkpoint.id,
+            index: index,
+            result: checkpoint.result,
+            state: checkpoint.state,
+            workflow: workflow,
+        };
+    }
+
+    /**
+     * Executes the steps, beginning after the last completed one.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * 
+     * @returns {Promise<any>} The promise with the result.
+     */
+    protected execute(checkpoint: Checkpoint): Promise<any> {
+        let me = this;
+
+        let result = new Promise<any>((resolve, reject) => {
+            let fail = (err: any) => {
+                checkpoint.error = TB.toStringSafe(err ? (err.message || err) : err);
+                checkpoint.status = 'compensating';
+
+                let rejectWithStepError = () => {
+                    reject(err);
+                };
+
+                me.save(checkpoint).then(() => {
+                    me.compensate(checkpoint).then(rejectWithStepError, (undoErr) => {
+                        // keep status, so compensation can be resumed
+                        console.log('[ERROR.ts-toolbox] CheckpointedWorkflow.execute(): ' + undoErr);
+
+                        rejectWithStepError();
+                    });
+                }, rejectWithStepError);
+            };
+
+            if ('completed' === checkpoint.status) {
+                resolve(checkpoint.result);
+                return;
+            }
+            if ('compensated' === checkpoint.status) {
+                reject(new Error(`Workflow '${checkpoint.id}' has been rolled back: ${checkpoint.error}`));
+                return;
+            }
+            if ('compensating' === checkpoint.status) {
+                me.compensate(checkpoint).then(() => {
+                    reject(new Error(`Workflow '${checkpoint.id}' has been rolled back: ${checkpoint.error}`));
+                }, reject);
+                return;
+            }
+
+            let executors: Workflows.WorkflowExecutorType[] = me._steps.map((step, index) => {
+                return (ctx: Workflows.WorkflowActionContext) => {
+                    if (index <= checkpoint.completedIndex) {
+                        return;  // already completed
+                    }
+
+                    return me.executeStep(checkpoint, index, ctx);
+                };
+            });
+
+            executors.push((ctx: Workflows.WorkflowActionContext) => {
+                ctx.result = checkpoint.result;
+            });
+
+            TB.newWorkflow.apply(null, executors).start().then(() => {
+                checkpoint.status = 'completed';
+
+                me.save(checkpoint).then(() => {
+                    resolve(checkpoint.result);
+                }, reject);
+            }, fail);
+        });
+
+        Lifecycle.addWorkflow(result);
+
+        return result;
+    }
+
+    /**
+     * Executes a step with retries and saves the checkpoint.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * @param {number} index The index of the step.
+     * @param {Workflows.WorkflowActionContext} workflow The workflow context.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected executeStep(checkpoint: Checkpoint, index: number, workflow: Workflows.WorkflowActionContext): Promise<any> {
+        let me = this;
+
+        let step = me._steps[index];
+
+        let retries = getNumber(step.retries, getNumber(me._options.retries, 0));
+        let retryDelay = getNumber(step.retryDelay, getNumber(me._options.retryDelay, 1000));
+        let timeout = getNumber(step.timeout, getNumber(me._options.timeout, 0));
+
+        return new Promise<any>((resolve, reject) => {
+            let attempt = 0;
+
+            let tryStep = () => {
+                ++attempt;
+
+                // work on copies, so a failed attempt does not change the checkpoint
+                let ctx = me.createContext(checkpoint, index, workflow);
+                ctx.attempt = attempt;
+                ctx.result = cloneValue(checkpoint.result);
+                ctx.state = cloneValue(checkpoint.state);
+
+                withTimeout(() => step.execute(ctx), timeout, step.name || ('#' + index)).then(() => {
+                    checkpoint.completedIndex = index;
+                    checkpoint.error = undefined;
+                    checkpoint.result = ctx.result;
+                    checkpoint.state = ctx.state;
+
+                    me.save(checkpoint).then(resolve, reject);
+                }, (err) => {
+                    if (attempt > retries) {
+                        reject(err);
+                    }
+                    else {
+                        setTimeout(tryStep, retryDelay);
+                    }
+                });
+            };
+
+            tryStep();
+        });
+    }
+
+    /**
+     * Gets the name.
+     */
+    public get name(): string {
+        return this._name;
+    }
+
+    /**
+     * Resumes an execution from its last checkpoint.
+     * 
+     * @param {string} id The ID of the execution.
+     * 
+     * @returns {Promise<any>} The promise with the result.
+     */
+    public resume(id: string): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            me._options.store.load(id).then((checkpoint) => {
+                if (!checkpoint || checkpoint.workflow !== me._name) {
+                    reject(new Error(`Checkpoint '${id}' not found!`));
+                    return;
+                }
+
+                me.execute(checkpoint).then(resolve, reject);
+            }, reject);
+        });
+    }
+
+    /**
+     * Saves a checkpoint.
+     * 
+     * @param {Checkpoint} checkpoint The checkpoint.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected save(checkpoint: Checkpoint): Promise<any> {
+        checkpoint.updatedAt = TB.utcNow().toISOString();
+
+        return this._options.store.save(checkpoint);
+    }
+
+    /**
+     * Starts a new execution.
+     * 
+     * @param {any} [initialState] The initial state value.
+     * @param {string} [id] The custom ID of the execution.
+     * 
+     * @returns {Promise<any>} The promise with the result.
+     */
+    public start(initialState?: any, id?: string): Promise<any> {
+        let me = this;
+
+        let checkpoint: Checkpoint = {
+            completedIndex: -1,
+            id: TB.isEmptyString(id) ? TB.uuid() : TB.toStringSafe(id),
+            result: undefined,
+            state: initialState,
+            status: 'running',
+            updatedAt: undefined,
+            workflow: me._name,
+        };
+
+        return new Promise<any>((resolve, reject) => {
+            me.save(checkpoint).then(() => {
+                me.execute(checkpoint).then(resolve, reject);
+            }, reject);
+        });
+    }
+
+    /**
+     * Gets the store.
+     */
+    public get store(): CheckpointStore {
+        return this._options.store;
+    }
+}
+
+/**
+ * A checkpoint store, which stores each checkpoint as JSON file inside a directory.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+    /**
+     * Stores the directory.
+     */
+    protected _dir: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} dir The directory.
+     */
+    constructor(dir: string) {
+        this._dir = Path.resolve(TB.toStringSafe(dir));
+    }
+
+    /**
+     * Gets the directory.
+     */
+    public get dir(): string {
+        return this._dir;
+    }
+
+    /**
+     * Returns the path of the file of a checkpoint.
+     * 
+     * @param {string} id The ID of the execution.
+     * 
+     * @returns {string} The path.
+     */
+    protected getFile(id: string): string {
+        return Path.join(this._dir, encodeURIComponent(id) + '.json');
+    }
+
+    /** @inheritdoc */
+    public load(id: string): Promise<Checkpoint> {
+        let file = this.getFile(id);
+
+        return new Promise<Checkpoint>((resolve, reject) => {
+            fs.readFile(file, 'utf8', (err, data) => {
+                if (err) {
+                    if ('ENOENT' === err.code) {
+                        resolve(null);
+                    }
+                    else {
+                        reject(err);
+                    }
+
+                    return;
+                }
+
+                try {
+                    resolve(TB.fromJSON<Checkpoint>(data));
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public save(checkpoint: Checkpoint): Promise<any> {
+        let me = this;
+
+        let file = me.getFile(checkpoint.id);
+        let data = JSON.stringify(checkpoint);
+
+        return new Promise<any>((resolve, reject) => {
+            TB.mkdirs(me._dir).then(() => {
+                // write to temp file first, so the file is never corrupted
+                let tempFile = file + '.tmp';
+
+                fs.writeFile(tempFile, data, 'utf8', (err) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    fs.rename(tempFile, file, TB.createSimpleCompletedAction(resolve, reject));
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+}
+
+/**
+ * A checkpoint store, which keeps the checkpoints in memory.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+    /**
+     * Stores the serialized checkpoints.
+     */
+    protected _checkpoints: { [id: string]: string } = {};
+
+    /** @inheritdoc */
+    public load(id: string): Promise<Checkpoint> {
+        let data = this._checkpoints[id];
+
+        return Promise.resolve(data ? TB.fromJSON<Checkpoint>(data) : null);
+    }
+
+    /** @inheritdoc */
+    public save(checkpoint: Checkpoint): Promise<any> {
+        this._checkpoints[checkpoint.id] = JSON.stringify(checkpoint);
+
+        return Promise.resolve();
+    }
+}
+
+
+const workflowDefinitions: CheckpointedWorkflow[] = [];
+
+function cloneValue(val: any): any {
+    if (TB.isNullOrUndefined(val)) {
+        return val;
+    }
+
+    return JSON.parse(JSON.stringify(val));
+}
+
+function getNumber(val: any, defaultValue: number): number {
+    let n = parseFloat(TB.toStringSafe(val).trim());
+    if (isNaN(n)) {
+        n = defaultValue;
+    }
+
+    return n;
+}
+
+function withTimeout(action: () => any, timeout: number, stepName: string): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let timer: NodeJS.Timer;
+        let isDone = false;
+
+        let done = (err: any) => {
+            if (isDone) {
+                return;
+            }
+            isDone = true;
+
+            clearTimeout(timer);
+
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve();
+            }
+        };
+
+        if (timeout > 0) {
+            timer = setTimeout(() => {
+                let err: any = new Error(`Step '${stepName}' timed out after ${timeout} ms!`);
+                err.code = 'ETIMEDOUT';
+
+                done(err);
+            }, timeout);
+        }
+
+        try {
+            TB.asPromise(action()).then(() => {
+                done(null);
+            }, (err) => {
+                done(err || new Error(`Step '${stepName}' failed!`));
+            });
+        }
+        catch (e) {
+            done(e);
+        }
+    });
+}
+
+
+/**
+ * Defines a checkpointed workflow, which can be resumed with 'resumeWorkflow()'.
+ * 
+ * @param {string} name The unique name.
+ * @param {CheckpointStepType[]} steps The steps.
+ * @param {CheckpointedWorkflowOptions} [opts] The options.
+ * 
+ * @returns {CheckpointedWorkflow} The new workflow.
+ */
+export function defineWorkflow(name: string, steps: CheckpointStepType[], opts?: CheckpointedWorkflowOptions): CheckpointedWorkflow {
+    name = TB.toStringSafe(name).trim();
+    if ('' === name) {
+        throw new Error('No workflow name defined!');
+    }
+    if (workflowDefinitions.some(w => w.name === name)) {
+        throw new Error(`Workflow '${name}' already exists!`);
+    }
+
+    let workflow = new CheckpointedWorkflow(name, steps, opts);
+    workflowDefinitions.push(workflow);
+
+    return workflow;
+}
+
+/**
+ * Resumes the execution of a workflow, which has been defined with 'defineWorkflow()', from its last checkpoint.
+ * 
+ * @param {string} id The ID of the execution.
+ * 
+ * @returns {Promise<any>} The promise with the result.
+ */
+export function resumeWorkflow(id: string): Promise<any> {
+    let stores: CheckpointStore[] = [];
+    workflowDefinitions.forEach(w => {
+        if (stores.indexOf(w.store) < 0) {
+            stores.push(w.store);
+        }
+    });
+
+    return new Promise<any>((resolve, reject) => {
+        let tryNextStore = () => {
+            let store = stores.shift();
+            if (!store) {
+                reject(new Error(`Checkpoint '${id}' not found!`));
+                return;
+            }
+
+            store.load(id).then((checkpoint) => {
+                let workflow = checkpoint ? workflowDefinitions.filter(w => w.name === checkpoint.workflow)[0] : null;
+                if (!workflow) {
+                    tryNextStore();
+                    return;
+                }
+
+                workflow.resume(id).then(resolve, reject);
+            }, reject);
+        };
+
+        tryNextStore();
+    });
+}
@@ -0,0 +1,72 @@
+/**
+ * Result of 'detectContent()'.
+ */
+export interface ContentInfo {
+    /**
+     * Is binary content or not.
+     */
+    binary: boolean;
+    /**
+     * The encoding of the byte order mark, if there is one.
+     */
+    bom?: string;
+    /**
+     * The detector that produced the MIME type.
+     */
+    detector: ContentDetector;
+    /**
+     * The detected text encoding (text content only).
+     */
+    encoding?: string;
+    /**
+     * The file extension, without leading dot.
+     */
+    extension?: string;
+    /**
+     * The MIME type.
+     */
+    mime: string;
+    /**
+     * A warning, if the extension of the filename contradicts the magic bytes.
+     */
+    mismatch?: string;
+    /**
+     * The stream to read the complete data from, if the source is a stream.
+     * This is the source itself or, if the source has ended while reading the header,
+     * a new stream with the read data.
+     */
+    stream?: NodeJS.ReadableStream;
+}
+/**
+ * Possible detectors of 'detectContent()'.
+ *
+ * 'magic' => magic bytes (fileType())
+ * 'filename' => extension of the filename (detectMimeByFilename())
+ * 'text' => the content is text (isBinary())
+ * 'none' => nothing matched, the default MIME type is used
+ */
+export declare type ContentDetector = 'filename' | 'magic' | 'none' | 'text';
+/**
+ * Options for 'detectContent()'.
+ */
+export interface DetectContentOptions {
+    /**
+     * The filename to use, if the source is a Buffer or a stream.
+     */
+    filename?: string;
+    /**
+     * The maximum number of bytes to read. Default: 4100
+     */
+    headerSize?: number;
+}
+/**
+ * Detects the content of a file, Buffer or stream, by combining 'fileType()', 'isBinary()' and 'detectMimeByFilename()'.
+ * Only the header bytes are read. The data of a stream is given back by 'unshift()', so it can be read from the beginning.
+ * A stream, which is shorter than the header, has ended after that, so read its data from the 'stream' property of the result.
+ *
+ * @param {string|Buffer|NodeJS.ReadableStream} source The path of the file, the data or the stream.
+ * @param {DetectContentOptions} [opts] The options.
+ *
+ * @returns {Promise<ContentInfo>} The promise with the result.
+ */
+export declare function detectContent(source: string | Buffer | NodeJS.ReadableStream, opts?: DetectContentOptions): Promise<ContentInfo>;
@@ -0,0 +1,333 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as FileType from 'file-type';
+import * as fs from 'fs';
+const IsBinaryFile = require("isbinaryfile");
+import * as MIME from 'mime';
+import * as Path from 'path';
+import * as Stream from 'stream';
+import * as TB from './index';
+
+
+/**
+ * Result of 'detectContent()'.
+ */
+export interface ContentInfo {
+    /**
+     * Is binary content or not.
+     */
+    binary: boolean;
+    /**
+     * The encoding of the byte order mark, if there is one.
+     */
+    bom?: string;
+    /**
+     * The detector that produced the MIME type.
+     */
+    detector: ContentDetector;
+    /**
+     * The detected text encoding (text content only).
+     */
+    encoding?: string;
+    /**
+     * The file extension, without leading dot.
+     */
+    extension?: string;
+    /**
+     * The MIME type.
+     */
+    mime: string;
+    /**
+     * A warning, if the extension of the filename contradicts the magic bytes.
+     */
+    mismatch?: string;
+    /**
+     * The stream to read the complete data from, if the source is a stream.
+     * This is the source itself or, if the source has ended while reading the header,
+     * a new stream with the read data.
+     */
+    stream?: NodeJS.ReadableStream;
+}
+
+/**
+ * Possible detectors of 'detectContent()'.
+ * 
+ * 'magic' => magic bytes (fileType())
+ * 'filename' => extension of the filename (detectMimeByFilename())
+ * 'text' => the content is text (isBinary())
+ * 'none' => nothing matched, the default MIME type is used
+ */
+export type ContentDetector = 'filename' | 'magic' | 'none' | 'text';
+
+/**
+ * Options for 'detectContent()'.
+ */
+export interface DetectContentOptions {
+    /**
+     * The filename to use, if the source is a Buffer or a stream.
+     */
+    filename?: string;
+    /**
+     * The maximum number of bytes to read. Default: 4100
+     */
+    headerSize?: number;
+}
+
+
+interface StreamHeader {
+    header: Buffer;
+    stream: NodeJS.ReadableStream;
+}
+
+
+const DEFAULT_HEADER_SIZE = 4100;
+/**
+ * MIME types of formats, which are ZIP files with a special content.
+ */
+const ZIP_CONTAINERS = [
+    /^application\/vnd\.openxmlformats-officedocument\./,  // docx, xlsx, pptx
+    /^application\/vnd\.ms-[a-z]+\.[a-z.]*macroenabled/,  // docm, xlsm, pptm
+    /^application\/vnd\.oasis\.opendocument\./,  // odt, ods, odp
+    /^application\/java-archive$/,  // jar, war
+    /^application\/vnd\.android\.package-archive$/,  // apk
+    /^application\/vnd\.google-earth\.kmz$/,
+    /^application\/vnd\.ms-xpsdocument$/,
+    /^application\/x-xpinstall$/,
+    /\+zip$/,  // epub
+];
+
+
+function isCompatibleMime(mimeByFilename: string, mimeByMagic: string): boolean {
+    mimeByFilename = TB.normalizeString(mimeByFilename);
+    mimeByMagic = TB.normalizeString(mimeByMagic);
+
+    if (mimeByFilename === mimeByMagic) {
+        return true;
+    }
+
+    if ('application/zip' === mimeByMagic) {
+        return ZIP_CONTAINERS.some(r => r.test(mimeByFilename));
+    }
+
+    return false;
+}
+
+
+function readFileHeader(file: string, size: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        fs.open(file, 'r', (err, fd) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            let buffer = Buffer.alloc(size);
+            fs.read(fd, buffer, 0, size, 0, (err, bytesRead) => {
+                fs.close(fd, () => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(buffer.slice(0, bytesRead));
+                    }
+                });
+            });
+        });
+    });
+}
+
+function readStreamHeader(stream: NodeJS.ReadableStream, size: number): Promise<StreamHeader> {
+    return new Promise<StreamHeader>((resolve, reject) => {
+        let chunks: Buffer[] = [];
+        let length = 0;
+
+        let onEnd: () => void;
+        let onError: (err: any) => void;
+        let onReadable: () => void;
+
+        let done = (err?: any, unshift = false) => {
+            stream.removeListener('end', onEnd);
+            stream.removeListener('error', onError);
+            stream.removeListener('readable', onReadable);
+
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            let data = Buffer.concat(chunks);
+
+            let dataStream = stream;
+            if (unshift) {
+                // give the data back, so the stream can be read from the beginning
+                stream.unshift(data);
+            }
+            else {
+                // the stream has ended and cannot be read again
+                let replacement = new Stream.PassThrough();
+                replacement.end(data);
+
+                dataStream = replacement;
+            }
+
+            resolve({
+                header: data.slice(0, size),
+                stream: dataStream,
+            });
+        };
+
+        onEnd = () => done();
+        onError = (err) => done(err);
+        onReadable = () => {
+            let chunk: any;
+            while (length < size && null !== (chunk = stream.read())) {
+                chunk = Buffer.isBuffer(chunk) ? chunk : Buffer.from(TB.toStringSafe(chunk), 'utf8');
+
+                chunks.push(chunk);
+                length += chunk.length;
+            }
+
+            if (length >= size) {
+                done(null, true);
+            }
+        };
+
+        stream.once('end', onEnd);
+        stream.once('error', onError);
+        stream.on('readable', onReadable);
+    });
+}
+
+
+/**
+ * Detects the content of a file, Buffer or stream, by combining 'fileType()', 'isBinary()' and 'detectMimeByFilename()'.
+ * Only the header bytes are read. The data of a stream is given back by 'unshift()', so it can be read from the beginning.
+ * A stream, which is shorter than the header, has ended after that, so read its data from the 'stream' property of the result.
+ * 
+ * @param {string|Buffer|NodeJS.ReadableStream} source The path of the file, the data or the stream.
+ * @param {DetectContentOptions} [opts] The options.
+ * 
+ * @returns {Promise<ContentInfo>} The promise with the result.
+ */
+export function detectContent(source: string | Buffer | NodeJS.ReadableStream, opts?: DetectContentOptions): Promise<ContentInfo> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let headerSize = parseInt(TB.toStringSafe(opts.headerSize).trim());
+    if (isNaN(headerSize) || headerSize < 1) {
+        headerSize = DEFAULT_HEADER_SIZE;
+    }
+
+    let filename = TB.toStringSafe(opts.filename).trim();
+
+    let dataStream: NodeJS.ReadableStream;
+    let readHeader: Promise<Buffer>;
+    if (Buffer.isBuffer(source)) {
+        readHeader = Promise.resolve(source.slice(0, headerSize));
+    }
+    else if (source && 'function' === typeof (<any>source).pipe) {
+        if ('' === filename) {
+            // fs.ReadStream
+            filename = TB.toStringSafe((<any>source).path).trim();
+        }
+
+        readHeader = readStreamHeader(<NodeJS.ReadableStream>source, headerSize).then((result) => {
+            dataStream = result.stream;
+
+            return result.header;
+        });
+    }
+    else {
+        source = TB.toStringSafe(source);
+        if ('' === filename) {
+            filename = source;
+        }
+
+        readHeader = readFileHeader(source, headerSize);
+    }
+
+    return readHeader.then((header) => {
+        let magic = FileType(header);
+
+        let mimeByFilename: string;
+        let extension: string;
+        if ('' !== filename) {
+            extension = TB.normalizeString(Path.extname(filename)).substr(1);
+
+            mimeByFilename = TB.detectMimeByFilename(filename, null);
+            if (MIME.default_type === mimeByFilename && 'bin' !== extension) {
+                mimeByFilename = null;  // unknown extension
+            }
+        }
+
+        let encoding = TB.detectEncoding(header);
+
+        let info: ContentInfo = {
+            binary: undefined,
+            bom: encoding.bom ? encoding.encoding : undefined,
+            detector: 'none',
+            mime: undefined,
+            stream: dataStream,
+        };
+
+        if (encoding.bom || (!magic && /^utf(16|32)/.test(encoding.encoding))) {
+            // UTF-16 and UTF-32 contain zero bytes, which look like binary data
+            info.binary = false;
+        }
+        else {
+            info.binary = IsBinaryFile.sync(header, header.length);
+        }
+        if (!info.binary) {
+            info.encoding = encoding.encoding;
+        }
+
+        if (magic) {
+            info.detector = 'magic';
+            info.mime = magic.mime;
+            info.extension = magic.ext;
+
+            if (mimeByFilename && !isCompatibleMime(mimeByFilename, magic.mime)) {
+                info.mismatch = `Extension '.${extension}' means '${mimeByFilename}', but the content is '${magic.mime}'!`;
+            }
+        }
+        else if (mimeByFilename) {
+            info.detector = 'filename';
+            info.mime = mimeByFilename;
+            info.extension = extension;
+        }
+        else if (!info.binary) {
+            info.detector = 'text';
+            info.mime = 'text/plain';
+            info.extension = 'txt';
+        }
+        else {
+            info.mime = MIME.default_type;
+            info.extension = extension || undefined;
+        }
+
+        return info;
+    });
+}
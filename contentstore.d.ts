@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as Glob from 'glob';
+import * as TB from './index';
+/**
+ * Options for a 'ContentStore'.
+ */
+export interface ContentStoreOptions {
+    /**
+     * The hash algorithm for the keys. Default: sha256
+     */
+    algorithm?: string;
+    /**
+     * The number of directory levels. Default: 2
+     */
+    shardDepth?: number;
+    /**
+     * The number of characters of the key per directory level. Default: 2
+     */
+    shardWidth?: number;
+}
+/**
+ * A group of files with the same content.
+ */
+export interface DuplicateGroup {
+    /**
+     * The paths of the files.
+     */
+    files: string[];
+    /**
+     * The digest of the content, as hex string.
+     */
+    hash: string;
+    /**
+     * The size of each file, in bytes.
+     */
+    size: number;
+}
+/**
+ * Options for 'findDuplicates()'.
+ */
+export interface FindDuplicatesOptions {
+    /**
+     * The hash algorithm. Default: sha256
+     */
+    algorithm?: string;
+    /**
+     * The options for the patterns (s. 'glob()').
+     */
+    glob?: Glob.IOptions;
+    /**
+     * The minimum size of a file, in bytes. Default: 1 (empty files are ignored)
+     */
+    minSize?: number;
+}
+/**
+ * A content-addressed store, which saves data under its hash.
+ *
+ * Layout of the root directory:
+ *
+ * blobs/ => the data, like 'blobs/ab/cd/abcd...'
+ * refs.json => the reference counts
+ * tmp/ => temporary files while storing streams
+ */
+export declare class ContentStore {
+    /**
+     * Stores the mutex for the reference counts.
+     */
+    protected _mutex: TB.Mutex;
+    /**
+     * Stores the options.
+     */
+    protected _options: ContentStoreOptions;
+    /**
+     * Stores the loaded reference counts by key.
+     */
+    protected _refs: {
+        [key: string]: number;
+    };
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} dir The root directory.
+     * @param {ContentStoreOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: ContentStoreOptions);
+    /**
+     * Adds references to data.
+     *
+     * @param {string} key The key.
+     * @param {number} [count] The number of references to add. Default: 1
+     *
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    addRef(key: string, count?: number): Promise<number>;
+    /**
+     * Gets the hash algorithm.
+     */
+    readonly algorithm: string;
+    /**
+     * Changes the number of references to data.
+     * The caller has to hold the mutex.
+     *
+     * @param {string} key The key.
+     * @param {number} delta The value to add.
+     *
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    protected changeRefs(key: string, delta: number): Promise<number>;
+    /**
+     * Opens data as stream.
+     *
+     * @param {string} key The key.
+     *
+     * @returns {fs.ReadStream} The stream.
+     */
+    createReadStream(key: string): fs.ReadStream;
+    /**
+     * Removes all data without references.
+     *
+     * @returns {Promise<string[]>} The promise with the keys of the removed data.
+     */
+    gc(): Promise<string[]>;
+    /**
+     * Reads data.
+     *
+     * @param {string} key The key.
+     *
+     * @returns {Promise<Buffer>} The promise with the data.
+     */
+    get(key: string): Promise<Buffer>;
+    /**
+     * Checks if data exists.
+     *
+     * @param {string} key The key.
+     *
+     * @returns {Promise<boolean>} The promise that indicates if the data exists or not.
+     */
+    has(key: string): Promise<boolean>;
+    /**
+     * Returns the keys of all stored data.
+     *
+     * @returns {Promise<string[]>} The promise with the keys.
+     */
+    keys(): Promise<string[]>;
+    /**
+     * Loads the reference counts, if needed.
+     *
+     * @returns {Promise<Object>} The promise with the reference counts by key.
+     */
+    protected loadRefs(): Promise<{
+        [key: string]: number;
+    }>;
+    /**
+     * Returns the full path of data.
+     *
+     * @param {string} key The key.
+     *
+     * @returns {string} The path.
+     */
+    pathOf(key: string): string;
+    /**
+     * Stores data, if it does not exist yet.
+     *
+     * @param {Buffer|string|NodeJS.ReadableStream} data The data or the stream with the data.
+     * @param {boolean} [addRef] Add a reference to the data or not. Default: (true)
+     *
+     * @returns {Promise<string>} The promise with the key.
+     */
+    put(data: Buffer | string | NodeJS.ReadableStream, addRef?: boolean): Promise<string>;
+    /**
+     * Returns the number of references to data.
+     *
+     * @param {string} key The key.
+     *
+     * @returns {Promise<number>} The promise with the number of references.
+     */
+    references(key: string): Promise<number>;
+    /**
+     * Removes references to data.
+     * The data is removed by 'gc()'.
+     *
+     * @param {string} key The key.
+     * @param {number} [count] The number of references to remove. Default: 1
+     *
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    release(key: string, count?: number): Promise<number>;
+    /**
+     * Gets the full path of the root directory.
+     */
+    readonly root: string;
+    /**
+     * Saves the reference counts.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected saveRefs(): Promise<any>;
+    /**
+     * Changes the number of references to data.
+     *
+     * @param {string} key The key.
+     * @param {number} delta The value to add.
+     *
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    protected updateRefs(key: string, delta: number): Promise<number>;
+    /**
+     * Writes the data of a stream to a temporary file.
+     *
+     * @param {NodeJS.ReadableStream} stream The stream.
+     * @param {string} tempFile The path of the temporary file.
+     *
+     * @returns {Promise<string>} The promise with the key of the data.
+     */
+    protected writeTempFile(stream: NodeJS.ReadableStream, tempFile: string): Promise<string>;
+}
+/**
+ * Finds files with the same content.
+ * The files are grouped by their sizes first, so only files with the same size are hashed.
+ *
+ * @param {string|string[]} patterns One or more pattern (s. 'glob()').
+ * @param {FindDuplicatesOptions} [opts] The options.
+ *
+ * @returns {Promise<DuplicateGroup[]>} The promise with the groups, with the largest files first.
+ */
+export declare function findDuplicates(patterns: string | string[], opts?: FindDuplicatesOptions): Promise<DuplicateGroup[]>;
+/**
+ * Creates a new content-addressed store.
+ *
+ * @param {string} dir The root directory.
+ * @param {ContentStoreOptions} [opts] The options.
+ *
+ * @returns {ContentStore} The new store.
+ */
+export declare function newContentStore(dir: string, opts?: ContentStoreOptions): ContentStore;
@@ -0,0 +1,615 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as Glob from 'glob';
+import * as Path from 'path';
+import * as TB from './index';
+
+
+/**
+ * Options for a 'ContentStore'.
+ */
+export interface ContentStoreOptions {
+    /**
+     * The hash algorithm for the keys. Default: sha256
+     */
+    algorithm?: string;
+    /**
+     * The number of directory levels. Default: 2
+     */
+    shardDepth?: number;
+    /**
+     * The number of characters of the key per directory level. Default: 2
+     */
+    shardWidth?: number;
+}
+
+/**
+ * A group of files with the same content.
+ */
+export interface DuplicateGroup {
+    /**
+     * The paths of the files.
+     */
+    files: string[];
+    /**
+     * The digest of the content, as hex string.
+     */
+    hash: string;
+    /**
+     * The size of each file, in bytes.
+     */
+    size: number;
+}
+
+/**
+ * Options for 'findDuplicates()'.
+ */
+export interface FindDuplicatesOptions {
+    /**
+     * The hash algorithm. Default: sha256
+     */
+    algorithm?: string;
+    /**
+     * The options for the patterns (s. 'glob()').
+     */
+    glob?: Glob.IOptions;
+    /**
+     * The minimum size of a file, in bytes. Default: 1 (empty files are ignored)
+     */
+    minSize?: number;
+}
+
+
+/**
+ * A content-addressed store, which saves data under its hash.
+ * 
+ * Layout of the root directory:
+ * 
+ * blobs/ => the data, like 'blobs/ab/cd/abcd...'
+ * refs.json => the reference counts
+ * tmp/ => temporary files while storing streams
+ */
+export class ContentStore {
+    /**
+     * Stores the mutex for the reference counts.
+     */
+    protected _mutex: TB.Mutex;
+    /**
+     * Stores the options.
+     */
+    protected _options: ContentStoreOptions;
+    /**
+     * Stores the loaded reference counts by key.
+     */
+    protected _refs: { [key: string]: number };
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} dir The root directory.
+     * @param {ContentStoreOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: ContentStoreOptions) {
+        this._mutex = new TB.Mutex();
+        this._options = opts || {};
+        this._root = Path.resolve(TB.toStringSafe(dir));
+    }
+
+    /**
+     * Adds references to data.
+     * 
+     * @param {string} key The key.
+     * @param {number} [count] The number of references to add. Default: 1
+     * 
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    public addRef(key: string, count = 1): Promise<number> {
+        return this.updateRefs(key, count);
+    }
+
+    /**
+     * Gets the hash algorithm.
+     */
+    public get algorithm(): string {
+        let algo = TB.normalizeString(this._options.algorithm);
+        if ('' === algo) {
+            algo = 'sha256';
+        }
+
+        return algo;
+    }
+
+    /**
+     * Changes the number of references to data.
+     * The caller has to hold the mutex.
+     * 
+     * @param {string} key The key.
+     * @param {number} delta The value to add.
+     * 
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    protected changeRefs(key: string, delta: number): Promise<number> {
+        let me = this;
+
+        key = TB.normalizeString(key);
+
+        let count: number;
+
+        return me.loadRefs().then((refs) => {
+            count = Math.max(0, (refs[key] || 0) + delta);
+            if (count > 0) {
+                refs[key] = count;
+            }
+            else {
+                delete refs[key];
+            }
+
+            return me.saveRefs();
+        }).then(() => {
+            return count;
+        });
+    }
+
+    /**
+     * Opens data as stream.
+     * 
+     * @param {string} key The key.
+     * 
+     * @returns {fs.ReadStream} The stream.
+     */
+    public createReadStream(key: string): fs.ReadStream {
+        return fs.createReadStream(this.pathOf(key));
+    }
+
+    /**
+     * Removes all data without references.
+     * 
+     * @returns {Promise<string[]>} The promise with the keys of the removed data.
+     */
+    public gc(): Promise<string[]> {
+        let me = this;
+
+        return me._mutex.use(() => {
+            let removed: string[] = [];
+
+            return Promise.all([ me.keys(), me.loadRefs() ]).then((result) => {
+                let keys = result[0];
+                let refs = result[1];
+
+                return TB.eachSeries(keys.filter(k => !(refs[k] > 0)), (key) => {
+                    return TB.remove(me.pathOf(key)).then(() => {
+                        removed.push(key);
+                        delete refs[key];
+                    });
+                });
+            }).then(() => {
+                return me.saveRefs();
+            }).then(() => {
+                return removed;
+            });
+        });
+    }
+
+    /**
+     * Reads data.
+     * 
+     * @param {string} key The key.
+     * 
+     * @returns {Promise<Buffer>} The promise with the data.
+     */
+    public get(key: string): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            try {
+                TB.promisify<Buffer>(fs.readFile)(me.pathOf(key)).then(resolve, reject);
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Checks if data exists.
+     * 
+     * @param {string} key The key.
+     * 
+     * @returns {Promise<boolean>} The promise that indicates if the data exists or not.
+     */
+    public has(key: string): Promise<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            try {
+                fs.stat(me.pathOf(key), (err, stats) => {
+                    if (err) {
+                        if ('ENOENT' === (<any>err).code) {
+                            resolve(false);
+                        }
+                        else {
+                            reject(err);
+                        }
+                    }
+                    else {
+                        resolve(stats.isFile());
+                    }
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Returns the keys of all stored data.
+     * 
+     * @returns {Promise<string[]>} The promise with the keys.
+     */
+    public keys(): Promise<string[]> {
+        let me = this;
+
+        return new Promise<string[]>((resolve, reject) => {
+            let keys: string[] = [];
+
+            let blobs = Path.join(me._root, 'blobs');
+            if (!fs.existsSync(blobs)) {
+                resolve(keys);
+                return;
+            }
+
+            let walker = TB.walk(blobs, {
+                onlyFiles: true,
+            });
+
+            walker.on('data', (entry: TB.WalkEntry) => {
+                let key = Path.basename(entry.path);
+
+                // skip temporary files of 'writeFileAtomic()'
+                if (/^[0-9a-f]+$/.test(key)) {
+                    keys.push(key);
+                }
+            });
+            walker.once('end', () => {
+                resolve(keys.sort());
+            });
+            walker.once('error', (err: any) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Loads the reference counts, if needed.
+     * 
+     * @returns {Promise<Object>} The promise with the reference counts by key.
+     */
+    protected loadRefs(): Promise<{ [key: string]: number }> {
+        let me = this;
+
+        if (me._refs) {
+            return Promise.resolve(me._refs);
+        }
+
+        return TB.readJSON<{ [key: string]: number }>(Path.join(me._root, 'refs.json')).catch((err) => {
+            if ('ENOENT' !== err.code) {
+                throw err;
+            }
+        }).then((refs) => {
+            me._refs = refs || {};
+
+            return me._refs;
+        });
+    }
+
+    /**
+     * Returns the full path of data.
+     * 
+     * @param {string} key The key.
+     * 
+     * @returns {string} The path.
+     */
+    public pathOf(key: string): string {
+        key = TB.normalizeString(key);
+        if (!/^[0-9a-f]+$/.test(key)) {
+            throw new Error(`'${key}' is no valid key!`);
+        }
+
+        let depth = parseInt(TB.toStringSafe(this._options.shardDepth).trim());
+        if (isNaN(depth) || depth < 0) {
+            depth = 2;
+        }
+
+        let width = parseInt(TB.toStringSafe(this._options.shardWidth).trim());
+        if (isNaN(width) || width < 1) {
+            width = 2;
+        }
+
+        let parts = [ this._root, 'blobs' ];
+        for (let i = 0; i < depth && (i + 1) * width < key.length; i++) {
+            parts.push(key.substr(i * width, width));
+        }
+        parts.push(key);
+
+        return Path.join.apply(null, parts);
+    }
+
+    /**
+     * Stores data, if it does not exist yet.
+     * 
+     * @param {Buffer|string|NodeJS.ReadableStream} data The data or the stream with the data.
+     * @param {boolean} [addRef] Add a reference to the data or not. Default: (true)
+     * 
+     * @returns {Promise<string>} The promise with the key.
+     */
+    public put(data: Buffer | string | NodeJS.ReadableStream, addRef = true): Promise<string> {
+        let me = this;
+
+        let buffer: Buffer;
+        let prepare: Promise<string>;
+        let tempFile: string;
+        if (data && 'function' === typeof (<any>data).pipe) {
+            tempFile = Path.join(me._root, 'tmp', TB.randomToken(16));
+
+            prepare = me.writeTempFile(<NodeJS.ReadableStream>data, tempFile);
+        }
+        else {
+            buffer = Buffer.isBuffer(data) ? data : Buffer.from(TB.toStringSafe(data), 'utf8');
+
+            prepare = Promise.resolve(crypto.createHash(me.algorithm).update(buffer).digest('hex'));
+        }
+
+        // store the data and add the reference in one step,
+        // so 'gc()' cannot remove the data in between
+        return prepare.then((key) => {
+            return me._mutex.use(() => {
+                return me.has(key).then((exists) => {
+                    if (exists) {
+                        if (tempFile) {
+                            return TB.remove(tempFile);
+                        }
+
+                        return;
+                    }
+
+                    let file = me.pathOf(key);
+                    if (!tempFile) {
+                        return TB.writeFileAtomic(file, buffer);
+                    }
+
+                    return TB.mkdirs(Path.dirname(file)).then(() => {
+                        return TB.promisify<any>(fs.rename)(tempFile, file);
+                    });
+                }).then(() => {
+                    if (TB.toBooleanSafe(addRef, true)) {
+                        return me.changeRefs(key, 1);
+                    }
+                }).then(() => {
+                    return key;
+                });
+            });
+        }).catch((err) => {
+            if (!tempFile) {
+                throw err;
+            }
+
+            return TB.remove(tempFile).catch(() => { }).then(() => {
+                throw err;
+            });
+        });
+    }
+
+    /**
+     * Returns the number of references to data.
+     * 
+     * @param {string} key The key.
+     * 
+     * @returns {Promise<number>} The promise with the number of references.
+     */
+    public references(key: string): Promise<number> {
+        key = TB.normalizeString(key);
+
+        return this.loadRefs().then((refs) => {
+            return refs[key] || 0;
+        });
+    }
+
+    /**
+     * Removes references to data.
+     * The data is removed by 'gc()'.
+     * 
+     * @param {string} key The key.
+     * @param {number} [count] The number of references to remove. Default: 1
+     * 
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    public release(key: string, count = 1): Promise<number> {
+        return this.updateRefs(key, -count);
+    }
+
+    /**
+     * Gets the full path of the root directory.
+     */
+    public get root(): string {
+        return this._root;
+    }
+
+    /**
+     * Saves the reference counts.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected saveRefs(): Promise<any> {
+        return TB.writeJSON(Path.join(this._root, 'refs.json'), this._refs);
+    }
+
+    /**
+     * Changes the number of references to data.
+     * 
+     * @param {string} key The key.
+     * @param {number} delta The value to add.
+     * 
+     * @returns {Promise<number>} The promise with the new number of references.
+     */
+    protected updateRefs(key: string, delta: number): Promise<number> {
+        let me = this;
+
+        return me._mutex.use(() => {
+            return me.changeRefs(key, delta);
+        });
+    }
+
+    /**
+     * Writes the data of a stream to a temporary file.
+     * 
+     * @param {NodeJS.ReadableStream} stream The stream.
+     * @param {string} tempFile The path of the temporary file.
+     * 
+     * @returns {Promise<string>} The promise with the key of the data.
+     */
+    protected writeTempFile(stream: NodeJS.ReadableStream, tempFile: string): Promise<string> {
+        let me = this;
+
+        return TB.mkdirs(Path.dirname(tempFile)).then(() => {
+            return new Promise<string>((resolve, reject) => {
+                let hash = crypto.createHash(me.algorithm);
+                let out = fs.createWriteStream(tempFile);
+
+                stream.on('data', (chunk: any) => {
+                    hash.update(chunk);
+                });
+                stream.once('error', (err: any) => {
+                    stream.unpipe(out);
+                    out.end();
+
+                    reject(err);
+                });
+
+                out.once('error', reject);
+                out.once('finish', () => {
+                    resolve(hash.digest('hex'));
+                });
+
+                stream.pipe(out);
+            });
+        });
+    }
+}
+
+
+/**
+ * Finds files with the same content.
+ * The files are grouped by their sizes first, so only files with the same size are hashed.
+ * 
+ * @param {string|string[]} patterns One or more pattern (s. 'glob()').
+ * @param {FindDuplicatesOptions} [opts] The options.
+ * 
+ * @returns {Promise<DuplicateGroup[]>} The promise with the groups, with the largest files first.
+ */
+export function findDuplicates(patterns: string | string[], opts?: FindDuplicatesOptions): Promise<DuplicateGroup[]> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let algo = TB.normalizeString(opts.algorithm);
+    if ('' === algo) {
+        algo = 'sha256';
+    }
+
+    let minSize = parseInt(TB.toStringSafe(opts.minSize).trim());
+    if (isNaN(minSize)) {
+        minSize = 1;
+    }
+
+    let globOpts: Glob.IOptions = {
+        nodir: true,
+    };
+    for (let p in opts.glob || {}) {
+        (<any>globOpts)[p] = (<any>opts.glob)[p];
+    }
+
+    let cwd = TB.toStringSafe(globOpts.cwd);
+    let stat = TB.promisify<fs.Stats>(fs.stat);
+
+    let bySize: { [size: number]: string[] } = {};
+    let groups: DuplicateGroup[] = [];
+
+    return TB.glob(patterns, globOpts).then((files) => {
+        return TB.eachSeries(files, (f) => {
+            return stat(Path.resolve(cwd, f)).then((stats) => {
+                if (!stats.isFile() || stats.size < minSize) {
+                    return;
+                }
+
+                (bySize[stats.size] = bySize[stats.size] || []).push(f);
+            });
+        });
+    }).then(() => {
+        let sizes = Object.keys(bySize).map(s => parseInt(s))
+                                       .filter(s => bySize[s].length > 1)
+                                       .sort((x, y) => y - x);
+
+        return TB.eachSeries(sizes, (size) => {
+            let byHash: { [hash: string]: string[] } = {};
+
+            return TB.eachSeries(bySize[size], (f) => {
+                return TB.hashFile(Path.resolve(cwd, f), algo, 'hex').then((hash: string) => {
+                    (byHash[hash] = byHash[hash] || []).push(f);
+                });
+            }).then(() => {
+                Object.keys(byHash).sort().forEach(hash => {
+                    if (byHash[hash].length > 1) {
+                        groups.push({
+                            files: byHash[hash].sort(),
+                            hash: hash,
+                            size: size,
+                        });
+                    }
+                });
+            });
+        });
+    }).then(() => {
+        return groups;
+    });
+}
+
+/**
+ * Creates a new content-addressed store.
+ * 
+ * @param {string} dir The root directory.
+ * @param {ContentStoreOptions} [opts] The options.
+ * 
+ * @returns {ContentStore} The new store.
+ */
+export function newContentStore(dir: string, opts?: ContentStoreOptions): ContentStore {
+    return new ContentStore(dir, opts);
+}
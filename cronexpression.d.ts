@@ -0,0 +1,198 @@
+import * as Moment from 'moment';
+/**
+ * An error of a cron expression.
+ */
+export interface CronExpressionError extends Error {
+    /**
+     * The name of the field, if available.
+     */
+    field?: string;
+    /**
+     * The zero based position inside the expression.
+     */
+    position: number;
+}
+/**
+ * A possible input value for a point in time.
+ */
+export declare type CronTimeInput = Moment.Moment | Date | number | string;
+/**
+ * The result of a validation of a cron expression.
+ */
+export interface CronValidationResult {
+    /**
+     * The error, if invalid.
+     */
+    error?: CronExpressionError;
+    /**
+     * Is valid or not.
+     */
+    isValid: boolean;
+}
+interface CronField {
+    isStar: boolean;
+    values: number[];
+}
+interface WallTime {
+    day: number;
+    hour: number;
+    minute: number;
+    month: number;
+    second: number;
+    year: number;
+}
+/**
+ * A parsed cron expression.
+ */
+export declare class CronExpression {
+    /**
+     * Stores the day of month field.
+     */
+    protected _daysOfMonth: CronField;
+    /**
+     * Stores the day of week field.
+     */
+    protected _daysOfWeek: CronField;
+    /**
+     * Stores the source expression.
+     */
+    protected _expression: string;
+    /**
+     * Stores if the expression contains a seconds field or not.
+     */
+    protected _hasSeconds: boolean;
+    /**
+     * Stores the hour field.
+     */
+    protected _hours: CronField;
+    /**
+     * Stores the minute field.
+     */
+    protected _minutes: CronField;
+    /**
+     * Stores the month field.
+     */
+    protected _months: CronField;
+    /**
+     * Stores the second field.
+     */
+    protected _seconds: CronField;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} expr The expression, with 5 or 6 fields or an alias like '@daily'.
+     *
+     * @throws {CronExpressionError} Expression is invalid.
+     */
+    constructor(expr: string);
+    /**
+     * Gets the days of month (1 - 31).
+     */
+    readonly daysOfMonth: number[];
+    /**
+     * Gets the days of week (0 - 6, 0 is sunday).
+     */
+    readonly daysOfWeek: number[];
+    /**
+     * Gets the source expression.
+     */
+    readonly expression: string;
+    /**
+     * Finds the nearest occurrence in a direction.
+     *
+     * @param {WallTime} t The wall clock time to start at (inclusive).
+     * @param {number} direction 1 for forward, -1 for backward.
+     *
+     * @returns {WallTime} The occurrence or (false) if not found.
+     */
+    protected find(t: WallTime, direction: number): WallTime | false;
+    /**
+     * Finds the next or previous occurrences.
+     *
+     * @param {number} count The maximum number of occurrences.
+     * @param {CronTimeInput} from The start time (exclusive).
+     * @param {string} timeZone The time zone.
+     * @param {number} direction 1 for forward, -1 for backward.
+     *
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    protected findMany(count: number, from: CronTimeInput, timeZone: string, direction: number): Moment.Moment[];
+    /**
+     * Gets if the expression contains a seconds field or not.
+     */
+    readonly hasSeconds: boolean;
+    /**
+     * Gets the hours (0 - 23).
+     */
+    readonly hours: number[];
+    /**
+     * Checks if a point in time matches the expression.
+     *
+     * @param {CronTimeInput} [time] The time. Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     *
+     * @returns {boolean} Matches or not.
+     */
+    matches(time?: CronTimeInput, timeZone?: string): boolean;
+    /**
+     * Checks if the day of a wall clock time matches.
+     *
+     * @param {WallTime} t The wall clock time.
+     *
+     * @returns {boolean} Matches or not.
+     */
+    protected matchesDay(t: WallTime): boolean;
+    /**
+     * Gets the minutes (0 - 59).
+     */
+    readonly minutes: number[];
+    /**
+     * Gets the months (1 - 12).
+     */
+    readonly months: number[];
+    /**
+     * Returns the next occurrences.
+     *
+     * @param {number} [count] The maximum number of occurrences. Default: 1
+     * @param {CronTimeInput} [from] The start time (exclusive). Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     *
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    next(count?: number, from?: CronTimeInput, timeZone?: string): Moment.Moment[];
+    /**
+     * Returns the previous occurrences, beginning with the latest one.
+     *
+     * @param {number} [count] The maximum number of occurrences. Default: 1
+     * @param {CronTimeInput} [from] The start time (exclusive). Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     *
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    previous(count?: number, from?: CronTimeInput, timeZone?: string): Moment.Moment[];
+    /**
+     * Gets the seconds (0 - 59).
+     */
+    readonly seconds: number[];
+    /** @inheritdoc */
+    toString(): string;
+}
+/**
+ * Parses a cron expression.
+ *
+ * @param {string} expr The expression, with 5 or 6 fields or an alias like '@daily'.
+ *
+ * @returns {CronExpression} The parsed expression.
+ *
+ * @throws {CronExpressionError} Expression is invalid.
+ */
+export declare function parseCron(expr: string): CronExpression;
+/**
+ * Validates a cron expression.
+ *
+ * @param {string} expr The expression.
+ *
+ * @returns {CronValidationResult} The result.
+ */
+export declare function validateCron(expr: string): CronValidationResult;
+export {};
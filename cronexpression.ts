@@ -0,0 +1,687 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Moment from 'moment';
+import * as TB from './index';
+
+
+/**
+ * An error of a cron expression.
+ */
+export interface CronExpressionError extends Error {
+    /**
+     * The name of the field, if available.
+     */
+    field?: string;
+    /**
+     * The zero based position inside the expression.
+     */
+    position: number;
+}
+
+/**
+ * A possible input value for a point in time.
+ */
+export type CronTimeInput = Moment.Moment | Date | number | string;
+
+/**
+ * The result of a validation of a cron expression.
+ */
+export interface CronValidationResult {
+    /**
+     * The error, if invalid.
+     */
+    error?: CronExpressionError;
+    /**
+     * Is valid or not.
+     */
+    isValid: boolean;
+}
+
+interface CronField {
+    isStar: boolean;
+    values: number[];
+}
+
+interface CronFieldSpec {
+    max: number;
+    min: number;
+    name: string;
+    names?: string[];
+}
+
+interface WallTime {
+    day: number;
+    hour: number;
+    minute: number;
+    month: number;
+    second: number;
+    year: number;
+}
+
+const ALIASES: { [alias: string]: string } = {
+    '@annually': '0 0 1 1 *',
+    '@daily': '0 0 * * *',
+    '@hourly': '0 * * * *',
+    '@midnight': '0 0 * * *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@yearly': '0 0 1 1 *',
+};
+
+const FIELDS: CronFieldSpec[] = [
+    { max: 59, min: 0, name: 'second' },
+    { max: 59, min: 0, name: 'minute' },
+    { max: 23, min: 0, name: 'hour' },
+    { max: 31, min: 1, name: 'dayOfMonth' },
+    { max: 12, min: 1, name: 'month', names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+    { max: 7, min: 0, name: 'dayOfWeek', names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+/**
+ * Maximum number of years to search for an occurrence, which covers all leap year cycles.
+ */
+const MAX_SEARCH_YEARS = 28;
+
+const timeZoneFormatters: { [timeZone: string]: any } = {};
+
+
+/**
+ * A parsed cron expression.
+ */
+export class CronExpression {
+    /**
+     * Stores the day of month field.
+     */
+    protected _daysOfMonth: CronField;
+    /**
+     * Stores the day of week field.
+     */
+    protected _daysOfWeek: CronField;
+    /**
+     * Stores the source expression.
+     */
+    protected _expression: string;
+    /**
+     * Stores if the expression contains a seconds field or not.
+     */
+    protected _hasSeconds: boolean;
+    /**
+     * Stores the hour field.
+     */
+    protected _hours: CronField;
+    /**
+     * Stores the minute field.
+     */
+    protected _minutes: CronField;
+    /**
+     * Stores the month field.
+     */
+    protected _months: CronField;
+    /**
+     * Stores the second field.
+     */
+    protected _seconds: CronField;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} expr The expression, with 5 or 6 fields or an alias like '@daily'.
+     * 
+     * @throws {CronExpressionError} Expression is invalid.
+     */
+    constructor(expr: string) {
+        this._expression = TB.toStringSafe(expr);
+
+        let fields = parseExpression(this._expression);
+
+        this._hasSeconds = 6 === fields.length;
+        if (!this._hasSeconds) {
+            fields.unshift({ isStar: false, values: [0] });
+        }
+
+        this._seconds = fields[0];
+        this._minutes = fields[1];
+        this._hours = fields[2];
+        this._daysOfMonth = fields[3];
+        this._months = fields[4];
+        this._daysOfWeek = fields[5];
+    }
+
+    /**
+     * Gets the days of month (1 - 31).
+     */
+    public get daysOfMonth(): number[] {
+        return this._daysOfMonth.values.slice();
+    }
+
+    /**
+     * Gets the days of week (0 - 6, 0 is sunday).
+     */
+    public get daysOfWeek(): number[] {
+        return this._daysOfWeek.values.slice();
+    }
+
+    /**
+     * Gets the source expression.
+     */
+    public get expression(): string {
+        return this._expression;
+    }
+
+    /**
+     * Finds the nearest occurrence in a direction.
+     * 
+     * @param {WallTime} t The wall clock time to start at (inclusive).
+     * @param {number} direction 1 for forward, -1 for backward.
+     * 
+     * @returns {WallTime} The occurrence or (false) if not found.
+     */
+    protected find(t: WallTime, direction: number): WallTime | false {
+        let limit = t.year + MAX_SEARCH_YEARS * direction;
+
+        while ((direction > 0) ? (t.year <= limit) : (t.year >= limit)) {
+            if (this._months.values.indexOf(t.month) < 0) {
+                t = (direction > 0) ? { year: t.year, month: t.month + 1, day: 1, hour: 0, minute: 0, second: 0 }
+                                    : { year: t.year, month: t.month, day: 0, hour: 23, minute: 59, second: 59 };
+            }
+            else if (!this.matchesDay(t)) {
+                t = (direction > 0) ? { year: t.year, month: t.month, day: t.day + 1, hour: 0, minute: 0, second: 0 }
+                                    : { year: t.year, month: t.month, day: t.day - 1, hour: 23, minute: 59, second: 59 };
+            }
+            else if (this._hours.values.indexOf(t.hour) < 0) {
+                t = (direction > 0) ? { year: t.year, month: t.month, day: t.day, hour: t.hour + 1, minute: 0, second: 0 }
+                                    : { year: t.year, month: t.month, day: t.day, hour: t.hour - 1, minute: 59, second: 59 };
+            }
+            else if (this._minutes.values.indexOf(t.minute) < 0) {
+                t = (direction > 0) ? { year: t.year, month: t.month, day: t.day, hour: t.hour, minute: t.minute + 1, second: 0 }
+                                    : { year: t.year, month: t.month, day: t.day, hour: t.hour, minute: t.minute - 1, second: 59 };
+            }
+            else if (this._seconds.values.indexOf(t.second) < 0) {
+                t = { year: t.year, month: t.month, day: t.day, hour: t.hour, minute: t.minute, second: t.second + direction };
+            }
+            else {
+                return t;
+            }
+
+            t = normalizeWallTime(t);
+        }
+
+        return false;
+    }
+
+    /**
+     * Finds the next or previous occurrences.
+     * 
+     * @param {number} count The maximum number of occurrences.
+     * @param {CronTimeInput} from The start time (exclusive).
+     * @param {string} timeZone The time zone.
+     * @param {number} direction 1 for forward, -1 for backward.
+     * 
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    protected findMany(count: number, from: CronTimeInput, timeZone: string, direction: number): Moment.Moment[] {
+        count = parseInt(TB.toStringSafe(count).trim());
+        if (isNaN(count)) {
+            count = 1;
+        }
+
+        let result: Moment.Moment[] = [];
+
+        let start = toTimestamp(from);
+        // start at the next (or previous) full second
+        let t = toWallTime(Math.floor(start / 1000) * 1000 + ((direction > 0) ? 1000 : (0 === start % 1000 ? -1000 : 0)), timeZone);
+
+        while (result.length < count) {
+            let occurrence = this.find(t, direction);
+            if (false === occurrence) {
+                break;  // no more occurrences
+            }
+
+            let timestamp = fromWallTime(occurrence, timeZone);
+            if (false !== timestamp && (direction > 0 ? (timestamp > start) : (timestamp < start))) {
+                result.push(toMoment(timestamp, timeZone));
+            }
+
+            t = normalizeWallTime({
+                year: occurrence.year, month: occurrence.month, day: occurrence.day,
+                hour: occurrence.hour, minute: occurrence.minute, second: occurrence.second + direction,
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets if the expression contains a seconds field or not.
+     */
+    public get hasSeconds(): boolean {
+        return this._hasSeconds;
+    }
+
+    /**
+     * Gets the hours (0 - 23).
+     */
+    public get hours(): number[] {
+        return this._hours.values.slice();
+    }
+
+    /**
+     * Checks if a point in time matches the expression.
+     * 
+     * @param {CronTimeInput} [time] The time. Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     * 
+     * @returns {boolean} Matches or not.
+     */
+    public matches(time?: CronTimeInput, timeZone?: string): boolean {
+        let t = toWallTime(toTimestamp(time), timeZone);
+
+        return this._seconds.values.indexOf(t.second) > -1 &&
+               this._minutes.values.indexOf(t.minute) > -1 &&
+               this._hours.values.indexOf(t.hour) > -1 &&
+               this._months.values.indexOf(t.month) > -1 &&
+               this.matchesDay(t);
+    }
+
+    /**
+     * Checks if the day of a wall clock time matches.
+     * 
+     * @param {WallTime} t The wall clock time.
+     * 
+     * @returns {boolean} Matches or not.
+     */
+    protected matchesDay(t: WallTime): boolean {
+        let matchesDayOfMonth = this._daysOfMonth.values.indexOf(t.day) > -1;
+        let matchesDayOfWeek = this._daysOfWeek.values.indexOf(new Date(Date.UTC(t.year, t.month - 1, t.day)).getUTCDay()) > -1;
+
+        // if both fields are restricted, one of them has to match (like in Vixie cron)
+        if (!this._daysOfMonth.isStar && !this._daysOfWeek.isStar) {
+            return matchesDayOfMonth || matchesDayOfWeek;
+        }
+
+        return matchesDayOfMonth && matchesDayOfWeek;
+    }
+
+    /**
+     * Gets the minutes (0 - 59).
+     */
+    public get minutes(): number[] {
+        return this._minutes.values.slice();
+    }
+
+    /**
+     * Gets the months (1 - 12).
+     */
+    public get months(): number[] {
+        return this._months.values.slice();
+    }
+
+    /**
+     * Returns the next occurrences.
+     * 
+     * @param {number} [count] The maximum number of occurrences. Default: 1
+     * @param {CronTimeInput} [from] The start time (exclusive). Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     * 
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    public next(count = 1, from?: CronTimeInput, timeZone?: string): Moment.Moment[] {
+        return this.findMany(count, from, timeZone, 1);
+    }
+
+    /**
+     * Returns the previous occurrences, beginning with the latest one.
+     * 
+     * @param {number} [count] The maximum number of occurrences. Default: 1
+     * @param {CronTimeInput} [from] The start time (exclusive). Default: now
+     * @param {string} [timeZone] The time zone, like 'Europe/Berlin'. Default: local time zone
+     * 
+     * @returns {Moment.Moment[]} The occurrences.
+     */
+    public previous(count = 1, from?: CronTimeInput, timeZone?: string): Moment.Moment[] {
+        return this.findMany(count, from, timeZone, -1);
+    }
+
+    /**
+     * Gets the seconds (0 - 59).
+     */
+    public get seconds(): number[] {
+        return this._seconds.values.slice();
+    }
+
+    /** @inheritdoc */
+    public toString(): string {
+        return this._expression;
+    }
+}
+
+
+function createCronError(msg: string, position: number, field?: string): CronExpressionError {
+    let err = <CronExpressionError>new Error(`${msg} (position ${position + 1})`);
+    err.field = field;
+    err.position = position;
+
+    return err;
+}
+
+function fromWallTime(t: WallTime, timeZone: string): number | false {
+    let wall = Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+
+    // try the offsets around that time, to handle DST changes
+    let candidates = [-86400000, 0, 86400000].map(delta => {
+        return wall - getTimeZoneOffset(wall + delta, timeZone) * 60000;
+    });
+
+    let valid = candidates.filter(c => toWallTimestamp(c, timeZone) === wall);
+    if (valid.length < 1) {
+        return false;  // does not exist (DST gap)
+    }
+
+    return Math.min.apply(null, valid);
+}
+
+function getTimeZoneFormatter(timeZone: string): any {
+    let key = TB.toStringSafe(timeZone);
+
+    let formatter = timeZoneFormatters[key];
+    if (!formatter) {
+        try {
+            timeZoneFormatters[key] = formatter = new Intl.DateTimeFormat('en-US', {
+                day: 'numeric',
+                hour: 'numeric',
+                hour12: false,
+                minute: 'numeric',
+                month: 'numeric',
+                second: 'numeric',
+                timeZone: timeZone,
+                year: 'numeric',
+            });
+        }
+        catch (e) {
+            throw new Error(`Invalid time zone '${timeZone}'!`);
+        }
+    }
+
+    return formatter;
+}
+
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+    if (TB.isEmptyString(timeZone)) {
+        return -new Date(timestamp).getTimezoneOffset();
+    }
+
+    return (toWallTimestamp(timestamp, timeZone) - Math.floor(timestamp / 1000) * 1000) / 60000;
+}
+
+function normalizeWallTime(t: WallTime): WallTime {
+    let d = new Date(Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second));
+
+    return {
+        day: d.getUTCDate(),
+        hour: d.getUTCHours(),
+        minute: d.getUTCMinutes(),
+        month: d.getUTCMonth() + 1,
+        second: d.getUTCSeconds(),
+        year: d.getUTCFullYear(),
+    };
+}
+
+function parseExpression(expr: string): CronField[] {
+    let trimmed = expr.trim();
+    let offset = expr.indexOf(trimmed);
+
+    if ('' === trimmed) {
+        throw createCronError('Expression is empty', 0);
+    }
+
+    if ('@' === trimmed[0]) {
+        let aliasExpr = ALIASES[trimmed.toLowerCase()];
+        if (!aliasExpr) {
+            throw createCronError(`Unknown alias '${trimmed}'`, offset);
+        }
+
+        // positions refer to the alias itself
+        try {
+            return parseExpression(aliasExpr);
+        }
+        catch (e) {
+            throw createCronError(e.message, offset);
+        }
+    }
+
+    let tokens: { position: number, text: string }[] = [];
+
+    let regex = /\S+/g;
+    let match: RegExpExecArray;
+    while (match = regex.exec(expr)) {
+        tokens.push({
+            position: match.index,
+            text: match[0],
+        });
+    }
+
+    if (tokens.length < 5 || tokens.length > 6) {
+        throw createCronError(`Expected 5 or 6 fields, but found ${tokens.length}`,
+                              tokens.length > 6 ? tokens[6].position : expr.length);
+    }
+
+    let specs = 6 === tokens.length ? FIELDS : FIELDS.slice(1);
+
+    return tokens.map((t, i) => parseField(t.text, t.position, specs[i]));
+}
+
+function parseField(text: string, position: number, spec: CronFieldSpec): CronField {
+    let values: number[] = [];
+
+    let itemPosition = position;
+    text.split(',').forEach(item => {
+        parseFieldItem(item, itemPosition, spec).forEach(v => {
+            if (values.indexOf(v) < 0) {
+                values.push(v);
+            }
+        });
+
+        itemPosition += item.length + 1;
+    });
+
+    return {
+        isStar: '*' === text[0] || '?' === text[0],
+        values: values.sort((x, y) => x - y),
+    };
+}
+
+function parseFieldItem(item: string, position: number, spec: CronFieldSpec): number[] {
+    if ('' === item) {
+        throw createCronError(`Empty value in ${spec.name} field`, position, spec.name);
+    }
+
+    let rangePart = item;
+    let step = 1;
+
+    let slash = item.indexOf('/');
+    if (slash > -1) {
+        rangePart = item.substr(0, slash);
+
+        let stepPart = item.substr(slash + 1);
+        step = /^\d+$/.test(stepPart) ? parseInt(stepPart) : NaN;
+        if (isNaN(step) || step < 1) {
+            throw createCronError(`Invalid step '${stepPart}' in ${spec.name} field`, position + slash + 1, spec.name);
+        }
+    }
+
+    let start: number;
+    let end: number;
+
+    if ('*' === rangePart || '?' === rangePart) {
+        if ('?' === rangePart && 'dayOfMonth' !== spec.name && 'dayOfWeek' !== spec.name) {
+            throw createCronError(`'?' is not allowed in ${spec.name} field`, position, spec.name);
+        }
+
+        start = spec.min;
+        end = spec.max;
+    }
+    else {
+        let dash = rangePart.indexOf('-');
+        if (dash > -1) {
+            start = parseFieldValue(rangePart.substr(0, dash), position, spec);
+            end = parseFieldValue(rangePart.substr(dash + 1), position + dash + 1, spec);
+
+            if (start > end) {
+                throw createCronError(`Invalid range '${rangePart}' in ${spec.name} field`, position, spec.name);
+            }
+        }
+        else {
+            start = parseFieldValue(rangePart, position, spec);
+            end = slash > -1 ? spec.max : start;
+        }
+    }
+
+    let values: number[] = [];
+    for (let i = start; i <= end; i += step) {
+        // 7 is also sunday
+        values.push(('dayOfWeek' === spec.name && 7 === i) ? 0 : i);
+    }
+
+    return values;
+}
+
+function parseFieldValue(value: string, position: number, spec: CronFieldSpec): number {
+    let n: number;
+
+    if (/^\d+$/.test(value)) {
+        n = parseInt(value);
+    }
+    else if (spec.names) {
+        let index = spec.names.indexOf(value.toUpperCase());
+        if (index > -1) {
+            n = index + spec.min;
+        }
+    }
+
+    if (isNaN(n) || undefined === n) {
+        throw createCronError(`Invalid value '${value}' in ${spec.name} field`, position, spec.name);
+    }
+
+    if (n < spec.min || n > spec.max) {
+        throw createCronError(`Value '${value}' in ${spec.name} field is out of range (${spec.min} - ${spec.max})`, position, spec.name);
+    }
+
+    return n;
+}
+
+function toMoment(timestamp: number, timeZone: string): Moment.Moment {
+    if (TB.isEmptyString(timeZone)) {
+        return Moment(timestamp);
+    }
+
+    return Moment(timestamp).utcOffset(getTimeZoneOffset(timestamp, timeZone));
+}
+
+function toTimestamp(time: CronTimeInput): number {
+    if (TB.isNullOrUndefined(time)) {
+        return Date.now();
+    }
+
+    let m = Moment(<any>time);
+    if (!m.isValid()) {
+        throw new Error(`Invalid time '${time}'!`);
+    }
+
+    return m.valueOf();
+}
+
+function toWallTime(timestamp: number, timeZone: string): WallTime {
+    if (TB.isEmptyString(timeZone)) {
+        let d = new Date(timestamp);
+
+        return {
+            day: d.getDate(),
+            hour: d.getHours(),
+            minute: d.getMinutes(),
+            month: d.getMonth() + 1,
+            second: d.getSeconds(),
+            year: d.getFullYear(),
+        };
+    }
+
+    let t: any = {};
+    (<any[]>getTimeZoneFormatter(timeZone).formatToParts(new Date(timestamp))).forEach(p => {
+        if ('literal' !== p.type) {
+            t[p.type] = parseInt(p.value);
+        }
+    });
+
+    return {
+        day: t.day,
+        hour: t.hour % 24,  // some engines return 24 for midnight
+        minute: t.minute,
+        month: t.month,
+        second: t.second,
+        year: t.year,
+    };
+}
+
+function toWallTimestamp(timestamp: number, timeZone: string): number {
+    let t = toWallTime(timestamp, timeZone);
+
+    return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+}
+
+
+/**
+ * Parses a cron expression.
+ * 
+ * @param {string} expr The expression, with 5 or 6 fields or an alias like '@daily'.
+ * 
+ * @returns {CronExpression} The parsed expression.
+ * 
+ * @throws {CronExpressionError} Expression is invalid.
+ */
+export function parseCron(expr: string): CronExpression {
+    return new CronExpression(expr);
+}
+
+/**
+ * Validates a cron expression.
+ * 
+ * @param {string} expr The expression.
+ * 
+ * @returns {CronValidationResult} The result.
+ */
+export function validateCron(expr: string): CronValidationResult {
+    try {
+        parseCron(expr);
+
+        return {
+            isValid: true,
+        };
+    }
+    catch (e) {
+        return {
+            error: e,
+            isValid: false,
+        };
+    }
+}
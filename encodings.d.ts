@@ -0,0 +1,78 @@
+import * as Stream from 'stream';
+/**
+ * Result of 'detectEncoding()'.
+ */
+export interface EncodingInfo {
+    /**
+     * Data starts with a byte order mark or not.
+     */
+    bom: boolean;
+    /**
+     * The confidence, from 0 to 1.
+     */
+    confidence: number;
+    /**
+     * The name of the encoding, like 'utf8', 'utf16be' or 'windows-1252'.
+     */
+    encoding: string;
+}
+/**
+ * Creates a stream, which transcodes data from one encoding to another.
+ *
+ * @param {string} from The source encoding or 'auto' to detect it from the first bytes.
+ * @param {string} [to] The target encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark to the output or not. Default: (false)
+ *
+ * @returns {Stream.Transform} The new stream.
+ */
+export declare function createTranscodeStream(from: string, to?: string, addBom?: boolean): Stream.Transform;
+/**
+ * Decodes data to a string.
+ * A byte order mark of the encoding is removed.
+ *
+ * @param {Buffer} data The data to decode.
+ * @param {string} [encoding] The encoding or 'auto' to detect it. Default: auto
+ *
+ * @returns {string} The decoded string.
+ */
+export declare function decodeText(data: Buffer, encoding?: string): string;
+/**
+ * Detects the encoding of data.
+ *
+ * The following steps are checked: byte order mark, UTF-8 validity,
+ * distribution of zero bytes (UTF-16 / UTF-32) and characters of single-byte code pages.
+ *
+ * @param {Buffer} data The data.
+ *
+ * @returns {EncodingInfo} The detected encoding.
+ */
+export declare function detectEncoding(data: Buffer): EncodingInfo;
+/**
+ * Encodes a string.
+ *
+ * @param {any} str The string to encode.
+ * @param {string} [encoding] The encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark or not. Default: (false)
+ *
+ * @returns {Buffer} The encoded data.
+ */
+export declare function encodeText(str: any, encoding?: string, addBom?: boolean): Buffer;
+/**
+ * Checks if an encoding is supported by 'decodeText()', 'encodeText()' and 'transcode()'.
+ *
+ * @param {string} encoding The encoding.
+ *
+ * @returns {boolean} Is supported or not.
+ */
+export declare function isEncodingSupported(encoding: string): boolean;
+/**
+ * Transcodes data from one encoding to another.
+ *
+ * @param {Buffer} data The data.
+ * @param {string} from The source encoding or 'auto' to detect it.
+ * @param {string} [to] The target encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark to the output or not. Default: (false)
+ *
+ * @returns {Buffer} The transcoded data.
+ */
+export declare function transcode(data: Buffer, from: string, to?: string, addBom?: boolean): Buffer;
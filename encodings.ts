@@ -0,0 +1,621 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Stream from 'stream';
+import { StringDecoder } from 'string_decoder';
+import * as TB from './index';
+
+
+/**
+ * Result of 'detectEncoding()'.
+ */
+export interface EncodingInfo {
+    /**
+     * Data starts with a byte order mark or not.
+     */
+    bom: boolean;
+    /**
+     * The confidence, from 0 to 1.
+     */
+    confidence: number;
+    /**
+     * The name of the encoding, like 'utf8', 'utf16be' or 'windows-1252'.
+     */
+    encoding: string;
+}
+
+
+interface TextDecoder {
+    end(): string;
+    write(data: Buffer): string;
+}
+
+
+const BYTE_ORDER_MARKS: { bytes: number[], encoding: string }[] = [
+    // UTF-32 before UTF-16, because 'FF FE' is a prefix of 'FF FE 00 00'
+    { bytes: [ 0x00, 0x00, 0xFE, 0xFF ], encoding: 'utf32be' },
+    { bytes: [ 0xFF, 0xFE, 0x00, 0x00 ], encoding: 'utf32le' },
+    { bytes: [ 0xEF, 0xBB, 0xBF ], encoding: 'utf8' },
+    { bytes: [ 0xFE, 0xFF ], encoding: 'utf16be' },
+    { bytes: [ 0xFF, 0xFE ], encoding: 'utf16le' },
+];
+const ENCODING_ALIASES: { [alias: string]: string } = {
+    'binary': 'latin1',
+    'cp1252': 'windows-1252',
+    'iso-8859-1': 'latin1',
+    'iso8859-1': 'latin1',
+    'iso88591': 'latin1',
+    'iso8859-15': 'iso-8859-15',
+    'iso885915': 'iso-8859-15',
+    'latin-1': 'latin1',
+    'latin9': 'iso-8859-15',
+    'ucs-2': 'utf16le',
+    'ucs2': 'utf16le',
+    'us-ascii': 'ascii',
+    'utf-16be': 'utf16be',
+    'utf-16le': 'utf16le',
+    'utf-32be': 'utf32be',
+    'utf-32le': 'utf32le',
+    'utf-8': 'utf8',
+    'windows1252': 'windows-1252',
+};
+/**
+ * The maximum number of bytes 'createTranscodeStream()' collects for detecting the encoding.
+ */
+const MAX_DETECTION_SIZE = 4096;
+/**
+ * Code pages of single-byte encodings, which are not supported by Node natively.
+ * Each table contains the code points of the bytes from 0x80 to 0xFF.
+ */
+const SINGLE_BYTE_CODE_PAGES: { [encoding: string]: number[] } = {
+    'iso-8859-15': createCodePage({
+        0xA4: 0x20AC, 0xA6: 0x0160, 0xA8: 0x0161, 0xB4: 0x017D,
+        0xB8: 0x017E, 0xBC: 0x0152, 0xBD: 0x0153, 0xBE: 0x0178,
+    }),
+    'windows-1252': createCodePage({
+        0x80: 0x20AC, 0x82: 0x201A, 0x83: 0x0192, 0x84: 0x201E, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+        0x88: 0x02C6, 0x89: 0x2030, 0x8A: 0x0160, 0x8B: 0x2039, 0x8C: 0x0152, 0x8E: 0x017D,
+        0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201C, 0x94: 0x201D, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014,
+        0x98: 0x02DC, 0x99: 0x2122, 0x9A: 0x0161, 0x9B: 0x203A, 0x9C: 0x0153, 0x9E: 0x017E, 0x9F: 0x0178,
+    }),
+};
+
+
+function createCodePage(differencesToLatin1: { [byte: number]: number }): number[] {
+    let codePage: number[] = [];
+    for (let b = 0x80; b <= 0xFF; b++) {
+        let codePoint = differencesToLatin1[b];
+
+        // called while loading the module, so 'TB' cannot be used here
+        codePage.push(undefined === codePoint ? b : codePoint);
+    }
+
+    return codePage;
+}
+
+function createTextDecoder(encoding: string): TextDecoder {
+    let codePage = SINGLE_BYTE_CODE_PAGES[encoding];
+    if (codePage) {
+        return {
+            end: () => '',
+            write: (data) => {
+                let str = '';
+                for (let i = 0; i < data.length; i++) {
+                    let b = data[i];
+
+                    str += String.fromCharCode(b < 0x80 ? b : codePage[b - 0x80]);
+                }
+
+                return str;
+            },
+        };
+    }
+
+    switch (encoding) {
+        case 'utf16be':
+            {
+                // swap the bytes and decode as UTF-16 LE
+                let decoder = new StringDecoder('utf16le');
+                let rest: Buffer = Buffer.alloc(0);
+
+                return {
+                    end: () => decoder.end(),
+                    write: (data) => {
+                        data = Buffer.concat([ rest, data ]);
+
+                        let length = data.length - data.length % 2;
+                        rest = data.slice(length);
+
+                        let swapped = Buffer.alloc(length);
+                        for (let i = 0; i < length; i += 2) {
+                            swapped[i] = data[i + 1];
+                            swapped[i + 1] = data[i];
+                        }
+
+                        return decoder.write(swapped);
+                    },
+                };
+            }
+
+        case 'utf32be':
+        case 'utf32le':
+            {
+                let isBigEndian = 'utf32be' === encoding;
+                let rest: Buffer = Buffer.alloc(0);
+
+                return {
+                    end: () => '',
+                    write: (data) => {
+                        data = Buffer.concat([ rest, data ]);
+
+                        let length = data.length - data.length % 4;
+                        rest = data.slice(length);
+
+                        let str = '';
+                        for (let i = 0; i < length; i += 4) {
+                            let codePoint = isBigEndian ? data.readUInt32BE(i) : data.readUInt32LE(i);
+                            if (codePoint > 0x10FFFF) {
+                                codePoint = 0xFFFD;  // replacement character
+                            }
+
+                            str += String.fromCodePoint(codePoint);
+                        }
+
+                        return str;
+                    },
+                };
+            }
+    }
+
+    let decoder = new StringDecoder(encoding);
+
+    return {
+        end: () => decoder.end(),
+        write: (data) => decoder.write(data),
+    };
+}
+
+function detectBom(data: Buffer): string {
+    for (let i = 0; i < BYTE_ORDER_MARKS.length; i++) {
+        let bom = BYTE_ORDER_MARKS[i];
+
+        if (data.length >= bom.bytes.length &&
+            bom.bytes.every((b, j) => data[j] === b)) {
+            return bom.encoding;
+        }
+    }
+}
+
+function getBom(encoding: string): Buffer {
+    for (let i = 0; i < BYTE_ORDER_MARKS.length; i++) {
+        let bom = BYTE_ORDER_MARKS[i];
+
+        if (bom.encoding === encoding) {
+            return Buffer.from(bom.bytes);
+        }
+    }
+
+    return Buffer.alloc(0);
+}
+
+function toEncodingName(encoding: string, allowAuto = true): string {
+    let name = TB.normalizeString(encoding);
+    if ('' === name) {
+        name = 'utf8';
+    }
+
+    name = ENCODING_ALIASES[name] || name;
+
+    if (allowAuto && 'auto' === name) {
+        return name;
+    }
+
+    if (!isEncodingSupported(name)) {
+        throw new Error(`Encoding '${encoding}' is NOT supported!`);
+    }
+
+    return name;
+}
+
+function validateUtf8(data: Buffer): { isAscii: boolean, isValid: boolean, multiByteChars: number } {
+    let result = {
+        isAscii: true,
+        isValid: true,
+        multiByteChars: 0,
+    };
+
+    let i = 0;
+    while (i < data.length) {
+        let b = data[i];
+        if (b < 0x80) {
+            ++i;
+            continue;
+        }
+
+        result.isAscii = false;
+
+        let length = 0;
+        if (b >= 0xC2 && b <= 0xDF) {
+            length = 1;
+        }
+        else if (b >= 0xE0 && b <= 0xEF) {
+            length = 2;
+        }
+        else if (b >= 0xF0 && b <= 0xF4) {
+            length = 3;
+        }
+        else {
+            result.isValid = false;
+            break;
+        }
+
+        for (let j = 1; j <= length; j++) {
+            if (i + j >= data.length) {
+                // data ends inside of a sequence, which can happen with chunks
+                break;
+            }
+
+            if ((data[i + j] & 0xC0) !== 0x80) {
+                result.isValid = false;
+                break;
+            }
+        }
+
+        if (!result.isValid) {
+            break;
+        }
+
+        ++result.multiByteChars;
+        i += length + 1;
+    }
+
+    return result;
+}
+
+
+/**
+ * Creates a stream, which transcodes data from one encoding to another.
+ * 
+ * @param {string} from The source encoding or 'auto' to detect it from the first bytes.
+ * @param {string} [to] The target encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark to the output or not. Default: (false)
+ * 
+ * @returns {Stream.Transform} The new stream.
+ */
+export function createTranscodeStream(from: string, to?: string, addBom = false): Stream.Transform {
+    from = toEncodingName(from);
+    to = toEncodingName(to, false);
+
+    let decoder: TextDecoder;
+    let detectionBuffer: Buffer[] = [];
+    let detectionSize = 0;
+    let isFirstChunk = true;
+
+    let transcode = (data: Buffer, stream: Stream.Transform) => {
+        if (!decoder) {
+            let encoding = from;
+            if ('auto' === encoding) {
+                encoding = detectEncoding(data).encoding;
+                if ('ascii' === encoding) {
+                    // only the first bytes have been checked and the rest can contain
+                    // non-ASCII characters => use UTF-8, which is a superset of ASCII
+                    encoding = 'utf8';
+                }
+            }
+
+            decoder = createTextDecoder(encoding);
+            data = data.slice(getBom(detectBom(data) === encoding ? encoding : null).length);
+        }
+
+        let output = encodeText(decoder.write(data), to);
+        if (isFirstChunk) {
+            isFirstChunk = false;
+
+            if (addBom) {
+                output = Buffer.concat([ getBom(to), output ]);
+            }
+        }
+
+        if (output.length > 0) {
+            stream.push(output);
+        }
+    };
+
+    return new Stream.Transform({
+        transform: function(chunk: any, encoding: string, callback: (err?: any) => void) {
+            try {
+                let data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+
+                if (!decoder && 'auto' === from) {
+                    detectionBuffer.push(data);
+                    detectionSize += data.length;
+
+                    if (detectionSize < MAX_DETECTION_SIZE) {
+                        callback();
+                        return;
+                    }
+
+                    data = Buffer.concat(detectionBuffer);
+                    detectionBuffer = null;
+                }
+
+                transcode(data, this);
+                callback();
+            }
+            catch (e) {
+                callback(e);
+            }
+        },
+
+        flush: function(callback: (err?: any) => void) {
+            try {
+                if (!decoder) {
+                    transcode(Buffer.concat(detectionBuffer || []), this);
+                }
+
+                let rest = encodeText(decoder.end(), to);
+                if (rest.length > 0) {
+                    this.push(rest);
+                }
+
+                callback();
+            }
+            catch (e) {
+                callback(e);
+            }
+        },
+    });
+}
+
+/**
+ * Decodes data to a string.
+ * A byte order mark of the encoding is removed.
+ * 
+ * @param {Buffer} data The data to decode.
+ * @param {string} [encoding] The encoding or 'auto' to detect it. Default: auto
+ * 
+ * @returns {string} The decoded string.
+ */
+export function decodeText(data: Buffer, encoding = 'auto'): string {
+    if (TB.isNullOrUndefined(data)) {
+        return <any>data;
+    }
+
+    encoding = toEncodingName(encoding);
+    if ('auto' === encoding) {
+        encoding = detectEncoding(data).encoding;
+    }
+
+    if (detectBom(data) === encoding) {
+        data = data.slice(getBom(encoding).length);
+    }
+
+    let decoder = createTextDecoder(encoding);
+
+    return decoder.write(data) + decoder.end();
+}
+
+/**
+ * Detects the encoding of data.
+ * 
+ * The following steps are checked: byte order mark, UTF-8 validity,
+ * distribution of zero bytes (UTF-16 / UTF-32) and characters of single-byte code pages.
+ * 
+ * @param {Buffer} data The data.
+ * 
+ * @returns {EncodingInfo} The detected encoding.
+ */
+export function detectEncoding(data: Buffer): EncodingInfo {
+    if (!data || data.length < 1) {
+        return {
+            bom: false,
+            confidence: 0,
+            encoding: 'ascii',
+        };
+    }
+
+    let bom = detectBom(data);
+    if (bom) {
+        return {
+            bom: true,
+            confidence: 1,
+            encoding: bom,
+        };
+    }
+
+    // count zero bytes by position
+    let zeros = [ 0, 0, 0, 0 ];
+    for (let i = 0; i < data.length; i++) {
+        if (0 === data[i]) {
+            ++zeros[i % 4];
+        }
+    }
+
+    let quads = Math.floor(data.length / 4);
+    if (quads > 0) {
+        // the highest byte of an UTF-32 character is always zero,
+        // the second highest one for all characters of the BMP
+        if (zeros[3] >= quads * 0.95 && zeros[2] >= quads * 0.5 && zeros[0] < quads * 0.1) {
+            return { bom: false, confidence: 0.8, encoding: 'utf32le' };
+        }
+
+        if (zeros[0] >= quads * 0.95 && zeros[1] >= quads * 0.5 && zeros[3] < quads * 0.1) {
+            return { bom: false, confidence: 0.8, encoding: 'utf32be' };
+        }
+    }
+
+    let pairs = Math.floor(data.length / 2);
+    if (pairs > 0) {
+        let evenZeros = zeros[0] + zeros[2];
+        let oddZeros = zeros[1] + zeros[3];
+
+        // Latin characters in UTF-16 => every 2nd byte is zero
+        if (oddZeros >= pairs * 0.3 && evenZeros < pairs * 0.05) {
+            return { bom: false, confidence: Math.min(1, oddZeros / pairs), encoding: 'utf16le' };
+        }
+
+        if (evenZeros >= pairs * 0.3 && oddZeros < pairs * 0.05) {
+            return { bom: false, confidence: Math.min(1, evenZeros / pairs), encoding: 'utf16be' };
+        }
+    }
+
+    let utf8 = validateUtf8(data);
+    if (utf8.isAscii) {
+        return { bom: false, confidence: 1, encoding: 'ascii' };
+    }
+
+    if (utf8.isValid) {
+        // the more multi-byte characters, the less likely is a single-byte encoding
+        return { bom: false, confidence: Math.min(1, 0.5 + utf8.multiByteChars * 0.1), encoding: 'utf8' };
+    }
+
+    // C1 control characters are rarely used in ISO-8859-1 text,
+    // but are printable characters in Windows-1252
+    let hasC1 = false;
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] >= 0x80 && data[i] <= 0x9F) {
+            hasC1 = true;
+            break;
+        }
+    }
+
+    return {
+        bom: false,
+        confidence: 0.5,
+        encoding: hasC1 ? 'windows-1252' : 'latin1',
+    };
+}
+
+/**
+ * Encodes a string.
+ * 
+ * @param {any} str The string to encode.
+ * @param {string} [encoding] The encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark or not. Default: (false)
+ * 
+ * @returns {Buffer} The encoded data.
+ */
+export function encodeText(str: any, encoding?: string, addBom = false): Buffer {
+    str = TB.toStringSafe(str);
+    encoding = toEncodingName(encoding, false);
+
+    let data: Buffer;
+
+    let codePage = SINGLE_BYTE_CODE_PAGES[encoding];
+    if (codePage) {
+        data = Buffer.alloc(str.length);
+        for (let i = 0; i < str.length; i++) {
+            let c = str.charCodeAt(i);
+
+            let b = 0x3F;  // '?'
+            if (c < 0x80) {
+                b = c;
+            }
+            else {
+                let index = codePage.indexOf(c);
+                if (index > -1) {
+                    b = index + 0x80;
+                }
+            }
+
+            data[i] = b;
+        }
+    }
+    else {
+        switch (encoding) {
+            case 'utf16be':
+                data = Buffer.from(str, 'utf16le');
+                for (let i = 0; i < data.length; i += 2) {
+                    let b = data[i];
+                    data[i] = data[i + 1];
+                    data[i + 1] = b;
+                }
+                break;
+
+            case 'utf32be':
+            case 'utf32le':
+                {
+                    let codePoints: number[] = [];
+                    for (let c of str) {
+                        codePoints.push(c.codePointAt(0));
+                    }
+
+                    data = Buffer.alloc(codePoints.length * 4);
+                    codePoints.forEach((cp, i) => {
+                        if ('utf32be' === encoding) {
+                            data.writeUInt32BE(cp, i * 4);
+                        }
+                        else {
+                            data.writeUInt32LE(cp, i * 4);
+                        }
+                    });
+                }
+                break;
+
+            default:
+                data = Buffer.from(str, encoding);
+                break;
+        }
+    }
+
+    if (addBom) {
+        data = Buffer.concat([ getBom(encoding), data ]);
+    }
+
+    return data;
+}
+
+/**
+ * Checks if an encoding is supported by 'decodeText()', 'encodeText()' and 'transcode()'.
+ * 
+ * @param {string} encoding The encoding.
+ * 
+ * @returns {boolean} Is supported or not.
+ */
+export function isEncodingSupported(encoding: string): boolean {
+    let name = TB.normalizeString(encoding);
+    name = ENCODING_ALIASES[name] || name;
+
+    return Buffer.isEncoding(name) ||
+           !!SINGLE_BYTE_CODE_PAGES[name] ||
+           [ 'utf16be', 'utf32be', 'utf32le' ].indexOf(name) > -1;
+}
+
+/**
+ * Transcodes data from one encoding to another.
+ * 
+ * @param {Buffer} data The data.
+ * @param {string} from The source encoding or 'auto' to detect it.
+ * @param {string} [to] The target encoding. Default: utf8
+ * @param {boolean} [addBom] Add a byte order mark to the output or not. Default: (false)
+ * 
+ * @returns {Buffer} The transcoded data.
+ */
+export function transcode(data: Buffer, from: string, to?: string, addBom = false): Buffer {
+    if (TB.isNullOrUndefined(data)) {
+        return data;
+    }
+
+    return encodeText(decodeText(data, from), to, addBom);
+}
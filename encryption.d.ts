@@ -0,0 +1,63 @@
+import * as Stream from 'stream';
+/**
+ * Options for 'encrypt()'.
+ */
+export interface EncryptOptions {
+    /**
+     * The cipher algorithm. Default: aes-256-gcm
+     */
+    algorithm?: string;
+    /**
+     * The string encoding of the input data. Default: utf8
+     */
+    encoding?: string;
+    /**
+     * The number of PBKDF2 iterations. Default: 100000, Maximum: 10000000
+     */
+    iterations?: number;
+    /**
+     * The key derivation function. Default: pbkdf2
+     */
+    kdf?: KeyDerivationFunction;
+}
+/**
+ * Possible values for a key derivation function.
+ */
+export declare type KeyDerivationFunction = 'pbkdf2' | 'scrypt';
+/**
+ * Creates a stream, which decrypts an envelope, which has been created by 'encrypt()' or 'createEncryptStream()'.
+ *
+ * @param {string|Buffer} password The password.
+ *
+ * @returns {Stream.Transform} The new stream.
+ */
+export declare function createDecryptStream(password: string | Buffer): Stream.Transform;
+/**
+ * Creates a stream, which encrypts data to a self-describing envelope.
+ *
+ * @param {string|Buffer} password The password.
+ * @param {EncryptOptions} [opts] The options.
+ *
+ * @returns {Stream.Transform} The new stream.
+ */
+export declare function createEncryptStream(password: string | Buffer, opts?: EncryptOptions): Stream.Transform;
+/**
+ * Decrypts an envelope, which has been created by 'encrypt()' or 'createEncryptStream()'.
+ *
+ * @param {Buffer|NodeJS.ReadableStream|string} data The envelope (Buffer, stream or Base64 string).
+ * @param {string|Buffer} password The password.
+ *
+ * @returns {Promise<Buffer>} The promise with the decrypted data.
+ */
+export declare function decrypt(data: Buffer | NodeJS.ReadableStream | string, password: string | Buffer): Promise<Buffer>;
+/**
+ * Encrypts data to a self-describing envelope, which contains the algorithm, the key derivation parameters,
+ * the salt, the IV and the authentication tag.
+ *
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|Buffer} password The password.
+ * @param {EncryptOptions} [opts] The options.
+ *
+ * @returns {Promise<Buffer>} The promise with the envelope.
+ */
+export declare function encrypt(data: any, password: string | Buffer, opts?: EncryptOptions): Promise<Buffer>;
@@ -0,0 +1,542 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as crypto from 'crypto';
+import * as Stream from 'stream';
+import * as TB from './index';
+
+
+/**
+ * Options for 'encrypt()'.
+ */
+export interface EncryptOptions {
+    /**
+     * The cipher algorithm. Default: aes-256-gcm
+     */
+    algorithm?: string;
+    /**
+     * The string encoding of the input data. Default: utf8
+     */
+    encoding?: string;
+    /**
+     * The number of PBKDF2 iterations. Default: 100000, Maximum: 10000000
+     */
+    iterations?: number;
+    /**
+     * The key derivation function. Default: pbkdf2
+     */
+    kdf?: KeyDerivationFunction;
+}
+
+/**
+ * Possible values for a key derivation function.
+ */
+export type KeyDerivationFunction = 'pbkdf2' | 'scrypt';
+
+interface EnvelopeHeader {
+    algorithm: string;
+    iv: string;
+    kdf: KeyDerivationFunction;
+    params: any;
+    salt: string;
+    tagLength: number;
+}
+
+
+/**
+ * The supported (authenticated) ciphers with their key sizes, in bytes.
+ */
+const CIPHERS: { [algorithm: string]: number } = {
+    'aes-128-gcm': 16,
+    'aes-192-gcm': 24,
+    'aes-256-gcm': 32,
+    'chacha20-poly1305': 32,
+};
+/**
+ * The first bytes of an envelope ('TBE' + format version).
+ */
+const ENVELOPE_MAGIC = Buffer.from([ 0x54, 0x42, 0x45, 0x01 ]);
+const IV_LENGTH = 12;
+/**
+ * The upper limit of PBKDF2 iterations, which are accepted from an envelope header.
+ */
+const MAX_ITERATIONS = 10000000;
+/**
+ * The upper limit of memory, in bytes, which scrypt is allowed to use (128 * N * r).
+ */
+const MAX_SCRYPT_MEMORY = 32 * 1024 * 1024;
+/**
+ * The digests, which are accepted for PBKDF2.
+ */
+const PBKDF2_DIGESTS = [ 'sha256', 'sha384', 'sha512' ];
+const SALT_LENGTH = 16;
+const TAG_LENGTH = 16;
+
+
+function collectStream(input: any, transform: Stream.Transform, encoding: string): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let chunks: Buffer[] = [];
+
+        transform.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+        });
+        transform.once('error', (err: any) => {
+            reject(err);
+        });
+        transform.once('end', () => {
+            resolve(Buffer.concat(chunks));
+        });
+
+        try {
+            if (Buffer.isBuffer(input)) {
+                transform.end(input);
+            }
+            else if (TB.isObj(input) && TB.isFunc(input.pipe)) {
+                (<NodeJS.ReadableStream>input).once('error', (err: any) => {
+                    reject(err);
+                });
+
+                (<NodeJS.ReadableStream>input).pipe(transform);
+            }
+            else {
+                transform.end(Buffer.from(TB.toStringSafe(input), encoding));
+            }
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+function createCipherOrDecipher(decrypt: boolean, algorithm: string, key: Buffer, iv: Buffer, tagLength: number): any {
+    let create: Function = decrypt ? crypto.createDecipheriv : crypto.createCipheriv;
+
+    return create(algorithm, key, iv, {
+        authTagLength: tagLength,
+    });
+}
+
+function deriveKey(password: string | Buffer, header: EnvelopeHeader): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        validateHeader(header);
+
+        let keyLength = CIPHERS[header.algorithm];
+        let salt = Buffer.from(header.salt, 'base64');
+        let params = header.params;
+
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+        switch (header.kdf) {
+            case 'pbkdf2':
+                crypto.pbkdf2(password, salt, params.iterations, keyLength, params.digest, completed);
+                break;
+
+            case 'scrypt':
+                (<any>crypto).scrypt(password, salt, keyLength, {
+                    N: params.N,
+                    p: params.p,
+                    r: params.r,
+                }, completed);
+                break;
+
+            default:
+                throw new Error(`Key derivation function '${header.kdf}' is NOT supported!`);
+        }
+    });
+}
+
+function isIntegerInRange(val: any, min: number, max: number): boolean {
+    return 'number' === typeof val &&
+           val % 1 === 0 &&
+           val >= min && val <= max;
+}
+
+function toPassword(password: string | Buffer): string | Buffer {
+    return Buffer.isBuffer(password) ? password : TB.toStringSafe(password);
+}
+
+function validateHeader(header: EnvelopeHeader) {
+    if (!TB.isObj(header)) {
+        throw new Error('Envelope header is invalid!');
+    }
+
+    if (!CIPHERS.hasOwnProperty(header.algorithm)) {
+        throw new Error(`Cipher '${header.algorithm}' is NOT supported!`);
+    }
+
+    if (TAG_LENGTH !== header.tagLength) {
+        throw new Error(`Tag length '${header.tagLength}' is NOT supported!`);
+    }
+
+    if ('string' !== typeof header.iv || Buffer.from(header.iv, 'base64').length !== IV_LENGTH) {
+        throw new Error('Envelope header contains an invalid IV!');
+    }
+
+    if ('string' !== typeof header.salt || Buffer.from(header.salt, 'base64').length !== SALT_LENGTH) {
+        throw new Error('Envelope header contains an invalid salt!');
+    }
+
+    let params = header.params;
+    if (!TB.isObj(params)) {
+        throw new Error('Envelope header contains no key derivation parameters!');
+    }
+
+    switch (header.kdf) {
+        case 'pbkdf2':
+            if (PBKDF2_DIGESTS.indexOf(params.digest) < 0) {
+                throw new Error(`Digest '${params.digest}' is NOT supported!`);
+            }
+            if (!isIntegerInRange(params.iterations, 1, MAX_ITERATIONS)) {
+                throw new Error(`Number of iterations must be between 1 and ${MAX_ITERATIONS}!`);
+            }
+            break;
+
+        case 'scrypt':
+            // N must be a power of 2
+            if (!isIntegerInRange(params.N, 2, Math.pow(2, 20)) || 0 !== (params.N & (params.N - 1))) {
+                throw new Error(`Invalid scrypt cost parameter N '${params.N}'!`);
+            }
+            if (!isIntegerInRange(params.r, 1, 32) || !isIntegerInRange(params.p, 1, 16)) {
+                throw new Error('Invalid scrypt parameters r and/or p!');
+            }
+            if (128 * params.N * params.r > MAX_SCRYPT_MEMORY) {
+                throw new Error('scrypt parameters exceed the memory limit!');
+            }
+            break;
+
+        default:
+            throw new Error(`Key derivation function '${header.kdf}' is NOT supported!`);
+    }
+}
+
+
+/**
+ * Creates a stream, which decrypts an envelope, which has been created by 'encrypt()' or 'createEncryptStream()'.
+ * 
+ * @param {string|Buffer} password The password.
+ * 
+ * @returns {Stream.Transform} The new stream.
+ */
+export function createDecryptStream(password: string | Buffer): Stream.Transform {
+    password = toPassword(password);
+
+    let buffer = Buffer.alloc(0);
+    let decipher: any;
+    let tagLength: number;
+
+    let parseHeader = (): Promise<boolean> => {
+        if (buffer.length < ENVELOPE_MAGIC.length + 2) {
+            return Promise.resolve(false);
+        }
+
+        if (!buffer.slice(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC)) {
+            return Promise.reject(new Error('Data is no valid envelope!'));
+        }
+
+        let headerEnd = ENVELOPE_MAGIC.length + 2 + buffer.readUInt16BE(ENVELOPE_MAGIC.length);
+        if (buffer.length < headerEnd) {
+            return Promise.resolve(false);
+        }
+
+        return new Promise<boolean>((resolve, reject) => {
+            try {
+                let headerBytes = buffer.slice(0, headerEnd);
+                let header = TB.fromJSON<EnvelopeHeader>(headerBytes.slice(ENVELOPE_MAGIC.length + 2).toString('utf8'));
+
+                buffer = buffer.slice(headerEnd);
+
+                deriveKey(password, header).then((key) => {
+                    try {
+                        tagLength = TAG_LENGTH;
+
+                        decipher = createCipherOrDecipher(true, header.algorithm, key, Buffer.from(header.iv, 'base64'), tagLength);
+                        decipher.setAAD(headerBytes);
+
+                        resolve(true);
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                }, reject);
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    };
+
+    // keep the last bytes, which contain the authentication tag
+    let decryptAvailable = (stream: Stream.Transform) => {
+        if (buffer.length > tagLength) {
+            stream.push(decipher.update(buffer.slice(0, buffer.length - tagLength)));
+            buffer = buffer.slice(buffer.length - tagLength);
+        }
+    };
+
+    return new Stream.Transform({
+        transform: function(chunk: Buffer, enc: string, callback: Function) {
+            let me: Stream.Transform = this;
+
+            buffer = Buffer.concat([ buffer, chunk ]);
+
+            try {
+                if (decipher) {
+                    decryptAvailable(me);
+                    callback();
+
+                    return;
+                }
+
+                parseHeader().then((isReady) => {
+                    try {
+                        if (isReady) {
+                            decryptAvailable(me);
+                        }
+
+                        callback();
+                    }
+                    catch (e) {
+                        callback(e);
+                    }
+                }, (err) => {
+                    callback(err);
+                });
+            }
+            catch (e) {
+                callback(e);
+            }
+        },
+        flush: function(callback: Function) {
+            let me: Stream.Transform = this;
+
+            let finish = () => {
+                try {
+                    if (!decipher || buffer.length !== tagLength) {
+                        throw new Error('Envelope is incomplete!');
+                    }
+
+                    decipher.setAuthTag(buffer);
+
+                    let lastBlock: Buffer;
+                    try {
+                        lastBlock = decipher.final();
+                    }
+                    catch (e) {
+                        throw new Error('Could not decrypt data: wrong password or data has been modified!');
+                    }
+
+                    me.push(lastBlock);
+                    callback();
+                }
+                catch (e) {
+                    callback(e);
+                }
+            };
+
+            if (decipher) {
+                finish();
+            }
+            else {
+                parseHeader().then(() => {
+                    if (decipher) {
+                        decryptAvailable(me);
+                    }
+
+                    finish();
+                }, (err) => {
+                    callback(err);
+                });
+            }
+        },
+    });
+}
+
+/**
+ * Creates a stream, which encrypts data to a self-describing envelope.
+ * 
+ * @param {string|Buffer} password The password.
+ * @param {EncryptOptions} [opts] The options.
+ * 
+ * @returns {Stream.Transform} The new stream.
+ */
+export function createEncryptStream(password: string | Buffer, opts?: EncryptOptions): Stream.Transform {
+    if (!opts) {
+        opts = {};
+    }
+
+    password = toPassword(password);
+
+    let algorithm = TB.normalizeString(opts.algorithm);
+    if ('' === algorithm) {
+        algorithm = 'aes-256-gcm';
+    }
+    if (!CIPHERS[algorithm]) {
+        throw new Error(`Cipher '${algorithm}' is NOT supported!`);
+    }
+
+    let kdf = <KeyDerivationFunction>TB.normalizeString(opts.kdf);
+    if (<string>'' === kdf) {
+        kdf = 'pbkdf2';
+    }
+
+    let params: any;
+    switch (kdf) {
+        case 'pbkdf2':
+            {
+                let iterations = parseInt(TB.toStringSafe(opts.iterations).trim());
+                if (isNaN(iterations) || iterations < 1) {
+                    iterations = 100000;
+                }
+
+                params = {
+                    digest: 'sha256',
+                    iterations: iterations,
+                };
+            }
+            break;
+
+        case 'scrypt':
+            params = {
+                N: 16384,
+                p: 1,
+                r: 8,
+            };
+            break;
+
+        default:
+            throw new Error(`Key derivation function '${kdf}' is NOT supported!`);
+    }
+
+    let header: EnvelopeHeader = {
+        algorithm: algorithm,
+        iv: crypto.randomBytes(IV_LENGTH).toString('base64'),
+        kdf: kdf,
+        params: params,
+        salt: crypto.randomBytes(SALT_LENGTH).toString('base64'),
+        tagLength: TAG_LENGTH,
+    };
+
+    let headerJson = Buffer.from(JSON.stringify(header), 'utf8');
+    let headerLength = Buffer.alloc(2);
+    headerLength.writeUInt16BE(headerJson.length, 0);
+
+    let headerBytes = Buffer.concat([ ENVELOPE_MAGIC, headerLength, headerJson ]);
+
+    let cipher: Promise<any>;
+    let getCipher = (stream: Stream.Transform): Promise<any> => {
+        if (!cipher) {
+            cipher = deriveKey(password, header).then((key) => {
+                let c = createCipherOrDecipher(false, algorithm, key, Buffer.from(header.iv, 'base64'), TAG_LENGTH);
+                c.setAAD(headerBytes);
+
+                stream.push(headerBytes);
+
+                return c;
+            });
+        }
+
+        return cipher;
+    };
+
+    return new Stream.Transform({
+        transform: function(chunk: Buffer, enc: string, callback: Function) {
+            let me: Stream.Transform = this;
+
+            getCipher(me).then((c) => {
+                try {
+                    me.push(c.update(chunk));
+                    callback();
+                }
+                catch (e) {
+                    callback(e);
+                }
+            }, (err) => {
+                callback(err);
+            });
+        },
+        flush: function(callback: Function) {
+            let me: Stream.Transform = this;
+
+            getCipher(me).then((c) => {
+                try {
+                    me.push(c.final());
+                    me.push(c.getAuthTag());
+
+                    callback();
+                }
+                catch (e) {
+                    callback(e);
+                }
+            }, (err) => {
+                callback(err);
+            });
+        },
+    });
+}
+
+/**
+ * Decrypts an envelope, which has been created by 'encrypt()' or 'createEncryptStream()'.
+ * 
+ * @param {Buffer|NodeJS.ReadableStream|string} data The envelope (Buffer, stream or Base64 string).
+ * @param {string|Buffer} password The password.
+ * 
+ * @returns {Promise<Buffer>} The promise with the decrypted data.
+ */
+export function decrypt(data: Buffer | NodeJS.ReadableStream | string, password: string | Buffer): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        try {
+            collectStream(data, createDecryptStream(password), 'base64').then(resolve, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Encrypts data to a self-describing envelope, which contains the algorithm, the key derivation parameters,
+ * the salt, the IV and the authentication tag.
+ * 
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|Buffer} password The password.
+ * @param {EncryptOptions} [opts] The options.
+ * 
+ * @returns {Promise<Buffer>} The promise with the envelope.
+ */
+export function encrypt(data: any, password: string | Buffer, opts?: EncryptOptions): Promise<Buffer> {
+    let encoding = TB.normalizeString(opts ? opts.encoding : null);
+    if ('' === encoding) {
+        encoding = 'utf8';
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+        try {
+            collectStream(TB.isNullOrUndefined(data) ? Buffer.alloc(0) : data,
+                          createEncryptStream(password, opts), encoding).then(resolve, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
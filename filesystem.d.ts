@@ -0,0 +1,180 @@
+/**
+ * Options for 'copy()'.
+ */
+export interface CopyOptions {
+    /**
+     * Copy the targets of symbolic links instead of the links or not. Default: (false)
+     */
+    dereference?: boolean;
+    /**
+     * A function, which returns (true) for the source paths, which should be copied.
+     */
+    filter?: (src: string) => boolean;
+    /**
+     * Overwrite existing files or not. Default: (true)
+     */
+    overwrite?: boolean;
+    /**
+     * Keep the timestamps of the source files or not. Default: (false)
+     */
+    preserveTimestamps?: boolean;
+}
+/**
+ * Possible modes for comparing files in 'syncDirectories()'.
+ *
+ * 'hash' => compare the SHA-256 hashes of the contents
+ * 'size-mtime' => compare the sizes and the modification times
+ */
+export declare type SyncCompareMode = 'hash' | 'size-mtime';
+/**
+ * Options for 'syncDirectories()'.
+ */
+export interface SyncDirectoriesOptions {
+    /**
+     * The mode for comparing files. Default: 'size-mtime'
+     */
+    compare?: SyncCompareMode;
+    /**
+     * Remove entries from the target, which do not exist in the source, or not. Default: (true)
+     */
+    delete?: boolean;
+    /**
+     * Only create the report, without changing anything, or not. Default: (false)
+     */
+    dryRun?: boolean;
+    /**
+     * One or more patterns of relative paths to skip (s. 'walk()').
+     */
+    exclude?: string | string[];
+}
+/**
+ * The report of 'syncDirectories()'.
+ * All paths are relative to the directories and use '/' as separator.
+ */
+export interface SyncReport {
+    /**
+     * The entries, which have been copied to the target, because they were missing.
+     */
+    added: string[];
+    /**
+     * Is a dry run or not.
+     */
+    dryRun: boolean;
+    /**
+     * The entries, which have been removed from the target.
+     */
+    removed: string[];
+    /**
+     * The files, which are equal.
+     */
+    unchanged: string[];
+    /**
+     * The entries of the target, which have been replaced.
+     */
+    updated: string[];
+}
+/**
+ * Options for 'writeFileAtomic()'.
+ */
+export interface WriteFileAtomicOptions {
+    /**
+     * The encoding, if the data is a string. Default: utf8
+     */
+    encoding?: string;
+    /**
+     * Flush the data to the disk, before the file is renamed, or not. Default: (false)
+     */
+    fsync?: boolean;
+    /**
+     * The mode of the file. Default: the mode of the existing file
+     */
+    mode?: number;
+}
+/**
+ * Options for 'writeJSON()'.
+ */
+export interface WriteJSONOptions extends WriteFileAtomicOptions {
+    /**
+     * The indentation. Default: no indentation
+     */
+    spaces?: number | string;
+}
+/**
+ * Copies a file or directory.
+ *
+ * @param {string} src The source.
+ * @param {string} dest The target.
+ * @param {CopyOptions} [opts] The options.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function copy(src: string, dest: string, opts?: CopyOptions): Promise<any>;
+/**
+ * Creates a file, if it does not exist.
+ * The parent directories are created, too.
+ *
+ * @param {string} file The path of the file.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function ensureFile(file: string): Promise<any>;
+/**
+ * Moves a file or directory.
+ *
+ * @param {string} src The source.
+ * @param {string} dest The target.
+ * @param {boolean} [overwrite] Overwrite an existing target or not. Default: (false)
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function move(src: string, dest: string, overwrite?: boolean): Promise<any>;
+/**
+ * Reads a JSON file.
+ *
+ * @param {string} file The path of the file.
+ * @param {string} [encoding] The encoding or 'auto' to detect it. Default: utf8
+ *
+ * @returns {Promise<T>} The promise with the object.
+ */
+export declare function readJSON<T>(file: string, encoding?: string): Promise<T>;
+/**
+ * Removes a file or directory (with all its contents).
+ * Does nothing, if it does not exist.
+ *
+ * @param {string} path The path.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function remove(path: string): Promise<any>;
+/**
+ * Mirrors a directory to another one.
+ * The source directory must exist, the target directory is created, if needed.
+ *
+ * @param {string} src The source directory.
+ * @param {string} dest The target directory.
+ * @param {SyncDirectoriesOptions} [opts] The options.
+ *
+ * @returns {Promise<SyncReport>} The promise with the report.
+ */
+export declare function syncDirectories(src: string, dest: string, opts?: SyncDirectoriesOptions): Promise<SyncReport>;
+/**
+ * Writes a file atomically, by writing to a temporary file first, which is renamed then.
+ * The parent directories are created, if needed.
+ *
+ * @param {string} file The path of the file.
+ * @param {any} data The data to write.
+ * @param {WriteFileAtomicOptions} [opts] The options.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function writeFileAtomic(file: string, data: any, opts?: WriteFileAtomicOptions): Promise<any>;
+/**
+ * Writes an object to a JSON file atomically.
+ *
+ * @param {string} file The path of the file.
+ * @param {any} obj The object.
+ * @param {WriteJSONOptions} [opts] The options.
+ *
+ * @returns {Promise<any>} The promise.
+ */
+export declare function writeJSON(file: string, obj: any, opts?: WriteJSONOptions): Promise<any>;
@@ -0,0 +1,549 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as fs from 'fs';
+import * as FSExtra from 'fs-extra';
+import * as Path from 'path';
+import * as TB from './index';
+
+
+/**
+ * Options for 'copy()'.
+ */
+export interface CopyOptions {
+    /**
+     * Copy the targets of symbolic links instead of the links or not. Default: (false)
+     */
+    dereference?: boolean;
+    /**
+     * A function, which returns (true) for the source paths, which should be copied.
+     */
+    filter?: (src: string) => boolean;
+    /**
+     * Overwrite existing files or not. Default: (true)
+     */
+    overwrite?: boolean;
+    /**
+     * Keep the timestamps of the source files or not. Default: (false)
+     */
+    preserveTimestamps?: boolean;
+}
+
+/**
+ * Possible modes for comparing files in 'syncDirectories()'.
+ * 
+ * 'hash' => compare the SHA-256 hashes of the contents
+ * 'size-mtime' => compare the sizes and the modification times
+ */
+export type SyncCompareMode = 'hash' | 'size-mtime';
+
+/**
+ * Options for 'syncDirectories()'.
+ */
+export interface SyncDirectoriesOptions {
+    /**
+     * The mode for comparing files. Default: 'size-mtime'
+     */
+    compare?: SyncCompareMode;
+    /**
+     * Remove entries from the target, which do not exist in the source, or not. Default: (true)
+     */
+    delete?: boolean;
+    /**
+     * Only create the report, without changing anything, or not. Default: (false)
+     */
+    dryRun?: boolean;
+    /**
+     * One or more patterns of relative paths to skip (s. 'walk()').
+     */
+    exclude?: string | string[];
+}
+
+/**
+ * The report of 'syncDirectories()'.
+ * All paths are relative to the directories and use '/' as separator.
+ */
+export interface SyncReport {
+    /**
+     * The entries, which have been copied to the target, because they were missing.
+     */
+    added: string[];
+    /**
+     * Is a dry run or not.
+     */
+    dryRun: boolean;
+    /**
+     * The entries, which have been removed from the target.
+     */
+    removed: string[];
+    /**
+     * The files, which are equal.
+     */
+    unchanged: string[];
+    /**
+     * The entries of the target, which have been replaced.
+     */
+    updated: string[];
+}
+
+/**
+ * Options for 'writeFileAtomic()'.
+ */
+export interface WriteFileAtomicOptions {
+    /**
+     * The encoding, if the data is a string. Default: utf8
+     */
+    encoding?: string;
+    /**
+     * Flush the data to the disk, before the file is renamed, or not. Default: (false)
+     */
+    fsync?: boolean;
+    /**
+     * The mode of the file. Default: the mode of the existing file
+     */
+    mode?: number;
+}
+
+/**
+ * Options for 'writeJSON()'.
+ */
+export interface WriteJSONOptions extends WriteFileAtomicOptions {
+    /**
+     * The indentation. Default: no indentation
+     */
+    spaces?: number | string;
+}
+
+
+function collectEntries(dir: string, opts: SyncDirectoriesOptions, allowMissing: boolean): Promise<{ [relativePath: string]: TB.WalkEntry }> {
+    return new Promise<{ [relativePath: string]: TB.WalkEntry }>((resolve, reject) => {
+        let entries: { [relativePath: string]: TB.WalkEntry } = {};
+
+        fs.stat(dir, (err, stats) => {
+            if (err) {
+                if (allowMissing && 'ENOENT' === (<any>err).code) {
+                    resolve(entries);  // does not exist (yet)
+                }
+                else {
+                    reject(err);
+                }
+
+                return;
+            }
+
+            if (!stats.isDirectory()) {
+                reject(new Error(`'${dir}' is no directory!`));
+                return;
+            }
+
+            let walker = TB.walk(dir, {
+                exclude: opts.exclude,
+                symlinks: 'include',
+            });
+
+            walker.on('data', (entry: TB.WalkEntry) => {
+                entries[entry.relativePath] = entry;
+            });
+            walker.once('end', () => {
+                resolve(entries);
+            });
+            walker.once('error', (err: any) => {
+                reject(err);
+            });
+        });
+    });
+}
+
+function isSameEntry(src: TB.WalkEntry, dest: TB.WalkEntry, compare: string): Promise<boolean> {
+    if (src.type !== dest.type) {
+        return Promise.resolve(false);
+    }
+
+    switch (src.type) {
+        case 'directory':
+            return Promise.resolve(true);
+
+        case 'symlink':
+            {
+                let readlink = TB.promisify<string>(fs.readlink);
+
+                return Promise.all([ readlink(src.path), readlink(dest.path) ]).then((targets) => {
+                    return targets[0] === targets[1];
+                });
+            }
+    }
+
+    if (src.stats.size !== dest.stats.size) {
+        return Promise.resolve(false);
+    }
+
+    if ('hash' === compare) {
+        return Promise.all([ TB.hashFile(src.path, 'sha256', 'hex'), TB.hashFile(dest.path, 'sha256', 'hex') ]).then((hashes) => {
+            return hashes[0] === hashes[1];
+        });
+    }
+
+    // compare seconds only, because not all file systems store milliseconds
+    return Promise.resolve(Math.floor(src.stats.mtime.getTime() / 1000) ===
+                           Math.floor(dest.stats.mtime.getTime() / 1000));
+}
+
+
+/**
+ * Copies a file or directory.
+ * 
+ * @param {string} src The source.
+ * @param {string} dest The target.
+ * @param {CopyOptions} [opts] The options.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function copy(src: string, dest: string, opts?: CopyOptions): Promise<any> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let overwrite = TB.toBooleanSafe(opts.overwrite, true);
+
+    let copyOpts: any = {
+        clobber: overwrite,
+        dereference: TB.toBooleanSafe(opts.dereference),
+        errorOnExist: false,
+        overwrite: overwrite,
+        preserveTimestamps: TB.toBooleanSafe(opts.preserveTimestamps),
+    };
+    if (opts.filter) {
+        copyOpts.filter = opts.filter;
+    }
+
+    return TB.promisify<any>(FSExtra.copy)(TB.toStringSafe(src), TB.toStringSafe(dest), copyOpts);
+}
+
+/**
+ * Creates a file, if it does not exist.
+ * The parent directories are created, too.
+ * 
+ * @param {string} file The path of the file.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function ensureFile(file: string): Promise<any> {
+    return TB.promisify<any>(FSExtra.ensureFile)(TB.toStringSafe(file));
+}
+
+/**
+ * Moves a file or directory.
+ * 
+ * @param {string} src The source.
+ * @param {string} dest The target.
+ * @param {boolean} [overwrite] Overwrite an existing target or not. Default: (false)
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function move(src: string, dest: string, overwrite = false): Promise<any> {
+    overwrite = TB.toBooleanSafe(overwrite);
+
+    return TB.promisify<any>(FSExtra.move)(TB.toStringSafe(src), TB.toStringSafe(dest), <any>{
+        clobber: overwrite,
+        overwrite: overwrite,
+    });
+}
+
+/**
+ * Reads a JSON file.
+ * 
+ * @param {string} file The path of the file.
+ * @param {string} [encoding] The encoding or 'auto' to detect it. Default: utf8
+ * 
+ * @returns {Promise<T>} The promise with the object.
+ */
+export function readJSON<T>(file: string, encoding?: string): Promise<T> {
+    encoding = TB.normalizeString(encoding);
+    if ('' === encoding) {
+        encoding = 'utf8';
+    }
+
+    return TB.promisify<Buffer>(fs.readFile)(TB.toStringSafe(file)).then((data) => {
+        return TB.fromJSON<T>(TB.toStringSafe(data, '', encoding));
+    });
+}
+
+/**
+ * Removes a file or directory (with all its contents).
+ * Does nothing, if it does not exist.
+ * 
+ * @param {string} path The path.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function remove(path: string): Promise<any> {
+    return TB.promisify<any>(FSExtra.remove)(TB.toStringSafe(path));
+}
+
+/**
+ * Mirrors a directory to another one.
+ * The source directory must exist, the target directory is created, if needed.
+ * 
+ * @param {string} src The source directory.
+ * @param {string} dest The target directory.
+ * @param {SyncDirectoriesOptions} [opts] The options.
+ * 
+ * @returns {Promise<SyncReport>} The promise with the report.
+ */
+export function syncDirectories(src: string, dest: string, opts?: SyncDirectoriesOptions): Promise<SyncReport> {
+    if (!opts) {
+        opts = {};
+    }
+
+    src = Path.resolve(TB.toStringSafe(src));
+    dest = Path.resolve(TB.toStringSafe(dest));
+
+    let compare = TB.normalizeString(opts.compare);
+    let dryRun = TB.toBooleanSafe(opts.dryRun);
+
+    let report: SyncReport = {
+        added: [],
+        dryRun: dryRun,
+        removed: [],
+        unchanged: [],
+        updated: [],
+    };
+
+    let srcEntries: { [relativePath: string]: TB.WalkEntry };
+    let destEntries: { [relativePath: string]: TB.WalkEntry };
+
+    let copyEntry = (entry: TB.WalkEntry) => {
+        if (dryRun) {
+            return;
+        }
+
+        let target = Path.join(dest, entry.relativePath);
+        if ('directory' === entry.type) {
+            return TB.mkdirs(target);
+        }
+
+        return copy(entry.path, target, {
+            preserveTimestamps: true,
+        });
+    };
+
+    let removeEntry = (relativePath: string) => {
+        report.removed.push(relativePath);
+
+        if (!dryRun) {
+            return remove(Path.join(dest, relativePath));
+        }
+    };
+
+    return Promise.all([ collectEntries(src, opts, false), collectEntries(dest, opts, true) ]).then((entries) => {
+        srcEntries = entries[0];
+        destEntries = entries[1];
+
+        if (!dryRun) {
+            return TB.mkdirs(dest);
+        }
+    }).then(() => {
+        // the entries of the target, which do not exist in the source anymore,
+        // with the deepest ones first
+        let obsolete = Object.keys(destEntries).filter(p => !srcEntries[p])
+                                               .sort()
+                                               .reverse();
+
+        if (!TB.toBooleanSafe(opts.delete, true)) {
+            return;
+        }
+
+        return TB.eachSeries(obsolete.filter(p => {
+            // the entries of removed directories are removed, too
+            return !obsolete.some(x => 0 === p.indexOf(x + '/'));
+        }), (p) => removeEntry(p));
+    }).then(() => {
+        return TB.eachSeries(Object.keys(srcEntries).sort(), (p) => {
+            let srcEntry = srcEntries[p];
+            let destEntry = destEntries[p];
+
+            if (!destEntry) {
+                report.added.push(p);
+                return copyEntry(srcEntry);
+            }
+
+            return isSameEntry(srcEntry, destEntry, compare).then((isSame) => {
+                if (isSame) {
+                    if ('directory' !== srcEntry.type) {
+                        report.unchanged.push(p);
+                    }
+
+                    return;
+                }
+
+                report.updated.push(p);
+                if (dryRun) {
+                    return;
+                }
+
+                if (srcEntry.type !== destEntry.type || 'symlink' === destEntry.type) {
+                    return remove(destEntry.path).then(() => {
+                        return copyEntry(srcEntry);
+                    });
+                }
+
+                return copyEntry(srcEntry);
+            });
+        });
+    }).then(() => {
+        return report;
+    });
+}
+
+/**
+ * Writes a file atomically, by writing to a temporary file first, which is renamed then.
+ * The parent directories are created, if needed.
+ * 
+ * @param {string} file The path of the file.
+ * @param {any} data The data to write.
+ * @param {WriteFileAtomicOptions} [opts] The options.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function writeFileAtomic(file: string, data: any, opts?: WriteFileAtomicOptions): Promise<any> {
+    if (!opts) {
+        opts = {};
+    }
+
+    file = Path.resolve(TB.toStringSafe(file));
+
+    let encoding = TB.normalizeString(opts.encoding);
+    if ('' === encoding) {
+        encoding = 'utf8';
+    }
+
+    let buffer: Buffer = Buffer.isBuffer(data) ? data : TB.encodeText(data, encoding);
+    let fsync = TB.toBooleanSafe(opts.fsync);
+
+    let dir = Path.dirname(file);
+    let tempFile = Path.join(dir, `.${Path.basename(file)}.${TB.randomToken(8)}.tmp`);
+
+    let open = TB.promisify<number>(fs.open);
+    let write = TB.promisify<number>(fs.write);
+    let sync = TB.promisify<any>(fs.fsync);
+    let close = TB.promisify<any>(fs.close);
+
+    // 'fs.write()' can write less bytes than requested
+    let writeAll = (offset: number): Promise<any> => {
+        if (offset >= buffer.length) {
+            return Promise.resolve();
+        }
+
+        return write(fd, buffer, offset, buffer.length - offset, null).then((written) => {
+            return writeAll(offset + written);
+        });
+    };
+
+    let fd: number;
+    let mode: number = opts.mode;
+
+    return TB.mkdirs(dir).then(() => {
+        if (!TB.isNullOrUndefined(mode)) {
+            return;
+        }
+
+        // keep the mode of an existing file
+        return TB.promisify<fs.Stats>(fs.stat)(file).then((stats) => {
+            mode = stats.mode & 0o7777;
+        }, () => {
+            // does not exist (yet)
+        });
+    }).then(() => {
+        return open(tempFile, 'w', mode);
+    }).then((tempFd) => {
+        fd = tempFd;
+
+        if (TB.isNullOrUndefined(opts.mode) && !TB.isNullOrUndefined(mode)) {
+            // the mode of 'open()' is masked by the umask
+            return TB.promisify<any>(fs.fchmod)(fd, mode);
+        }
+    }).then(() => {
+        return writeAll(0);
+    }).then(() => {
+        if (fsync) {
+            return sync(fd);
+        }
+    }).then(() => {
+        let closeTempFile = close(fd);
+        fd = undefined;
+
+        return closeTempFile;
+    }).then(() => {
+        return TB.promisify<any>(fs.rename)(tempFile, file);
+    }).then(() => {
+        if (!fsync) {
+            return;
+        }
+
+        // flush the rename, too
+        return open(dir, 'r').then((dirFd) => {
+            return sync(dirFd).catch(() => {
+                // not supported on all platforms
+            }).then(() => close(dirFd));
+        }).catch(() => {
+            // not supported on all platforms
+        });
+    }).catch((err) => {
+        let cleanup = Promise.resolve();
+        if (!TB.isNullOrUndefined(fd)) {
+            cleanup = close(fd).catch(() => { });
+        }
+
+        return cleanup.then(() => {
+            return TB.promisify<any>(fs.unlink)(tempFile).catch(() => { });
+        }).then(() => {
+            throw err;
+        });
+    });
+}
+
+/**
+ * Writes an object to a JSON file atomically.
+ * 
+ * @param {string} file The path of the file.
+ * @param {any} obj The object.
+ * @param {WriteJSONOptions} [opts] The options.
+ * 
+ * @returns {Promise<any>} The promise.
+ */
+export function writeJSON(file: string, obj: any, opts?: WriteJSONOptions): Promise<any> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let json: string;
+    try {
+        json = JSON.stringify(obj, null, <any>opts.spaces);
+    }
+    catch (e) {
+        return Promise.reject(e);
+    }
+
+    return writeFileAtomic(file, json, opts);
+}
@@ -0,0 +1,282 @@
+import * as Events from 'events';
+import * as fs from 'fs';
+import * as Minimatch from 'minimatch';
+import * as Stream from 'stream';
+/**
+ * Policy for symbolic links.
+ *
+ * 'follow' => use the target and walk through linked directories
+ * 'ignore' => skip links
+ * 'include' => return links as entries of type 'symlink', without following them
+ */
+export declare type SymlinkPolicy = 'follow' | 'ignore' | 'include';
+/**
+ * An entry of a directory walk.
+ */
+export interface WalkEntry {
+    /**
+     * The depth, starting at 1 for the entries of the root directory.
+     */
+    depth: number;
+    /**
+     * The full path.
+     */
+    path: string;
+    /**
+     * The path relative to the root directory, with '/' as separator.
+     */
+    relativePath: string;
+    /**
+     * The file system information.
+     */
+    stats: fs.Stats;
+    /**
+     * The type.
+     */
+    type: WalkEntryType;
+}
+/**
+ * Possible types of a 'WalkEntry'.
+ */
+export declare type WalkEntryType = 'directory' | 'file' | 'other' | 'symlink';
+/**
+ * Options for 'walk()'.
+ */
+export interface WalkOptions {
+    /**
+     * The maximum depth. Default: unlimited
+     */
+    depth?: number;
+    /**
+     * One or more patterns of entries to skip.
+     * The entries of skipped directories are not walked through.
+     */
+    exclude?: string | string[];
+    /**
+     * One or more patterns of entries to return. Default: all
+     */
+    include?: string | string[];
+    /**
+     * The options for matching the patterns (s. 'match()').
+     */
+    matchOptions?: Minimatch.IOptions;
+    /**
+     * Return files only or not. Default: (false)
+     */
+    onlyFiles?: boolean;
+    /**
+     * The policy for symbolic links. Default: 'include'
+     */
+    symlinks?: SymlinkPolicy;
+}
+/**
+ * Possible types of a watch event.
+ */
+export declare type WatchEventType = 'add' | 'change' | 'unlink';
+/**
+ * Options for 'watch()'.
+ */
+export interface WatchOptions extends WalkOptions {
+    /**
+     * The time to wait for further changes, before events are emitted, in milliseconds. Default: 100
+     */
+    delay?: number;
+}
+/**
+ * A directory walker.
+ *
+ * Emits a 'data' event with a 'WalkEntry' for each file system entry.
+ */
+export declare class DirectoryWalker extends Stream.Readable {
+    /**
+     * Stores if a directory is currently read or not.
+     */
+    protected _isReading: boolean;
+    /**
+     * Stores the options.
+     */
+    protected _options: WalkOptions;
+    /**
+     * Stores the directories, which have not been read yet.
+     */
+    protected _pending: WalkDirectory[];
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} dir The root directory.
+     * @param {WalkOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: WalkOptions);
+    /** @inheritdoc */
+    _read(): void;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Gets the full path of the root directory.
+     */
+    readonly root: string;
+}
+/**
+ * Watches a directory for changes.
+ *
+ * Emits 'add', 'change' and 'unlink' with the 'WalkEntry' as argument.
+ */
+export declare class FileWatcher extends Events.EventEmitter {
+    /**
+     * Stores the watched directories by path.
+     */
+    protected _directories: {
+        [path: string]: WalkDirectory;
+    };
+    /**
+     * Stores the paths of the directories, which have to be checked.
+     */
+    protected _dirtyDirectories: string[];
+    /**
+     * Stores the known entries by path.
+     */
+    protected _entries: {
+        [path: string]: WalkEntry;
+    };
+    /**
+     * Stores the queue of checks.
+     */
+    protected _flushQueue: Promise<any>;
+    /**
+     * Stores if the watcher has been closed or not.
+     */
+    protected _isClosed: boolean;
+    /**
+     * Stores the options.
+     */
+    protected _options: WatchOptions;
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+    /**
+     * Stores the timer for the delayed check.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Stores the watchers of the directories by path.
+     */
+    protected _watchers: {
+        [path: string]: fs.FSWatcher;
+    };
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} dir The root directory.
+     * @param {WatchOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: WatchOptions);
+    /**
+     * Adds entries and watches the new directories.
+     *
+     * @param {WalkDirectory[]} dirs The directories to walk through.
+     * @param {WalkEntry[]} [added] The list of added entries, which should be filled.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected addDirectories(dirs: WalkDirectory[], added?: WalkEntry[]): Promise<any>;
+    /**
+     * Checks the dirty directories and emits the events.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected check(): Promise<any>;
+    /**
+     * Marks a directory as dirty and starts the timer for checking it.
+     *
+     * @param {string} path The path of the directory.
+     */
+    protected checkLater(path: string): void;
+    /**
+     * Stops watching.
+     */
+    close(): void;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Returns the current list of (matching) entries.
+     *
+     * @returns {WalkEntry[]} The entries.
+     */
+    entries(): WalkEntry[];
+    /**
+     * Removes an entry and all its sub entries.
+     *
+     * @param {WalkEntry} entry The entry.
+     * @param {WalkEntry[]} removed The list of removed entries, which should be filled.
+     */
+    protected removeEntry(entry: WalkEntry, removed: WalkEntry[]): void;
+    /**
+     * Gets the full path of the root directory.
+     */
+    readonly root: string;
+    /**
+     * Scans the root directory and starts watching.
+     *
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    start(): Promise<this>;
+    /**
+     * Stops watching a directory.
+     *
+     * @param {string} path The path of the directory.
+     */
+    protected unwatchDirectory(path: string): void;
+    /**
+     * Gets the options for walking through directories.
+     * All entries are needed, so the filters for the results are removed.
+     */
+    protected readonly walkOptions: WalkOptions;
+    /**
+     * Starts watching a directory.
+     *
+     * @param {WalkDirectory} dir The directory.
+     */
+    protected watchDirectory(dir: WalkDirectory): void;
+}
+interface WalkDirectory {
+    ancestors: string[];
+    depth: number;
+    path: string;
+}
+/**
+ * Walks through a directory.
+ * The entries are read on demand, so the returned stream can be consumed with 'for await', too.
+ *
+ * @param {string} dir The root directory.
+ * @param {WalkOptions} [opts] The options.
+ *
+ * @returns {DirectoryWalker} The walker.
+ */
+export declare function walk(dir: string, opts?: WalkOptions): DirectoryWalker;
+/**
+ * Watches a directory for changes.
+ *
+ * @param {string} dir The root directory.
+ * @param {WatchOptions} [opts] The options.
+ *
+ * @returns {Promise<FileWatcher>} The promise with the running watcher.
+ */
+export declare function watch(dir: string, opts?: WatchOptions): Promise<FileWatcher>;
+export {};
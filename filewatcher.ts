@@ -0,0 +1,790 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as fs from 'fs';
+import * as Minimatch from 'minimatch';
+import * as Path from 'path';
+import * as Stream from 'stream';
+import * as TB from './index';
+
+
+/**
+ * Policy for symbolic links.
+ * 
+ * 'follow' => use the target and walk through linked directories
+ * 'ignore' => skip links
+ * 'include' => return links as entries of type 'symlink', without following them
+ */
+export type SymlinkPolicy = 'follow' | 'ignore' | 'include';
+
+/**
+ * An entry of a directory walk.
+ */
+export interface WalkEntry {
+    /**
+     * The depth, starting at 1 for the entries of the root directory.
+     */
+    depth: number;
+    /**
+     * The full path.
+     */
+    path: string;
+    /**
+     * The path relative to the root directory, with '/' as separator.
+     */
+    relativePath: string;
+    /**
+     * The file system information.
+     */
+    stats: fs.Stats;
+    /**
+     * The type.
+     */
+    type: WalkEntryType;
+}
+
+/**
+ * Possible types of a 'WalkEntry'.
+ */
+export type WalkEntryType = 'directory' | 'file' | 'other' | 'symlink';
+
+/**
+ * Options for 'walk()'.
+ */
+export interface WalkOptions {
+    /**
+     * The maximum depth. Default: unlimited
+     */
+    depth?: number;
+    /**
+     * One or more patterns of entries to skip.
+     * The entries of skipped directories are not walked through.
+     */
+    exclude?: string | string[];
+    /**
+     * One or more patterns of entries to return. Default: all
+     */
+    include?: string | string[];
+    /**
+     * The options for matching the patterns (s. 'match()').
+     */
+    matchOptions?: Minimatch.IOptions;
+    /**
+     * Return files only or not. Default: (false)
+     */
+    onlyFiles?: boolean;
+    /**
+     * The policy for symbolic links. Default: 'include'
+     */
+    symlinks?: SymlinkPolicy;
+}
+
+/**
+ * Possible types of a watch event.
+ */
+export type WatchEventType = 'add' | 'change' | 'unlink';
+
+/**
+ * Options for 'watch()'.
+ */
+export interface WatchOptions extends WalkOptions {
+    /**
+     * The time to wait for further changes, before events are emitted, in milliseconds. Default: 100
+     */
+    delay?: number;
+}
+
+
+/**
+ * A directory walker.
+ * 
+ * Emits a 'data' event with a 'WalkEntry' for each file system entry.
+ */
+export class DirectoryWalker extends Stream.Readable {
+    /**
+     * Stores if a directory is currently read or not.
+     */
+    protected _isReading = false;
+    /**
+     * Stores the options.
+     */
+    protected _options: WalkOptions;
+    /**
+     * Stores the directories, which have not been read yet.
+     */
+    protected _pending: WalkDirectory[];
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} dir The root directory.
+     * @param {WalkOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: WalkOptions) {
+        super({
+            objectMode: true,
+        });
+
+        this._options = opts || {};
+        this._root = Path.resolve(TB.toStringSafe(dir));
+        this._pending = [ createRootDirectory(this._root) ];
+    }
+
+    /** @inheritdoc */
+    public _read() {
+        let me = this;
+
+        if (me._isReading) {
+            return;
+        }
+        me._isReading = true;
+
+        let readNext = () => {
+            let dir = me._pending.shift();
+            if (!dir) {
+                me._isReading = false;
+                me.push(null);
+
+                return;
+            }
+
+            readDirectory(dir, me._root, me._options).then((result) => {
+                // the entries of a directory are returned, before its sub directories are read
+                me._pending = result.directories.concat(me._pending);
+
+                let wantsMore = true;
+                result.entries.filter(e => isIncluded(e, me._options)).forEach(e => {
+                    wantsMore = me.push(e);
+                });
+
+                if (wantsMore) {
+                    readNext();
+                }
+                else {
+                    me._isReading = false;
+                }
+            }, (err) => {
+                me._isReading = false;
+                me.emitError(err, '_read');
+            });
+        };
+
+        readNext();
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] DirectoryWalker.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Gets the full path of the root directory.
+     */
+    public get root(): string {
+        return this._root;
+    }
+}
+
+/**
+ * Watches a directory for changes.
+ * 
+ * Emits 'add', 'change' and 'unlink' with the 'WalkEntry' as argument.
+ */
+export class FileWatcher extends Events.EventEmitter {
+    /**
+     * Stores the watched directories by path.
+     */
+    protected _directories: { [path: string]: WalkDirectory } = {};
+    /**
+     * Stores the paths of the directories, which have to be checked.
+     */
+    protected _dirtyDirectories: string[] = [];
+    /**
+     * Stores the known entries by path.
+     */
+    protected _entries: { [path: string]: WalkEntry } = {};
+    /**
+     * Stores the queue of checks.
+     */
+    protected _flushQueue: Promise<any> = Promise.resolve();
+    /**
+     * Stores if the watcher has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores the options.
+     */
+    protected _options: WatchOptions;
+    /**
+     * Stores the full path of the root directory.
+     */
+    protected _root: string;
+    /**
+     * Stores the timer for the delayed check.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Stores the watchers of the directories by path.
+     */
+    protected _watchers: { [path: string]: fs.FSWatcher } = {};
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} dir The root directory.
+     * @param {WatchOptions} [opts] The options.
+     */
+    constructor(dir: string, opts?: WatchOptions) {
+        super();
+
+        this._options = opts || {};
+        this._root = Path.resolve(TB.toStringSafe(dir));
+    }
+
+    /**
+     * Adds entries and watches the new directories.
+     * 
+     * @param {WalkDirectory[]} dirs The directories to walk through.
+     * @param {WalkEntry[]} [added] The list of added entries, which should be filled.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected addDirectories(dirs: WalkDirectory[], added?: WalkEntry[]): Promise<any> {
+        let me = this;
+
+        return scanDirectories(dirs, me._root, me.walkOptions).then((result) => {
+            result.directories.forEach(d => me.watchDirectory(d));
+
+            result.entries.forEach(e => {
+                me._entries[e.path] = e;
+
+                if (added) {
+                    added.push(e);
+                }
+            });
+        });
+    }
+
+    /**
+     * Checks the dirty directories and emits the events.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected check(): Promise<any> {
+        let me = this;
+
+        let dirs = me._dirtyDirectories.splice(0);
+
+        let added: WalkEntry[] = [];
+        let changed: WalkEntry[] = [];
+        let removed: WalkEntry[] = [];
+
+        return TB.eachSeries(dirs, (path) => {
+            let dir = me._directories[path];
+            if (!dir) {
+                return;  // has been removed in the meantime
+            }
+
+            return readDirectory(dir, me._root, me.walkOptions).then((result) => {
+                let currentPaths = result.entries.map(e => e.path);
+
+                // removed
+                Object.keys(me._entries).forEach(p => {
+                    let entry = me._entries[p];
+
+                    if (Path.dirname(p) === path && currentPaths.indexOf(p) < 0) {
+                        me.removeEntry(entry, removed);
+                    }
+                });
+
+                let newDirs: WalkDirectory[] = [];
+                result.entries.forEach(e => {
+                    let oldEntry = me._entries[e.path];
+
+                    if (oldEntry && oldEntry.type !== e.type) {
+                        // replaced by an entry of another type
+                        me.removeEntry(oldEntry, removed);
+                        oldEntry = null;
+                    }
+
+                    me._entries[e.path] = e;
+
+                    if (!oldEntry) {
+                        added.push(e);
+
+                        let newDir = result.directories.filter(d => d.path === e.path)[0];
+                        if (newDir) {
+                            newDirs.push(newDir);
+                        }
+                    }
+                    else if ('directory' !== e.type) {
+                        if (oldEntry.stats.size !== e.stats.size ||
+                            oldEntry.stats.mtime.getTime() !== e.stats.mtime.getTime()) {
+                            changed.push(e);
+                        }
+                    }
+                });
+
+                return me.addDirectories(newDirs, added);
+            }, (err) => {
+                if ('ENOENT' !== err.code && 'ENOTDIR' !== err.code) {
+                    throw err;
+                }
+
+                // the directory has been removed,
+                // what is handled by the watcher of the parent
+                let parent = Path.dirname(path);
+                if (me._directories[parent]) {
+                    return me.checkLater(parent);
+                }
+            });
+        }).then(() => {
+            if (me._isClosed) {
+                return;
+            }
+
+            let emit = (type: WatchEventType, entries: WalkEntry[]) => {
+                entries.filter(e => isIncluded(e, me._options)).forEach(e => {
+                    me.emit(type, e);
+                });
+            };
+
+            emit('unlink', removed);
+            emit('add', added);
+            emit('change', changed);
+        }).catch((err) => {
+            me.emitError(err, 'check');
+        });
+    }
+
+    /**
+     * Marks a directory as dirty and starts the timer for checking it.
+     * 
+     * @param {string} path The path of the directory.
+     */
+    protected checkLater(path: string) {
+        let me = this;
+
+        if (me._isClosed) {
+            return;
+        }
+
+        if (me._dirtyDirectories.indexOf(path) < 0) {
+            me._dirtyDirectories.push(path);
+        }
+
+        let delay = parseInt(TB.toStringSafe(me._options.delay).trim());
+        if (isNaN(delay)) {
+            delay = 100;
+        }
+
+        clearTimeout(me._timer);
+        me._timer = setTimeout(() => {
+            // a failed check must not break the queue
+            me._flushQueue = me._flushQueue.catch(() => { }).then(() => me.check());
+        }, delay);
+    }
+
+    /**
+     * Stops watching.
+     */
+    public close() {
+        let me = this;
+
+        me._isClosed = true;
+        clearTimeout(me._timer);
+
+        Object.keys(me._watchers).forEach(p => {
+            me.unwatchDirectory(p);
+        });
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] FileWatcher.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Returns the current list of (matching) entries.
+     * 
+     * @returns {WalkEntry[]} The entries.
+     */
+    public entries(): WalkEntry[] {
+        let me = this;
+
+        return Object.keys(me._entries).sort().map(p => me._entries[p])
+                                              .filter(e => isIncluded(e, me._options));
+    }
+
+    /**
+     * Removes an entry and all its sub entries.
+     * 
+     * @param {WalkEntry} entry The entry.
+     * @param {WalkEntry[]} removed The list of removed entries, which should be filled.
+     */
+    protected removeEntry(entry: WalkEntry, removed: WalkEntry[]) {
+        let me = this;
+
+        if ('directory' === entry.type) {
+            let prefix = entry.path + Path.sep;
+
+            Object.keys(me._entries).filter(p => 0 === p.indexOf(prefix)).sort().reverse().forEach(p => {
+                removed.push(me._entries[p]);
+                delete me._entries[p];
+            });
+
+            Object.keys(me._directories).filter(p => p === entry.path || 0 === p.indexOf(prefix)).forEach(p => {
+                me.unwatchDirectory(p);
+            });
+        }
+
+        removed.push(entry);
+        delete me._entries[entry.path];
+    }
+
+    /**
+     * Gets the full path of the root directory.
+     */
+    public get root(): string {
+        return this._root;
+    }
+
+    /**
+     * Scans the root directory and starts watching.
+     * 
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    public start(): Promise<this> {
+        let me = this;
+
+        return new Promise<this>((resolve, reject) => {
+            try {
+                let root = createRootDirectory(me._root);
+                me.watchDirectory(root);
+
+                me.addDirectories([ root ]).then(() => {
+                    resolve(me);
+                }, (err) => {
+                    me.close();
+                    reject(err);
+                });
+            }
+            catch (e) {
+                me.close();
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Stops watching a directory.
+     * 
+     * @param {string} path The path of the directory.
+     */
+    protected unwatchDirectory(path: string) {
+        let watcher = this._watchers[path];
+        if (watcher) {
+            try {
+                watcher.close();
+            }
+            catch (e) {
+                console.log('[ERROR.ts-toolbox] FileWatcher.unwatchDirectory(): ' + e);
+            }
+        }
+
+        delete this._directories[path];
+        delete this._watchers[path];
+    }
+
+    /**
+     * Gets the options for walking through directories.
+     * All entries are needed, so the filters for the results are removed.
+     */
+    protected get walkOptions(): WalkOptions {
+        let opts: WalkOptions = {};
+        for (let p in this._options) {
+            (<any>opts)[p] = (<any>this._options)[p];
+        }
+
+        delete opts.include;
+        delete opts.onlyFiles;
+
+        return opts;
+    }
+
+    /**
+     * Starts watching a directory.
+     * 
+     * @param {WalkDirectory} dir The directory.
+     */
+    protected watchDirectory(dir: WalkDirectory) {
+        let me = this;
+
+        if (me._isClosed || me._watchers[dir.path]) {
+            return;
+        }
+
+        let watcher = fs.watch(dir.path, () => {
+            me.checkLater(dir.path);
+        });
+        watcher.on('error', () => {
+            // the directory has been removed
+            me.checkLater(dir.path);
+        });
+
+        me._directories[dir.path] = dir;
+        me._watchers[dir.path] = watcher;
+    }
+}
+
+
+interface WalkDirectory {
+    ancestors: string[];
+    depth: number;
+    path: string;
+}
+
+interface WalkDirectoryResult {
+    directories: WalkDirectory[];
+    entries: WalkEntry[];
+}
+
+
+function createRootDirectory(root: string): WalkDirectory {
+    let realPath = root;
+    try {
+        realPath = fs.realpathSync(root);
+    }
+    catch (e) {
+        // does not exist (yet)
+    }
+
+    return {
+        ancestors: [ realPath ],
+        depth: 0,
+        path: root,
+    };
+}
+
+function getMaxDepth(opts: WalkOptions): number {
+    let depth = parseInt(TB.toStringSafe(opts.depth).trim());
+    if (isNaN(depth) || depth < 0) {
+        depth = Number.MAX_SAFE_INTEGER;
+    }
+
+    return depth;
+}
+
+function isIncluded(entry: WalkEntry, opts: WalkOptions): boolean {
+    if (TB.toBooleanSafe(opts.onlyFiles) && 'file' !== entry.type) {
+        return false;
+    }
+
+    let include = TB.asArray(opts.include).filter(x => !TB.isEmptyString(x));
+    if (include.length < 1) {
+        return true;
+    }
+
+    return TB.match(entry.relativePath, include, opts.matchOptions).length > 0;
+}
+
+function readDirectory(dir: WalkDirectory, root: string, opts: WalkOptions): Promise<WalkDirectoryResult> {
+    let lstat = TB.promisify<fs.Stats>(fs.lstat);
+    let realpath = TB.promisify<string>(fs.realpath);
+    let stat = TB.promisify<fs.Stats>(fs.stat);
+
+    let symlinks = TB.normalizeString(opts.symlinks);
+    let maxDepth = getMaxDepth(opts);
+    let exclude = TB.asArray(opts.exclude).filter(x => !TB.isEmptyString(x));
+
+    let result: WalkDirectoryResult = {
+        directories: [],
+        entries: [],
+    };
+
+    if (dir.depth >= maxDepth) {
+        return Promise.resolve(result);
+    }
+
+    return TB.promisify<string[]>(fs.readdir)(dir.path).then((names) => {
+        return TB.eachSeries(names.sort(), (name) => {
+            let path = Path.join(dir.path, name);
+            let relativePath = Path.relative(root, path).split(Path.sep).join('/');
+
+            if (exclude.length > 0 && TB.match(relativePath, exclude, opts.matchOptions).length > 0) {
+                return;
+            }
+
+            let entry: WalkEntry = {
+                depth: dir.depth + 1,
+                path: path,
+                relativePath: relativePath,
+                stats: undefined,
+                type: undefined,
+            };
+
+            return lstat(path).then((stats) => {
+                entry.stats = stats;
+
+                if (!stats.isSymbolicLink()) {
+                    return;
+                }
+
+                switch (symlinks) {
+                    case 'follow':
+                        return stat(path).then((targetStats) => {
+                            entry.stats = targetStats;
+                        }, () => {
+                            // broken link
+                        });
+
+                    case 'ignore':
+                        entry = null;
+                        break;
+                }
+            }).then(() => {
+                if (!entry) {
+                    return;
+                }
+
+                let stats = entry.stats;
+                if (stats.isSymbolicLink()) {
+                    entry.type = 'symlink';
+                }
+                else if (stats.isDirectory()) {
+                    entry.type = 'directory';
+                }
+                else if (stats.isFile()) {
+                    entry.type = 'file';
+                }
+                else {
+                    entry.type = 'other';
+                }
+
+                result.entries.push(entry);
+
+                if ('directory' !== entry.type || entry.depth >= maxDepth) {
+                    return;
+                }
+
+                return realpath(path).then((realPath) => {
+                    if (dir.ancestors.indexOf(realPath) > -1) {
+                        return;  // loop of symbolic links
+                    }
+
+                    result.directories.push({
+                        ancestors: dir.ancestors.concat([ realPath ]),
+                        depth: entry.depth,
+                        path: path,
+                    });
+                });
+            }, (err) => {
+                if ('ENOENT' !== err.code) {
+                    throw err;
+                }
+
+                // removed in the meantime
+            });
+        });
+    }).then(() => {
+        return result;
+    });
+}
+
+function scanDirectories(dirs: WalkDirectory[], root: string, opts: WalkOptions): Promise<WalkDirectoryResult> {
+    let result: WalkDirectoryResult = {
+        directories: [],
+        entries: [],
+    };
+
+    let scanNext = (pending: WalkDirectory[]): Promise<WalkDirectoryResult> => {
+        let dir = pending.shift();
+        if (!dir) {
+            return Promise.resolve(result);
+        }
+
+        result.directories.push(dir);
+
+        return readDirectory(dir, root, opts).then((dirResult) => {
+            result.entries = result.entries.concat(dirResult.entries);
+
+            return scanNext(dirResult.directories.concat(pending));
+        });
+    };
+
+    return scanNext(dirs.slice());
+}
+
+
+/**
+ * Walks through a directory.
+ * The entries are read on demand, so the returned stream can be consumed with 'for await', too.
+ * 
+ * @param {string} dir The root directory.
+ * @param {WalkOptions} [opts] The options.
+ * 
+ * @returns {DirectoryWalker} The walker.
+ */
+export function walk(dir: string, opts?: WalkOptions): DirectoryWalker {
+    return new DirectoryWalker(dir, opts);
+}
+
+/**
+ * Watches a directory for changes.
+ * 
+ * @param {string} dir The root directory.
+ * @param {WatchOptions} [opts] The options.
+ * 
+ * @returns {Promise<FileWatcher>} The promise with the running watcher.
+ */
+export function watch(dir: string, opts?: WatchOptions): Promise<FileWatcher> {
+    return new FileWatcher(dir, opts).start();
+}
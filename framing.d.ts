@@ -0,0 +1,106 @@
+import * as Events from 'events';
+import * as net from 'net';
+/**
+ * List of possible framing modes.
+ *
+ * 'length': Each message is prefixed by its length as unsigned 32-bit big endian integer.
+ * 'ndjson': Each message is a JSON value in a separate line.
+ */
+export declare type FramingMode = 'length' | 'ndjson';
+/**
+ * Options for a framed socket.
+ */
+export interface FramedSocketOptions {
+    /**
+     * The maximum size of a message, in bytes. Default: 16 MB
+     */
+    maxMessageSize?: number;
+    /**
+     * The framing mode. Default: length
+     */
+    mode?: FramingMode;
+}
+/**
+ * A socket, which sends and receives framed messages.
+ *
+ * Emits 'message' for each received message (a Buffer in 'length' mode,
+ * the parsed JSON value in 'ndjson' mode), 'error' and 'close'.
+ */
+export declare class FramedSocket extends Events.EventEmitter {
+    /**
+     * Stores the data, which has not been handled yet.
+     */
+    protected _buffer: Buffer;
+    /**
+     * Stores the maximum size of a message.
+     */
+    protected _maxMessageSize: number;
+    /**
+     * Stores the framing mode.
+     */
+    protected _mode: FramingMode;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: net.Socket;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {net.Socket} socket The underlying socket.
+     * @param {FramedSocketOptions} [opts] The options.
+     */
+    constructor(socket: net.Socket, opts?: FramedSocketOptions);
+    /**
+     * Closes the connection.
+     */
+    close(): void;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Gets the framing mode.
+     */
+    readonly mode: FramingMode;
+    /**
+     * Handles received data.
+     *
+     * @param {Buffer} chunk The received chunk.
+     */
+    protected onData(chunk: Buffer): void;
+    /**
+     * Sends a message.
+     *
+     * @param {any} msg The message.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    send(msg: any): Promise<any>;
+    /**
+     * Gets the underlying socket.
+     */
+    readonly socket: net.Socket;
+}
+/**
+ * Creates a new framed socket by connecting to a TCP server.
+ *
+ * @param {number} port The TCP port.
+ * @param {string} [host] The host address. Default: localhost
+ * @param {FramedSocketOptions} [opts] The options.
+ *
+ * @returns {Promise<FramedSocket>} The promise with the new socket.
+ */
+export declare function connectFramed(port: number, host?: string, opts?: FramedSocketOptions): Promise<FramedSocket>;
+/**
+ * Encodes a message as frame.
+ *
+ * @param {any} msg The message. In 'length' mode, non-Buffer values are sent as UTF-8 string or JSON.
+ * @param {FramingMode} [mode] The mode. Default: length
+ *
+ * @returns {Buffer} The frame.
+ */
+export declare function encodeFrame(msg: any, mode?: FramingMode): Buffer;
@@ -0,0 +1,315 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as net from 'net';
+import * as TB from './index';
+
+
+/**
+ * List of possible framing modes.
+ * 
+ * 'length': Each message is prefixed by its length as unsigned 32-bit big endian integer.
+ * 'ndjson': Each message is a JSON value in a separate line.
+ */
+export type FramingMode = 'length' | 'ndjson';
+
+/**
+ * Options for a framed socket.
+ */
+export interface FramedSocketOptions {
+    /**
+     * The maximum size of a message, in bytes. Default: 16 MB
+     */
+    maxMessageSize?: number;
+    /**
+     * The framing mode. Default: length
+     */
+    mode?: FramingMode;
+}
+
+
+const DEFAULT_MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+const LENGTH_PREFIX_SIZE = 4;
+
+
+/**
+ * A socket, which sends and receives framed messages.
+ * 
+ * Emits 'message' for each received message (a Buffer in 'length' mode,
+ * the parsed JSON value in 'ndjson' mode), 'error' and 'close'.
+ */
+export class FramedSocket extends Events.EventEmitter {
+    /**
+     * Stores the data, which has not been handled yet.
+     */
+    protected _buffer = Buffer.alloc(0);
+    /**
+     * Stores the maximum size of a message.
+     */
+    protected _maxMessageSize: number;
+    /**
+     * Stores the framing mode.
+     */
+    protected _mode: FramingMode;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: net.Socket;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {net.Socket} socket The underlying socket.
+     * @param {FramedSocketOptions} [opts] The options.
+     */
+    constructor(socket: net.Socket, opts?: FramedSocketOptions) {
+        super();
+
+        if (!opts) {
+            opts = {};
+        }
+
+        this._socket = socket;
+        this._mode = normalizeMode(opts.mode);
+
+        this._maxMessageSize = parseInt(TB.toStringSafe(opts.maxMessageSize).trim());
+        if (isNaN(this._maxMessageSize)) {
+            this._maxMessageSize = DEFAULT_MAX_MESSAGE_SIZE;
+        }
+
+        socket.on('data', (chunk: Buffer) => {
+            this.onData(chunk);
+        });
+        socket.once('error', (err: any) => {
+            this.emitError(err, 'constructor');
+        });
+        socket.once('close', () => {
+            this.emit('close');
+        });
+    }
+
+    /**
+     * Closes the connection.
+     */
+    public close() {
+        this._socket.end();
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] FramedSocket.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Gets the framing mode.
+     */
+    public get mode(): FramingMode {
+        return this._mode;
+    }
+
+    /**
+     * Handles received data.
+     * 
+     * @param {Buffer} chunk The received chunk.
+     */
+    protected onData(chunk: Buffer) {
+        this._buffer = Buffer.concat([ this._buffer, chunk ]);
+
+        try {
+            if ('ndjson' === this._mode) {
+                let idx: number;
+                while ((idx = this._buffer.indexOf(10)) > -1) {
+                    let line = this._buffer.toString('utf8', 0, idx).trim();
+                    this._buffer = this._buffer.slice(idx + 1);
+
+                    if ('' !== line) {
+                        this.emit('message', TB.fromJSON(line));
+                    }
+                }
+
+                if (this._buffer.length > this._maxMessageSize) {
+                    throw new Error('Message is too big!');
+                }
+            }
+            else {
+                while (this._buffer.length >= LENGTH_PREFIX_SIZE) {
+                    let length = this._buffer.readUInt32BE(0);
+                    if (length > this._maxMessageSize) {
+                        throw new Error(`Message is too big (${length} bytes)!`);
+                    }
+
+                    if (this._buffer.length < (LENGTH_PREFIX_SIZE + length)) {
+                        break;  // wait for more data
+                    }
+
+                    let msg = this._buffer.slice(LENGTH_PREFIX_SIZE, LENGTH_PREFIX_SIZE + length);
+                    this._buffer = this._buffer.slice(LENGTH_PREFIX_SIZE + length);
+
+                    this.emit('message', msg);
+                }
+            }
+        }
+        catch (e) {
+            // the stream is corrupted
+            this._buffer = Buffer.alloc(0);
+
+            this._socket.destroy();
+            this.emitError(e, 'onData');
+        }
+    }
+
+    /**
+     * Sends a message.
+     * 
+     * @param {any} msg The message.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public send(msg: any): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            try {
+                me._socket.write(encodeFrame(msg, me._mode), (err: any) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Gets the underlying socket.
+     */
+    public get socket(): net.Socket {
+        return this._socket;
+    }
+}
+
+
+function normalizeMode(mode: string): FramingMode {
+    switch (TB.normalizeString(mode)) {
+        case '':
+        case 'length':
+            return 'length';
+
+        case 'ndjson':
+            return 'ndjson';
+    }
+
+    throw new Error(`Framing mode '${mode}' is NOT supported!`);
+}
+
+
+/**
+ * Creates a new framed socket by connecting to a TCP server.
+ * 
+ * @param {number} port The TCP port.
+ * @param {string} [host] The host address. Default: localhost
+ * @param {FramedSocketOptions} [opts] The options.
+ * 
+ * @returns {Promise<FramedSocket>} The promise with the new socket.
+ */
+export function connectFramed(port: number, host?: string, opts?: FramedSocketOptions): Promise<FramedSocket> {
+    host = TB.toStringSafe(host).trim();
+    if ('' === host) {
+        host = 'localhost';
+    }
+
+    return new Promise<FramedSocket>((resolve, reject) => {
+        try {
+            let socket = net.connect(port, host);
+
+            socket.once('error', (err: any) => {
+                reject(err);
+            });
+
+            socket.once('connect', () => {
+                try {
+                    resolve(new FramedSocket(socket, opts));
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Encodes a message as frame.
+ * 
+ * @param {any} msg The message. In 'length' mode, non-Buffer values are sent as UTF-8 string or JSON.
+ * @param {FramingMode} [mode] The mode. Default: length
+ * 
+ * @returns {Buffer} The frame.
+ */
+export function encodeFrame(msg: any, mode?: FramingMode): Buffer {
+    mode = normalizeMode(mode);
+
+    if ('ndjson' === mode) {
+        let json = JSON.stringify(TB.isNullOrUndefined(msg) ? null : msg);
+
+        return Buffer.from(json + '\n', 'utf8');
+    }
+
+    let data: Buffer;
+    if (Buffer.isBuffer(msg)) {
+        data = msg;
+    }
+    else if (TB.isObj(msg)) {
+        data = Buffer.from(JSON.stringify(msg), 'utf8');
+    }
+    else {
+        data = Buffer.from(TB.toStringSafe(msg), 'utf8');
+    }
+
+    let frame = Buffer.alloc(LENGTH_PREFIX_SIZE + data.length);
+    frame.writeUInt32BE(data.length, 0);
+    data.copy(frame, LENGTH_PREFIX_SIZE);
+
+    return frame;
+}
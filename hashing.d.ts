@@ -0,0 +1,61 @@
+/**
+ * Options for 'digest()'.
+ */
+export interface DigestOptions {
+    /**
+     * The string encoding of the input data. Default: ascii
+     */
+    encoding?: string;
+    /**
+     * The key, if HMACs should be computed.
+     */
+    key?: string | Buffer;
+    /**
+     * The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+     */
+    output?: string;
+}
+/**
+ * Compares the contents of two files.
+ * The sizes are compared first and the contents are read chunk by chunk,
+ * until the first difference is found.
+ *
+ * @param {string} x The path of the "left" file.
+ * @param {string} y The path of the "right" file.
+ * @param {number} [chunkSize] The size of a chunk, in bytes. Default: 65536
+ *
+ * @returns {Promise<boolean>} The promise that indicates if both files are equal or not.
+ */
+export declare function areFilesEqual(x: string, y: string, chunkSize?: number): Promise<boolean>;
+/**
+ * Computes one or more hashes / HMACs of data in one pass.
+ *
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|string[]} algos One or more algorithm. If an array is submitted, the result is an object with the digests by algorithm.
+ * @param {DigestOptions} [opts] The options.
+ *
+ * @returns {Promise<any>} The promise with the digest(s), as Buffer or as string, if an output encoding is defined.
+ */
+export declare function digest(data: any, algos: string | string[], opts?: DigestOptions): Promise<any>;
+/**
+ * Computes one or more hashes of a file in one pass.
+ *
+ * @param {string} file The path of the file.
+ * @param {string|string[]} [algos] One or more algorithm. Default: sha256
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+ *
+ * @returns {Promise<any>} The promise with the digest(s).
+ */
+export declare function hashFile(file: string, algos?: string | string[], output?: string): Promise<any>;
+/**
+ * Computes the HMAC of data.
+ *
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|Buffer} key The key.
+ * @param {string} [algo] The algorithm. Default: sha256
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+ * @param {string} [encoding] The string encoding of the input data. Default: ascii
+ *
+ * @returns {Promise<any>} The promise with the HMAC.
+ */
+export declare function hmac(data: any, key: string | Buffer, algo?: string, output?: string, encoding?: string): Promise<any>;
@@ -0,0 +1,300 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as TB from './index';
+
+
+/**
+ * Options for 'digest()'.
+ */
+export interface DigestOptions {
+    /**
+     * The string encoding of the input data. Default: ascii
+     */
+    encoding?: string;
+    /**
+     * The key, if HMACs should be computed.
+     */
+    key?: string | Buffer;
+    /**
+     * The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+     */
+    output?: string;
+}
+
+
+function readChunk(fd: number, buffer: Buffer): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        fs.read(fd, buffer, 0, buffer.length, null, (err, bytesRead) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(bytesRead);
+            }
+        });
+    });
+}
+
+
+/**
+ * Compares the contents of two files.
+ * The sizes are compared first and the contents are read chunk by chunk,
+ * until the first difference is found.
+ * 
+ * @param {string} x The path of the "left" file.
+ * @param {string} y The path of the "right" file.
+ * @param {number} [chunkSize] The size of a chunk, in bytes. Default: 65536
+ * 
+ * @returns {Promise<boolean>} The promise that indicates if both files are equal or not.
+ */
+export function areFilesEqual(x: string, y: string, chunkSize = 65536): Promise<boolean> {
+    let stat = TB.promisify<fs.Stats>(fs.stat);
+    let open = TB.promisify<number>(fs.open);
+    let close = TB.promisify<any>(fs.close);
+
+    x = TB.toStringSafe(x);
+    y = TB.toStringSafe(y);
+
+    return new Promise<boolean>((resolve, reject) => {
+        Promise.all([ stat(x), stat(y) ]).then((stats) => {
+            if (stats[0].size !== stats[1].size) {
+                resolve(false);
+                return;
+            }
+
+            let fdX: number;
+            let fdY: number;
+
+            let completed = (err: any, isEqual?: boolean) => {
+                let fds = [ fdX, fdY ].filter(fd => !TB.isNullOrUndefined(fd));
+
+                Promise.all(fds.map(fd => close(fd))).then(() => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(isEqual);
+                    }
+                }, (closeErr) => {
+                    reject(err || closeErr);
+                });
+            };
+
+            open(x, 'r').then((fd) => {
+                fdX = fd;
+
+                return open(y, 'r');
+            }).then((fd) => {
+                fdY = fd;
+
+                let bufferX = Buffer.alloc(chunkSize);
+                let bufferY = Buffer.alloc(chunkSize);
+
+                let nextChunk = () => {
+                    Promise.all([ readChunk(fdX, bufferX), readChunk(fdY, bufferY) ]).then((bytesRead) => {
+                        if (bytesRead[0] !== bytesRead[1]) {
+                            completed(null, false);  // has been changed while reading
+                        }
+                        else if (bytesRead[0] < 1) {
+                            completed(null, true);  // EOF
+                        }
+                        else if (!bufferX.slice(0, bytesRead[0]).equals(bufferY.slice(0, bytesRead[1]))) {
+                            completed(null, false);
+                        }
+                        else {
+                            nextChunk();
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                nextChunk();
+            }).then(null, (err) => {
+                completed(err);
+            });
+        }, (err) => {
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Computes one or more hashes / HMACs of data in one pass.
+ * 
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|string[]} algos One or more algorithm. If an array is submitted, the result is an object with the digests by algorithm.
+ * @param {DigestOptions} [opts] The options.
+ * 
+ * @returns {Promise<any>} The promise with the digest(s), as Buffer or as string, if an output encoding is defined.
+ */
+export function digest(data: any, algos: string | string[], opts?: DigestOptions): Promise<any> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let algoList = TB.asArray(algos).map(a => TB.normalizeString(a))
+                                    .filter(a => '' !== a);
+    if (algoList.length < 1) {
+        algoList = [ 'sha256' ];
+    }
+
+    let encoding = TB.normalizeString(opts.encoding);
+    if ('' === encoding) {
+        encoding = 'ascii';
+    }
+
+    let output = TB.normalizeString(opts.output);
+
+    if (!data) {
+        data = Buffer.alloc(0);
+    }
+
+    return new Promise<any>((resolve, reject) => {
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+        try {
+            let hashes = algoList.map(a => {
+                return TB.isNullOrUndefined(opts.key) ? crypto.createHash(a)
+                                                      : crypto.createHmac(a, opts.key);
+            });
+
+            let finish = () => {
+                let digests = hashes.map(h => {
+                    return '' === output ? h.digest() : h.digest(<any>output);
+                });
+
+                if (Array.isArray(algos)) {
+                    let result: { [algo: string]: any } = {};
+                    algoList.forEach((a, i) => {
+                        result[a] = digests[i];
+                    });
+
+                    completed(null, result);
+                }
+                else {
+                    completed(null, digests[0]);
+                }
+            };
+
+            if (Buffer.isBuffer(data)) {
+                hashes.forEach(h => h.update(data));
+                finish();
+            }
+            else if (TB.isObj(data)) {
+                let stream: NodeJS.ReadableStream = data;
+
+                stream.once('error', (err: any) => {
+                    completed(err);
+                });
+
+                stream.on('data', (chunk: any) => {
+                    try {
+                        hashes.forEach(h => h.update(chunk));
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                });
+
+                stream.once('end', () => {
+                    try {
+                        finish();
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                });
+            }
+            else {
+                // handle as string
+                let buffer = Buffer.from(TB.toStringSafe(data), encoding);
+
+                hashes.forEach(h => h.update(buffer));
+                finish();
+            }
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Computes one or more hashes of a file in one pass.
+ * 
+ * @param {string} file The path of the file.
+ * @param {string|string[]} [algos] One or more algorithm. Default: sha256
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+ * 
+ * @returns {Promise<any>} The promise with the digest(s).
+ */
+export function hashFile(file: string, algos?: string | string[], output?: string): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let stream: fs.ReadStream;
+
+        let fail = (err: any) => {
+            if (stream) {
+                // close the file, if the stream has not been read until the end,
+                // e.g. if an algorithm is not supported
+                (<any>stream).destroy();
+            }
+
+            reject(err);
+        };
+
+        try {
+            stream = fs.createReadStream(TB.toStringSafe(file));
+
+            digest(stream, algos, {
+                output: output,
+            }).then(resolve, fail);
+        }
+        catch (e) {
+            fail(e);
+        }
+    });
+}
+
+/**
+ * Computes the HMAC of data.
+ * 
+ * @param {any} data The data (Buffer, stream or string).
+ * @param {string|Buffer} key The key.
+ * @param {string} [algo] The algorithm. Default: sha256
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
+ * @param {string} [encoding] The string encoding of the input data. Default: ascii
+ * 
+ * @returns {Promise<any>} The promise with the HMAC.
+ */
+export function hmac(data: any, key: string | Buffer, algo?: string, output?: string, encoding?: string): Promise<any> {
+    return digest(data, TB.isEmptyString(algo) ? 'sha256' : algo, {
+        encoding: encoding,
+        key: TB.isNullOrUndefined(key) ? '' : key,
+        output: output,
+    });
+}
@@ -0,0 +1,169 @@
+/**
+ * Options for a HTTP request.
+ */
+export interface HttpClientOptions {
+    /**
+     * The body to send. Can be a Buffer, a stream, an object (sent as JSON)
+     * or a value, which is converted to a string.
+     */
+    body?: any;
+    /**
+     * The string encoding to use for string bodies. Default: 'DefaultEncoding'
+     */
+    encoding?: string;
+    /**
+     * Follow redirects or not. Default: (true)
+     */
+    followRedirects?: boolean;
+    /**
+     * Data to send as application/x-www-form-urlencoded.
+     */
+    form?: any;
+    /**
+     * Additional request headers.
+     */
+    headers?: {
+        [name: string]: any;
+    };
+    /**
+     * Data to send as JSON.
+     */
+    json?: any;
+    /**
+     * The maximum number of redirects to follow. Default: 5
+     */
+    maxRedirects?: number;
+    /**
+     * Query parameters to append to the URL.
+     */
+    query?: {
+        [name: string]: any;
+    };
+    /**
+     * The initial delay between two retries, in milliseconds.
+     * The value is doubled after each try. Default: 100
+     */
+    retryDelay?: number;
+    /**
+     * The maximum number of retries on network errors and 5xx / 429 responses. Default: 0
+     *
+     * Requests with non-idempotent methods, like POST or PATCH, are only retried,
+     * if 'retryNonIdempotent' is (true).
+     */
+    retries?: number;
+    /**
+     * Also retry requests with non-idempotent methods, like POST or PATCH. Default: (false)
+     */
+    retryNonIdempotent?: boolean;
+    /**
+     * The timeout for a whole try, including the redirects, in milliseconds.
+     */
+    timeout?: number;
+}
+/**
+ * A response of a HTTP request.
+ */
+export interface HttpClientResponse {
+    /**
+     * The raw body.
+     */
+    readonly body: Buffer;
+    /**
+     * The decoded body, if the response contains valid JSON.
+     * Is (undefined) if the JSON is invalid: Use 'json()' to get the parse error.
+     */
+    readonly data?: any;
+    /**
+     * The response headers.
+     */
+    readonly headers: {
+        [name: string]: any;
+    };
+    /**
+     * Returns the body as decoded JSON.
+     *
+     * @returns {T} The decoded body.
+     */
+    readonly json: <T>() => T;
+    /**
+     * The number of redirects, which have been followed.
+     */
+    readonly redirects: number;
+    /**
+     * The status code.
+     */
+    readonly statusCode: number;
+    /**
+     * The status message.
+     */
+    readonly statusMessage: string;
+    /**
+     * Returns the body as string, decoded with the charset of the response
+     * or 'DefaultEncoding', if not defined.
+     *
+     * @returns {string} The body as string.
+     */
+    readonly text: () => string;
+    /**
+     * The (final) URL.
+     */
+    readonly url: string;
+}
+/**
+ * Starts a DELETE request.
+ *
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpDelete(url: string, opts?: HttpClientOptions): Promise<HttpClientResponse>;
+/**
+ * Starts a GET request.
+ *
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpGet(url: string, opts?: HttpClientOptions): Promise<HttpClientResponse>;
+/**
+ * Starts a PATCH request.
+ *
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpPatch(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse>;
+/**
+ * Starts a POST request.
+ *
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpPost(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse>;
+/**
+ * Starts a PUT request.
+ *
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpPut(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse>;
+/**
+ * Starts a HTTP(S) request.
+ *
+ * @param {string} method The HTTP method.
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ *
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export declare function httpRequest(method: string, url: string, opts?: HttpClientOptions): Promise<HttpClientResponse>;
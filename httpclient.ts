@@ -0,0 +1,608 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as http from 'http';
+import * as https from 'https';
+import * as QueryString from 'querystring';
+import * as Stream from 'stream';
+import * as TB from './index';
+import * as URL from 'url';
+
+
+/**
+ * Options for a HTTP request.
+ */
+export interface HttpClientOptions {
+    /**
+     * The body to send. Can be a Buffer, a stream, an object (sent as JSON)
+     * or a value, which is converted to a string.
+     */
+    body?: any;
+    /**
+     * The string encoding to use for string bodies. Default: 'DefaultEncoding'
+     */
+    encoding?: string;
+    /**
+     * Follow redirects or not. Default: (true)
+     */
+    followRedirects?: boolean;
+    /**
+     * Data to send as application/x-www-form-urlencoded.
+     */
+    form?: any;
+    /**
+     * Additional request headers.
+     */
+    headers?: { [name: string]: any };
+    /**
+     * Data to send as JSON.
+     */
+    json?: any;
+    /**
+     * The maximum number of redirects to follow. Default: 5
+     */
+    maxRedirects?: number;
+    /**
+     * Query parameters to append to the URL.
+     */
+    query?: { [name: string]: any };
+    /**
+     * The initial delay between two retries, in milliseconds.
+     * The value is doubled after each try. Default: 100
+     */
+    retryDelay?: number;
+    /**
+     * The maximum number of retries on network errors and 5xx / 429 responses. Default: 0
+     * 
+     * Requests with non-idempotent methods, like POST or PATCH, are only retried,
+     * if 'retryNonIdempotent' is (true).
+     */
+    retries?: number;
+    /**
+     * Also retry requests with non-idempotent methods, like POST or PATCH. Default: (false)
+     */
+    retryNonIdempotent?: boolean;
+    /**
+     * The timeout for a whole try, including the redirects, in milliseconds.
+     */
+    timeout?: number;
+}
+
+/**
+ * A response of a HTTP request.
+ */
+export interface HttpClientResponse {
+    /**
+     * The raw body.
+     */
+    readonly body: Buffer;
+    /**
+     * The decoded body, if the response contains valid JSON.
+     * Is (undefined) if the JSON is invalid: Use 'json()' to get the parse error.
+     */
+    readonly data?: any;
+    /**
+     * The response headers.
+     */
+    readonly headers: { [name: string]: any };
+    /**
+     * Returns the body as decoded JSON.
+     * 
+     * @returns {T} The decoded body.
+     */
+    readonly json: <T>() => T;
+    /**
+     * The number of redirects, which have been followed.
+     */
+    readonly redirects: number;
+    /**
+     * The status code.
+     */
+    readonly statusCode: number;
+    /**
+     * The status message.
+     */
+    readonly statusMessage: string;
+    /**
+     * Returns the body as string, decoded with the charset of the response
+     * or 'DefaultEncoding', if not defined.
+     * 
+     * @returns {string} The body as string.
+     */
+    readonly text: () => string;
+    /**
+     * The (final) URL.
+     */
+    readonly url: string;
+}
+
+interface PreparedBody {
+    data: Buffer | NodeJS.ReadableStream;
+    type?: string;
+}
+
+/**
+ * The HTTP methods, which can be retried safely.
+ */
+const IDEMPOTENT_METHODS = [ 'DELETE', 'GET', 'HEAD', 'OPTIONS', 'PUT', 'TRACE' ];
+/**
+ * The (lower case) headers, which are not sent to another origin, when following a redirect.
+ */
+const SENSITIVE_HEADERS = [ 'authorization', 'cookie', 'proxy-authorization' ];
+
+
+/**
+ * Starts a DELETE request.
+ * 
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpDelete(url: string, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    return httpRequest('DELETE', url, opts);
+}
+
+/**
+ * Starts a GET request.
+ * 
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpGet(url: string, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    return httpRequest('GET', url, opts);
+}
+
+/**
+ * Starts a PATCH request.
+ * 
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpPatch(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    return httpRequest('PATCH', url, withBody(body, opts));
+}
+
+/**
+ * Starts a POST request.
+ * 
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpPost(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    return httpRequest('POST', url, withBody(body, opts));
+}
+
+/**
+ * Starts a PUT request.
+ * 
+ * @param {string} url The URL.
+ * @param {any} [body] The body.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpPut(url: string, body?: any, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    return httpRequest('PUT', url, withBody(body, opts));
+}
+
+/**
+ * Starts a HTTP(S) request.
+ * 
+ * @param {string} method The HTTP method.
+ * @param {string} url The URL.
+ * @param {HttpClientOptions} [opts] The options.
+ * 
+ * @returns {Promise<HttpClientResponse>} The promise with the response.
+ */
+export function httpRequest(method: string, url: string, opts?: HttpClientOptions): Promise<HttpClientResponse> {
+    if (!opts) {
+        opts = {};
+    }
+
+    method = TB.toStringSafe(method).toUpperCase().trim();
+    if ('' === method) {
+        method = 'GET';
+    }
+
+    url = appendQuery(TB.toStringSafe(url), opts.query);
+
+    let retries = parseInt(TB.toStringSafe(opts.retries).trim());
+    if (isNaN(retries) || retries < 0) {
+        retries = 0;
+    }
+    if (IDEMPOTENT_METHODS.indexOf(method) < 0 && !TB.toBooleanSafe(opts.retryNonIdempotent)) {
+        retries = 0;
+    }
+
+    let retryDelay = parseInt(TB.toStringSafe(opts.retryDelay).trim());
+    if (isNaN(retryDelay) || retryDelay < 0) {
+        retryDelay = 100;
+    }
+
+    let timeout = parseInt(TB.toStringSafe(opts.timeout).trim());
+    if (isNaN(timeout) || timeout < 0) {
+        timeout = 0;
+    }
+
+    return new Promise<HttpClientResponse>((resolve, reject) => {
+        try {
+            let body = prepareBody(opts);
+            if (body && !Buffer.isBuffer(body.data)) {
+                retries = 0;  // streams cannot be sent twice
+            }
+
+            let nextTry: (attempt: number) => void;
+            nextTry = (attempt) => {
+                let retryOrFail = (err: any, resp?: HttpClientResponse) => {
+                    if (attempt < retries) {
+                        setTimeout(() => {
+                            nextTry(attempt + 1);
+                        }, retryDelay * Math.pow(2, attempt));
+                    }
+                    else if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(resp);
+                    }
+                };
+
+                let deadline = timeout > 0 ? Date.now() + timeout : 0;
+
+                sendRequest(method, url, body, opts, 0, deadline).then((resp) => {
+                    if (resp.statusCode >= 500 || 429 === resp.statusCode) {
+                        retryOrFail(null, resp);
+                    }
+                    else {
+                        resolve(resp);
+                    }
+                }, (err) => {
+                    retryOrFail(err);
+                });
+            };
+
+            nextTry(0);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+
+function appendQuery(url: string, query: { [name: string]: any }): string {
+    if (!query) {
+        return url;
+    }
+
+    let qs = QueryString.stringify(query);
+    if ('' === qs) {
+        return url;
+    }
+
+    return url + (url.indexOf('?') > -1 ? '&' : '?') + qs;
+}
+
+function createResponse(url: string, resp: http.IncomingMessage, body: Buffer, redirects: number): HttpClientResponse {
+    let contentType = TB.normalizeString(resp.headers['content-type']);
+
+    let text = () => {
+        let enc: string;
+
+        let charset = /charset=["']?([^;"']+)/.exec(contentType);
+        if (charset) {
+            enc = TB.normalizeString(charset[1]).replace(/^utf-8$/, 'utf8')
+                                                .replace(/^(iso-8859-1|latin-1)$/, 'latin1');
+            if (!Buffer.isEncoding(enc)) {
+                enc = undefined;
+            }
+        }
+
+        if (!enc) {
+            enc = TB.normalizeString(TB.DefaultEncoding);
+        }
+        if ('' === enc) {
+            enc = 'utf8';
+        }
+
+        return body.toString(enc);
+    };
+
+    let json = () => TB.fromJSON<any>(text());
+
+    let data: any;
+    if (/^application\/(.+\+)?json/.test(contentType)) {
+        try {
+            data = json();
+        }
+        catch (e) {
+            // invalid JSON => keep (undefined) and let 'json()' throw
+        }
+    }
+
+    return {
+        body: body,
+        data: data,
+        headers: resp.headers,
+        json: json,
+        redirects: redirects,
+        statusCode: resp.statusCode,
+        statusMessage: resp.statusMessage,
+        text: text,
+        url: url,
+    };
+}
+
+function isSameOrigin(url1: string, url2: string): boolean {
+    let u1 = URL.parse(url1);
+    let u2 = URL.parse(url2);
+
+    let getPort = (u: URL.Url) => {
+        let port = TB.toStringSafe(u.port).trim();
+        if ('' === port) {
+            port = 'https:' === TB.normalizeString(u.protocol) ? '443' : '80';
+        }
+
+        return port;
+    };
+
+    return TB.normalizeString(u1.protocol) === TB.normalizeString(u2.protocol) &&
+           TB.normalizeString(u1.hostname) === TB.normalizeString(u2.hostname) &&
+           getPort(u1) === getPort(u2);
+}
+
+function prepareBody(opts: HttpClientOptions): PreparedBody {
+    let encoding = TB.normalizeString(opts.encoding);
+    if ('' === encoding) {
+        encoding = TB.normalizeString(TB.DefaultEncoding);
+    }
+    if ('' === encoding) {
+        encoding = 'utf8';
+    }
+
+    if (!TB.isNullOrUndefined(opts.json)) {
+        return {
+            data: Buffer.from(JSON.stringify(opts.json), 'utf8'),
+            type: 'application/json; charset=utf-8',
+        };
+    }
+
+    if (!TB.isNullOrUndefined(opts.form)) {
+        return {
+            data: Buffer.from(QueryString.stringify(opts.form), 'ascii'),
+            type: 'application/x-www-form-urlencoded',
+        };
+    }
+
+    let body = opts.body;
+    if (TB.isNullOrUndefined(body)) {
+        return null;
+    }
+
+    if (Buffer.isBuffer(body)) {
+        return {
+            data: body,
+        };
+    }
+
+    if (body instanceof Stream.Readable || (TB.isObj(body) && TB.isFunc(body.pipe))) {
+        return {
+            data: body,
+        };
+    }
+
+    if (TB.isObj(body)) {
+        return prepareBody({
+            json: body,
+        });
+    }
+
+    return {
+        data: Buffer.from(TB.toStringSafe(body), encoding),
+        type: 'text/plain; charset=' + encoding,
+    };
+}
+
+function sendRequest(method: string, url: string, body: PreparedBody,
+                     opts: HttpClientOptions, redirects: number, deadline: number): Promise<HttpClientResponse> {
+    return new Promise<HttpClientResponse>((resolve, reject) => {
+        let timer: NodeJS.Timer;
+
+        let completed = TB.createSimpleCompletedAction<HttpClientResponse>((result) => {
+            clearTimeout(timer);
+            resolve(result);
+        }, (err) => {
+            clearTimeout(timer);
+            reject(err);
+        });
+
+        try {
+            let u = URL.parse(url);
+
+            let requestFactory: (opts: http.RequestOptions, callback: (res: http.IncomingMessage) => void) => http.ClientRequest;
+            switch (TB.normalizeString(u.protocol)) {
+                case '':
+                case 'http:':
+                    requestFactory = http.request;
+                    break;
+
+                case 'https:':
+                    requestFactory = https.request;
+                    break;
+
+                default:
+                    throw new Error(`Protocol '${u.protocol}' is NOT supported!`);
+            }
+
+            let headers: { [name: string]: any } = {};
+            if (body) {
+                if (body.type) {
+                    headers['Content-Type'] = body.type;
+                }
+                if (Buffer.isBuffer(body.data)) {
+                    headers['Content-Length'] = '' + body.data.length;
+                }
+            }
+            if (opts.headers) {
+                for (let h in opts.headers) {
+                    headers[h] = opts.headers[h];
+                }
+            }
+
+            let req = requestFactory({
+                headers: headers,
+                hostname: u.hostname,
+                method: method,
+                path: u.path,
+                port: <any>u.port,
+            }, (resp) => {
+                let chunks: Buffer[] = [];
+
+                resp.once('error', (err: any) => {
+                    completed(err);
+                });
+
+                resp.on('data', (chunk: Buffer) => {
+                    chunks.push(chunk);
+                });
+
+                resp.once('end', () => {
+                    try {
+                        let location = TB.toStringSafe(resp.headers['location']).trim();
+
+                        let maxRedirects = parseInt(TB.toStringSafe(opts.maxRedirects).trim());
+                        if (isNaN(maxRedirects)) {
+                            maxRedirects = 5;
+                        }
+
+                        if (TB.toBooleanSafe(opts.followRedirects, true) &&
+                            [ 301, 302, 303, 307, 308 ].indexOf(resp.statusCode) > -1 && '' !== location) {
+                            if (redirects >= maxRedirects) {
+                                throw new Error(`Too many redirects (${redirects})!`);
+                            }
+
+                            let newMethod = method;
+                            let newBody = body;
+                            if (303 === resp.statusCode ||
+                                ([ 301, 302 ].indexOf(resp.statusCode) > -1 && 'POST' === method)) {
+                                newMethod = 'GET';
+                                newBody = null;
+                            }
+                            else if (newBody && !Buffer.isBuffer(newBody.data)) {
+                                throw new Error('Cannot send a stream body again for a redirect!');
+                            }
+
+                            let newUrl = URL.resolve(url, location);
+
+                            let newOpts = opts;
+                            if (opts.headers && !isSameOrigin(url, newUrl)) {
+                                newOpts = withoutSensitiveHeaders(opts);
+                            }
+
+                            sendRequest(newMethod, newUrl, newBody,
+                                        newOpts, redirects + 1, deadline).then((result) => {
+                                completed(null, result);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            completed(null,
+                                      createResponse(url, resp, Buffer.concat(chunks), redirects));
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                });
+            });
+
+            req.once('error', (err: any) => {
+                completed(err);
+            });
+
+            if (deadline > 0) {
+                timer = setTimeout(() => {
+                    let err: any = new Error(`Request timed out after ${TB.toStringSafe(opts.timeout).trim()} ms!`);
+                    err.code = 'ETIMEDOUT';
+
+                    completed(err);
+                    req.abort();
+                }, Math.max(0, deadline - Date.now()));
+            }
+
+            if (body) {
+                if (Buffer.isBuffer(body.data)) {
+                    req.end(body.data);
+                }
+                else {
+                    body.data.pipe(req);
+                }
+            }
+            else {
+                req.end();
+            }
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+function withBody(body: any, opts: HttpClientOptions): HttpClientOptions {
+    let newOpts: HttpClientOptions = {};
+    if (opts) {
+        for (let p in opts) {
+            (<any>newOpts)[p] = (<any>opts)[p];
+        }
+    }
+
+    if (!TB.isNullOrUndefined(body)) {
+        newOpts.body = body;
+    }
+
+    return newOpts;
+}
+
+function withoutSensitiveHeaders(opts: HttpClientOptions): HttpClientOptions {
+    let newOpts = withBody(null, opts);
+
+    newOpts.headers = {};
+    for (let h in opts.headers) {
+        if (SENSITIVE_HEADERS.indexOf(TB.normalizeString(h)) < 0) {
+            newOpts.headers[h] = opts.headers[h];
+        }
+    }
+
+    return newOpts;
+}
@@ -15,7 +15,34 @@ import * as Moment from 'moment';
 import * as net from 'net';
 import * as SimpleSocket from 'node-simple-socket';
 import * as Workflows from 'node-workflows';
-import * as UUID from 'node-uuid';
+import * as Routing from './routing';
+import * as Uuids from './uuids';
+export * from './archives';
+export * from './async';
+export * from './bodyparser';
+export * from './broker';
+export * from './checkpoints';
+export * from './contentdetection';
+export * from './contentstore';
+export * from './cronexpression';
+export * from './encodings';
+export * from './encryption';
+export * from './filesystem';
+export * from './filewatcher';
+export * from './framing';
+export * from './hashing';
+export * from './httpclient';
+export * from './jobqueue';
+export * from './lifecycle';
+export * from './locales';
+export * from './routing';
+export * from './rpc';
+export * from './scheduler';
+export * from './securesockets';
+export * from './security';
+export * from './staticfiles';
+export * from './uuids';
+export * from './workflowsteps';
 /**
  * List of possible entity formats.
  */
@@ -47,6 +74,26 @@ export declare let DefaultEncoding: any;
  * The default value for the 'detectMimeByFilename()' function.
  */
 export declare let DefauleMimeType: any;
+/**
+ * The default maximum size of a HTTP request body, in bytes.
+ */
+export declare let DefaultMaxBodySize: number;
+/**
+ * The default maximum number of files, which can be uploaded with a multipart/form-data request.
+ */
+export declare let DefaultMaxUploadFiles: number;
+/**
+ * The default maximum number of parts (fields and files) of a multipart/form-data request.
+ */
+export declare let DefaultMaxUploadParts: number;
+/**
+ * The default maximum size of a file, which is uploaded with a multipart/form-data request, in bytes.
+ */
+export declare let DefaultMaxUploadSize: number;
+/**
+ * The default timeout for a shutdown, in milliseconds.
+ */
+export declare let DefaultShutdownTimeout: number;
 /**
  * The default logic for the 'normalizeString()' function.
  */
@@ -148,7 +195,7 @@ export declare function createSimpleCompletedAction<TResult>(resolve: (value?: T
  * Decodes the HTML/XML entities in the string representation of data.
  *
  * @param {any} data The data to decode.
- * @param {string} [encoding] The string encoding to use. Default: utf8
+ * @param {string} [encoding] The string encoding to use or 'auto' to detect it. Default: utf8
  * @param {EntityFormat} [format] The format to use. Default: html
  *
  * @returns {string} The decoded string.
@@ -226,17 +273,18 @@ export declare function globSync(patterns: string | string[], opts?: Glob.IOptio
 /**
  * Alias for 'uuid()'.
  */
-export declare function guid(type?: string, opts?: UUID.UUIDOptions): string;
+export declare function guid(type?: string, opts?: Uuids.UuidOptions): string;
 /**
  * Hashes data.
  *
  * @param {any} data The data to hash.
  * @param {string} [algo] The algorithm to use. Default: sha256
  * @param {string} [encoding] The string encoding to use. Default: ascii
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
  *
- * @returns {Promise<Buffer>} The promise with the hash.
+ * @returns {Promise<any>} The promise with the hash, as Buffer or as string, if an output encoding is defined.
  */
-export declare function hash(data: any, algo?: string, encoding?: string): Promise<Buffer>;
+export declare function hash(data: any, algo?: string, encoding?: string, output?: string): Promise<any>;
 /**
  * Decodes the HTML entities in the string representation of data.
  *
@@ -455,13 +503,13 @@ export declare function startCron(time: string | Date, onTick: () => void, timeZ
 /**
  * Starts a new HTTP server.
  *
- * @param {(req: http.IncomingMessage, resp: http.ServerResponse) => void} requestListener The request listener.
+ * @param {Routing.HttpRequestListener|Routing.HttpRouter} requestListener The request listener or a router.
  * @param {number} [port] The TCP port to use. Default: 80 or 443
  * @param {https.ServerOptions} [httpsOpts] If defined, server will start using secure HTTP.
  *
  * @returns {(Promise<http.Server|https.Server>)} The promise with the new server instance.
  */
-export declare function startHttpServer(requestListener: (req: http.IncomingMessage, resp: http.ServerResponse) => void, port?: number, httpsOpts?: https.ServerOptions): Promise<http.Server | https.Server>;
+export declare function startHttpServer(requestListener: Routing.HttpRequestListener | Routing.HttpRouter, port?: number, httpsOpts?: https.ServerOptions): Promise<http.Server | https.Server>;
 /**
  * Starts a secure TCP server.
  *
@@ -522,10 +570,11 @@ export declare function toBooleanSafe(val: any, defaultValue?: any): boolean;
  *
  * @param {any} str The input value.
  * @param {any} [defValue] The default value.
+ * @param {string} [encoding] The encoding for Buffers or 'auto' to detect it. Default: DefaultEncoding
  *
  * @returns {string} The output value.
  */
-export declare function toStringSafe(str: any, defValue?: any): string;
+export declare function toStringSafe(str: any, defValue?: any, encoding?: string): string;
 /**
  * Returns the current UTC time.
  *
@@ -533,14 +582,14 @@ export declare function toStringSafe(str: any, defValue?: any): string;
  */
 export declare function utcNow(): Moment.Moment;
 /**
- * Generates an UUID.
+ * Generates an UUID or ULID.
  *
- * @param {string} [format] The format. Default: v4
- * @param {UUID.UUIDOptions} [opts] The options.
+ * @param {string} [format] The format: 'v1', 'v3', 'v4', 'v5', 'v7' or 'ulid'. Default: v4
+ * @param {Uuids.UuidOptions} [opts] The options.
  *
- * @returns {string} The generated UUID.
+ * @returns {string} The generated ID.
  */
-export declare function uuid(format?: string, opts?: UUID.UUIDOptions): string;
+export declare function uuid(format?: string, opts?: Uuids.UuidOptions): string;
 /**
  * Hashes data with Whirlpool.
  *
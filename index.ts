@@ -39,7 +39,39 @@ import * as Moment from 'moment';
 import * as net from 'net';
 import * as SimpleSocket from 'node-simple-socket';
 import * as Workflows from 'node-workflows';
-import * as UUID from 'node-uuid';
+import * as Async from './async';
+import * as Encodings from './encodings';
+import * as Hashing from './hashing';
+import { Lifecycle } from './lifecycle';
+import * as Routing from './routing';
+import * as Uuids from './uuids';
+
+export * from './archives';
+export * from './async';
+export * from './bodyparser';
+export * from './broker';
+export * from './checkpoints';
+export * from './contentdetection';
+export * from './contentstore';
+export * from './cronexpression';
+export * from './encodings';
+export * from './encryption';
+export * from './filesystem';
+export * from './filewatcher';
+export * from './framing';
+export * from './hashing';
+export * from './httpclient';
+export * from './jobqueue';
+export * from './lifecycle';
+export * from './locales';
+export * from './routing';
+export * from './rpc';
+export * from './scheduler';
+export * from './securesockets';
+export * from './security';
+export * from './staticfiles';
+export * from './uuids';
+export * from './workflowsteps';
 
 
 /**
@@ -78,6 +110,26 @@ export let DefaultEncoding: any = 'utf8';
  * The default value for the 'detectMimeByFilename()' function.
  */
 export let DefauleMimeType: any = 'application/octet-stream';
+/**
+ * The default maximum size of a HTTP request body, in bytes.
+ */
+export let DefaultMaxBodySize = 1048576;
+/**
+ * The default maximum number of files, which can be uploaded with a multipart/form-data request.
+ */
+export let DefaultMaxUploadFiles = 100;
+/**
+ * The default maximum number of parts (fields and files) of a multipart/form-data request.
+ */
+export let DefaultMaxUploadParts = 1000;
+/**
+ * The default maximum size of a file, which is uploaded with a multipart/form-data request, in bytes.
+ */
+export let DefaultMaxUploadSize = 104857600;
+/**
+ * The default timeout for a shutdown, in milliseconds.
+ */
+export let DefaultShutdownTimeout = 10000;
 /**
  * The default logic for the 'normalizeString()' function.
  */
@@ -257,7 +309,26 @@ export function compareValuesDesc<T>(x: T, y: T): number {
  * @returns {Promise<SimpleSocket.SimpleSocket>} The promise with the new socket.
  */
 export function connectToSecureServer(port: number, host?: string): Promise<SimpleSocket.SimpleSocket> {
-    return SimpleSocket.connect(port, host);
+    return new Promise<SimpleSocket.SimpleSocket>((resolve, reject) => {
+        try {
+            let client = new net.Socket();
+
+            // handle connection errors like ECONNREFUSED
+            let connectionFailed = (err: any) => {
+                reject(err);
+            };
+            client.once('error', connectionFailed);
+
+            client.connect(port, host, () => {
+                client.removeListener('error', connectionFailed);
+
+                resolve(SimpleSocket.createClient(client));
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
 }
 
 function createOrStartCron(start: boolean,
@@ -271,6 +342,23 @@ function createOrStartCron(start: boolean,
         timeZone: timeZone,
     });
 
+    // track the job only while it is running
+    let startJob = newCronJob.start;
+    newCronJob.start = function() {
+        Lifecycle.addCron(newCronJob);
+        return startJob.apply(newCronJob, arguments);
+    };
+
+    let stopJob = newCronJob.stop;
+    newCronJob.stop = function() {
+        Lifecycle.removeCron(newCronJob);
+        return stopJob.apply(newCronJob, arguments);
+    };
+
+    if (start) {
+        Lifecycle.addCron(newCronJob);
+    }
+
     return newCronJob;
 }
 
@@ -313,7 +401,7 @@ export function createSimpleCompletedAction<TResult>(resolve: (value?: TResult |
  * Decodes the HTML/XML entities in the string representation of data.
  * 
  * @param {any} data The data to decode.
- * @param {string} [encoding] The string encoding to use. Default: utf8
+ * @param {string} [encoding] The string encoding to use or 'auto' to detect it. Default: utf8
  * @param {EntityFormat} [format] The format to use. Default: html
  * 
  * @returns {string} The decoded string.
@@ -364,12 +452,7 @@ function deOrEncodeEntities(mode: 'decode' | 'encode',
         return data;
     }
 
-    if (Buffer.isBuffer(data)) {
-        data = data.toString(encoding);
-    }
-    else {
-        data = toStringSafe(data);
-    }
+    data = toStringSafe(data, '', encoding);
 
     return (<any>entities)[mode](data);
 }
@@ -442,39 +525,16 @@ export function encodeEntities(data: any, encoding?: string, format?: EntityForm
  * @returns {Promise<FileType.FileTypeResult>} The promise with the result.
  */
 export function fileType(bufferOrPath: string | Buffer): Promise<FileType.FileTypeResult> {
-    return new Promise<FileType.FileTypeResult>((resolve, reject) => {
-        let completed = (err: any, result?: FileType.FileTypeResult) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve(result);
-            }
-        };
-        
-        try {
-            if (isNullOrUndefined(bufferOrPath)) {
-                completed(null, <any>bufferOrPath);
-            }
-            else {
-                if (Buffer.isBuffer(bufferOrPath)) {
-                    completed(null, FileType(bufferOrPath));
-                }
-                else {
-                    fs.readFile(toStringSafe(bufferOrPath), (err, data) => {
-                        if (err) {
-                            completed(err);
-                        }
-                        else {
-                            completed(null, FileType(data));
-                        }
-                    });
-                }
-            }
-        }
-        catch (e) {
-            completed(e);
-        }
+    if (isNullOrUndefined(bufferOrPath)) {
+        return Promise.resolve(<any>bufferOrPath);
+    }
+
+    if (Buffer.isBuffer(bufferOrPath)) {
+        return Promise.resolve().then(() => FileType(<Buffer>bufferOrPath));
+    }
+
+    return Async.promisify<Buffer>(fs.readFile)(toStringSafe(bufferOrPath)).then((data) => {
+        return FileType(data);
     });
 }
 
@@ -526,49 +586,17 @@ export function fromJSON<T>(json: any): T {
  * @returns {Promise<string[]>} The promise with the found files.
  */
 export function glob(patterns: string | string[], opts?: Glob.IOptions): Promise<string[]> {
-    return new Promise<string[]>((resolve, reject) => {
-        let allFiles: string[] = [];
-        let completed = (err: any) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve(allFiles);
-            }
-        };
+    let allFiles: string[] = [];
 
-        try {
-            let patternList = asArray(patterns).map(x => toStringSafe(x))
-                                               .filter(x => !isEmptyString(x));
-
-            let nextPattern: () => void;
-
-            nextPattern = () => {
-                if (patternList.length < 1) {
-                    allFiles = distinctArray(allFiles);
-                    completed(null);
-
-                    return;
-                }
-                
-                let p = patternList.shift();
-
-                Glob(p, opts, (err, matches) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        allFiles = allFiles.concat(matches);
-                        nextPattern();
-                    }
-                });
-            };
+    let patternList = asArray(patterns).map(x => toStringSafe(x))
+                                       .filter(x => !isEmptyString(x));
 
-            nextPattern()
-        }
-        catch (e) {
-            completed(e);
-        }
+    return Async.eachSeries(patternList, (p) => {
+        return Async.promisify<string[]>(Glob)(p, opts).then((matches) => {
+            allFiles = allFiles.concat(matches);
+        });
+    }).then(() => {
+        return distinctArray(allFiles);
     });
 }
 
@@ -595,7 +623,7 @@ export function globSync(patterns: string | string[], opts?: Glob.IOptions): str
 /**
  * Alias for 'uuid()'.
  */
-export function guid(type = 'v4', opts?: UUID.UUIDOptions): string {
+export function guid(type = 'v4', opts?: Uuids.UuidOptions): string {
     return uuid.apply(null, arguments);
 }
 
@@ -605,74 +633,14 @@ export function guid(type = 'v4', opts?: UUID.UUIDOptions): string {
  * @param {any} data The data to hash. 
  * @param {string} [algo] The algorithm to use. Default: sha256
  * @param {string} [encoding] The string encoding to use. Default: ascii
+ * @param {string} [output] The encoding of the output, like 'hex' or 'base64'. Default: Buffer
  * 
- * @returns {Promise<Buffer>} The promise with the hash.
+ * @returns {Promise<any>} The promise with the hash, as Buffer or as string, if an output encoding is defined.
  */
-export function hash(data: any, algo?: string, encoding?: string): Promise<Buffer> {
-    algo = normalizeString(algo);
-    if ('' === algo) {
-        algo = 'sha256';
-    }
-    
-    encoding = normalizeString(encoding);
-    if ('' === encoding) {
-        encoding = 'ascii';
-    }
-    
-    if (!data) {
-        data = Buffer.alloc(0);
-    }
-    
-    return new Promise<Buffer>((resolve, reject) => {
-        let completed = createSimpleCompletedAction(resolve, reject);
-
-        try {
-            if (Buffer.isBuffer(data)) {
-                resolve(crypto.createHash(algo)
-                              .update(data)
-                              .digest());
-            }
-            else if (isObj(data)) {
-                let stream: NodeJS.ReadableStream = data;
-
-                let hash = crypto.createHash(algo);
-
-                stream.once('error', (err: any) => {
-                    completed(err);
-                });
-
-                stream.on('data', (chunk: any) => {
-                    try {
-                        hash.update(chunk);
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                });
-
-                stream.once('end', () => {
-                    try {
-                        completed(null, hash.digest());
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                });
-            }
-            else {
-                // handle as string
-                // and convert to Buffer
-
-                hash(new Buffer(toStringSafe(data), encoding), algo, encoding).then((hash) => {
-                    completed(null, hash);
-                }, (err) => {
-                    completed(err);
-                });
-            }
-        }
-        catch (e) {
-            completed(e);
-        }
+export function hash(data: any, algo?: string, encoding?: string, output?: string): Promise<any> {
+    return Hashing.digest(data, algo, {
+        encoding: encoding,
+        output: output,
     });
 }
 
@@ -708,16 +676,7 @@ export function htmlEncode(data: any, encoding?: string): string {
  * @returns {Promise<i18next.TranslationFunction>} The promise with the translation function.
  */
 export function initI18(opts?: i18next.Options): Promise<i18next.TranslationFunction> {
-    return new Promise<i18next.TranslationFunction>((resolve, reject) => {
-        i18next.init(opts, (err, t) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve(t);
-            }
-        });
-    });
+    return Async.promisify<i18next.TranslationFunction>(i18next.init, i18next)(opts);
 }
 
 /**
@@ -728,30 +687,11 @@ export function initI18(opts?: i18next.Options): Promise<i18next.TranslationFunc
  * @returns {Promise<boolean>} The promise that indicates if data is binary or not.
  */
 export function isBinary(dataOrFilepath: Buffer | string): Promise<boolean> {
-    return new Promise<boolean>((resolve, reject) => {
-        let completed = (err: any, isBinary?: boolean) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve(isBinary);
-            }
-        };
+    if (isNullOrUndefined(dataOrFilepath)) {
+        return Promise.resolve(<any>dataOrFilepath);
+    }
 
-        if (isNullOrUndefined(dataOrFilepath)) {
-            completed(null, <any>dataOrFilepath);
-        }
-        else {
-            IsBinaryFile(dataOrFilepath, null, (err: any, result: boolean) => {
-                if (err) {
-                    completed(err);
-                }
-                else {
-                    completed(null, result);
-                }
-            });
-        }
-    });
+    return Async.promisify<boolean>(IsBinaryFile)(dataOrFilepath, null);
 }
 
 /**
@@ -864,16 +804,7 @@ export function md5(data: any, encoding?: string): Promise<Buffer> {
  * @returns {Promise<any>} The promise.
  */
 export function mkdir(path: string | Buffer, mode?: string | number): Promise<any> {
-    return new Promise<any>((resolve, reject) => {
-        FSExtra.mkdir(path, <any>mode, (err) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve();
-            }
-        });
-    });
+    return Async.promisify<any>(FSExtra.mkdir)(path, mode);
 }
 
 /**
@@ -885,16 +816,7 @@ export function mkdir(path: string | Buffer, mode?: string | number): Promise<an
  * @returns {Promise<any>} The promise.
  */
 export function mkdirs(path: string, opts?: FSExtra.MkdirOptions): Promise<any> {
-    return new Promise<any>((resolve, reject) => {
-        FSExtra.mkdirs(toStringSafe(path), opts, (err) => {
-            if (err) {
-                reject(err);
-            }
-            else {
-                resolve();
-            }
-        });
-    });
+    return Async.promisify<any>(FSExtra.mkdirs)(toStringSafe(path), opts);
 }
 
 /**
@@ -1058,13 +980,13 @@ export function startCron(time: string | Date,
 /**
  * Starts a new HTTP server.
  * 
- * @param {(req: http.IncomingMessage, resp: http.ServerResponse) => void} requestListener The request listener.
+ * @param {Routing.HttpRequestListener|Routing.HttpRouter} requestListener The request listener or a router.
  * @param {number} [port] The TCP port to use. Default: 80 or 443
  * @param {https.ServerOptions} [httpsOpts] If defined, server will start using secure HTTP.
  * 
  * @returns {(Promise<http.Server|https.Server>)} The promise with the new server instance. 
  */
-export function startHttpServer(requestListener: (req: http.IncomingMessage, resp: http.ServerResponse) => void,
+export function startHttpServer(requestListener: Routing.HttpRequestListener | Routing.HttpRouter,
                                 port?: number,
                                 httpsOpts?: https.ServerOptions): Promise<http.Server | https.Server> {
     port = parseInt(toStringSafe(port).trim());
@@ -1072,12 +994,16 @@ export function startHttpServer(requestListener: (req: http.IncomingMessage, res
     
     return new Promise<http.Server | https.Server>((resolve, reject) => {
         try {
+            if (requestListener instanceof Routing.HttpRouter) {
+                requestListener = requestListener.toRequestListener();
+            }
+
             let newServer: http.Server | https.Server;
             if (isSecure) {
-                newServer = https.createServer(httpsOpts, requestListener);
+                newServer = https.createServer(httpsOpts, <Routing.HttpRequestListener>requestListener);
             }
             else {
-                newServer = http.createServer(requestListener);
+                newServer = http.createServer(<Routing.HttpRequestListener>requestListener);
             }
 
             if (isNaN(port)) {
@@ -1089,6 +1015,8 @@ export function startHttpServer(requestListener: (req: http.IncomingMessage, res
             });
 
             newServer.listen(port, () => {
+                Lifecycle.addServer(newServer);
+
                 resolve(newServer);
             });
         }
@@ -1107,7 +1035,15 @@ export function startHttpServer(requestListener: (req: http.IncomingMessage, res
  * @returns {Promise<net.Server>} The promise with the underlying Node server instance.
  */
 export function startSecureServer(port: number, cb: SimpleSocket.ListenCallback): Promise<net.Server> {
-    return SimpleSocket.listen(port, cb);
+    return new Promise<net.Server>((resolve, reject) => {
+        SimpleSocket.listen(port, cb).then((server) => {
+            Lifecycle.addServer(server);
+
+            resolve(server);
+        }, (err) => {
+            reject(err);
+        });
+    });
 }
 
 /**
@@ -1133,6 +1069,8 @@ export function startServer(port: number,
             });
 
             newServer.once('listening', () => {
+                Lifecycle.addServer(newServer);
+
                 resolve(newServer);
             });
 
@@ -1152,8 +1090,12 @@ export function startServer(port: number,
  * @returns {Promise<any>} The promise with the result of the workflow.
  */
 export function startWorkflow(...executors: Workflows.WorkflowExecutorType[]): Promise<any> {
-    return Workflows.start
-                    .apply(null, executors);
+    let workflow: Promise<any> = Workflows.start
+                                          .apply(null, executors);
+
+    Lifecycle.addWorkflow(workflow);
+
+    return workflow;
 }
 
 /**
@@ -1213,17 +1155,23 @@ export function toBooleanSafe(val: any, defaultValue?: any): boolean {
  * 
  * @param {any} str The input value.
  * @param {any} [defValue] The default value.
+ * @param {string} [encoding] The encoding for Buffers or 'auto' to detect it. Default: DefaultEncoding
  * 
  * @returns {string} The output value.
  */
-export function toStringSafe(str: any, defValue: any = ''): string {
+export function toStringSafe(str: any, defValue: any = '', encoding?: string): string {
     if (Buffer.isBuffer(str)) {
-        let enc = normalizeString(DefaultEncoding);
+        let enc = normalizeString(isNullOrUndefined(encoding) ? DefaultEncoding : encoding);
         if ('' === enc) {
             enc = 'ascii';
         }
 
-        str = str.toString(enc);
+        if (Buffer.isEncoding(enc)) {
+            str = str.toString(enc);
+        }
+        else {
+            str = Encodings.decodeText(str, enc);
+        }
     }
 
     if (isNullOrUndefined(str)) {
@@ -1247,35 +1195,15 @@ export function utcNow(): Moment.Moment {
 }
 
 /**
- * Generates an UUID.
+ * Generates an UUID or ULID.
  * 
- * @param {string} [format] The format. Default: v4 
- * @param {UUID.UUIDOptions} [opts] The options.
+ * @param {string} [format] The format: 'v1', 'v3', 'v4', 'v5', 'v7' or 'ulid'. Default: v4
+ * @param {Uuids.UuidOptions} [opts] The options.
  * 
- * @returns {string} The generated UUID.
+ * @returns {string} The generated ID.
  */
-export function uuid(format?: string, opts?: UUID.UUIDOptions): string {
-    format = normalizeString(format);
-
-    let func: Function;
-    switch (format) {
-        case '':
-        case '4':
-        case 'v4':
-            func = UUID.v4;
-            break;
-
-        case '1':
-        case 'v1':
-            func = UUID.v1;
-            break;
-    }
-
-    if (!func) {
-        throw Error(`'${format}' is NOT supported!`);
-    }
-
-    return func(opts);
+export function uuid(format?: string, opts?: Uuids.UuidOptions): string {
+    return Uuids.generateUuid(format, opts);
 }
 
 /**
@@ -0,0 +1,369 @@
+import * as Events from 'events';
+import * as Moment from 'moment';
+import * as Workflows from 'node-workflows';
+/**
+ * Options for adding a job.
+ */
+export interface AddJobOptions {
+    /**
+     * The time to wait before the job is processed, in milliseconds.
+     */
+    delay?: number;
+    /**
+     * The maximum number of attempts.
+     */
+    maxAttempts?: number;
+    /**
+     * The priority. Jobs with higher values are processed first. Default: 0
+     */
+    priority?: number;
+    /**
+     * The time the job should be processed.
+     */
+    runAt?: Moment.Moment | Date;
+}
+/**
+ * A job.
+ */
+export interface Job<T> {
+    /**
+     * The number of attempts.
+     */
+    attempts: number;
+    /**
+     * The time the job has been created (ISO 8601, UTC).
+     */
+    createdAt: string;
+    /**
+     * The last error message.
+     */
+    error?: string;
+    /**
+     * The ID.
+     */
+    id: string;
+    /**
+     * The maximum number of attempts.
+     */
+    maxAttempts: number;
+    /**
+     * The payload.
+     */
+    payload: T;
+    /**
+     * The priority.
+     */
+    priority: number;
+    /**
+     * The progress (0 - 100).
+     */
+    progress: number;
+    /**
+     * The time the job should be processed (ISO 8601, UTC).
+     */
+    runAt: string;
+    /**
+     * The status.
+     */
+    status: JobStatus;
+}
+/**
+ * The value of 'ctx.value' inside the workflow, which processes a job.
+ */
+export interface JobContext<T> {
+    /**
+     * The job.
+     */
+    job: Job<T>;
+    /**
+     * The payload of the job.
+     */
+    payload: T;
+    /**
+     * Updates the progress of the job.
+     *
+     * @param {number} progress The progress (0 - 100).
+     */
+    progress: (progress: number) => void;
+}
+/**
+ * Options for a job queue.
+ */
+export interface JobQueueOptions {
+    /**
+     * The base delay before a failed job is retried, in milliseconds. Default: 1000
+     */
+    backoff?: number;
+    /**
+     * The factor, the delay is multiplied with after each attempt. Default: 2
+     */
+    backoffFactor?: number;
+    /**
+     * The maximum number of jobs, which are processed at the same time. Default: 1
+     */
+    concurrency?: number;
+    /**
+     * The default maximum number of attempts of a job. Default: 3
+     */
+    maxAttempts?: number;
+    /**
+     * The maximum delay before a failed job is retried, in milliseconds. Default: 3600000
+     */
+    maxBackoff?: number;
+    /**
+     * The storage. Default: in-memory
+     */
+    storage?: JobStorage;
+}
+/**
+ * Possible values for the status of a job.
+ *
+ * 'active': currently processed
+ * 'failed': all attempts failed (dead letter)
+ * 'waiting': waits to be processed
+ */
+export declare type JobStatus = 'active' | 'failed' | 'waiting';
+/**
+ * A storage for jobs.
+ */
+export interface JobStorage {
+    /**
+     * Loads all jobs.
+     *
+     * @returns {Promise<Job<any>[]>} The promise with the jobs.
+     */
+    load(): Promise<Job<any>[]>;
+    /**
+     * Removes a job.
+     *
+     * @param {string} id The ID of the job.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    remove(id: string): Promise<any>;
+    /**
+     * Saves a job.
+     *
+     * @param {Job<any>} job The job.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    save(job: Job<any>): Promise<any>;
+}
+/**
+ * A job storage, which stores each job as JSON file inside a directory.
+ */
+export declare class FileJobStorage implements JobStorage {
+    /**
+     * Stores the directory.
+     */
+    protected _dir: string;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} dir The directory.
+     */
+    constructor(dir: string);
+    /**
+     * Gets the directory.
+     */
+    readonly dir: string;
+    /**
+     * Returns the path of the file of a job.
+     *
+     * @param {string} id The ID of the job.
+     *
+     * @returns {string} The path.
+     */
+    protected getFile(id: string): string;
+    /** @inheritdoc */
+    load(): Promise<Job<any>[]>;
+    /** @inheritdoc */
+    remove(id: string): Promise<any>;
+    /** @inheritdoc */
+    save(job: Job<any>): Promise<any>;
+}
+/**
+ * A queue, which processes jobs with workflows.
+ *
+ * Emits 'added', 'active', 'progress', 'completed', 'failed' (attempt failed), 'dead' (all attempts failed),
+ * 'drained' and 'error' (storage errors).
+ */
+export declare class JobQueue<T> extends Events.EventEmitter {
+    /**
+     * Stores the number of active jobs.
+     */
+    protected _active: number;
+    /**
+     * Stores the executors of the workflow, which processes a job.
+     */
+    protected _executors: Workflows.WorkflowExecutorType[];
+    /**
+     * Stores if the queue is paused or not.
+     */
+    protected _isPaused: boolean;
+    /**
+     * Stores if the queue has been started or not.
+     */
+    protected _isStarted: boolean;
+    /**
+     * Stores the jobs.
+     */
+    protected _jobs: Job<T>[];
+    /**
+     * Stores the options.
+     */
+    protected _options: JobQueueOptions;
+    /**
+     * Stores the storage.
+     */
+    protected _storage: JobStorage;
+    /**
+     * Stores the timer for delayed jobs.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {JobQueueOptions} [opts] The options.
+     */
+    constructor(opts?: JobQueueOptions);
+    /**
+     * Gets the number of active jobs.
+     */
+    readonly active: number;
+    /**
+     * Adds a new job.
+     *
+     * @param {T} payload The payload.
+     * @param {AddJobOptions} [opts] The options.
+     *
+     * @returns {Promise<Job<T>>} The promise with the new job.
+     */
+    add(payload: T, opts?: AddJobOptions): Promise<Job<T>>;
+    /**
+     * Stops processing new jobs.
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after all active jobs have been finished.
+     */
+    close(): Promise<any>;
+    /**
+     * Gets the jobs, where all attempts failed.
+     */
+    readonly deadLetters: Job<T>[];
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Handles a finished attempt of a job.
+     *
+     * @param {Job<T>} job The job.
+     * @param {any} err The error, if failed.
+     * @param {any} [result] The result.
+     */
+    protected finish(job: Job<T>, err: any, result?: any): void;
+    /**
+     * Returns a job by ID.
+     *
+     * @param {string} id The ID.
+     *
+     * @returns {Job<T>} The job or (undefined) if not found.
+     */
+    get(id: string): Job<T>;
+    /**
+     * Gets if the queue is paused or not.
+     */
+    readonly isPaused: boolean;
+    /**
+     * Gets a copy of the list of all jobs, which are not completed.
+     */
+    readonly jobs: Job<T>[];
+    /**
+     * Starts as many jobs as possible.
+     */
+    protected next(): void;
+    /**
+     * Pauses the queue. Active jobs are not interrupted.
+     *
+     * @chainable
+     */
+    pause(): this;
+    /**
+     * Defines the workflow, which processes the jobs, and starts the queue.
+     * 'ctx.value' of the first executor contains the job context and the result of the workflow is the result of the job.
+     *
+     * @param {...Workflows.WorkflowExecutorType[]} executors The executors.
+     *
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    process(...executors: Workflows.WorkflowExecutorType[]): Promise<this>;
+    /**
+     * Removes a job, which is not active.
+     *
+     * @param {string} id The ID of the job.
+     *
+     * @returns {Promise<boolean>} The promise with the value, which indicates if the job has been removed or not.
+     */
+    remove(id: string): Promise<boolean>;
+    /**
+     * Resumes the queue.
+     *
+     * @chainable
+     */
+    resume(): this;
+    /**
+     * Retries a job of the dead-letter list.
+     *
+     * @param {string} id The ID of the job.
+     *
+     * @returns {Promise<boolean>} The promise with the value, which indicates if the job has been requeued or not.
+     */
+    retry(id: string): Promise<boolean>;
+    /**
+     * Runs a job.
+     *
+     * @param {Job<T>} job The job.
+     */
+    protected run(job: Job<T>): void;
+    /**
+     * Loads the jobs from the storage and starts processing.
+     * Jobs, which were active when the queue stopped, are processed again.
+     *
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    start(): Promise<this>;
+    /**
+     * Gets the number of waiting jobs.
+     */
+    readonly waiting: number;
+}
+/**
+ * A job storage, which keeps the jobs in memory.
+ */
+export declare class MemoryJobStorage implements JobStorage {
+    /**
+     * Stores the serialized jobs.
+     */
+    protected _jobs: {
+        [id: string]: string;
+    };
+    /** @inheritdoc */
+    load(): Promise<Job<any>[]>;
+    /** @inheritdoc */
+    remove(id: string): Promise<any>;
+    /** @inheritdoc */
+    save(job: Job<any>): Promise<any>;
+}
+/**
+ * Creates a new job queue.
+ *
+ * @param {JobQueueOptions} [opts] The options.
+ *
+ * @returns {JobQueue<T>} The new queue.
+ */
+export declare function newJobQueue<T>(opts?: JobQueueOptions): JobQueue<T>;
@@ -0,0 +1,842 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as fs from 'fs';
+import { Lifecycle } from './lifecycle';
+import * as Moment from 'moment';
+import * as Path from 'path';
+import * as TB from './index';
+import * as Workflows from 'node-workflows';
+
+
+/**
+ * Options for adding a job.
+ */
+export interface AddJobOptions {
+    /**
+     * The time to wait before the job is processed, in milliseconds.
+     */
+    delay?: number;
+    /**
+     * The maximum number of attempts.
+     */
+    maxAttempts?: number;
+    /**
+     * The priority. Jobs with higher values are processed first. Default: 0
+     */
+    priority?: number;
+    /**
+     * The time the job should be processed.
+     */
+    runAt?: Moment.Moment | Date;
+}
+
+/**
+ * A job.
+ */
+export interface Job<T> {
+    /**
+     * The number of attempts.
+     */
+    attempts: number;
+    /**
+     * The time the job has been created (ISO 8601, UTC).
+     */
+    createdAt: string;
+    /**
+     * The last error message.
+     */
+    error?: string;
+    /**
+     * The ID.
+     */
+    id: string;
+    /**
+     * The maximum number of attempts.
+     */
+    maxAttempts: number;
+    /**
+     * The payload.
+     */
+    payload: T;
+    /**
+     * The priority.
+     */
+    priority: number;
+    /**
+     * The progress (0 - 100).
+     */
+    progress: number;
+    /**
+     * The time the job should be processed (ISO 8601, UTC).
+     */
+    runAt: string;
+    /**
+     * The status.
+     */
+    status: JobStatus;
+}
+
+/**
+ * The value of 'ctx.value' inside the workflow, which processes a job.
+ */
+export interface JobContext<T> {
+    /**
+     * The job.
+     */
+    job: Job<T>;
+    /**
+     * The payload of the job.
+     */
+    payload: T;
+    /**
+     * Updates the progress of the job.
+     * 
+     * @param {number} progress The progress (0 - 100).
+     */
+    progress: (progress: number) => void;
+}
+
+/**
+ * Options for a job queue.
+ */
+export interface JobQueueOptions {
+    /**
+     * The base delay before a failed job is retried, in milliseconds. Default: 1000
+     */
+    backoff?: number;
+    /**
+     * The factor, the delay is multiplied with after each attempt. Default: 2
+     */
+    backoffFactor?: number;
+    /**
+     * The maximum number of jobs, which are processed at the same time. Default: 1
+     */
+    concurrency?: number;
+    /**
+     * The default maximum number of attempts of a job. Default: 3
+     */
+    maxAttempts?: number;
+    /**
+     * The maximum delay before a failed job is retried, in milliseconds. Default: 3600000
+     */
+    maxBackoff?: number;
+    /**
+     * The storage. Default: in-memory
+     */
+    storage?: JobStorage;
+}
+
+/**
+ * Possible values for the status of a job.
+ * 
+ * 'active': currently processed
+ * 'failed': all attempts failed (dead letter)
+ * 'waiting': waits to be processed
+ */
+export type JobStatus = 'active' | 'failed' | 'waiting';
+
+/**
+ * A storage for jobs.
+ */
+export interface JobStorage {
+    /**
+     * Loads all jobs.
+     * 
+     * @returns {Promise<Job<any>[]>} The promise with the jobs.
+     */
+    load(): Promise<Job<any>[]>;
+    /**
+     * Removes a job.
+     * 
+     * @param {string} id The ID of the job.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    remove(id: string): Promise<any>;
+    /**
+     * Saves a job.
+     * 
+     * @param {Job<any>} job The job.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    save(job: Job<any>): Promise<any>;
+}
+
+
+/**
+ * A job storage, which stores each job as JSON file inside a directory.
+ */
+export class FileJobStorage implements JobStorage {
+    /**
+     * Stores the directory.
+     */
+    protected _dir: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} dir The directory.
+     */
+    constructor(dir: string) {
+        this._dir = Path.resolve(TB.toStringSafe(dir));
+    }
+
+    /**
+     * Gets the directory.
+     */
+    public get dir(): string {
+        return this._dir;
+    }
+
+    /**
+     * Returns the path of the file of a job.
+     * 
+     * @param {string} id The ID of the job.
+     * 
+     * @returns {string} The path.
+     */
+    protected getFile(id: string): string {
+        return Path.join(this._dir, encodeURIComponent(id) + '.json');
+    }
+
+    /** @inheritdoc */
+    public load(): Promise<Job<any>[]> {
+        let me = this;
+
+        return new Promise<Job<any>[]>((resolve, reject) => {
+            TB.mkdirs(me._dir).then(() => {
+                fs.readdir(me._dir, (err, files) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    try {
+                        resolve(files.filter(f => /\.json$/i.test(f)).map(f => {
+                            return TB.fromJSON<Job<any>>(fs.readFileSync(Path.join(me._dir, f), 'utf8'));
+                        }).filter(j => !!j));
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public remove(id: string): Promise<any> {
+        let file = this.getFile(id);
+
+        return new Promise<any>((resolve, reject) => {
+            fs.unlink(file, (err) => {
+                if (err && 'ENOENT' !== err.code) {
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public save(job: Job<any>): Promise<any> {
+        let me = this;
+
+        let file = me.getFile(job.id);
+        let data = JSON.stringify(job);
+
+        return new Promise<any>((resolve, reject) => {
+            TB.mkdirs(me._dir).then(() => {
+                // write to temp file first, so the file is never corrupted
+                let tempFile = file + '.tmp';
+
+                fs.writeFile(tempFile, data, 'utf8', (err) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    fs.rename(tempFile, file, TB.createSimpleCompletedAction(resolve, reject));
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+}
+
+/**
+ * A queue, which processes jobs with workflows.
+ * 
+ * Emits 'added', 'active', 'progress', 'completed', 'failed' (attempt failed), 'dead' (all attempts failed),
+ * 'drained' and 'error' (storage errors).
+ */
+export class JobQueue<T> extends Events.EventEmitter {
+    /**
+     * Stores the number of active jobs.
+     */
+    protected _active = 0;
+    /**
+     * Stores the executors of the workflow, which processes a job.
+     */
+    protected _executors: Workflows.WorkflowExecutorType[];
+    /**
+     * Stores if the queue is paused or not.
+     */
+    protected _isPaused = false;
+    /**
+     * Stores if the queue has been started or not.
+     */
+    protected _isStarted = false;
+    /**
+     * Stores the jobs.
+     */
+    protected _jobs: Job<T>[] = [];
+    /**
+     * Stores the options.
+     */
+    protected _options: JobQueueOptions;
+    /**
+     * Stores the storage.
+     */
+    protected _storage: JobStorage;
+    /**
+     * Stores the timer for delayed jobs.
+     */
+    protected _timer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {JobQueueOptions} [opts] The options.
+     */
+    constructor(opts?: JobQueueOptions) {
+        super();
+
+        this._options = opts || {};
+        this._storage = this._options.storage || new MemoryJobStorage();
+    }
+
+    /**
+     * Gets the number of active jobs.
+     */
+    public get active(): number {
+        return this._active;
+    }
+
+    /**
+     * Adds a new job.
+     * 
+     * @param {T} payload The payload.
+     * @param {AddJobOptions} [opts] The options.
+     * 
+     * @returns {Promise<Job<T>>} The promise with the new job.
+     */
+    public add(payload: T, opts?: AddJobOptions): Promise<Job<T>> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let now = TB.utcNow();
+
+        let runAt = now.clone();
+        if (opts.runAt) {
+            runAt = Moment(<any>opts.runAt).utc();
+        }
+        else if (!TB.isNullOrUndefined(opts.delay)) {
+            runAt.add(parseInt(TB.toStringSafe(opts.delay).trim()) || 0, 'ms');
+        }
+
+        let priority = parseInt(TB.toStringSafe(opts.priority).trim());
+        if (isNaN(priority)) {
+            priority = 0;
+        }
+
+        let job: Job<T> = {
+            attempts: 0,
+            createdAt: now.toISOString(),
+            id: TB.uuid(),
+            maxAttempts: getNumber(opts.maxAttempts, getNumber(me._options.maxAttempts, 3)),
+            payload: payload,
+            priority: priority,
+            progress: 0,
+            runAt: runAt.toISOString(),
+            status: 'waiting',
+        };
+
+        return new Promise<Job<T>>((resolve, reject) => {
+            me._storage.save(job).then(() => {
+                me._jobs.push(job);
+
+                me.emit('added', job);
+                me.next();
+
+                resolve(job);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Stops processing new jobs.
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after all active jobs have been finished.
+     */
+    public close(): Promise<any> {
+        let me = this;
+
+        me._isStarted = false;
+        clearTimeout(me._timer);
+
+        return new Promise<any>((resolve) => {
+            if (me._active < 1) {
+                resolve();
+                return;
+            }
+
+            me.once('idle', () => {
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Gets the jobs, where all attempts failed.
+     */
+    public get deadLetters(): Job<T>[] {
+        return this._jobs.filter(j => 'failed' === j.status);
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] JobQueue.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Handles a finished attempt of a job.
+     * 
+     * @param {Job<T>} job The job.
+     * @param {any} err The error, if failed.
+     * @param {any} [result] The result.
+     */
+    protected finish(job: Job<T>, err: any, result?: any) {
+        let me = this;
+
+        let afterSave = () => {
+            --me._active;
+
+            try {
+                if (!err) {
+                    me.emit('completed', job, result);
+                }
+                else {
+                    me.emit('failed', job, err);
+                    if ('failed' === job.status) {
+                        me.emit('dead', job, err);
+                    }
+                }
+
+                if (me._active < 1) {
+                    me.emit('idle');
+
+                    if (!me._jobs.some(j => 'waiting' === j.status)) {
+                        me.emit('drained');
+                    }
+                }
+            }
+            finally {
+                me.next();
+            }
+        };
+
+        let onStorageError = (e: any) => {
+            try {
+                me.emitError(e, 'finish');
+            }
+            finally {
+                afterSave();
+            }
+        };
+
+        if (!err) {
+            me._jobs.splice(me._jobs.indexOf(job), 1);
+            job.progress = 100;
+
+            me._storage.remove(job.id).then(afterSave, onStorageError);
+            return;
+        }
+
+        job.error = TB.toStringSafe(err.message || err);
+
+        if (job.attempts >= job.maxAttempts) {
+            job.status = 'failed';
+        }
+        else {
+            let backoff = getNumber(me._options.backoff, 1000);
+            let factor = getNumber(me._options.backoffFactor, 2);
+            let maxBackoff = getNumber(me._options.maxBackoff, 3600000);
+
+            job.runAt = TB.utcNow().add(Math.min(maxBackoff, backoff * Math.pow(factor, job.attempts - 1)), 'ms')
+                                   .toISOString();
+            job.status = 'waiting';
+        }
+
+        me._storage.save(job).then(afterSave, onStorageError);
+    }
+
+    /**
+     * Returns a job by ID.
+     * 
+     * @param {string} id The ID.
+     * 
+     * @returns {Job<T>} The job or (undefined) if not found.
+     */
+    public get(id: string): Job<T> {
+        return this._jobs.filter(j => j.id === id)[0];
+    }
+
+    /**
+     * Gets if the queue is paused or not.
+     */
+    public get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    /**
+     * Gets a copy of the list of all jobs, which are not completed.
+     */
+    public get jobs(): Job<T>[] {
+        return this._jobs.slice();
+    }
+
+    /**
+     * Starts as many jobs as possible.
+     */
+    protected next() {
+        let me = this;
+
+        clearTimeout(me._timer);
+        me._timer = null;
+
+        if (!me._isStarted || me._isPaused || !me._executors) {
+            return;
+        }
+
+        let concurrency = Math.max(1, getNumber(me._options.concurrency, 1));
+
+        while (me._active < concurrency) {
+            let now = Date.now();
+
+            let waiting = me._jobs.filter(j => 'waiting' === j.status);
+            let ready = waiting.filter(j => Moment.utc(j.runAt).valueOf() <= now);
+
+            if (ready.length < 1) {
+                if (waiting.length > 0) {
+                    // wait for the next delayed job
+                    let nextRun = Math.min.apply(null, waiting.map(j => Moment.utc(j.runAt).valueOf()));
+
+                    me._timer = setTimeout(() => {
+                        me.next();
+                    }, Math.min(2147483647, Math.max(0, nextRun - now)));
+                }
+
+                break;
+            }
+
+            // highest priority first, then the oldest one
+            ready.sort((x, y) => {
+                return (y.priority - x.priority) ||
+                       (Moment.utc(x.runAt).valueOf() - Moment.utc(y.runAt).valueOf()) ||
+                       (me._jobs.indexOf(x) - me._jobs.indexOf(y));
+            });
+
+            me.run(ready[0]);
+        }
+    }
+
+    /**
+     * Pauses the queue. Active jobs are not interrupted.
+     * 
+     * @chainable
+     */
+    public pause(): this {
+        this._isPaused = true;
+        clearTimeout(this._timer);
+
+        return this;
+    }
+
+    /**
+     * Defines the workflow, which processes the jobs, and starts the queue.
+     * 'ctx.value' of the first executor contains the job context and the result of the workflow is the result of the job.
+     * 
+     * @param {...Workflows.WorkflowExecutorType[]} executors The executors.
+     * 
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    public process(...executors: Workflows.WorkflowExecutorType[]): Promise<this> {
+        this._executors = executors;
+
+        return this.start();
+    }
+
+    /**
+     * Removes a job, which is not active.
+     * 
+     * @param {string} id The ID of the job.
+     * 
+     * @returns {Promise<boolean>} The promise with the value, which indicates if the job has been removed or not.
+     */
+    public remove(id: string): Promise<boolean> {
+        let me = this;
+
+        let job = me.get(id);
+        if (!job || 'active' === job.status) {
+            return Promise.resolve(false);
+        }
+
+        return new Promise<boolean>((resolve, reject) => {
+            me._storage.remove(id).then(() => {
+                me._jobs.splice(me._jobs.indexOf(job), 1);
+
+                resolve(true);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Resumes the queue.
+     * 
+     * @chainable
+     */
+    public resume(): this {
+        this._isPaused = false;
+        this.next();
+
+        return this;
+    }
+
+    /**
+     * Retries a job of the dead-letter list.
+     * 
+     * @param {string} id The ID of the job.
+     * 
+     * @returns {Promise<boolean>} The promise with the value, which indicates if the job has been requeued or not.
+     */
+    public retry(id: string): Promise<boolean> {
+        let me = this;
+
+        let job = me.get(id);
+        if (!job || 'failed' !== job.status) {
+            return Promise.resolve(false);
+        }
+
+        return new Promise<boolean>((resolve, reject) => {
+            job.attempts = 0;
+            job.runAt = TB.utcNow().toISOString();
+            job.status = 'waiting';
+
+            me._storage.save(job).then(() => {
+                me.next();
+
+                resolve(true);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Runs a job.
+     * 
+     * @param {Job<T>} job The job.
+     */
+    protected run(job: Job<T>) {
+        let me = this;
+
+        ++me._active;
+        ++job.attempts;
+        job.status = 'active';
+
+        me.emit('active', job);
+
+        let ctx: JobContext<T> = {
+            job: job,
+            payload: job.payload,
+            progress: (progress) => {
+                job.progress = Math.min(100, Math.max(0, parseFloat(TB.toStringSafe(progress).trim()) || 0));
+
+                me.emit('progress', job, job.progress);
+            },
+        };
+
+        let execute = () => {
+            try {
+                let workflow = TB.newWorkflow.apply(null, me._executors).start(ctx);
+                Lifecycle.addWorkflow(workflow);
+
+                workflow.then((result: any) => {
+                    me.finish(job, null, result);
+                }, (err: any) => {
+                    me.finish(job, err || new Error('Job failed!'));
+                });
+            }
+            catch (e) {
+                me.finish(job, e);
+            }
+        };
+
+        me._storage.save(job).then(execute, (err) => {
+            try {
+                me.emitError(err, 'run');
+            }
+            finally {
+                execute();
+            }
+        });
+    }
+
+    /**
+     * Loads the jobs from the storage and starts processing.
+     * Jobs, which were active when the queue stopped, are processed again.
+     * 
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    public start(): Promise<this> {
+        let me = this;
+
+        return new Promise<this>((resolve, reject) => {
+            if (me._isStarted) {
+                me.next();
+
+                resolve(me);
+                return;
+            }
+
+            me._storage.load().then((jobs) => {
+                // keep jobs, which have been added before
+                let ids = me._jobs.map(j => j.id);
+                jobs.filter(j => ids.indexOf(j.id) < 0).forEach(j => {
+                    if ('active' === j.status) {
+                        j.status = 'waiting';  // has been interrupted
+                    }
+
+                    me._jobs.push(j);
+                });
+
+                me._isStarted = true;
+                me.next();
+
+                resolve(me);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Gets the number of waiting jobs.
+     */
+    public get waiting(): number {
+        return this._jobs.filter(j => 'waiting' === j.status).length;
+    }
+}
+
+/**
+ * A job storage, which keeps the jobs in memory.
+ */
+export class MemoryJobStorage implements JobStorage {
+    /**
+     * Stores the serialized jobs.
+     */
+    protected _jobs: { [id: string]: string } = {};
+
+    /** @inheritdoc */
+    public load(): Promise<Job<any>[]> {
+        let me = this;
+
+        return Promise.resolve(Object.keys(me._jobs).map(id => {
+            return TB.fromJSON<Job<any>>(me._jobs[id]);
+        }));
+    }
+
+    /** @inheritdoc */
+    public remove(id: string): Promise<any> {
+        delete this._jobs[id];
+
+        return Promise.resolve();
+    }
+
+    /** @inheritdoc */
+    public save(job: Job<any>): Promise<any> {
+        this._jobs[job.id] = JSON.stringify(job);
+
+        return Promise.resolve();
+    }
+}
+
+
+function getNumber(val: any, defaultValue: number): number {
+    let n = parseFloat(TB.toStringSafe(val).trim());
+    if (isNaN(n)) {
+        n = defaultValue;
+    }
+
+    return n;
+}
+
+
+/**
+ * Creates a new job queue.
+ * 
+ * @param {JobQueueOptions} [opts] The options.
+ * 
+ * @returns {JobQueue<T>} The new queue.
+ */
+export function newJobQueue<T>(opts?: JobQueueOptions): JobQueue<T> {
+    return new JobQueue<T>(opts);
+}
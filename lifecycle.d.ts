@@ -0,0 +1,91 @@
+import * as Cron from 'cron';
+import * as Events from 'events';
+import * as net from 'net';
+import * as TB from './index';
+interface TrackedServer {
+    activeRequests: Map<net.Socket, number>;
+    isHttp: boolean;
+    server: net.Server;
+    sockets: net.Socket[];
+}
+/**
+ * Tracks servers, cron jobs and workflows and shuts them down gracefully.
+ */
+export declare class LifecycleManager extends Events.EventEmitter {
+    /**
+     * Stores the tracked cron jobs.
+     */
+    protected _crons: Cron.CronJob[];
+    /**
+     * Stores the tracked servers.
+     */
+    protected _servers: TrackedServer[];
+    /**
+     * Stores the promise of the current shutdown.
+     */
+    protected _shutdown: Promise<any>;
+    /**
+     * Stores the promises of the running workflows.
+     */
+    protected _workflows: PromiseLike<any>[];
+    /**
+     * Tracks a cron job.
+     *
+     * @param {Cron.CronJob} job The job.
+     *
+     * @chainable
+     */
+    addCron(job: Cron.CronJob): this;
+    /**
+     * Tracks a (listening) TCP, HTTP or HTTPS server.
+     *
+     * @param {net.Server} server The server.
+     *
+     * @chainable
+     */
+    addServer(server: net.Server): this;
+    /**
+     * Tracks a running workflow.
+     *
+     * @param {PromiseLike<any>} workflow The promise of the workflow.
+     *
+     * @chainable
+     */
+    addWorkflow(workflow: PromiseLike<any>): this;
+    /**
+     * Shuts down if the process receives one of the specified signals.
+     *
+     * @param {string|string[]} [signals] The signals. Default: SIGINT, SIGTERM
+     * @param {number} [timeout] The custom timeout for the shutdown, in milliseconds.
+     * @param {boolean} [exitProcess] Exit the process after shutdown or not. Default: (true)
+     *
+     * @chainable
+     */
+    handleSignals(signals?: string | string[], timeout?: number, exitProcess?: boolean): this;
+    /**
+     * Gets if a shutdown is currently running or not.
+     */
+    readonly isShuttingDown: boolean;
+    /**
+     * Stops tracking a cron job.
+     *
+     * @param {Cron.CronJob} job The job.
+     *
+     * @chainable
+     */
+    removeCron(job: Cron.CronJob): this;
+    /**
+     * Stops all tracked servers and cron jobs and waits for running requests and workflows.
+     * While a shutdown is running, the promise of that shutdown is returned.
+     *
+     * @param {number} [timeout] The maximum time to wait, in milliseconds. Default: 'DefaultShutdownTimeout'
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after everything has been closed.
+     */
+    shutdown(timeout?: number): Promise<any>;
+}
+/**
+ * The global lifecycle manager, which tracks everything that is started by the toolbox.
+ */
+export declare const Lifecycle: TB.LifecycleManager;
+export {};
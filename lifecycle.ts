@@ -0,0 +1,368 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Cron from 'cron';
+import * as Events from 'events';
+import * as http from 'http';
+import * as net from 'net';
+import * as TB from './index';
+import * as tls from 'tls';
+
+
+interface TrackedServer {
+    activeRequests: Map<net.Socket, number>;
+    isHttp: boolean;
+    server: net.Server;
+    sockets: net.Socket[];
+}
+
+
+/**
+ * Tracks servers, cron jobs and workflows and shuts them down gracefully.
+ */
+export class LifecycleManager extends Events.EventEmitter {
+    /**
+     * Stores the tracked cron jobs.
+     */
+    protected _crons: Cron.CronJob[] = [];
+    /**
+     * Stores the tracked servers.
+     */
+    protected _servers: TrackedServer[] = [];
+    /**
+     * Stores the promise of the current shutdown.
+     */
+    protected _shutdown: Promise<any>;
+    /**
+     * Stores the promises of the running workflows.
+     */
+    protected _workflows: PromiseLike<any>[] = [];
+
+    /**
+     * Tracks a cron job.
+     * 
+     * @param {Cron.CronJob} job The job.
+     * 
+     * @chainable
+     */
+    public addCron(job: Cron.CronJob): this {
+        if (job && this._crons.indexOf(job) < 0) {
+            this._crons.push(job);
+        }
+
+        return this;
+    }
+
+    /**
+     * Tracks a (listening) TCP, HTTP or HTTPS server.
+     * 
+     * @param {net.Server} server The server.
+     * 
+     * @chainable
+     */
+    public addServer(server: net.Server): this {
+        if (!server || this._servers.some(x => x.server === server)) {
+            return this;
+        }
+
+        let me = this;
+
+        let tracked: TrackedServer = {
+            activeRequests: new Map<net.Socket, number>(),
+            isHttp: false,
+            server: server,
+            sockets: [],
+        };
+
+        // TLS servers (like HTTPS) provide the socket
+        // of a request as 'secure' connection
+        let connectionEvent = server instanceof (<any>tls).Server ? 'secureConnection' : 'connection';
+        server.on(connectionEvent, (socket: net.Socket) => {
+            tracked.sockets.push(socket);
+
+            socket.once('close', () => {
+                let index = tracked.sockets.indexOf(socket);
+                if (index > -1) {
+                    tracked.sockets.splice(index, 1);
+                }
+
+                tracked.activeRequests.delete(socket);
+            });
+        });
+
+        server.on('request', (req: http.IncomingMessage, resp: http.ServerResponse) => {
+            tracked.isHttp = true;
+
+            let socket = req.socket;
+            tracked.activeRequests.set(socket, (tracked.activeRequests.get(socket) || 0) + 1);
+
+            if (me.isShuttingDown && !resp.headersSent) {
+                resp.setHeader('Connection', 'close');
+            }
+
+            let requestFinished = false;
+            let onFinished = () => {
+                if (requestFinished) {
+                    return;
+                }
+                requestFinished = true;
+
+                let active = (tracked.activeRequests.get(socket) || 1) - 1;
+                tracked.activeRequests.set(socket, active);
+
+                if (me.isShuttingDown && active < 1) {
+                    socket.destroy();
+                }
+            };
+
+            resp.once('finish', onFinished);
+            resp.once('close', onFinished);
+        });
+
+        server.once('close', () => {
+            let index = me._servers.indexOf(tracked);
+            if (index > -1) {
+                me._servers.splice(index, 1);
+            }
+        });
+
+        this._servers.push(tracked);
+        return this;
+    }
+
+    /**
+     * Tracks a running workflow.
+     * 
+     * @param {PromiseLike<any>} workflow The promise of the workflow.
+     * 
+     * @chainable
+     */
+    public addWorkflow(workflow: PromiseLike<any>): this {
+        if (!workflow) {
+            return this;
+        }
+
+        let me = this;
+        me._workflows.push(workflow);
+
+        let remove = () => {
+            let index = me._workflows.indexOf(workflow);
+            if (index > -1) {
+                me._workflows.splice(index, 1);
+            }
+        };
+
+        workflow.then(remove, remove);
+        return this;
+    }
+
+    /**
+     * Shuts down if the process receives one of the specified signals.
+     * 
+     * @param {string|string[]} [signals] The signals. Default: SIGINT, SIGTERM
+     * @param {number} [timeout] The custom timeout for the shutdown, in milliseconds.
+     * @param {boolean} [exitProcess] Exit the process after shutdown or not. Default: (true)
+     * 
+     * @chainable
+     */
+    public handleSignals(signals?: string | string[], timeout?: number, exitProcess = true): this {
+        let me = this;
+
+        let signalList = TB.asArray(signals).map(x => TB.toStringSafe(x).toUpperCase().trim())
+                                            .filter(x => '' !== x);
+        if (signalList.length < 1) {
+            signalList = [ 'SIGINT', 'SIGTERM' ];
+        }
+
+        signalList.forEach(s => {
+            process.once(<any>s, () => {
+                me.shutdown(timeout).then(() => {
+                    if (exitProcess) {
+                        process.exit(0);
+                    }
+                }, (err) => {
+                    console.log('[ERROR.ts-toolbox] LifecycleManager.handleSignals(): ' + err);
+
+                    if (exitProcess) {
+                        process.exit(1);
+                    }
+                });
+            });
+        });
+
+        return this;
+    }
+
+    /**
+     * Gets if a shutdown is currently running or not.
+     */
+    public get isShuttingDown(): boolean {
+        return !!this._shutdown;
+    }
+
+    /**
+     * Stops tracking a cron job.
+     * 
+     * @param {Cron.CronJob} job The job.
+     * 
+     * @chainable
+     */
+    public removeCron(job: Cron.CronJob): this {
+        let index = this._crons.indexOf(job);
+        if (index > -1) {
+            this._crons.splice(index, 1);
+        }
+
+        return this;
+    }
+
+    /**
+     * Stops all tracked servers and cron jobs and waits for running requests and workflows.
+     * While a shutdown is running, the promise of that shutdown is returned.
+     * 
+     * @param {number} [timeout] The maximum time to wait, in milliseconds. Default: 'DefaultShutdownTimeout'
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after everything has been closed.
+     */
+    public shutdown(timeout?: number): Promise<any> {
+        let me = this;
+
+        if (me._shutdown) {
+            return me._shutdown;
+        }
+
+        timeout = parseInt(TB.toStringSafe(timeout).trim());
+        if (isNaN(timeout)) {
+            timeout = parseInt(TB.toStringSafe(TB.DefaultShutdownTimeout).trim());
+        }
+
+        let shutdown = new Promise<any>((resolve, reject) => {
+            try {
+                me.emit('shutdown');
+
+                // crons
+                me._crons.splice(0).forEach(job => {
+                    try {
+                        job.stop();
+                    }
+                    catch (e) {
+                        console.log('[ERROR.ts-toolbox] LifecycleManager.shutdown(): ' + e);
+                    }
+                });
+
+                let timer: NodeJS.Timer;
+                let timedOut = new Promise<any>((resolve) => {
+                    if (timeout >= 0) {
+                        timer = setTimeout(() => {
+                            // force all remaining connections to close
+                            me._servers.forEach(s => {
+                                s.sockets.forEach(x => x.destroy());
+                            });
+
+                            resolve();
+                        }, timeout);
+                    }
+                });
+
+                let serversClosed = Promise.all(me._servers.slice().map(s => closeServer(s)));
+                let workflowsFinished = Promise.all(me._workflows.map(w => waitForWorkflow(w)));
+
+                Promise.race([ Promise.all([ serversClosed, workflowsFinished ]), timedOut ]).then(() => {
+                    // after a timeout all connections have been destroyed,
+                    // so the servers will be closed soon
+                    return serversClosed;
+                }).then(() => {
+                    if (timer) {
+                        clearTimeout(timer);
+                    }
+
+                    me.emit('closed');
+                    resolve();
+                }, (err) => {
+                    if (timer) {
+                        clearTimeout(timer);
+                    }
+
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+
+        // allow new shutdowns, after the current one has been finished
+        let reset = () => {
+            if (me._shutdown === shutdown) {
+                me._shutdown = null;
+            }
+        };
+
+        me._shutdown = shutdown;
+        shutdown.then(reset, reset);
+
+        return shutdown;
+    }
+}
+
+
+function closeServer(tracked: TrackedServer): Promise<any> {
+    return new Promise<any>((resolve) => {
+        try {
+            tracked.server.close(() => {
+                resolve();
+            });
+
+            // close idle keep-alive connections
+            // of HTTP servers immediately
+            if (tracked.isHttp) {
+                tracked.sockets.forEach(s => {
+                    if ((tracked.activeRequests.get(s) || 0) < 1) {
+                        s.destroy();
+                    }
+                });
+            }
+        }
+        catch (e) {
+            // not running
+            resolve();
+        }
+    });
+}
+
+function waitForWorkflow(workflow: PromiseLike<any>): Promise<any> {
+    return new Promise<any>((resolve) => {
+        workflow.then(() => {
+            resolve();
+        }, () => {
+            resolve();
+        });
+    });
+}
+
+
+/**
+ * The global lifecycle manager, which tracks everything that is started by the toolbox.
+ */
+export const Lifecycle = new LifecycleManager();
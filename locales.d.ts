@@ -0,0 +1,241 @@
+import * as Events from 'events';
+import * as http from 'http';
+import * as i18next from 'i18next';
+import * as Routing from './routing';
+import * as TB from './index';
+/**
+ * The translation context for a language.
+ */
+export interface LocaleContext {
+    /**
+     * Checks if a key can be translated.
+     *
+     * @param {string} key The key.
+     * @param {i18next.TranslationOptions} [opts] The options.
+     *
+     * @returns {boolean} Exists or not.
+     */
+    readonly exists: (key: string, opts?: i18next.TranslationOptions) => boolean;
+    /**
+     * The language.
+     */
+    readonly language: string;
+    /**
+     * The languages, which are used for translating, with the fallbacks.
+     */
+    readonly languages: string[];
+    /**
+     * Translates a key.
+     */
+    readonly t: i18next.TranslationFunction;
+}
+/**
+ * Options for a 'LocaleManager'.
+ */
+export interface LocaleManagerOptions {
+    /**
+     * The default namespace, which is also used for files like 'de.json'. Default: translation
+     */
+    defaultNS?: string;
+    /**
+     * The time to wait for further file changes, before reloading, in milliseconds. Default: 100
+     */
+    delay?: number;
+    /**
+     * The directory with the resource files.
+     * Files are named like '<language>.json' or '<language>/<namespace>.json'.
+     */
+    dir: string;
+    /**
+     * The fallback language(s). Default: en
+     */
+    fallbackLng?: i18next.FallbackLng;
+    /**
+     * Additional options for i18next.
+     */
+    i18n?: i18next.Options;
+    /**
+     * The pattern of the resource files (s. 'glob()'). Default: **\/*.json
+     */
+    pattern?: string;
+    /**
+     * Reload the resources, if files change, or not. Default: (false)
+     */
+    watch?: boolean;
+}
+/**
+ * Missing and unused keys of a 'LocaleManager'.
+ * Keys are formatted like '<namespace>:<key>'.
+ */
+export interface TranslationReport {
+    /**
+     * The keys, which exist in other languages, but not in the language, by language.
+     */
+    missing: {
+        [language: string]: string[];
+    };
+    /**
+     * The keys, which have never been translated since the resources have been loaded.
+     */
+    unused: string[];
+}
+/**
+ * Loads resource bundles from a directory and provides isolated translation contexts.
+ *
+ * Emits 'reloaded', after the files have been changed and reloaded, and 'error'.
+ * If a changed file cannot be loaded, the previous resources are kept.
+ */
+export declare class LocaleManager extends Events.EventEmitter {
+    /**
+     * Stores the i18next instance.
+     */
+    protected _i18n: i18next.I18n;
+    /**
+     * Stores if the manager has been closed or not.
+     */
+    protected _isClosed: boolean;
+    /**
+     * Stores the queue of load operations.
+     */
+    protected _loadQueue: Promise<any>;
+    /**
+     * Stores the options.
+     */
+    protected _options: LocaleManagerOptions;
+    /**
+     * Stores the loaded resources.
+     */
+    protected _resources: i18next.ResourceStore;
+    /**
+     * Stores the translated keys.
+     */
+    protected _usedKeys: {
+        [key: string]: boolean;
+    };
+    /**
+     * Stores the file watcher.
+     */
+    protected _watcher: TB.FileWatcher;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {LocaleManagerOptions} opts The options.
+     */
+    constructor(opts: LocaleManagerOptions);
+    /**
+     * Stops watching the resource files.
+     * Later calls of 'load()' do not start watching again.
+     */
+    close(): void;
+    /**
+     * Gets the default namespace.
+     */
+    readonly defaultNS: string;
+    /**
+     * Gets the full path of the resource directory.
+     */
+    readonly dir: string;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Returns a translation context for a language.
+     *
+     * @param {string} [lng] The language. Default: the first fallback language
+     *
+     * @returns {LocaleContext} The context.
+     */
+    forLanguage(lng?: string): LocaleContext;
+    /**
+     * Returns a translation context for a HTTP request, by the 'Accept-Language' header.
+     *
+     * @param {http.IncomingMessage} req The request.
+     *
+     * @returns {LocaleContext} The context.
+     */
+    forRequest(req: http.IncomingMessage): LocaleContext;
+    /**
+     * Gets the loaded languages.
+     */
+    readonly languages: string[];
+    /**
+     * (Re)loads the resource files.
+     *
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    load(): Promise<this>;
+    /**
+     * Loads the resource files.
+     *
+     * @returns {Promise<i18next.ResourceStore>} The promise with the resources.
+     */
+    protected loadResources(): Promise<i18next.ResourceStore>;
+    /**
+     * Marks a key as translated.
+     *
+     * @param {string} key The key.
+     * @param {i18next.TranslationOptions} [opts] The options of the translation.
+     */
+    protected markAsUsed(key: string, opts?: i18next.TranslationOptions): void;
+    /**
+     * Creates a middleware, which sets 'ctx.i18n' by the 'Accept-Language' header
+     * and the 'Content-Language' header of the response.
+     *
+     * @returns {Routing.HttpMiddleware} The new middleware.
+     */
+    middleware(): Routing.HttpMiddleware;
+    /**
+     * Finds the best loaded language.
+     *
+     * @param {string} [acceptLanguage] One or more language, like the value of an 'Accept-Language' header.
+     *
+     * @returns {string} The language.
+     */
+    negotiate(acceptLanguage?: string): string;
+    /**
+     * Gets the pattern of the resource files.
+     */
+    readonly pattern: string;
+    /**
+     * Creates a report of missing and unused keys.
+     *
+     * @returns {TranslationReport} The report.
+     */
+    report(): TranslationReport;
+    /**
+     * Starts watching the resource files.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected startWatching(): Promise<any>;
+    /**
+     * Updates the resources of the i18next instance.
+     *
+     * @param {i18next.ResourceStore} resources The new resources.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected updateResources(resources: i18next.ResourceStore): Promise<any>;
+    /**
+     * Returns a copy of translation options with a language.
+     *
+     * @param {i18next.TranslationOptions} opts The options.
+     * @param {string} lng The language.
+     *
+     * @returns {i18next.TranslationOptions} The new options.
+     */
+    protected withLanguage(opts: i18next.TranslationOptions, lng: string): i18next.TranslationOptions;
+}
+/**
+ * Creates a new locale manager and loads the resource files.
+ *
+ * @param {LocaleManagerOptions} opts The options.
+ *
+ * @returns {Promise<LocaleManager>} The promise with the new manager.
+ */
+export declare function loadLocales(opts: LocaleManagerOptions): Promise<LocaleManager>;
@@ -0,0 +1,631 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as http from 'http';
+import * as i18next from 'i18next';
+import * as Path from 'path';
+import * as Routing from './routing';
+import * as TB from './index';
+
+
+/**
+ * The translation context for a language.
+ */
+export interface LocaleContext {
+    /**
+     * Checks if a key can be translated.
+     * 
+     * @param {string} key The key.
+     * @param {i18next.TranslationOptions} [opts] The options.
+     * 
+     * @returns {boolean} Exists or not.
+     */
+    readonly exists: (key: string, opts?: i18next.TranslationOptions) => boolean;
+    /**
+     * The language.
+     */
+    readonly language: string;
+    /**
+     * The languages, which are used for translating, with the fallbacks.
+     */
+    readonly languages: string[];
+    /**
+     * Translates a key.
+     */
+    readonly t: i18next.TranslationFunction;
+}
+
+/**
+ * Options for a 'LocaleManager'.
+ */
+export interface LocaleManagerOptions {
+    /**
+     * The default namespace, which is also used for files like 'de.json'. Default: translation
+     */
+    defaultNS?: string;
+    /**
+     * The time to wait for further file changes, before reloading, in milliseconds. Default: 100
+     */
+    delay?: number;
+    /**
+     * The directory with the resource files.
+     * Files are named like '<language>.json' or '<language>/<namespace>.json'.
+     */
+    dir: string;
+    /**
+     * The fallback language(s). Default: en
+     */
+    fallbackLng?: i18next.FallbackLng;
+    /**
+     * Additional options for i18next.
+     */
+    i18n?: i18next.Options;
+    /**
+     * The pattern of the resource files (s. 'glob()'). Default: **\/*.json
+     */
+    pattern?: string;
+    /**
+     * Reload the resources, if files change, or not. Default: (false)
+     */
+    watch?: boolean;
+}
+
+/**
+ * Missing and unused keys of a 'LocaleManager'.
+ * Keys are formatted like '<namespace>:<key>'.
+ */
+export interface TranslationReport {
+    /**
+     * The keys, which exist in other languages, but not in the language, by language.
+     */
+    missing: { [language: string]: string[] };
+    /**
+     * The keys, which have never been translated since the resources have been loaded.
+     */
+    unused: string[];
+}
+
+
+/**
+ * Loads resource bundles from a directory and provides isolated translation contexts.
+ * 
+ * Emits 'reloaded', after the files have been changed and reloaded, and 'error'.
+ * If a changed file cannot be loaded, the previous resources are kept.
+ */
+export class LocaleManager extends Events.EventEmitter {
+    /**
+     * Stores the i18next instance.
+     */
+    protected _i18n: i18next.I18n;
+    /**
+     * Stores if the manager has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores the queue of load operations.
+     */
+    protected _loadQueue: Promise<any> = Promise.resolve();
+    /**
+     * Stores the options.
+     */
+    protected _options: LocaleManagerOptions;
+    /**
+     * Stores the loaded resources.
+     */
+    protected _resources: i18next.ResourceStore = {};
+    /**
+     * Stores the translated keys.
+     */
+    protected _usedKeys: { [key: string]: boolean } = {};
+    /**
+     * Stores the file watcher.
+     */
+    protected _watcher: TB.FileWatcher;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {LocaleManagerOptions} opts The options.
+     */
+    constructor(opts: LocaleManagerOptions) {
+        super();
+
+        this._options = opts;
+    }
+
+    /**
+     * Stops watching the resource files.
+     * Later calls of 'load()' do not start watching again.
+     */
+    public close() {
+        this._isClosed = true;
+
+        if (this._watcher) {
+            this._watcher.close();
+            this._watcher = null;
+        }
+    }
+
+    /**
+     * Gets the default namespace.
+     */
+    public get defaultNS(): string {
+        let ns = TB.toStringSafe(this._options.defaultNS).trim();
+        if ('' === ns) {
+            ns = 'translation';
+        }
+
+        return ns;
+    }
+
+    /**
+     * Gets the full path of the resource directory.
+     */
+    public get dir(): string {
+        return Path.resolve(TB.toStringSafe(this._options.dir));
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] LocaleManager.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Returns a translation context for a language.
+     * 
+     * @param {string} [lng] The language. Default: the first fallback language
+     * 
+     * @returns {LocaleContext} The context.
+     */
+    public forLanguage(lng?: string): LocaleContext {
+        let me = this;
+
+        if (!me._i18n) {
+            throw new Error('Resources have not been loaded yet!');
+        }
+
+        lng = me.negotiate(lng);
+
+        let i18n: any = me._i18n;
+        let fixedT = me._i18n.getFixedT(lng);
+
+        let languages: string[] = [ lng ];
+        if (i18n.services && i18n.services.languageUtils) {
+            languages = i18n.services.languageUtils.toResolveHierarchy(lng);
+        }
+
+        return {
+            exists: (key, opts) => {
+                return me._i18n.exists(key, me.withLanguage(opts, lng));
+            },
+            language: lng,
+            languages: languages,
+            t: (key, opts) => {
+                me.markAsUsed(key, opts);
+
+                return fixedT(key, opts);
+            },
+        };
+    }
+
+    /**
+     * Returns a translation context for a HTTP request, by the 'Accept-Language' header.
+     * 
+     * @param {http.IncomingMessage} req The request.
+     * 
+     * @returns {LocaleContext} The context.
+     */
+    public forRequest(req: http.IncomingMessage): LocaleContext {
+        return this.forLanguage(TB.toStringSafe(req.headers['accept-language']));
+    }
+
+    /**
+     * Gets the loaded languages.
+     */
+    public get languages(): string[] {
+        return Object.keys(this._resources).sort();
+    }
+
+    /**
+     * (Re)loads the resource files.
+     * 
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    public load(): Promise<this> {
+        let me = this;
+
+        me._loadQueue = me._loadQueue.catch(() => { }).then(() => {
+            return me.loadResources();
+        }).then((resources) => {
+            return me.updateResources(resources);
+        }).then(() => {
+            if (TB.toBooleanSafe(me._options.watch) && !me._watcher && !me._isClosed) {
+                return me.startWatching();
+            }
+        }).then(() => {
+            return me;
+        });
+
+        return me._loadQueue;
+    }
+
+    /**
+     * Loads the resource files.
+     * 
+     * @returns {Promise<i18next.ResourceStore>} The promise with the resources.
+     */
+    protected loadResources(): Promise<i18next.ResourceStore> {
+        let me = this;
+
+        let dir = me.dir;
+        let resources: i18next.ResourceStore = {};
+
+        return TB.glob(me.pattern, {
+            cwd: dir,
+            nodir: true,
+        }).then((files) => {
+            return TB.eachSeries(files.sort(), (f) => {
+                let parts = f.split('\\').join('/')
+                             .replace(/\.json$/i, '')
+                             .split('/');
+
+                let lng = parts[0];
+                let ns = parts.length > 1 ? parts.slice(1).join('/') : me.defaultNS;
+
+                return TB.readJSON<any>(Path.join(dir, f), 'auto').then((data) => {
+                    let languageResources = resources[lng] = resources[lng] || {};
+                    languageResources[ns] = data || {};
+                });
+            });
+        }).then(() => {
+            return resources;
+        });
+    }
+
+    /**
+     * Marks a key as translated.
+     * 
+     * @param {string} key The key.
+     * @param {i18next.TranslationOptions} [opts] The options of the translation.
+     */
+    protected markAsUsed(key: string, opts?: i18next.TranslationOptions) {
+        key = TB.toStringSafe(key);
+
+        let nsSeparator: string;
+        if (false !== this._i18n.options.nsSeparator) {
+            nsSeparator = TB.toStringSafe(this._i18n.options.nsSeparator, ':');
+        }
+        let ns = TB.asArray(opts && opts.ns)[0] || this.defaultNS;
+
+        let index = nsSeparator ? key.indexOf(nsSeparator) : -1;
+        if (index > -1) {
+            ns = key.substr(0, index);
+            key = key.substr(index + nsSeparator.length);
+        }
+
+        this._usedKeys[ns + ':' + key] = true;
+    }
+
+    /**
+     * Creates a middleware, which sets 'ctx.i18n' by the 'Accept-Language' header
+     * and the 'Content-Language' header of the response.
+     * 
+     * @returns {Routing.HttpMiddleware} The new middleware.
+     */
+    public middleware(): Routing.HttpMiddleware {
+        let me = this;
+
+        return (ctx, next) => {
+            ctx.i18n = me.forRequest(ctx.request);
+
+            if (!ctx.response.headersSent) {
+                ctx.response.setHeader('Content-Language', ctx.i18n.language);
+            }
+
+            return next();
+        };
+    }
+
+    /**
+     * Finds the best loaded language.
+     * 
+     * @param {string} [acceptLanguage] One or more language, like the value of an 'Accept-Language' header.
+     * 
+     * @returns {string} The language.
+     */
+    public negotiate(acceptLanguage?: string): string {
+        let languages = this.languages;
+        let normalized = languages.map(l => TB.normalizeString(l));
+
+        let requested = parseAcceptLanguage(acceptLanguage);
+        for (let i = 0; i < requested.length; i++) {
+            let lng = requested[i];
+            let base = lng.split('-')[0];
+
+            // exact => base language ('de-AT' => 'de') => same base language ('de' => 'de-DE')
+            let index = normalized.indexOf(lng);
+            if (index < 0) {
+                index = normalized.indexOf(base);
+            }
+            if (index < 0) {
+                index = normalized.findIndex(l => l.split('-')[0] === base);
+            }
+
+            if (index > -1) {
+                return languages[index];
+            }
+        }
+
+        let fallbacks = getFallbackLanguages(this._options.fallbackLng);
+        return fallbacks.length > 0 ? fallbacks[0] : (languages[0] || 'en');
+    }
+
+    /**
+     * Gets the pattern of the resource files.
+     */
+    public get pattern(): string {
+        let pattern = TB.toStringSafe(this._options.pattern).trim();
+        if ('' === pattern) {
+            pattern = '**/*.json';
+        }
+
+        return pattern;
+    }
+
+    /**
+     * Creates a report of missing and unused keys.
+     * 
+     * @returns {TranslationReport} The report.
+     */
+    public report(): TranslationReport {
+        let me = this;
+
+        let keysByLanguage: { [language: string]: string[] } = {};
+        let allKeys: string[] = [];
+
+        me.languages.forEach(lng => {
+            let keys: string[] = [];
+
+            let namespaces = me._resources[lng];
+            Object.keys(namespaces).forEach(ns => {
+                keys = keys.concat(flattenKeys(namespaces[ns]).map(k => ns + ':' + k));
+            });
+
+            keysByLanguage[lng] = keys;
+            allKeys = allKeys.concat(keys);
+        });
+
+        allKeys = TB.distinctArray(allKeys).sort();
+
+        let report: TranslationReport = {
+            missing: {},
+            unused: allKeys.filter(k => !me._usedKeys[k]),
+        };
+
+        me.languages.forEach(lng => {
+            let keys = keysByLanguage[lng];
+            report.missing[lng] = allKeys.filter(k => keys.indexOf(k) < 0);
+        });
+
+        return report;
+    }
+
+    /**
+     * Starts watching the resource files.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected startWatching(): Promise<any> {
+        let me = this;
+
+        return TB.watch(me.dir, {
+            delay: me._options.delay,
+            include: me.pattern,
+            onlyFiles: true,
+        }).then((watcher) => {
+            if (me._isClosed) {
+                // closed while the watcher was started
+                watcher.close();
+                return;
+            }
+
+            me._watcher = watcher;
+
+            let reload = () => {
+                me.load().then(() => {
+                    me.emit('reloaded');
+                }, (err) => {
+                    me.emitError(err, 'load');
+                });
+            };
+
+            watcher.on('add', reload);
+            watcher.on('change', reload);
+            watcher.on('unlink', reload);
+            watcher.on('error', (err: any) => {
+                me.emitError(err, 'startWatching');
+            });
+        });
+    }
+
+    /**
+     * Updates the resources of the i18next instance.
+     * 
+     * @param {i18next.ResourceStore} resources The new resources.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected updateResources(resources: i18next.ResourceStore): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            try {
+                if (me._i18n) {
+                    let i18n: any = me._i18n;
+
+                    Object.keys(me._resources).forEach(lng => {
+                        Object.keys(me._resources[lng]).forEach(ns => {
+                            i18n.removeResourceBundle(lng, ns);
+                        });
+                    });
+
+                    Object.keys(resources).forEach(lng => {
+                        Object.keys(resources[lng]).forEach(ns => {
+                            i18n.addResourceBundle(lng, ns, resources[lng][ns], true, true);
+                        });
+                    });
+
+                    me._resources = resources;
+                    resolve();
+
+                    return;
+                }
+
+                let opts: i18next.Options = {};
+                for (let p in me._options.i18n || {}) {
+                    (<any>opts)[p] = (<any>me._options.i18n)[p];
+                }
+
+                opts.defaultNS = me.defaultNS;
+                opts.fallbackLng = TB.isNullOrUndefined(me._options.fallbackLng) ? 'en' : me._options.fallbackLng;
+                opts.resources = resources;
+
+                let namespaces: string[] = [];
+                Object.keys(resources).forEach(lng => {
+                    namespaces = namespaces.concat(Object.keys(resources[lng]));
+                });
+                opts.ns = TB.distinctArray(namespaces.concat([ me.defaultNS ]));
+
+                me._resources = resources;
+                me._i18n = i18next.createInstance();
+                me._i18n.init(opts, (err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Returns a copy of translation options with a language.
+     * 
+     * @param {i18next.TranslationOptions} opts The options.
+     * @param {string} lng The language.
+     * 
+     * @returns {i18next.TranslationOptions} The new options.
+     */
+    protected withLanguage(opts: i18next.TranslationOptions, lng: string): i18next.TranslationOptions {
+        let result: i18next.TranslationOptions = {};
+        for (let p in opts || {}) {
+            result[p] = opts[p];
+        }
+
+        result.lng = lng;
+
+        return result;
+    }
+}
+
+
+function flattenKeys(obj: any, prefix = ''): string[] {
+    let keys: string[] = [];
+
+    Object.keys(obj || {}).forEach(k => {
+        let value = obj[k];
+
+        if (value && 'object' === typeof value && !Array.isArray(value)) {
+            keys = keys.concat(flattenKeys(value, prefix + k + '.'));
+        }
+        else {
+            keys.push(prefix + k);
+        }
+    });
+
+    return keys;
+}
+
+function getFallbackLanguages(fallbackLng: i18next.FallbackLng): string[] {
+    if (TB.isNullOrUndefined(fallbackLng)) {
+        return [ 'en' ];
+    }
+
+    if ('string' === typeof fallbackLng || Array.isArray(fallbackLng)) {
+        return TB.asArray(<string | string[]>fallbackLng);
+    }
+
+    return TB.asArray((<i18next.FallbackLngObjList>fallbackLng)['default']);
+}
+
+function parseAcceptLanguage(acceptLanguage: string): string[] {
+    return TB.toStringSafe(acceptLanguage).split(',').map((part, i) => {
+        let params = part.split(';');
+
+        let q = 1;
+        params.slice(1).forEach(p => {
+            let match = /^\s*q\s*=\s*([0-9.]+)\s*$/i.exec(p);
+            if (match) {
+                q = parseFloat(match[1]);
+            }
+        });
+
+        return {
+            index: i,
+            language: TB.normalizeString(params[0]).replace(/_/g, '-'),
+            q: isNaN(q) ? 0 : q,
+        };
+    }).filter(x => '' !== x.language && '*' !== x.language && x.q > 0)
+      .sort((x, y) => (y.q - x.q) || (x.index - y.index))
+      .map(x => x.language);
+}
+
+
+/**
+ * Creates a new locale manager and loads the resource files.
+ * 
+ * @param {LocaleManagerOptions} opts The options.
+ * 
+ * @returns {Promise<LocaleManager>} The promise with the new manager.
+ */
+export function loadLocales(opts: LocaleManagerOptions): Promise<LocaleManager> {
+    return new LocaleManager(opts).load();
+}
@@ -0,0 +1,321 @@
+import * as BodyParser from './bodyparser';
+import * as http from 'http';
+import * as Locales from './locales';
+/**
+ * Handles an error, which occurred while a request was handled.
+ *
+ * @param {any} err The error.
+ * @param {HttpRequestContext} ctx The request context.
+ *
+ * @returns {any} The result.
+ */
+export declare type HttpErrorHandler = (err: any, ctx: HttpRequestContext) => any;
+/**
+ * A middleware (or route handler) of a HTTP router.
+ *
+ * @param {HttpRequestContext} ctx The request context.
+ * @param {HttpNextFunction} next Invokes the next middleware / handler in the chain.
+ *
+ * @returns {any} The result, which can also be a promise.
+ */
+export declare type HttpMiddleware = (ctx: HttpRequestContext, next: HttpNextFunction) => any;
+/**
+ * Invokes the next middleware / handler in a chain.
+ *
+ * @returns {Promise<any>} The promise, which is fulfilled after the rest of the chain has been executed.
+ */
+export declare type HttpNextFunction = () => Promise<any>;
+/**
+ * A HTTP request listener.
+ *
+ * @param {http.IncomingMessage} req The request.
+ * @param {http.ServerResponse} resp The response.
+ */
+export declare type HttpRequestListener = (req: http.IncomingMessage, resp: http.ServerResponse) => void;
+/**
+ * A HTTP request context.
+ */
+export interface HttpRequestContext {
+    /**
+     * The parsed body, if a body parser has been used.
+     */
+    body?: any;
+    /**
+     * The uploaded files, if the multipart body parser has been used.
+     */
+    files?: BodyParser.UploadedFile[];
+    /**
+     * Sends HTML content.
+     *
+     * @param {any} content The content.
+     * @param {number} [statusCode] The custom status code.
+     * @param {boolean} [encode] Encode the content with 'htmlEncode()' or not. Default: (false)
+     */
+    readonly html: (content: any, statusCode?: number, encode?: boolean) => void;
+    /**
+     * The translation context, if the middleware of a 'LocaleManager' has been used.
+     */
+    i18n?: Locales.LocaleContext;
+    /**
+     * Sends data as JSON.
+     *
+     * @param {any} data The data.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly json: (data: any, statusCode?: number) => void;
+    /**
+     * The upper case HTTP method.
+     */
+    readonly method: string;
+    /**
+     * The path parameters of the current route.
+     */
+    readonly params: HttpRequestParameters;
+    /**
+     * The (decoded) path of the request.
+     */
+    readonly path: string;
+    /**
+     * The parsed query parameters.
+     */
+    readonly query: HttpRequestQuery;
+    /**
+     * Redirects to another location.
+     *
+     * @param {string} url The target URL.
+     * @param {number} [statusCode] The custom status code. Default: 302
+     */
+    readonly redirect: (url: string, statusCode?: number) => void;
+    /**
+     * The underlying request.
+     */
+    readonly request: http.IncomingMessage;
+    /**
+     * The underlying response.
+     */
+    readonly response: http.ServerResponse;
+    /**
+     * The router that handles the request.
+     */
+    readonly router: HttpRouter;
+    /**
+     * Sends data.
+     *
+     * @param {any} data The data to send.
+     * @param {string} [contentType] The custom content type or a filename / extension to detect it from.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly send: (data: any, contentType?: string, statusCode?: number) => void;
+    /**
+     * Stores data, which is shared between middlewares and handlers.
+     */
+    state: any;
+    /**
+     * Sets the status code of the response.
+     *
+     * @param {number} statusCode The status code.
+     *
+     * @chainable
+     */
+    readonly status: (statusCode: number) => HttpRequestContext;
+    /**
+     * Sends data as plain text.
+     *
+     * @param {any} data The data.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly text: (data: any, statusCode?: number) => void;
+    /**
+     * Sets the content type of the response.
+     *
+     * @param {string} typeOrFilename The MIME type or a filename / extension to detect it from.
+     *
+     * @chainable
+     */
+    readonly type: (typeOrFilename: string) => HttpRequestContext;
+}
+/**
+ * Path parameters.
+ */
+export declare type HttpRequestParameters = {
+    [name: string]: string;
+};
+/**
+ * Query parameters.
+ */
+export declare type HttpRequestQuery = {
+    [name: string]: string | string[];
+};
+interface RouterLayer {
+    handler: HttpMiddleware;
+    keys: string[];
+    method: string;
+    regex: RegExp;
+}
+/**
+ * A HTTP router with an (async) middleware pipeline.
+ */
+export declare class HttpRouter {
+    /**
+     * Stores the error handler.
+     */
+    protected _errorHandler: HttpErrorHandler;
+    /**
+     * Stores the layers (middlewares and routes) in the order they were registered.
+     */
+    protected _layers: RouterLayer[];
+    /**
+     * Stores the handler for requests, which were not handled.
+     */
+    protected _notFoundHandler: HttpMiddleware;
+    /**
+     * Stores the path prefix.
+     */
+    protected _prefix: string;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [prefix] The path prefix for all routes of that router.
+     */
+    constructor(prefix?: string);
+    /**
+     * Adds one or more handlers for all HTTP methods.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    all(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Adds one or more handlers for DELETE requests.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    delete(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Gets or sets the handler for errors, which are thrown by middlewares and routes.
+     */
+    errorHandler: HttpErrorHandler;
+    /**
+     * Adds one or more handlers for GET (and HEAD) requests.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    get(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Creates a new group of routes, which share a path prefix.
+     *
+     * @param {string} prefix The prefix, relative to the prefix of that router.
+     * @param {(group: HttpRouter) => void} [setup] The optional function that sets up the group.
+     *
+     * @returns {HttpRouter} The router of the new group.
+     */
+    group(prefix: string, setup?: (group: HttpRouter) => void): HttpRouter;
+    /**
+     * Runs the middleware pipeline of that router for a request context.
+     *
+     * @param {HttpRequestContext} ctx The request context.
+     * @param {HttpNextFunction} [next] The function, which is invoked if no layer has finished the request.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    handle(ctx: HttpRequestContext, next?: HttpNextFunction): Promise<any>;
+    /**
+     * Gets or sets the handler for requests that were not handled by any route.
+     */
+    notFoundHandler: HttpMiddleware;
+    /**
+     * Adds one or more handlers for PATCH requests.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    patch(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Adds one or more handlers for POST requests.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    post(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Gets the path prefix of that router.
+     */
+    readonly prefix: string;
+    /**
+     * Adds one or more handlers for PUT requests.
+     *
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    put(path: string, ...handlers: HttpMiddleware[]): this;
+    /**
+     * Adds one or more handlers for a HTTP method.
+     *
+     * @param {string} method The HTTP method. An empty value means: all methods
+     * @param {string} path The path, relative to the prefix of that router.
+     *                      Can contain parameters (':id') and wildcards ('*').
+     * @param {HttpMiddleware|HttpMiddleware[]} handlers The handlers.
+     *
+     * @chainable
+     */
+    route(method: string, path: string, handlers: HttpMiddleware | HttpMiddleware[]): this;
+    /**
+     * Creates a request listener for that router, which can be used
+     * by 'startHttpServer()' or 'http.createServer()'.
+     *
+     * @returns {HttpRequestListener} The new listener.
+     */
+    toRequestListener(): HttpRequestListener;
+    /**
+     * Adds one or more middlewares.
+     *
+     * @param {string|HttpMiddleware|HttpRouter} pathOrMiddleware A path prefix or the first middleware.
+     * @param {...(HttpMiddleware|HttpRouter)[]} middlewares The (other) middlewares.
+     *                                                       Routers are mounted as sub routers.
+     *                                                       Their routes are relative to the path prefix.
+     *
+     * @chainable
+     */
+    use(pathOrMiddleware: string | HttpMiddleware | HttpRouter, ...middlewares: (HttpMiddleware | HttpRouter)[]): this;
+    /**
+     * Adds a new layer.
+     *
+     * @param {string} method The upper case HTTP method or an empty string for all methods.
+     * @param {string} path The full path.
+     * @param {boolean} end Path must match completely or is a prefix.
+     * @param {HttpMiddleware} handler The handler.
+     */
+    protected addLayer(method: string, path: string, end: boolean, handler: HttpMiddleware): void;
+}
+/**
+ * Creates an error for a HTTP status code, which is handled by a router.
+ *
+ * @param {number} statusCode The status code.
+ * @param {string} [msg] The custom message. Default: The text of the status code.
+ *
+ * @returns {Error} The new error.
+ */
+export declare function createHttpError(statusCode: number, msg?: string): Error;
+/**
+ * Creates a new HTTP router.
+ *
+ * @param {string} [prefix] The path prefix for all routes.
+ *
+ * @returns {HttpRouter} The new router.
+ */
+export declare function newHttpRouter(prefix?: string): HttpRouter;
+export {};
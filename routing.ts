@@ -0,0 +1,834 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as BodyParser from './bodyparser';
+import * as http from 'http';
+import * as Locales from './locales';
+import * as TB from './index';
+import * as URL from 'url';
+
+
+/**
+ * Handles an error, which occurred while a request was handled.
+ * 
+ * @param {any} err The error.
+ * @param {HttpRequestContext} ctx The request context.
+ * 
+ * @returns {any} The result.
+ */
+export type HttpErrorHandler = (err: any, ctx: HttpRequestContext) => any;
+/**
+ * A middleware (or route handler) of a HTTP router.
+ * 
+ * @param {HttpRequestContext} ctx The request context.
+ * @param {HttpNextFunction} next Invokes the next middleware / handler in the chain.
+ * 
+ * @returns {any} The result, which can also be a promise.
+ */
+export type HttpMiddleware = (ctx: HttpRequestContext, next: HttpNextFunction) => any;
+/**
+ * Invokes the next middleware / handler in a chain.
+ * 
+ * @returns {Promise<any>} The promise, which is fulfilled after the rest of the chain has been executed.
+ */
+export type HttpNextFunction = () => Promise<any>;
+/**
+ * A HTTP request listener.
+ * 
+ * @param {http.IncomingMessage} req The request.
+ * @param {http.ServerResponse} resp The response.
+ */
+export type HttpRequestListener = (req: http.IncomingMessage, resp: http.ServerResponse) => void;
+
+/**
+ * A HTTP request context.
+ */
+export interface HttpRequestContext {
+    /**
+     * The parsed body, if a body parser has been used.
+     */
+    body?: any;
+    /**
+     * The uploaded files, if the multipart body parser has been used.
+     */
+    files?: BodyParser.UploadedFile[];
+    /**
+     * Sends HTML content.
+     * 
+     * @param {any} content The content.
+     * @param {number} [statusCode] The custom status code.
+     * @param {boolean} [encode] Encode the content with 'htmlEncode()' or not. Default: (false)
+     */
+    readonly html: (content: any, statusCode?: number, encode?: boolean) => void;
+    /**
+     * The translation context, if the middleware of a 'LocaleManager' has been used.
+     */
+    i18n?: Locales.LocaleContext;
+    /**
+     * Sends data as JSON.
+     * 
+     * @param {any} data The data.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly json: (data: any, statusCode?: number) => void;
+    /**
+     * The upper case HTTP method.
+     */
+    readonly method: string;
+    /**
+     * The path parameters of the current route.
+     */
+    readonly params: HttpRequestParameters;
+    /**
+     * The (decoded) path of the request.
+     */
+    readonly path: string;
+    /**
+     * The parsed query parameters.
+     */
+    readonly query: HttpRequestQuery;
+    /**
+     * Redirects to another location.
+     * 
+     * @param {string} url The target URL.
+     * @param {number} [statusCode] The custom status code. Default: 302
+     */
+    readonly redirect: (url: string, statusCode?: number) => void;
+    /**
+     * The underlying request.
+     */
+    readonly request: http.IncomingMessage;
+    /**
+     * The underlying response.
+     */
+    readonly response: http.ServerResponse;
+    /**
+     * The router that handles the request.
+     */
+    readonly router: HttpRouter;
+    /**
+     * Sends data.
+     * 
+     * @param {any} data The data to send.
+     * @param {string} [contentType] The custom content type or a filename / extension to detect it from.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly send: (data: any, contentType?: string, statusCode?: number) => void;
+    /**
+     * Stores data, which is shared between middlewares and handlers.
+     */
+    state: any;
+    /**
+     * Sets the status code of the response.
+     * 
+     * @param {number} statusCode The status code.
+     * 
+     * @chainable
+     */
+    readonly status: (statusCode: number) => HttpRequestContext;
+    /**
+     * Sends data as plain text.
+     * 
+     * @param {any} data The data.
+     * @param {number} [statusCode] The custom status code.
+     */
+    readonly text: (data: any, statusCode?: number) => void;
+    /**
+     * Sets the content type of the response.
+     * 
+     * @param {string} typeOrFilename The MIME type or a filename / extension to detect it from.
+     * 
+     * @chainable
+     */
+    readonly type: (typeOrFilename: string) => HttpRequestContext;
+}
+
+/**
+ * Path parameters.
+ */
+export type HttpRequestParameters = { [name: string]: string };
+/**
+ * Query parameters.
+ */
+export type HttpRequestQuery = { [name: string]: string | string[] };
+
+interface RouterLayer {
+    handler: HttpMiddleware;
+    keys: string[];
+    method: string;
+    regex: RegExp;
+}
+
+
+/**
+ * A HTTP router with an (async) middleware pipeline.
+ */
+export class HttpRouter {
+    /**
+     * Stores the error handler.
+     */
+    protected _errorHandler: HttpErrorHandler;
+    /**
+     * Stores the layers (middlewares and routes) in the order they were registered.
+     */
+    protected _layers: RouterLayer[] = [];
+    /**
+     * Stores the handler for requests, which were not handled.
+     */
+    protected _notFoundHandler: HttpMiddleware;
+    /**
+     * Stores the path prefix.
+     */
+    protected _prefix: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [prefix] The path prefix for all routes of that router.
+     */
+    constructor(prefix?: string) {
+        this._prefix = normalizePath(prefix);
+    }
+
+    /**
+     * Adds one or more handlers for all HTTP methods.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public all(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('', path, handlers);
+    }
+
+    /**
+     * Adds one or more handlers for DELETE requests.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public delete(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('DELETE', path, handlers);
+    }
+
+    /**
+     * Gets or sets the handler for errors, which are thrown by middlewares and routes.
+     */
+    public get errorHandler(): HttpErrorHandler {
+        return this._errorHandler;
+    }
+    public set errorHandler(newValue: HttpErrorHandler) {
+        this._errorHandler = newValue;
+    }
+
+    /**
+     * Adds one or more handlers for GET (and HEAD) requests.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public get(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('GET', path, handlers);
+    }
+
+    /**
+     * Creates a new group of routes, which share a path prefix.
+     * 
+     * @param {string} prefix The prefix, relative to the prefix of that router.
+     * @param {(group: HttpRouter) => void} [setup] The optional function that sets up the group.
+     * 
+     * @returns {HttpRouter} The router of the new group.
+     */
+    public group(prefix: string, setup?: (group: HttpRouter) => void): HttpRouter {
+        let fullPrefix = joinPaths(this._prefix, prefix);
+
+        let newGroup = new HttpRouter(fullPrefix);
+
+        this.addLayer('', fullPrefix, false, (ctx, next) => {
+            return newGroup.handle(ctx, next);
+        });
+
+        if (setup) {
+            setup(newGroup);
+        }
+
+        return newGroup;
+    }
+
+    /**
+     * Runs the middleware pipeline of that router for a request context.
+     * 
+     * @param {HttpRequestContext} ctx The request context.
+     * @param {HttpNextFunction} [next] The function, which is invoked if no layer has finished the request.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public handle(ctx: HttpRequestContext, next?: HttpNextFunction): Promise<any> {
+        let me = this;
+        let lastIndex = -1;
+
+        let dispatch: (i: number) => Promise<any>;
+        dispatch = (i) => {
+            return new Promise<any>((resolve, reject) => {
+                try {
+                    if (i <= lastIndex) {
+                        throw new Error('next() has already been called!');
+                    }
+                    lastIndex = i;
+
+                    let layer: RouterLayer;
+                    let match: RegExpExecArray;
+                    while (i < me._layers.length) {
+                        let l = me._layers[i];
+
+                        if (isMethodMatching(l.method, ctx.method)) {
+                            match = l.regex.exec(ctx.path);
+                            if (match) {
+                                layer = l;
+                                break;
+                            }
+                        }
+
+                        ++i;
+                    }
+
+                    if (!layer) {
+                        // end of chain
+                        if (next) {
+                            next().then((result) => {
+                                resolve(result);
+                            }, (err) => {
+                                reject(err);
+                            });
+                        }
+                        else {
+                            resolve();
+                        }
+
+                        return;
+                    }
+
+                    for (let j = 0; j < layer.keys.length; j++) {
+                        let value = match[j + 1];
+                        if (!TB.isNullOrUndefined(value)) {
+                            ctx.params[ layer.keys[j] ] = decodeURIComponentSafe(value);
+                        }
+                    }
+
+                    let nextIndex = i + 1;
+                    TB.asPromise(layer.handler(ctx, () => dispatch(nextIndex))).then((result) => {
+                        resolve(result);
+                    }, (err) => {
+                        reject(err);
+                    });
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        };
+
+        return dispatch(0);
+    }
+
+    /**
+     * Gets or sets the handler for requests that were not handled by any route.
+     */
+    public get notFoundHandler(): HttpMiddleware {
+        return this._notFoundHandler;
+    }
+    public set notFoundHandler(newValue: HttpMiddleware) {
+        this._notFoundHandler = newValue;
+    }
+
+    /**
+     * Adds one or more handlers for PATCH requests.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public patch(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('PATCH', path, handlers);
+    }
+
+    /**
+     * Adds one or more handlers for POST requests.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public post(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('POST', path, handlers);
+    }
+
+    /**
+     * Gets the path prefix of that router.
+     */
+    public get prefix(): string {
+        return this._prefix;
+    }
+
+    /**
+     * Adds one or more handlers for PUT requests.
+     * 
+     * @param {string} path The path.
+     * @param {...HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public put(path: string, ...handlers: HttpMiddleware[]): this {
+        return this.route('PUT', path, handlers);
+    }
+
+    /**
+     * Adds one or more handlers for a HTTP method.
+     * 
+     * @param {string} method The HTTP method. An empty value means: all methods
+     * @param {string} path The path, relative to the prefix of that router.
+     *                      Can contain parameters (':id') and wildcards ('*').
+     * @param {HttpMiddleware|HttpMiddleware[]} handlers The handlers.
+     * 
+     * @chainable
+     */
+    public route(method: string, path: string, handlers: HttpMiddleware | HttpMiddleware[]): this {
+        method = normalizeMethod(method);
+
+        let fullPath = joinPaths(this._prefix, path);
+        TB.asArray(handlers).forEach(h => {
+            this.addLayer(method, fullPath, true, h);
+        });
+
+        return this;
+    }
+
+    /**
+     * Creates a request listener for that router, which can be used
+     * by 'startHttpServer()' or 'http.createServer()'.
+     * 
+     * @returns {HttpRequestListener} The new listener.
+     */
+    public toRequestListener(): HttpRequestListener {
+        let me = this;
+
+        return (req, resp) => {
+            let ctx: HttpRequestContext;
+            try {
+                ctx = createContext(me, req, resp);
+            }
+            catch (e) {
+                sendError(e, resp);
+                return;
+            }
+
+            let handleError = (err: any) => {
+                try {
+                    let errorHandler = me._errorHandler;
+                    if (!errorHandler) {
+                        errorHandler = (err, ctx) => {
+                            sendError(err, ctx.response);
+                        };
+                    }
+
+                    TB.asPromise(errorHandler(err, ctx)).then(() => {
+                        endIfOpen(resp);
+                    }, (e) => {
+                        sendError(e, resp);
+                    });
+                }
+                catch (e) {
+                    sendError(e, resp);
+                }
+            };
+
+            me.handle(ctx).then(() => {
+                if (resp.finished) {
+                    return;
+                }
+
+                try {
+                    let notFoundHandler = me._notFoundHandler;
+                    if (!notFoundHandler) {
+                        notFoundHandler = (ctx) => {
+                            sendStatus(ctx.response, 404);
+                        };
+                    }
+
+                    TB.asPromise(notFoundHandler(ctx, () => Promise.resolve())).then(() => {
+                        if (!resp.finished) {
+                            sendStatus(resp, 404);
+                        }
+                    }, (err) => {
+                        handleError(err);
+                    });
+                }
+                catch (e) {
+                    handleError(e);
+                }
+            }, (err) => {
+                handleError(err);
+            });
+        };
+    }
+
+    /**
+     * Adds one or more middlewares.
+     * 
+     * @param {string|HttpMiddleware|HttpRouter} pathOrMiddleware A path prefix or the first middleware.
+     * @param {...(HttpMiddleware|HttpRouter)[]} middlewares The (other) middlewares.
+     *                                                       Routers are mounted as sub routers.
+     *                                                       Their routes are relative to the path prefix.
+     * 
+     * @chainable
+     */
+    public use(pathOrMiddleware: string | HttpMiddleware | HttpRouter,
+               ...middlewares: (HttpMiddleware | HttpRouter)[]): this {
+        let path = this._prefix;
+        if ('string' === typeof pathOrMiddleware) {
+            path = joinPaths(this._prefix, pathOrMiddleware);
+        }
+        else {
+            middlewares = [ pathOrMiddleware ].concat(middlewares);
+        }
+
+        middlewares.filter(m => m).forEach(m => {
+            let handler: HttpMiddleware;
+            if (m instanceof HttpRouter) {
+                handler = mountRouter(m, path);
+            }
+            else {
+                handler = m;
+            }
+
+            this.addLayer('', path, false, handler);
+        });
+
+        return this;
+    }
+
+    /**
+     * Adds a new layer.
+     * 
+     * @param {string} method The upper case HTTP method or an empty string for all methods.
+     * @param {string} path The full path.
+     * @param {boolean} end Path must match completely or is a prefix.
+     * @param {HttpMiddleware} handler The handler.
+     */
+    protected addLayer(method: string, path: string, end: boolean, handler: HttpMiddleware) {
+        if (!TB.isFunc(handler)) {
+            throw new Error(`Handler for '${path}' is no function!`);
+        }
+
+        let keys: string[] = [];
+
+        this._layers.push({
+            handler: handler,
+            keys: keys,
+            method: method,
+            regex: compilePath(path, keys, end),
+        });
+    }
+}
+
+
+function compilePath(path: string, keys: string[], end: boolean): RegExp {
+    let pattern = '';
+    let wildcards = 0;
+
+    path.split('/').filter(x => '' !== x).forEach(segment => {
+        pattern += '/';
+
+        if (':' === segment[0]) {
+            // parameter
+            keys.push(segment.substr(1));
+            pattern += '([^/]+)';
+        }
+        else {
+            pattern += segment.split('*').map(x => escapeRegex(x)).join('(.*)');
+            for (let i = 0; i < segment.length; i++) {
+                if ('*' === segment[i]) {
+                    keys.push('' + (wildcards++));
+                }
+            }
+        }
+    });
+
+    if (end) {
+        pattern += '/?$';
+    }
+    else {
+        pattern += '(?=/|$)';
+    }
+
+    return new RegExp('^' + pattern, 'i');
+}
+
+function createContext(router: HttpRouter,
+                       req: http.IncomingMessage, resp: http.ServerResponse): HttpRequestContext {
+    let url = URL.parse(TB.toStringSafe(req.url), true);
+
+    let query: HttpRequestQuery = {};
+    if (url.query) {
+        for (let p in url.query) {
+            query[p] = url.query[p];
+        }
+    }
+
+    let ctx: HttpRequestContext = {
+        html: (content, statusCode?, encode?) => {
+            if (TB.toBooleanSafe(encode)) {
+                content = TB.htmlEncode(content);
+            }
+
+            ctx.send(content, 'text/html; charset=utf-8', statusCode);
+        },
+        json: (data, statusCode?) => {
+            let json = JSON.stringify(data);
+            if (TB.isNullOrUndefined(json)) {
+                json = 'null';
+            }
+
+            ctx.send(json, 'application/json; charset=utf-8', statusCode);
+        },
+        method: normalizeMethod(req.method),
+        params: {},
+        path: normalizePath(decodeURIComponentSafe(url.pathname)),
+        query: query,
+        redirect: (url, statusCode?) => {
+            url = TB.toStringSafe(url);
+
+            statusCode = parseInt(TB.toStringSafe(statusCode).trim());
+            if (isNaN(statusCode)) {
+                statusCode = 302;
+            }
+
+            resp.setHeader('Location', url);
+            ctx.html(`<p>${TB.htmlEncode(http.STATUS_CODES[statusCode])}. Redirecting to <a href="${TB.htmlEncode(url)}">${TB.htmlEncode(url)}</a></p>`,
+                     statusCode);
+        },
+        request: req,
+        response: resp,
+        router: router,
+        send: (data, contentType?, statusCode?) => {
+            if (!TB.isEmptyString(contentType)) {
+                ctx.type(contentType);
+            }
+            if (!TB.isNullOrUndefined(statusCode)) {
+                ctx.status(statusCode);
+            }
+
+            let body: Buffer;
+            if (Buffer.isBuffer(data)) {
+                body = data;
+            }
+            else {
+                body = Buffer.from(TB.toStringSafe(data), 'utf8');
+            }
+
+            if (!resp.getHeader('Content-Type')) {
+                ctx.type(Buffer.isBuffer(data) ? TB.DefauleMimeType : 'text/plain; charset=utf-8');
+            }
+            resp.setHeader('Content-Length', '' + body.length);
+
+            if ('HEAD' === ctx.method) {
+                resp.end();
+            }
+            else {
+                resp.end(body);
+            }
+        },
+        state: {},
+        status: (statusCode) => {
+            resp.statusCode = parseInt(TB.toStringSafe(statusCode).trim());
+            return ctx;
+        },
+        text: (data, statusCode?) => {
+            ctx.send(data, 'text/plain; charset=utf-8', statusCode);
+        },
+        type: (typeOrFilename) => {
+            let type = TB.toStringSafe(typeOrFilename).trim();
+            if (type.indexOf('/') < 0) {
+                // filename or extension
+                if (type.indexOf('.') < 0) {
+                    type = '.' + type;
+                }
+
+                type = TB.detectMimeByFilename(type, TB.DefauleMimeType);
+            }
+
+            resp.setHeader('Content-Type', type);
+            return ctx;
+        },
+    };
+
+    return ctx;
+}
+
+function decodeURIComponentSafe(str: string): string {
+    try {
+        return decodeURIComponent(str);
+    }
+    catch (e) {
+        return str;
+    }
+}
+
+function endIfOpen(resp: http.ServerResponse) {
+    if (!resp.finished) {
+        resp.end();
+    }
+}
+
+function escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isMethodMatching(layerMethod: string, requestMethod: string): boolean {
+    return '' === layerMethod ||
+           layerMethod === requestMethod ||
+           ('GET' === layerMethod && 'HEAD' === requestMethod);
+}
+
+function joinPaths(prefix: string, path: string): string {
+    return normalizePath(normalizePath(prefix) + '/' + normalizePath(path));
+}
+
+function mountRouter(router: HttpRouter, mountPath: string): HttpMiddleware {
+    let mountRegex = compilePath(mountPath, [], false);
+
+    return (ctx, next) => {
+        return new Promise<any>((resolve, reject) => {
+            let originalPath = ctx.path;
+            let restorePath = () => {
+                (<any>ctx).path = originalPath;
+            };
+
+            try {
+                // the routes of the sub router are relative to the mount path
+                let match = mountRegex.exec(originalPath);
+                (<any>ctx).path = normalizePath(originalPath.substr(match ? match[0].length : 0));
+
+                router.handle(ctx, () => {
+                    restorePath();
+                    return next();
+                }).then((result) => {
+                    restorePath();
+                    resolve(result);
+                }, (err) => {
+                    restorePath();
+                    reject(err);
+                });
+            }
+            catch (e) {
+                restorePath();
+                reject(e);
+            }
+        });
+    };
+}
+
+function normalizeMethod(method: string): string {
+    return TB.toStringSafe(method).toUpperCase().trim();
+}
+
+function normalizePath(path: string): string {
+    path = TB.toStringSafe(path).trim()
+                                .split('/')
+                                .filter(x => '' !== x)
+                                .join('/');
+
+    return '/' + path;
+}
+
+function sendError(err: any, resp: http.ServerResponse) {
+    let statusCode = 500;
+    if (err) {
+        let errStatus = parseInt(TB.toStringSafe(err.statusCode || err.status).trim());
+        if (errStatus >= 400 && errStatus < 600) {
+            statusCode = errStatus;
+        }
+    }
+
+    if (statusCode >= 500) {
+        console.log('[ERROR.ts-toolbox] HttpRouter: ' + err);
+    }
+
+    try {
+        if (resp.headersSent) {
+            endIfOpen(resp);
+        }
+        else {
+            sendStatus(resp, statusCode);
+        }
+    }
+    catch (e) {
+        console.log('[ERROR.ts-toolbox] HttpRouter.sendError(): ' + e);
+    }
+}
+
+function sendStatus(resp: http.ServerResponse, statusCode: number) {
+    resp.writeHead(statusCode, {
+        'Content-Type': 'text/plain; charset=utf-8',
+    });
+    resp.end(Buffer.from(http.STATUS_CODES[statusCode], 'utf8'));
+}
+
+
+/**
+ * Creates an error for a HTTP status code, which is handled by a router.
+ * 
+ * @param {number} statusCode The status code.
+ * @param {string} [msg] The custom message. Default: The text of the status code.
+ * 
+ * @returns {Error} The new error.
+ */
+export function createHttpError(statusCode: number, msg?: string): Error {
+    if (TB.isEmptyString(msg)) {
+        msg = http.STATUS_CODES[statusCode];
+    }
+
+    let err: any = new Error(msg);
+    err.statusCode = statusCode;
+
+    return err;
+}
+
+/**
+ * Creates a new HTTP router.
+ * 
+ * @param {string} [prefix] The path prefix for all routes.
+ * 
+ * @returns {HttpRouter} The new router.
+ */
+export function newHttpRouter(prefix?: string): HttpRouter {
+    return new HttpRouter(prefix);
+}
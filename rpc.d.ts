@@ -0,0 +1,201 @@
+import * as Events from 'events';
+import * as Framing from './framing';
+import * as net from 'net';
+/**
+ * A RPC method. 'this' is the calling peer.
+ *
+ * @param {any[]} args The arguments.
+ *
+ * @returns {any} The result, which can also be a promise.
+ */
+export declare type RpcMethod = (...args: any[]) => any;
+/**
+ * A list of RPC methods.
+ */
+export declare type RpcMethods = {
+    [name: string]: RpcMethod;
+};
+/**
+ * Options for a RPC peer.
+ */
+export interface RpcOptions extends Framing.FramedSocketOptions {
+    /**
+     * The default timeout of a call, in milliseconds. Default: 30000
+     */
+    timeout?: number;
+}
+/**
+ * Options for a RPC server.
+ */
+export interface RpcServerOptions extends RpcOptions {
+    /**
+     * Is invoked for each new connection.
+     *
+     * @param {RpcPeer} peer The peer of the connection.
+     */
+    onConnection?: (peer: RpcPeer) => void;
+}
+interface PendingCall {
+    reject: (err: any) => void;
+    resolve: (result: any) => void;
+    timer: NodeJS.Timer;
+}
+interface RpcMessage {
+    args?: any[];
+    error?: {
+        code?: any;
+        data?: any;
+        message: string;
+    };
+    id?: number;
+    method?: string;
+    result?: any;
+    type: 'notify' | 'request' | 'response';
+}
+/**
+ * A peer of a RPC connection, that can call the methods of the other side
+ * and provides own methods.
+ *
+ * Emits 'close' and 'error'.
+ */
+export declare class RpcPeer extends Events.EventEmitter {
+    /**
+     * Stores the underlying framed socket.
+     */
+    protected _framed: Framing.FramedSocket;
+    /**
+     * Stores the methods of that peer.
+     */
+    protected _methods: RpcMethods;
+    /**
+     * Stores the ID for the next call.
+     */
+    protected _nextId: number;
+    /**
+     * Stores the calls, which wait for a response.
+     */
+    protected _pending: {
+        [id: number]: PendingCall;
+    };
+    /**
+     * Stores the default timeout.
+     */
+    protected _timeout: number;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {net.Socket} socket The underlying socket.
+     * @param {RpcMethods} [methods] The initial methods of that peer.
+     * @param {RpcOptions} [opts] The options.
+     */
+    constructor(socket: net.Socket, methods?: RpcMethods, opts?: RpcOptions);
+    /**
+     * Calls a method of the other side with the default timeout.
+     *
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     *
+     * @returns {Promise<TResult>} The promise with the result.
+     */
+    call<TResult>(method: string, ...args: any[]): Promise<TResult>;
+    /**
+     * Closes the connection.
+     */
+    close(): void;
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     *
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string): void;
+    /**
+     * Calls a method of the other side.
+     *
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     * @param {number} [timeout] The custom timeout, in milliseconds.
+     *
+     * @returns {Promise<TResult>} The promise with the result.
+     */
+    invoke<TResult>(method: string, args?: any[], timeout?: number): Promise<TResult>;
+    /**
+     * Calls a method of the other side without waiting for a result.
+     *
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the message has been sent.
+     */
+    notify(method: string, ...args: any[]): Promise<any>;
+    /**
+     * Handles a received message.
+     *
+     * @param {any} data The message data.
+     */
+    protected onMessage(data: any): void;
+    /**
+     * Handles a request / notification.
+     *
+     * @param {RpcMessage} msg The message.
+     */
+    protected onRequest(msg: RpcMessage): void;
+    /**
+     * Registers a method.
+     *
+     * @param {string} name The name of the method.
+     * @param {RpcMethod} method The method.
+     *
+     * @chainable
+     */
+    register(name: string, method: RpcMethod): this;
+    /**
+     * Rejects all pending calls.
+     *
+     * @param {string} msg The error message.
+     */
+    protected rejectAll(msg: string): void;
+    /**
+     * Sends a message.
+     *
+     * @param {RpcMessage} msg The message to send.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected send(msg: RpcMessage): Promise<any>;
+    /**
+     * Gets the underlying socket.
+     */
+    readonly socket: net.Socket;
+    /**
+     * Unregisters a method.
+     *
+     * @param {string} name The name of the method.
+     *
+     * @chainable
+     */
+    unregister(name: string): this;
+}
+/**
+ * Connects to a RPC server.
+ *
+ * @param {number} port The TCP port.
+ * @param {string} [host] The host address. Default: localhost
+ * @param {RpcMethods} [methods] The methods, the server can call.
+ * @param {RpcOptions} [opts] The options.
+ *
+ * @returns {Promise<RpcPeer>} The promise with the peer.
+ */
+export declare function connectToRpcServer(port: number, host?: string, methods?: RpcMethods, opts?: RpcOptions): Promise<RpcPeer>;
+/**
+ * Starts a new RPC server.
+ *
+ * @param {number} port The TCP port.
+ * @param {RpcMethods} methods The methods, the clients can call.
+ * @param {RpcServerOptions} [opts] The options.
+ *
+ * @returns {Promise<net.Server>} The promise with the new server instance.
+ */
+export declare function startRpcServer(port: number, methods: RpcMethods, opts?: RpcServerOptions): Promise<net.Server>;
+export {};
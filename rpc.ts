@@ -0,0 +1,527 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as Framing from './framing';
+import * as net from 'net';
+import * as TB from './index';
+
+
+/**
+ * A RPC method. 'this' is the calling peer.
+ * 
+ * @param {any[]} args The arguments.
+ * 
+ * @returns {any} The result, which can also be a promise.
+ */
+export type RpcMethod = (...args: any[]) => any;
+
+/**
+ * A list of RPC methods.
+ */
+export type RpcMethods = { [name: string]: RpcMethod };
+
+/**
+ * Options for a RPC peer.
+ */
+export interface RpcOptions extends Framing.FramedSocketOptions {
+    /**
+     * The default timeout of a call, in milliseconds. Default: 30000
+     */
+    timeout?: number;
+}
+
+/**
+ * Options for a RPC server.
+ */
+export interface RpcServerOptions extends RpcOptions {
+    /**
+     * Is invoked for each new connection.
+     * 
+     * @param {RpcPeer} peer The peer of the connection.
+     */
+    onConnection?: (peer: RpcPeer) => void;
+}
+
+interface PendingCall {
+    reject: (err: any) => void;
+    resolve: (result: any) => void;
+    timer: NodeJS.Timer;
+}
+
+interface RpcMessage {
+    args?: any[];
+    error?: {
+        code?: any;
+        data?: any;
+        message: string;
+    };
+    id?: number;
+    method?: string;
+    result?: any;
+    type: 'notify' | 'request' | 'response';
+}
+
+
+const DEFAULT_TIMEOUT = 30000;
+
+
+/**
+ * A peer of a RPC connection, that can call the methods of the other side
+ * and provides own methods.
+ * 
+ * Emits 'close' and 'error'.
+ */
+export class RpcPeer extends Events.EventEmitter {
+    /**
+     * Stores the underlying framed socket.
+     */
+    protected _framed: Framing.FramedSocket;
+    /**
+     * Stores the methods of that peer.
+     */
+    protected _methods: RpcMethods = Object.create(null);
+    /**
+     * Stores the ID for the next call.
+     */
+    protected _nextId = 0;
+    /**
+     * Stores the calls, which wait for a response.
+     */
+    protected _pending: { [id: number]: PendingCall } = {};
+    /**
+     * Stores the default timeout.
+     */
+    protected _timeout: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {net.Socket} socket The underlying socket.
+     * @param {RpcMethods} [methods] The initial methods of that peer.
+     * @param {RpcOptions} [opts] The options.
+     */
+    constructor(socket: net.Socket, methods?: RpcMethods, opts?: RpcOptions) {
+        super();
+
+        if (!opts) {
+            opts = {};
+        }
+
+        this._timeout = parseInt(TB.toStringSafe(opts.timeout).trim());
+        if (isNaN(this._timeout)) {
+            this._timeout = DEFAULT_TIMEOUT;
+        }
+
+        if (methods) {
+            for (let m in methods) {
+                this.register(m, methods[m]);
+            }
+        }
+
+        this._framed = new Framing.FramedSocket(socket, opts);
+
+        this._framed.on('message', (msg: any) => {
+            this.onMessage(msg);
+        });
+        this._framed.on('error', (err: any) => {
+            this.emitError(err, 'constructor');
+        });
+        this._framed.once('close', () => {
+            this.rejectAll('Connection has been closed!');
+            this.emit('close');
+        });
+    }
+
+    /**
+     * Calls a method of the other side with the default timeout.
+     * 
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     * 
+     * @returns {Promise<TResult>} The promise with the result.
+     */
+    public call<TResult>(method: string, ...args: any[]): Promise<TResult> {
+        return this.invoke<TResult>(method, args);
+    }
+
+    /**
+     * Closes the connection.
+     */
+    public close() {
+        this._framed.close();
+    }
+
+    /**
+     * Emits an 'error' event, if there is at least one listener.
+     * Otherwise the error is only logged.
+     * 
+     * @param {any} err The error.
+     * @param {string} source The name of the calling method.
+     */
+    protected emitError(err: any, source: string) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err);
+        }
+        else {
+            console.log('[ERROR.ts-toolbox] RpcPeer.' + source + '(): ' + err);
+        }
+    }
+
+    /**
+     * Calls a method of the other side.
+     * 
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     * @param {number} [timeout] The custom timeout, in milliseconds.
+     * 
+     * @returns {Promise<TResult>} The promise with the result.
+     */
+    public invoke<TResult>(method: string, args?: any[], timeout?: number): Promise<TResult> {
+        let me = this;
+
+        timeout = parseInt(TB.toStringSafe(timeout).trim());
+        if (isNaN(timeout)) {
+            timeout = me._timeout;
+        }
+
+        return new Promise<TResult>((resolve, reject) => {
+            try {
+                let id = ++me._nextId;
+
+                let timer: NodeJS.Timer;
+                if (timeout > 0) {
+                    timer = setTimeout(() => {
+                        delete me._pending[id];
+
+                        reject(createRpcError(`Call of '${method}' timed out after ${timeout} ms!`, 'ETIMEDOUT'));
+                    }, timeout);
+                }
+
+                me._pending[id] = {
+                    reject: reject,
+                    resolve: resolve,
+                    timer: timer,
+                };
+
+                me.send({
+                    args: args || [],
+                    id: id,
+                    method: TB.toStringSafe(method),
+                    type: 'request',
+                }).then(() => {
+                }, (err) => {
+                    if (timer) {
+                        clearTimeout(timer);
+                    }
+                    delete me._pending[id];
+
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Calls a method of the other side without waiting for a result.
+     * 
+     * @param {string} method The name of the method.
+     * @param {any[]} [args] The arguments.
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the message has been sent.
+     */
+    public notify(method: string, ...args: any[]): Promise<any> {
+        return this.send({
+            args: args,
+            method: TB.toStringSafe(method),
+            type: 'notify',
+        });
+    }
+
+    /**
+     * Handles a received message.
+     * 
+     * @param {any} data The message data.
+     */
+    protected onMessage(data: any) {
+        let msg: RpcMessage;
+        try {
+            if (Buffer.isBuffer(data)) {
+                msg = TB.fromJSON<RpcMessage>(data.toString('utf8'));
+            }
+            else {
+                msg = data;
+            }
+        }
+        catch (e) {
+            this.emitError(e, 'onMessage');
+            return;
+        }
+
+        if (!msg) {
+            return;
+        }
+
+        switch (msg.type) {
+            case 'notify':
+            case 'request':
+                this.onRequest(msg);
+                break;
+
+            case 'response':
+                {
+                    let pending = this._pending[msg.id];
+                    if (!pending) {
+                        return;  // timed out
+                    }
+
+                    delete this._pending[msg.id];
+                    if (pending.timer) {
+                        clearTimeout(pending.timer);
+                    }
+
+                    if (msg.error) {
+                        pending.reject(createRpcError(msg.error.message, msg.error.code, msg.error.data));
+                    }
+                    else {
+                        pending.resolve(msg.result);
+                    }
+                }
+                break;
+        }
+    }
+
+    /**
+     * Handles a request / notification.
+     * 
+     * @param {RpcMessage} msg The message.
+     */
+    protected onRequest(msg: RpcMessage) {
+        let me = this;
+
+        let respond = (err: any, result?: any) => {
+            if ('request' !== msg.type) {
+                if (err) {
+                    me.emitError(err, 'onRequest');
+                }
+
+                return;
+            }
+
+            let response: RpcMessage = {
+                id: msg.id,
+                type: 'response',
+            };
+
+            if (err) {
+                response.error = {
+                    code: err.code,
+                    data: err.data,
+                    message: TB.toStringSafe(err.message || err),
+                };
+            }
+            else {
+                response.result = result;
+            }
+
+            me.send(response).then(() => {
+            }, (e) => {
+                me.emitError(e, 'onRequest');
+            });
+        };
+
+        try {
+            let method = me._methods[TB.toStringSafe(msg.method)];
+            if (!method) {
+                throw createRpcError(`Method '${msg.method}' not found!`, 'METHOD_NOT_FOUND');
+            }
+
+            TB.asPromise(method.apply(me, TB.asArray(msg.args, false))).then((result) => {
+                respond(null, result);
+            }, (err) => {
+                respond(err || new Error('Unknown error'));
+            });
+        }
+        catch (e) {
+            respond(e);
+        }
+    }
+
+    /**
+     * Registers a method.
+     * 
+     * @param {string} name The name of the method.
+     * @param {RpcMethod} method The method.
+     * 
+     * @chainable
+     */
+    public register(name: string, method: RpcMethod): this {
+        if (!TB.isFunc(method)) {
+            throw new Error(`Method '${name}' is no function!`);
+        }
+
+        this._methods[TB.toStringSafe(name)] = method;
+        return this;
+    }
+
+    /**
+     * Rejects all pending calls.
+     * 
+     * @param {string} msg The error message.
+     */
+    protected rejectAll(msg: string) {
+        let pending = this._pending;
+        this._pending = {};
+
+        for (let id in pending) {
+            let p = pending[id];
+            if (p.timer) {
+                clearTimeout(p.timer);
+            }
+
+            p.reject(createRpcError(msg, 'CONNECTION_CLOSED'));
+        }
+    }
+
+    /**
+     * Sends a message.
+     * 
+     * @param {RpcMessage} msg The message to send.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected send(msg: RpcMessage): Promise<any> {
+        return this._framed.send(msg);
+    }
+
+    /**
+     * Gets the underlying socket.
+     */
+    public get socket(): net.Socket {
+        return this._framed.socket;
+    }
+
+    /**
+     * Unregisters a method.
+     * 
+     * @param {string} name The name of the method.
+     * 
+     * @chainable
+     */
+    public unregister(name: string): this {
+        delete this._methods[TB.toStringSafe(name)];
+        return this;
+    }
+}
+
+
+function createRpcError(msg: string, code?: any, data?: any): Error {
+    let err: any = new Error(msg);
+    if (!TB.isNullOrUndefined(code)) {
+        err.code = code;
+    }
+    if (!TB.isNullOrUndefined(data)) {
+        err.data = data;
+    }
+
+    return err;
+}
+
+
+/**
+ * Connects to a RPC server.
+ * 
+ * @param {number} port The TCP port.
+ * @param {string} [host] The host address. Default: localhost
+ * @param {RpcMethods} [methods] The methods, the server can call.
+ * @param {RpcOptions} [opts] The options.
+ * 
+ * @returns {Promise<RpcPeer>} The promise with the peer.
+ */
+export function connectToRpcServer(port: number, host?: string,
+                                   methods?: RpcMethods, opts?: RpcOptions): Promise<RpcPeer> {
+    host = TB.toStringSafe(host).trim();
+    if ('' === host) {
+        host = 'localhost';
+    }
+
+    return new Promise<RpcPeer>((resolve, reject) => {
+        try {
+            let socket = net.connect(port, host);
+
+            socket.once('error', (err: any) => {
+                reject(err);
+            });
+
+            socket.once('connect', () => {
+                try {
+                    resolve(new RpcPeer(socket, methods, opts));
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Starts a new RPC server.
+ * 
+ * @param {number} port The TCP port.
+ * @param {RpcMethods} methods The methods, the clients can call.
+ * @param {RpcServerOptions} [opts] The options.
+ * 
+ * @returns {Promise<net.Server>} The promise with the new server instance.
+ */
+export function startRpcServer(port: number, methods: RpcMethods, opts?: RpcServerOptions): Promise<net.Server> {
+    if (!opts) {
+        opts = {};
+    }
+
+    return TB.startServer(port, (socket) => {
+        try {
+            let peer = new RpcPeer(socket, methods, opts);
+
+            peer.on('error', (err: any) => {
+                console.log('[ERROR.ts-toolbox] startRpcServer(): ' + err);
+            });
+
+            if (opts.onConnection) {
+                opts.onConnection(peer);
+            }
+        }
+        catch (e) {
+            console.log('[ERROR.ts-toolbox] startRpcServer(): ' + e);
+
+            socket.destroy();
+        }
+    });
+}
@@ -0,0 +1,404 @@
+import * as Cron from 'cron';
+import * as Events from 'events';
+import * as Moment from 'moment';
+/**
+ * The context of a run of a scheduled job.
+ */
+export interface CronJobContext {
+    /**
+     * The underlying job.
+     */
+    job: ScheduledJob;
+    /**
+     * Indicates if the run has been started manually or not.
+     */
+    manual: boolean;
+    /**
+     * Indicates if the run catches up a missed run or not.
+     */
+    missed: boolean;
+    /**
+     * The state value, which is shared between all runs of the job.
+     */
+    state: any;
+}
+/**
+ * Options for a scheduled job.
+ */
+export interface CronJobOptions {
+    /**
+     * Run a missed tick after a restart or not. Default: (true)
+     */
+    catchUp?: boolean;
+    /**
+     * The function to invoke.
+     */
+    onTick: CronJobTick;
+    /**
+     * What to do if a tick happens while the job is still running. Default: 'skip'
+     */
+    overlap?: CronOverlapPolicy;
+    /**
+     * Start in paused state or not. Default: (false)
+     */
+    paused?: boolean;
+    /**
+     * The cron time.
+     */
+    time: string | Date;
+    /**
+     * The custom time zone.
+     */
+    timeZone?: string;
+}
+/**
+ * An entry in the run history of a job.
+ */
+export interface CronJobRun {
+    /**
+     * The duration, in milliseconds.
+     */
+    duration?: number;
+    /**
+     * The error message, if the run failed.
+     */
+    error?: string;
+    /**
+     * The time the run has finished (ISO 8601, UTC).
+     */
+    finished?: string;
+    /**
+     * Indicates if the run has been started manually or not.
+     */
+    manual: boolean;
+    /**
+     * Indicates if the run catches up a missed run or not.
+     */
+    missed: boolean;
+    /**
+     * Indicates if the run has been skipped because of an overlapping run.
+     */
+    skipped?: boolean;
+    /**
+     * The time the run has been started (ISO 8601, UTC).
+     */
+    started: string;
+    /**
+     * Indicates if the run was successful or not.
+     */
+    success?: boolean;
+}
+/**
+ * The persisted state of a job.
+ */
+export interface CronJobState {
+    /**
+     * The run history.
+     */
+    history?: CronJobRun[];
+    /**
+     * Indicates if the job is paused or not.
+     */
+    isPaused?: boolean;
+    /**
+     * The time of the next scheduled run (ISO 8601, UTC).
+     */
+    nextRun?: string;
+}
+/**
+ * A function that is invoked by a scheduled job.
+ *
+ * @param {CronJobContext} ctx The context.
+ *
+ * @returns {any} The result, which can also be a promise.
+ */
+export declare type CronJobTick = (ctx: CronJobContext) => any;
+/**
+ * Possible values for handling overlapping runs.
+ *
+ * 'parallel': run in parallel
+ * 'queue': run after the current run has finished
+ * 'skip': do not run
+ */
+export declare type CronOverlapPolicy = 'parallel' | 'queue' | 'skip';
+/**
+ * Options for a cron scheduler.
+ */
+export interface CronSchedulerOptions {
+    /**
+     * The maximum number of runs, which are kept in the history of a job. Default: 20
+     */
+    historySize?: number;
+    /**
+     * The JSON file where the state of the jobs is stored.
+     */
+    stateFile?: string;
+}
+/**
+ * The persisted state of a cron scheduler.
+ */
+export interface CronSchedulerState {
+    /**
+     * The states of the jobs, by name.
+     */
+    jobs: {
+        [name: string]: CronJobState;
+    };
+}
+/**
+ * A registry of named cron jobs.
+ *
+ * Forwards the events of its jobs as 'start', 'complete', 'failed' and 'skip' with the job and the run.
+ */
+export declare class CronScheduler extends Events.EventEmitter {
+    /**
+     * Stores the jobs.
+     */
+    protected _jobs: ScheduledJob[];
+    /**
+     * Stores the options.
+     */
+    protected _options: CronSchedulerOptions;
+    /**
+     * Stores the queue of save operations.
+     */
+    protected _saveQueue: Promise<any>;
+    /**
+     * Stores the loaded state.
+     */
+    protected _state: CronSchedulerState;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {CronSchedulerOptions} [opts] The options.
+     */
+    constructor(opts?: CronSchedulerOptions);
+    /**
+     * Adds a new job.
+     * If the scheduler has already been started, the job is started, too.
+     *
+     * @param {string} name The unique name of the job.
+     * @param {CronJobOptions} opts The options.
+     *
+     * @returns {ScheduledJob} The new job.
+     */
+    add(name: string, opts: CronJobOptions): ScheduledJob;
+    /**
+     * Returns a job by name.
+     *
+     * @param {string} name The name of the job.
+     *
+     * @returns {ScheduledJob} The job or (undefined) if not found.
+     */
+    get(name: string): ScheduledJob;
+    /**
+     * Gets the maximum size of the history of a job.
+     */
+    readonly historySize: number;
+    /**
+     * Gets the list of all jobs.
+     */
+    readonly jobs: ScheduledJob[];
+    /**
+     * Loads the persisted state.
+     *
+     * @returns {Promise<CronSchedulerState>} The promise with the state.
+     */
+    protected load(): Promise<CronSchedulerState>;
+    /**
+     * Stops and removes a job.
+     *
+     * @param {string} name The name of the job.
+     *
+     * @returns {boolean} Job has been removed or not.
+     */
+    remove(name: string): boolean;
+    /**
+     * Saves the state of all jobs, if a state file is defined.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    save(): Promise<any>;
+    /**
+     * Loads the persisted state and starts all jobs.
+     * Missed runs are caught up.
+     *
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    start(): Promise<this>;
+    /**
+     * Stops all jobs.
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the state has been saved.
+     */
+    stop(): Promise<any>;
+    /**
+     * Runs a job manually.
+     *
+     * @param {string} name The name of the job.
+     *
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    trigger(name: string): Promise<CronJobRun>;
+}
+/**
+ * A job of a cron scheduler.
+ *
+ * Emits 'start', 'complete', 'failed' and 'skip' with the current run.
+ */
+export declare class ScheduledJob extends Events.EventEmitter {
+    /**
+     * Stores the underlying cron job.
+     */
+    protected _cron: Cron.CronJob;
+    /**
+     * Stores the run history.
+     */
+    protected _history: CronJobRun[];
+    /**
+     * Stores if the job is paused or not.
+     */
+    protected _isPaused: boolean;
+    /**
+     * Stores if the job has been started or not.
+     */
+    protected _isStarted: boolean;
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: CronJobOptions;
+    /**
+     * Stores the queue of runs.
+     */
+    protected _queue: Promise<any>;
+    /**
+     * Stores the number of active runs.
+     */
+    protected _running: number;
+    /**
+     * Stores the underlying scheduler.
+     */
+    protected _scheduler: CronScheduler;
+    /**
+     * Stores the shared state value.
+     */
+    protected _state: any;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {CronScheduler} scheduler The underlying scheduler.
+     * @param {string} name The name.
+     * @param {CronJobOptions} opts The options.
+     */
+    constructor(scheduler: CronScheduler, name: string, opts: CronJobOptions);
+    /**
+     * Adds a run to the history.
+     *
+     * @param {CronJobRun} run The run.
+     */
+    protected addToHistory(run: CronJobRun): void;
+    /**
+     * Applies a persisted state.
+     *
+     * @param {CronJobState} state The state.
+     */
+    protected applyState(state: CronJobState): void;
+    /**
+     * Executes the job.
+     *
+     * @param {boolean} manual Started manually or not.
+     * @param {boolean} missed Catches up a missed run or not.
+     *
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    protected execute(manual: boolean, missed: boolean): Promise<CronJobRun>;
+    /**
+     * Gets the run history.
+     */
+    readonly history: CronJobRun[];
+    /**
+     * Gets if the job is paused or not.
+     */
+    readonly isPaused: boolean;
+    /**
+     * Gets if the job is running or not.
+     */
+    readonly isRunning: boolean;
+    /**
+     * Gets the last finished run.
+     */
+    readonly lastRun: CronJobRun;
+    /**
+     * Gets the name.
+     */
+    readonly name: string;
+    /**
+     * Gets the time of the next scheduled run or (null) if the job is paused or not started.
+     */
+    readonly nextRun: Moment.Moment;
+    /**
+     * Returns the time of the next scheduled run.
+     *
+     * @returns {Moment.Moment} The time.
+     */
+    protected nextScheduledRun(): Moment.Moment;
+    /**
+     * Pauses the job.
+     *
+     * @chainable
+     */
+    pause(): this;
+    /**
+     * Resumes the job.
+     *
+     * @chainable
+     */
+    resume(): this;
+    /**
+     * Runs the job by respecting the overlap policy.
+     *
+     * @param {boolean} manual Started manually or not.
+     * @param {boolean} missed Catches up a missed run or not.
+     *
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    protected run(manual: boolean, missed: boolean): Promise<CronJobRun>;
+    /**
+     * Starts the schedule of the job.
+     *
+     * @param {CronJobState} [state] The persisted state.
+     *
+     * @chainable
+     */
+    start(state?: CronJobState): this;
+    /**
+     * Stops the schedule of the job.
+     *
+     * @chainable
+     */
+    stop(): this;
+    /**
+     * Returns the state of the job, which should be persisted.
+     *
+     * @returns {CronJobState} The state.
+     */
+    toState(): CronJobState;
+    /**
+     * Runs the job manually by respecting the overlap policy.
+     *
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    trigger(): Promise<CronJobRun>;
+}
+/**
+ * Creates a new cron scheduler.
+ *
+ * @param {CronSchedulerOptions} [opts] The options.
+ *
+ * @returns {CronScheduler} The new scheduler.
+ */
+export declare function newCronScheduler(opts?: CronSchedulerOptions): CronScheduler;
@@ -0,0 +1,890 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Cron from 'cron';
+import * as Events from 'events';
+import * as fs from 'fs';
+import { Lifecycle } from './lifecycle';
+import * as Moment from 'moment';
+import * as Path from 'path';
+import * as TB from './index';
+
+
+/**
+ * The context of a run of a scheduled job.
+ */
+export interface CronJobContext {
+    /**
+     * The underlying job.
+     */
+    job: ScheduledJob;
+    /**
+     * Indicates if the run has been started manually or not.
+     */
+    manual: boolean;
+    /**
+     * Indicates if the run catches up a missed run or not.
+     */
+    missed: boolean;
+    /**
+     * The state value, which is shared between all runs of the job.
+     */
+    state: any;
+}
+
+/**
+ * Options for a scheduled job.
+ */
+export interface CronJobOptions {
+    /**
+     * Run a missed tick after a restart or not. Default: (true)
+     */
+    catchUp?: boolean;
+    /**
+     * The function to invoke.
+     */
+    onTick: CronJobTick;
+    /**
+     * What to do if a tick happens while the job is still running. Default: 'skip'
+     */
+    overlap?: CronOverlapPolicy;
+    /**
+     * Start in paused state or not. Default: (false)
+     */
+    paused?: boolean;
+    /**
+     * The cron time.
+     */
+    time: string | Date;
+    /**
+     * The custom time zone.
+     */
+    timeZone?: string;
+}
+
+/**
+ * An entry in the run history of a job.
+ */
+export interface CronJobRun {
+    /**
+     * The duration, in milliseconds.
+     */
+    duration?: number;
+    /**
+     * The error message, if the run failed.
+     */
+    error?: string;
+    /**
+     * The time the run has finished (ISO 8601, UTC).
+     */
+    finished?: string;
+    /**
+     * Indicates if the run has been started manually or not.
+     */
+    manual: boolean;
+    /**
+     * Indicates if the run catches up a missed run or not.
+     */
+    missed: boolean;
+    /**
+     * Indicates if the run has been skipped because of an overlapping run.
+     */
+    skipped?: boolean;
+    /**
+     * The time the run has been started (ISO 8601, UTC).
+     */
+    started: string;
+    /**
+     * Indicates if the run was successful or not.
+     */
+    success?: boolean;
+}
+
+/**
+ * The persisted state of a job.
+ */
+export interface CronJobState {
+    /**
+     * The run history.
+     */
+    history?: CronJobRun[];
+    /**
+     * Indicates if the job is paused or not.
+     */
+    isPaused?: boolean;
+    /**
+     * The time of the next scheduled run (ISO 8601, UTC).
+     */
+    nextRun?: string;
+}
+
+/**
+ * A function that is invoked by a scheduled job.
+ * 
+ * @param {CronJobContext} ctx The context.
+ * 
+ * @returns {any} The result, which can also be a promise.
+ */
+export type CronJobTick = (ctx: CronJobContext) => any;
+
+/**
+ * Possible values for handling overlapping runs.
+ * 
+ * 'parallel': run in parallel
+ * 'queue': run after the current run has finished
+ * 'skip': do not run
+ */
+export type CronOverlapPolicy = 'parallel' | 'queue' | 'skip';
+
+/**
+ * Options for a cron scheduler.
+ */
+export interface CronSchedulerOptions {
+    /**
+     * The maximum number of runs, which are kept in the history of a job. Default: 20
+     */
+    historySize?: number;
+    /**
+     * The JSON file where the state of the jobs is stored.
+     */
+    stateFile?: string;
+}
+
+/**
+ * The persisted state of a cron scheduler.
+ */
+export interface CronSchedulerState {
+    /**
+     * The states of the jobs, by name.
+     */
+    jobs: { [name: string]: CronJobState };
+}
+
+
+/**
+ * A registry of named cron jobs.
+ * 
+ * Forwards the events of its jobs as 'start', 'complete', 'failed' and 'skip' with the job and the run.
+ */
+export class CronScheduler extends Events.EventEmitter {
+    /**
+     * Stores the jobs.
+     */
+    protected _jobs: ScheduledJob[] = [];
+    /**
+     * Stores the options.
+     */
+    protected _options: CronSchedulerOptions;
+    /**
+     * Stores the queue of save operations.
+     */
+    protected _saveQueue: Promise<any> = Promise.resolve();
+    /**
+     * Stores the loaded state.
+     */
+    protected _state: CronSchedulerState;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {CronSchedulerOptions} [opts] The options.
+     */
+    constructor(opts?: CronSchedulerOptions) {
+        super();
+
+        this._options = opts || {};
+    }
+
+    /**
+     * Adds a new job.
+     * If the scheduler has already been started, the job is started, too.
+     * 
+     * @param {string} name The unique name of the job.
+     * @param {CronJobOptions} opts The options.
+     * 
+     * @returns {ScheduledJob} The new job.
+     */
+    public add(name: string, opts: CronJobOptions): ScheduledJob {
+        let me = this;
+
+        name = TB.toStringSafe(name).trim();
+        if ('' === name) {
+            throw new Error('No job name defined!');
+        }
+        if (me.get(name)) {
+            throw new Error(`Job '${name}' already exists!`);
+        }
+
+        let job = new ScheduledJob(me, name, opts);
+        ['complete', 'failed', 'skip', 'start'].forEach(e => {
+            job.on(e, (run: CronJobRun, err?: any) => {
+                me.emit(e, job, run, err);
+            });
+        });
+
+        me._jobs.push(job);
+
+        if (me._state) {
+            job.start(me._state.jobs[name]);
+        }
+
+        return job;
+    }
+
+    /**
+     * Returns a job by name.
+     * 
+     * @param {string} name The name of the job.
+     * 
+     * @returns {ScheduledJob} The job or (undefined) if not found.
+     */
+    public get(name: string): ScheduledJob {
+        name = TB.toStringSafe(name).trim();
+
+        return this._jobs.filter(j => j.name === name)[0];
+    }
+
+    /**
+     * Gets the maximum size of the history of a job.
+     */
+    public get historySize(): number {
+        let size = parseInt(TB.toStringSafe(this._options.historySize).trim());
+        if (isNaN(size) || size < 0) {
+            size = 20;
+        }
+
+        return size;
+    }
+
+    /**
+     * Gets the list of all jobs.
+     */
+    public get jobs(): ScheduledJob[] {
+        return this._jobs.slice();
+    }
+
+    /**
+     * Loads the persisted state.
+     * 
+     * @returns {Promise<CronSchedulerState>} The promise with the state.
+     */
+    protected load(): Promise<CronSchedulerState> {
+        let file = this._options.stateFile;
+
+        return new Promise<CronSchedulerState>((resolve, reject) => {
+            if (TB.isEmptyString(file)) {
+                resolve({ jobs: {} });
+                return;
+            }
+
+            fs.readFile(Path.resolve(file), 'utf8', (err, data) => {
+                if (err) {
+                    if ('ENOENT' === err.code) {
+                        resolve({ jobs: {} });
+                    }
+                    else {
+                        reject(err);
+                    }
+
+                    return;
+                }
+
+                try {
+                    let state = TB.fromJSON<CronSchedulerState>(data) || { jobs: {} };
+                    if (!state.jobs) {
+                        state.jobs = {};
+                    }
+
+                    resolve(state);
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    }
+
+    /**
+     * Stops and removes a job.
+     * 
+     * @param {string} name The name of the job.
+     * 
+     * @returns {boolean} Job has been removed or not.
+     */
+    public remove(name: string): boolean {
+        let job = this.get(name);
+        if (!job) {
+            return false;
+        }
+
+        job.stop();
+        this._jobs.splice(this._jobs.indexOf(job), 1);
+
+        if (this._state) {
+            delete this._state.jobs[job.name];
+        }
+
+        this.save().then(() => {
+        }, (err) => {
+            console.log('[ERROR.ts-toolbox] CronScheduler.remove(): ' + err);
+        });
+
+        return true;
+    }
+
+    /**
+     * Saves the state of all jobs, if a state file is defined.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public save(): Promise<any> {
+        let me = this;
+
+        let file = me._options.stateFile;
+        if (TB.isEmptyString(file) || !me._state) {
+            return Promise.resolve();
+        }
+        file = Path.resolve(file);
+
+        let save = () => {
+            return new Promise<any>((resolve, reject) => {
+                me._jobs.forEach(j => {
+                    me._state.jobs[j.name] = j.toState();
+                });
+
+                TB.mkdirs(Path.dirname(file)).then(() => {
+                    // write to temp file first, so the file is never corrupted
+                    let tempFile = file + '.tmp';
+
+                    fs.writeFile(tempFile, JSON.stringify(me._state, null, 2), 'utf8', (err) => {
+                        if (err) {
+                            reject(err);
+                            return;
+                        }
+
+                        fs.rename(tempFile, file, TB.createSimpleCompletedAction(resolve, reject));
+                    });
+                }, (err) => {
+                    reject(err);
+                });
+            });
+        };
+
+        let next = me._saveQueue.then(save, save);
+        me._saveQueue = next.then(() => {
+        }, () => {
+        });
+
+        return next;
+    }
+
+    /**
+     * Loads the persisted state and starts all jobs.
+     * Missed runs are caught up.
+     * 
+     * @returns {Promise<this>} The promise with this instance.
+     */
+    public start(): Promise<this> {
+        let me = this;
+
+        return new Promise<this>((resolve, reject) => {
+            if (me._state) {
+                resolve(me);
+                return;
+            }
+
+            me.load().then((state) => {
+                me._state = state;
+
+                me._jobs.forEach(j => {
+                    j.start(state.jobs[j.name]);
+                });
+
+                me.save().then(() => {
+                    resolve(me);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Stops all jobs.
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the state has been saved.
+     */
+    public stop(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            if (!me._state) {
+                resolve();
+                return;
+            }
+
+            // save with the next run times before stopping
+            me.save().then(() => {
+                me._jobs.forEach(j => j.stop());
+                me._state = null;
+
+                resolve();
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Runs a job manually.
+     * 
+     * @param {string} name The name of the job.
+     * 
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    public trigger(name: string): Promise<CronJobRun> {
+        let job = this.get(name);
+        if (!job) {
+            return Promise.reject(new Error(`Job '${name}' not found!`));
+        }
+
+        return job.trigger();
+    }
+}
+
+/**
+ * A job of a cron scheduler.
+ * 
+ * Emits 'start', 'complete', 'failed' and 'skip' with the current run.
+ */
+export class ScheduledJob extends Events.EventEmitter {
+    /**
+     * Stores the underlying cron job.
+     */
+    protected _cron: Cron.CronJob;
+    /**
+     * Stores the run history.
+     */
+    protected _history: CronJobRun[] = [];
+    /**
+     * Stores if the job is paused or not.
+     */
+    protected _isPaused: boolean;
+    /**
+     * Stores if the job has been started or not.
+     */
+    protected _isStarted = false;
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the options.
+     */
+    protected _options: CronJobOptions;
+    /**
+     * Stores the queue of runs.
+     */
+    protected _queue: Promise<any> = Promise.resolve();
+    /**
+     * Stores the number of active runs.
+     */
+    protected _running = 0;
+    /**
+     * Stores the underlying scheduler.
+     */
+    protected _scheduler: CronScheduler;
+    /**
+     * Stores the shared state value.
+     */
+    protected _state: any;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {CronScheduler} scheduler The underlying scheduler.
+     * @param {string} name The name.
+     * @param {CronJobOptions} opts The options.
+     */
+    constructor(scheduler: CronScheduler, name: string, opts: CronJobOptions) {
+        super();
+
+        let me = this;
+
+        me._scheduler = scheduler;
+        me._name = name;
+        me._options = opts;
+        me._isPaused = TB.toBooleanSafe(opts.paused);
+
+        // throws on invalid cron times
+        me._cron = new Cron.CronJob({
+            cronTime: opts.time,
+            onTick: () => {
+                me.run(false, false).then(() => {
+                }, (err) => {
+                    console.log('[ERROR.ts-toolbox] ScheduledJob.onTick(): ' + err);
+                });
+            },
+            start: false,
+            timeZone: opts.timeZone,
+        });
+    }
+
+    /**
+     * Adds a run to the history.
+     * 
+     * @param {CronJobRun} run The run.
+     */
+    protected addToHistory(run: CronJobRun) {
+        this._history.push(run);
+
+        let size = this._scheduler.historySize;
+        if (this._history.length > size) {
+            this._history.splice(0, this._history.length - size);
+        }
+
+        this._scheduler.save().then(() => {
+        }, (err) => {
+            console.log('[ERROR.ts-toolbox] ScheduledJob.addToHistory(): ' + err);
+        });
+    }
+
+    /**
+     * Applies a persisted state.
+     * 
+     * @param {CronJobState} state The state.
+     */
+    protected applyState(state: CronJobState) {
+        if (!state) {
+            return;
+        }
+
+        this._history = TB.asArray<CronJobRun>(state.history);
+        this._isPaused = TB.toBooleanSafe(state.isPaused, this._isPaused);
+    }
+
+    /**
+     * Executes the job.
+     * 
+     * @param {boolean} manual Started manually or not.
+     * @param {boolean} missed Catches up a missed run or not.
+     * 
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    protected execute(manual: boolean, missed: boolean): Promise<CronJobRun> {
+        let me = this;
+
+        return new Promise<CronJobRun>((resolve) => {
+            let startTime = Date.now();
+
+            let run: CronJobRun = {
+                manual: manual,
+                missed: missed,
+                started: TB.utcNow().toISOString(),
+            };
+
+            let finish = (err?: any) => {
+                --me._running;
+
+                run.duration = Date.now() - startTime;
+                run.finished = TB.utcNow().toISOString();
+                run.success = !err;
+                if (err) {
+                    run.error = TB.toStringSafe(err.message || err);
+                }
+
+                me.addToHistory(run);
+
+                me.emit(err ? 'failed' : 'complete', run, err);
+                resolve(run);
+            };
+
+            ++me._running;
+            me.emit('start', run);
+
+            try {
+                let ctx: CronJobContext = {
+                    job: me,
+                    manual: manual,
+                    missed: missed,
+                    state: me._state,
+                };
+
+                TB.asPromise(me._options.onTick(ctx)).then(() => {
+                    me._state = ctx.state;
+
+                    finish();
+                }, (err) => {
+                    me._state = ctx.state;
+
+                    finish(err);
+                });
+            }
+            catch (e) {
+                finish(e);
+            }
+        });
+    }
+
+    /**
+     * Gets the run history.
+     */
+    public get history(): CronJobRun[] {
+        return this._history.slice();
+    }
+
+    /**
+     * Gets if the job is paused or not.
+     */
+    public get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    /**
+     * Gets if the job is running or not.
+     */
+    public get isRunning(): boolean {
+        return this._running > 0;
+    }
+
+    /**
+     * Gets the last finished run.
+     */
+    public get lastRun(): CronJobRun {
+        for (let i = this._history.length - 1; i >= 0; i--) {
+            if (!this._history[i].skipped) {
+                return this._history[i];
+            }
+        }
+    }
+
+    /**
+     * Gets the name.
+     */
+    public get name(): string {
+        return this._name;
+    }
+
+    /**
+     * Gets the time of the next scheduled run or (null) if the job is paused or not started.
+     */
+    public get nextRun(): Moment.Moment {
+        if (this._isPaused || !this._isStarted) {
+            return null;
+        }
+
+        return this.nextScheduledRun();
+    }
+
+    /**
+     * Returns the time of the next scheduled run.
+     * 
+     * @returns {Moment.Moment} The time.
+     */
+    protected nextScheduledRun(): Moment.Moment {
+        try {
+            return Moment(this._cron.nextDate().valueOf()).utc();
+        }
+        catch (e) {
+            return null;  // no more runs
+        }
+    }
+
+    /**
+     * Pauses the job.
+     * 
+     * @chainable
+     */
+    public pause(): this {
+        if (!this._isPaused) {
+            this._isPaused = true;
+            this._cron.stop();
+            Lifecycle.removeCron(this._cron);
+
+            this._scheduler.save().then(() => {
+            }, (err) => {
+                console.log('[ERROR.ts-toolbox] ScheduledJob.pause(): ' + err);
+            });
+        }
+
+        return this;
+    }
+
+    /**
+     * Resumes the job.
+     * 
+     * @chainable
+     */
+    public resume(): this {
+        if (this._isPaused) {
+            this._isPaused = false;
+
+            if (this._isStarted) {
+                this._cron.start();
+                Lifecycle.addCron(this._cron);
+            }
+
+            this._scheduler.save().then(() => {
+            }, (err) => {
+                console.log('[ERROR.ts-toolbox] ScheduledJob.resume(): ' + err);
+            });
+        }
+
+        return this;
+    }
+
+    /**
+     * Runs the job by respecting the overlap policy.
+     * 
+     * @param {boolean} manual Started manually or not.
+     * @param {boolean} missed Catches up a missed run or not.
+     * 
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    protected run(manual: boolean, missed: boolean): Promise<CronJobRun> {
+        let me = this;
+
+        let overlap = TB.normalizeString(me._options.overlap);
+
+        if ('parallel' === overlap) {
+            return me.execute(manual, missed);
+        }
+
+        if ('queue' === overlap) {
+            let next = me._queue.then(() => {
+                return me.execute(manual, missed);
+            });
+            me._queue = next;
+
+            return next;
+        }
+
+        // skip
+        if (me._running > 0) {
+            let run: CronJobRun = {
+                manual: manual,
+                missed: missed,
+                skipped: true,
+                started: TB.utcNow().toISOString(),
+            };
+
+            me.addToHistory(run);
+            me.emit('skip', run);
+
+            return Promise.resolve(run);
+        }
+
+        return me.execute(manual, missed);
+    }
+
+    /**
+     * Starts the schedule of the job.
+     * 
+     * @param {CronJobState} [state] The persisted state.
+     * 
+     * @chainable
+     */
+    public start(state?: CronJobState): this {
+        let me = this;
+
+        if (me._isStarted) {
+            return me;
+        }
+
+        me.applyState(state);
+        me._isStarted = true;
+
+        if (me._isPaused) {
+            return me;
+        }
+
+        me._cron.start();
+        Lifecycle.addCron(me._cron);
+
+        // catch up missed run?
+        if (state && !TB.isEmptyString(state.nextRun) && TB.toBooleanSafe(me._options.catchUp, true)) {
+            if (Moment.utc(state.nextRun).isBefore(TB.utcNow())) {
+                me.run(false, true).then(() => {
+                }, (err) => {
+                    console.log('[ERROR.ts-toolbox] ScheduledJob.start(): ' + err);
+                });
+            }
+        }
+
+        return me;
+    }
+
+    /**
+     * Stops the schedule of the job.
+     * 
+     * @chainable
+     */
+    public stop(): this {
+        if (this._isStarted) {
+            this._isStarted = false;
+            this._cron.stop();
+            Lifecycle.removeCron(this._cron);
+        }
+
+        return this;
+    }
+
+    /**
+     * Returns the state of the job, which should be persisted.
+     * 
+     * @returns {CronJobState} The state.
+     */
+    public toState(): CronJobState {
+        let nextRun = this.nextScheduledRun();
+
+        return {
+            history: this._history,
+            isPaused: this._isPaused,
+            nextRun: (this._isStarted && !this._isPaused && nextRun) ? nextRun.toISOString() : undefined,
+        };
+    }
+
+    /**
+     * Runs the job manually by respecting the overlap policy.
+     * 
+     * @returns {Promise<CronJobRun>} The promise with the run.
+     */
+    public trigger(): Promise<CronJobRun> {
+        return this.run(true, false);
+    }
+}
+
+
+/**
+ * Creates a new cron scheduler.
+ * 
+ * @param {CronSchedulerOptions} [opts] The options.
+ * 
+ * @returns {CronScheduler} The new scheduler.
+ */
+export function newCronScheduler(opts?: CronSchedulerOptions): CronScheduler {
+    return new CronScheduler(opts);
+}
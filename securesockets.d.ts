@@ -0,0 +1,274 @@
+import * as Events from 'events';
+import * as net from 'net';
+import * as SimpleSocket from 'node-simple-socket';
+/**
+ * Options for a secure channel.
+ */
+export interface SecureChannelOptions {
+    /**
+     * The interval for sending heartbeats, in milliseconds. 0 or less: Do not send heartbeats.
+     */
+    heartbeatInterval?: number;
+    /**
+     * The time to wait for the answer of a heartbeat, in milliseconds. Default: 5000
+     */
+    heartbeatTimeout?: number;
+}
+/**
+ * Options for a secure client pool.
+ */
+export interface SecureClientPoolOptions extends SecureChannelOptions {
+    /**
+     * The maximum delay between two reconnects, in milliseconds. Default: 30000
+     */
+    maxReconnectDelay?: number;
+    /**
+     * The maximum number of messages, which are queued while disconnected. Default: 1000
+     */
+    maxQueueSize?: number;
+    /**
+     * The initial delay before reconnecting, in milliseconds.
+     * The value is doubled after each failed try. Default: 500
+     */
+    reconnectDelay?: number;
+    /**
+     * The number of connections. Default: 1
+     */
+    size?: number;
+}
+interface ChannelEnvelope {
+    data?: any;
+    id?: number;
+    type: 'message' | 'ping' | 'pong';
+}
+interface PoolSlot {
+    attempts: number;
+    channel?: SecureChannel;
+    index: number;
+    timer?: NodeJS.Timer;
+}
+interface QueuedMessage {
+    data: any;
+    reject: (err: any) => void;
+    resolve: (result?: any) => void;
+}
+/**
+ * A message based channel over a secure socket, which
+ * serializes writes and answers / sends heartbeats.
+ *
+ * Emits 'message', 'close', 'error' and 'timeout' (if the peer did not answer a heartbeat).
+ */
+export declare class SecureChannel extends Events.EventEmitter {
+    /**
+     * Stores the timer for sending heartbeats.
+     */
+    protected _heartbeat: NodeJS.Timer;
+    /**
+     * Stores if the channel is open or not.
+     */
+    protected _isOpen: boolean;
+    /**
+     * Stores the ID of the next ping.
+     */
+    protected _nextPingId: number;
+    /**
+     * Stores the options.
+     */
+    protected _options: SecureChannelOptions;
+    /**
+     * Stores the timer, which waits for a pong.
+     */
+    protected _pongTimeout: NodeJS.Timer;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: SimpleSocket.SimpleSocket;
+    /**
+     * Stores the last write operation.
+     */
+    protected _writeQueue: Promise<any>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {SimpleSocket.SimpleSocket} socket The underlying socket.
+     * @param {SecureChannelOptions} [opts] The options.
+     */
+    constructor(socket: SimpleSocket.SimpleSocket, opts?: SecureChannelOptions);
+    /**
+     * Closes the channel.
+     */
+    close(): void;
+    /**
+     * Destroys the underlying connection immediately.
+     */
+    destroy(): void;
+    /**
+     * Gets if the channel is open or not.
+     */
+    readonly isOpen: boolean;
+    /**
+     * Handles a received envelope.
+     *
+     * @param {ChannelEnvelope} envelope The envelope.
+     */
+    protected onEnvelope(envelope: ChannelEnvelope): void;
+    /**
+     * Sends a message.
+     *
+     * @param {any} data The data to send (as JSON).
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    send(data: any): Promise<any>;
+    /**
+     * Sends a heartbeat and waits for the answer.
+     */
+    protected sendHeartbeat(): void;
+    /**
+     * Gets the underlying socket.
+     */
+    readonly socket: SimpleSocket.SimpleSocket;
+    /**
+     * Makes the handshake and starts reading.
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the handshake has been made.
+     */
+    start(): Promise<any>;
+    /**
+     * Stops reading and sending heartbeats.
+     */
+    protected stop(): void;
+    /**
+     * Writes an envelope. Write operations are executed one after another.
+     *
+     * @param {ChannelEnvelope} envelope The envelope to write.
+     *
+     * @returns {Promise<any>} The promise.
+     */
+    protected write(envelope: ChannelEnvelope): Promise<any>;
+}
+/**
+ * A pool of secure connections, which reconnects automatically
+ * and queues messages while disconnected.
+ *
+ * Emits 'connect', 'disconnect', 'reconnecting', 'message' and 'error'.
+ */
+export declare class SecureClientPool extends Events.EventEmitter {
+    readonly port: number;
+    readonly host?: string;
+    /**
+     * Stores if the pool has been closed or not.
+     */
+    protected _isClosed: boolean;
+    /**
+     * Stores the index of the next connection to use.
+     */
+    protected _nextSlot: number;
+    /**
+     * Stores the options.
+     */
+    protected _options: SecureClientPoolOptions;
+    /**
+     * Stores the messages, which have not been sent yet.
+     */
+    protected _queue: QueuedMessage[];
+    /**
+     * Stores the connection slots.
+     */
+    protected _slots: PoolSlot[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} port The TCP port of the server.
+     * @param {string} [host] The host address of the server.
+     * @param {SecureClientPoolOptions} [opts] The options.
+     */
+    constructor(port: number, host?: string, opts?: SecureClientPoolOptions);
+    /**
+     * Closes all connections and rejects all queued messages.
+     */
+    close(): void;
+    /**
+     * Gets the number of open connections.
+     */
+    readonly connected: number;
+    /**
+     * Connects a slot.
+     *
+     * @param {PoolSlot} slot The slot.
+     */
+    protected connectSlot(slot: PoolSlot): void;
+    /**
+     * Emits an 'error' event for a slot, if there is at least one listener,
+     * so a failed connection attempt does not crash the process.
+     *
+     * @param {any} err The error.
+     * @param {PoolSlot} slot The slot.
+     */
+    protected emitError(err: any, slot: PoolSlot): void;
+    /**
+     * Sends all queued messages.
+     */
+    protected flush(): void;
+    /**
+     * Returns the next open channel (round robin).
+     *
+     * @returns {SecureChannel} The channel or (null) if disconnected.
+     */
+    protected nextChannel(): SecureChannel;
+    /**
+     * Schedules a reconnect with exponential backoff.
+     *
+     * @param {PoolSlot} slot The slot.
+     */
+    protected scheduleReconnect(slot: PoolSlot): void;
+    /**
+     * Sends a message or queues it, if no connection is open.
+     *
+     * @param {any} data The data to send (as JSON).
+     *
+     * @returns {Promise<any>} The promise, which is fulfilled after the message has been sent.
+     */
+    send(data: any): Promise<any>;
+    /**
+     * Adds a message to the queue.
+     *
+     * @param {QueuedMessage} msg The message.
+     */
+    protected enqueue(msg: QueuedMessage): void;
+    /**
+     * Sends a message with a channel.
+     * If this fails, because the channel has been closed, the message is queued again.
+     *
+     * @param {SecureChannel} channel The channel.
+     * @param {QueuedMessage} msg The message.
+     */
+    protected sendWith(channel: SecureChannel, msg: QueuedMessage): void;
+    /**
+     * Starts connecting.
+     *
+     * @chainable
+     */
+    start(): this;
+}
+/**
+ * Creates and starts a new pool of secure connections.
+ *
+ * @param {number} port The TCP port of the server.
+ * @param {string} [host] The host address of the server.
+ * @param {SecureClientPoolOptions} [opts] The options.
+ *
+ * @returns {SecureClientPool} The new pool.
+ */
+export declare function createSecureClientPool(port: number, host?: string, opts?: SecureClientPoolOptions): SecureClientPool;
+/**
+ * Starts a secure TCP server, which provides a channel for each new connection.
+ *
+ * @param {number} port The TCP port the server should listen on.
+ * @param {(channel: SecureChannel) => void} onChannel The callback for new channels.
+ * @param {SecureChannelOptions} [opts] The options for the channels.
+ *
+ * @returns {Promise<net.Server>} The promise with the underlying Node server instance.
+ */
+export declare function startSecureChannelServer(port: number, onChannel: (channel: SecureChannel) => void, opts?: SecureChannelOptions): Promise<net.Server>;
+export {};
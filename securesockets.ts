@@ -0,0 +1,711 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as Events from 'events';
+import * as net from 'net';
+import * as SimpleSocket from 'node-simple-socket';
+import * as TB from './index';
+
+
+/**
+ * Options for a secure channel.
+ */
+export interface SecureChannelOptions {
+    /**
+     * The interval for sending heartbeats, in milliseconds. 0 or less: Do not send heartbeats.
+     */
+    heartbeatInterval?: number;
+    /**
+     * The time to wait for the answer of a heartbeat, in milliseconds. Default: 5000
+     */
+    heartbeatTimeout?: number;
+}
+
+/**
+ * Options for a secure client pool.
+ */
+export interface SecureClientPoolOptions extends SecureChannelOptions {
+    /**
+     * The maximum delay between two reconnects, in milliseconds. Default: 30000
+     */
+    maxReconnectDelay?: number;
+    /**
+     * The maximum number of messages, which are queued while disconnected. Default: 1000
+     */
+    maxQueueSize?: number;
+    /**
+     * The initial delay before reconnecting, in milliseconds.
+     * The value is doubled after each failed try. Default: 500
+     */
+    reconnectDelay?: number;
+    /**
+     * The number of connections. Default: 1
+     */
+    size?: number;
+}
+
+interface ChannelEnvelope {
+    data?: any;
+    id?: number;
+    type: 'message' | 'ping' | 'pong';
+}
+
+interface PoolSlot {
+    attempts: number;
+    channel?: SecureChannel;
+    index: number;
+    timer?: NodeJS.Timer;
+}
+
+interface QueuedMessage {
+    data: any;
+    reject: (err: any) => void;
+    resolve: (result?: any) => void;
+}
+
+
+/**
+ * A message based channel over a secure socket, which
+ * serializes writes and answers / sends heartbeats.
+ * 
+ * Emits 'message', 'close', 'error' and 'timeout' (if the peer did not answer a heartbeat).
+ */
+export class SecureChannel extends Events.EventEmitter {
+    /**
+     * Stores the timer for sending heartbeats.
+     */
+    protected _heartbeat: NodeJS.Timer;
+    /**
+     * Stores if the channel is open or not.
+     */
+    protected _isOpen = false;
+    /**
+     * Stores the ID of the next ping.
+     */
+    protected _nextPingId = 0;
+    /**
+     * Stores the options.
+     */
+    protected _options: SecureChannelOptions;
+    /**
+     * Stores the timer, which waits for a pong.
+     */
+    protected _pongTimeout: NodeJS.Timer;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: SimpleSocket.SimpleSocket;
+    /**
+     * Stores the last write operation.
+     */
+    protected _writeQueue: Promise<any> = Promise.resolve();
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {SimpleSocket.SimpleSocket} socket The underlying socket.
+     * @param {SecureChannelOptions} [opts] The options.
+     */
+    constructor(socket: SimpleSocket.SimpleSocket, opts?: SecureChannelOptions) {
+        super();
+
+        this._socket = socket;
+        this._options = opts || {};
+    }
+
+    /**
+     * Closes the channel.
+     */
+    public close() {
+        if (!this._isOpen) {
+            return;
+        }
+
+        this._socket.socket.end();
+    }
+
+    /**
+     * Destroys the underlying connection immediately.
+     */
+    public destroy() {
+        this._socket.socket.destroy();
+    }
+
+    /**
+     * Gets if the channel is open or not.
+     */
+    public get isOpen(): boolean {
+        return this._isOpen;
+    }
+
+    /**
+     * Handles a received envelope.
+     * 
+     * @param {ChannelEnvelope} envelope The envelope.
+     */
+    protected onEnvelope(envelope: ChannelEnvelope) {
+        if (!envelope) {
+            return;
+        }
+
+        switch (envelope.type) {
+            case 'message':
+                this.emit('message', envelope.data);
+                break;
+
+            case 'ping':
+                this.write({
+                    id: envelope.id,
+                    type: 'pong',
+                }).then(() => {
+                }, (err) => {
+                    this.emit('error', err);
+                });
+                break;
+
+            case 'pong':
+                if (this._pongTimeout) {
+                    clearTimeout(this._pongTimeout);
+                    this._pongTimeout = null;
+                }
+                break;
+        }
+    }
+
+    /**
+     * Sends a message.
+     * 
+     * @param {any} data The data to send (as JSON).
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    public send(data: any): Promise<any> {
+        return this.write({
+            data: data,
+            type: 'message',
+        });
+    }
+
+    /**
+     * Sends a heartbeat and waits for the answer.
+     */
+    protected sendHeartbeat() {
+        let me = this;
+
+        if (me._pongTimeout) {
+            return;  // still waiting
+        }
+
+        let timeout = parseInt(TB.toStringSafe(me._options.heartbeatTimeout).trim());
+        if (isNaN(timeout)) {
+            timeout = 5000;
+        }
+
+        me._pongTimeout = setTimeout(() => {
+            me._pongTimeout = null;
+
+            me.emit('timeout');
+            me.destroy();
+        }, timeout);
+
+        me.write({
+            id: ++me._nextPingId,
+            type: 'ping',
+        }).then(() => {
+        }, (err) => {
+            me.emit('error', err);
+        });
+    }
+
+    /**
+     * Gets the underlying socket.
+     */
+    public get socket(): SimpleSocket.SimpleSocket {
+        return this._socket;
+    }
+
+    /**
+     * Makes the handshake and starts reading.
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the handshake has been made.
+     */
+    public start(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            try {
+                me._socket.once('close', () => {
+                    me.stop();
+                    me.emit('close');
+                });
+                me._socket.on('error', (err: any) => {
+                    me.emit('error', err);
+                });
+
+                me._socket.makeHandshakeIfNeeded().then(() => {
+                    me._isOpen = true;
+
+                    let nextRead: () => void;
+                    nextRead = () => {
+                        if (!me._isOpen) {
+                            return;
+                        }
+
+                        me._socket.readJSON<ChannelEnvelope>().then((envelope) => {
+                            try {
+                                me.onEnvelope(envelope);
+                            }
+                            catch (e) {
+                                me.emit('error', e);
+                            }
+
+                            nextRead();
+                        }, (err) => {
+                            if (me._isOpen) {
+                                me.emit('error', err);
+                                me.destroy();
+                            }
+                        });
+                    };
+
+                    nextRead();
+
+                    let interval = parseInt(TB.toStringSafe(me._options.heartbeatInterval).trim());
+                    if (interval > 0) {
+                        me._heartbeat = setInterval(() => {
+                            me.sendHeartbeat();
+                        }, interval);
+                    }
+
+                    resolve();
+                }, (err) => {
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Stops reading and sending heartbeats.
+     */
+    protected stop() {
+        this._isOpen = false;
+
+        if (this._heartbeat) {
+            clearInterval(this._heartbeat);
+            this._heartbeat = null;
+        }
+        if (this._pongTimeout) {
+            clearTimeout(this._pongTimeout);
+            this._pongTimeout = null;
+        }
+    }
+
+    /**
+     * Writes an envelope. Write operations are executed one after another.
+     * 
+     * @param {ChannelEnvelope} envelope The envelope to write.
+     * 
+     * @returns {Promise<any>} The promise.
+     */
+    protected write(envelope: ChannelEnvelope): Promise<any> {
+        let me = this;
+
+        let result = new Promise<any>((resolve, reject) => {
+            let doWrite = () => {
+                if (!me._isOpen) {
+                    reject(new Error('Channel is not open!'));
+                    return;
+                }
+
+                me._socket.writeJSON(envelope).then(() => {
+                    resolve();
+                }, (err) => {
+                    reject(err);
+                });
+            };
+
+            me._writeQueue.then(doWrite, doWrite);
+        });
+
+        me._writeQueue = result.then(() => { }, () => { });
+        return result;
+    }
+}
+
+/**
+ * A pool of secure connections, which reconnects automatically
+ * and queues messages while disconnected.
+ * 
+ * Emits 'connect', 'disconnect', 'reconnecting', 'message' and 'error'.
+ */
+export class SecureClientPool extends Events.EventEmitter {
+    /**
+     * Stores if the pool has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores the index of the next connection to use.
+     */
+    protected _nextSlot = 0;
+    /**
+     * Stores the options.
+     */
+    protected _options: SecureClientPoolOptions;
+    /**
+     * Stores the messages, which have not been sent yet.
+     */
+    protected _queue: QueuedMessage[] = [];
+    /**
+     * Stores the connection slots.
+     */
+    protected _slots: PoolSlot[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {number} port The TCP port of the server.
+     * @param {string} [host] The host address of the server.
+     * @param {SecureClientPoolOptions} [opts] The options.
+     */
+    constructor(public readonly port: number, public readonly host?: string,
+                opts?: SecureClientPoolOptions) {
+        super();
+
+        this._options = opts || {};
+
+        let size = parseInt(TB.toStringSafe(this._options.size).trim());
+        if (isNaN(size) || size < 1) {
+            size = 1;
+        }
+
+        for (let i = 0; i < size; i++) {
+            this._slots.push({
+                attempts: 0,
+                index: i,
+            });
+        }
+    }
+
+    /**
+     * Closes all connections and rejects all queued messages.
+     */
+    public close() {
+        this._isClosed = true;
+
+        this._slots.forEach(s => {
+            if (s.timer) {
+                clearTimeout(s.timer);
+                s.timer = null;
+            }
+
+            if (s.channel) {
+                s.channel.close();
+            }
+        });
+
+        this._queue.splice(0).forEach(x => {
+            x.reject(new Error('Pool has been closed!'));
+        });
+    }
+
+    /**
+     * Gets the number of open connections.
+     */
+    public get connected(): number {
+        return this._slots.filter(s => s.channel && s.channel.isOpen)
+                          .length;
+    }
+
+    /**
+     * Connects a slot.
+     * 
+     * @param {PoolSlot} slot The slot.
+     */
+    protected connectSlot(slot: PoolSlot) {
+        let me = this;
+
+        if (me._isClosed) {
+            return;
+        }
+
+        TB.connectToSecureServer(me.port, me.host).then((socket) => {
+            let channel = new SecureChannel(socket, me._options);
+
+            channel.on('message', (data: any) => {
+                me.emit('message', data, channel);
+            });
+            channel.on('error', (err: any) => {
+                me.emitError(err, slot);
+            });
+            channel.once('close', () => {
+                slot.channel = null;
+
+                me.emit('disconnect', slot.index);
+                me.scheduleReconnect(slot);
+            });
+
+            channel.start().then(() => {
+                if (me._isClosed) {
+                    channel.close();
+                    return;
+                }
+
+                slot.attempts = 0;
+                slot.channel = channel;
+
+                me.emit('connect', slot.index);
+                me.flush();
+            }, (err) => {
+                channel.destroy();
+                me.scheduleReconnect(slot);
+
+                me.emitError(err, slot);
+            });
+        }, (err) => {
+            me.scheduleReconnect(slot);
+
+            me.emitError(err, slot);
+        });
+    }
+
+    /**
+     * Emits an 'error' event for a slot, if there is at least one listener,
+     * so a failed connection attempt does not crash the process.
+     * 
+     * @param {any} err The error.
+     * @param {PoolSlot} slot The slot.
+     */
+    protected emitError(err: any, slot: PoolSlot) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err, slot.index);
+        }
+    }
+
+    /**
+     * Sends all queued messages.
+     */
+    protected flush() {
+        while (this._queue.length > 0) {
+            let channel = this.nextChannel();
+            if (!channel) {
+                break;
+            }
+
+            this.sendWith(channel, this._queue.shift());
+        }
+    }
+
+    /**
+     * Returns the next open channel (round robin).
+     * 
+     * @returns {SecureChannel} The channel or (null) if disconnected.
+     */
+    protected nextChannel(): SecureChannel {
+        for (let i = 0; i < this._slots.length; i++) {
+            let slot = this._slots[(this._nextSlot + i) % this._slots.length];
+
+            if (slot.channel && slot.channel.isOpen) {
+                this._nextSlot = (slot.index + 1) % this._slots.length;
+                return slot.channel;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Schedules a reconnect with exponential backoff.
+     * 
+     * @param {PoolSlot} slot The slot.
+     */
+    protected scheduleReconnect(slot: PoolSlot) {
+        let me = this;
+
+        if (me._isClosed || slot.timer) {
+            return;
+        }
+
+        let delay = parseInt(TB.toStringSafe(me._options.reconnectDelay).trim());
+        if (isNaN(delay) || delay < 0) {
+            delay = 500;
+        }
+
+        let maxDelay = parseInt(TB.toStringSafe(me._options.maxReconnectDelay).trim());
+        if (isNaN(maxDelay) || maxDelay < 0) {
+            maxDelay = 30000;
+        }
+
+        delay = Math.min(maxDelay, delay * Math.pow(2, slot.attempts));
+        // add some jitter, so slots do not reconnect at the same time
+        delay = Math.floor(delay * (0.8 + Math.random() * 0.2));
+
+        ++slot.attempts;
+        me.emit('reconnecting', slot.index, delay, slot.attempts);
+
+        slot.timer = setTimeout(() => {
+            slot.timer = null;
+
+            me.connectSlot(slot);
+        }, delay);
+    }
+
+    /**
+     * Sends a message or queues it, if no connection is open.
+     * 
+     * @param {any} data The data to send (as JSON).
+     * 
+     * @returns {Promise<any>} The promise, which is fulfilled after the message has been sent.
+     */
+    public send(data: any): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            if (me._isClosed) {
+                reject(new Error('Pool has been closed!'));
+                return;
+            }
+
+            let msg: QueuedMessage = {
+                data: data,
+                reject: reject,
+                resolve: resolve,
+            };
+
+            let channel = me.nextChannel();
+            if (channel) {
+                me.sendWith(channel, msg);
+            }
+            else {
+                me.enqueue(msg);
+            }
+        });
+    }
+
+    /**
+     * Adds a message to the queue.
+     * 
+     * @param {QueuedMessage} msg The message.
+     */
+    protected enqueue(msg: QueuedMessage) {
+        let maxQueueSize = parseInt(TB.toStringSafe(this._options.maxQueueSize).trim());
+        if (isNaN(maxQueueSize)) {
+            maxQueueSize = 1000;
+        }
+
+        if (this._queue.length >= maxQueueSize) {
+            msg.reject(new Error('Queue is full!'));
+        }
+        else {
+            this._queue.push(msg);
+        }
+    }
+
+    /**
+     * Sends a message with a channel.
+     * If this fails, because the channel has been closed, the message is queued again.
+     * 
+     * @param {SecureChannel} channel The channel.
+     * @param {QueuedMessage} msg The message.
+     */
+    protected sendWith(channel: SecureChannel, msg: QueuedMessage) {
+        let me = this;
+
+        channel.send(msg.data).then(() => {
+            msg.resolve();
+        }, (err) => {
+            if (channel.isOpen || me._isClosed) {
+                msg.reject(err);
+            }
+            else {
+                me.enqueue(msg);
+                me.flush();
+            }
+        });
+    }
+
+    /**
+     * Starts connecting.
+     * 
+     * @chainable
+     */
+    public start(): this {
+        this._slots.filter(s => !s.channel && !s.timer).forEach(s => {
+            this.connectSlot(s);
+        });
+
+        return this;
+    }
+}
+
+
+/**
+ * Creates and starts a new pool of secure connections.
+ * 
+ * @param {number} port The TCP port of the server.
+ * @param {string} [host] The host address of the server.
+ * @param {SecureClientPoolOptions} [opts] The options.
+ * 
+ * @returns {SecureClientPool} The new pool.
+ */
+export function createSecureClientPool(port: number, host?: string,
+                                       opts?: SecureClientPoolOptions): SecureClientPool {
+    return new SecureClientPool(port, host, opts).start();
+}
+
+/**
+ * Starts a secure TCP server, which provides a channel for each new connection.
+ * 
+ * @param {number} port The TCP port the server should listen on.
+ * @param {(channel: SecureChannel) => void} onChannel The callback for new channels.
+ * @param {SecureChannelOptions} [opts] The options for the channels.
+ * 
+ * @returns {Promise<net.Server>} The promise with the underlying Node server instance.
+ */
+export function startSecureChannelServer(port: number,
+                                         onChannel: (channel: SecureChannel) => void,
+                                         opts?: SecureChannelOptions): Promise<net.Server> {
+    return TB.startSecureServer(port, (err, socket) => {
+        if (err) {
+            console.log('[ERROR.ts-toolbox] startSecureChannelServer(): ' + err);
+            return;
+        }
+
+        let channel = new SecureChannel(socket, opts);
+        channel.on('error', (err: any) => {
+            console.log('[ERROR.ts-toolbox] startSecureChannelServer(): ' + err);
+        });
+
+        channel.start().then(() => {
+            onChannel(channel);
+        }, (err) => {
+            console.log('[ERROR.ts-toolbox] startSecureChannelServer(): ' + err);
+
+            channel.destroy();
+        });
+    });
+}
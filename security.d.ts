@@ -0,0 +1,129 @@
+import * as Moment from 'moment';
+/**
+ * Supported algorithms for JSON Web Tokens.
+ */
+export declare type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'RS512';
+/**
+ * Options for 'signJwt()'.
+ */
+export interface JwtSignOptions {
+    /**
+     * The algorithm. Default: HS256
+     */
+    algorithm?: JwtAlgorithm;
+    /**
+     * The lifetime of the token, in seconds ('exp' claim).
+     */
+    expiresIn?: number;
+    /**
+     * Additional header fields.
+     */
+    header?: {
+        [name: string]: any;
+    };
+    /**
+     * The time, in seconds, the token is not valid before ('nbf' claim).
+     */
+    notBefore?: number;
+}
+/**
+ * Options for 'verifyJwt()'.
+ */
+export interface JwtVerifyOptions {
+    /**
+     * The allowed algorithms. Default: HS256, HS384, HS512 for secrets and RS256, RS384, RS512 for public keys
+     */
+    algorithms?: JwtAlgorithm[];
+    /**
+     * The tolerance for 'exp' and 'nbf', in seconds. Default: 0
+     */
+    clockTolerance?: number;
+    /**
+     * The custom current time. Default: utcNow()
+     */
+    now?: Moment.Moment;
+}
+/**
+ * Options for 'hashPassword()'.
+ */
+export interface PasswordHashOptions {
+    /**
+     * The number of PBKDF2 iterations. Default: 100000
+     */
+    iterations?: number;
+    /**
+     * The key derivation function. Default: scrypt
+     */
+    kdf?: 'pbkdf2' | 'scrypt';
+    /**
+     * The length of the hash, in bytes. Default: 32
+     */
+    keyLength?: number;
+    /**
+     * The length of the salt, in bytes. Default: 16
+     */
+    saltLength?: number;
+}
+/**
+ * Possible output encodings for 'randomToken()'.
+ */
+export declare type TokenEncoding = 'base64' | 'base64url' | 'hex';
+/**
+ * Compares two values in constant time.
+ *
+ * @param {string|Buffer} x The "left" value.
+ * @param {string|Buffer} y The "right" value.
+ *
+ * @returns {boolean} Are equal or not.
+ */
+export declare function constantTimeEquals(x: string | Buffer, y: string | Buffer): boolean;
+/**
+ * Hashes a password.
+ *
+ * @param {string} password The password.
+ * @param {PasswordHashOptions} [opts] The options.
+ *
+ * @returns {Promise<string>} The promise with the hash, which also contains the parameters and the salt,
+ *                            like '$scrypt$N=16384,r=8,p=1$<salt>$<hash>'.
+ */
+export declare function hashPassword(password: string, opts?: PasswordHashOptions): Promise<string>;
+/**
+ * Generates a cryptographically random token.
+ *
+ * @param {number} [size] The number of random bytes. Default: 32
+ * @param {TokenEncoding} [encoding] The encoding. Default: hex
+ *
+ * @returns {string} The token.
+ */
+export declare function randomToken(size?: number, encoding?: TokenEncoding): string;
+/**
+ * Creates a JSON Web Token.
+ *
+ * @param {any} payload The payload.
+ * @param {string|Buffer} key The secret (HS*) or the private key in PEM format (RS*).
+ * @param {JwtSignOptions} [opts] The options.
+ *
+ * @returns {string} The token.
+ */
+export declare function signJwt(payload: any, key: string | Buffer, opts?: JwtSignOptions): string;
+/**
+ * Verifies a JSON Web Token and returns its payload.
+ *
+ * @param {string} token The token.
+ * @param {string|Buffer} key The secret (HS*) or the public key in PEM format (RS*).
+ * @param {JwtVerifyOptions} [opts] The options.
+ *
+ * @returns {T} The payload.
+ *
+ * @throws {Error} Token is invalid (code: EINVALIDTOKEN), expired (code: ETOKENEXPIRED) or not active yet (code: ETOKENNOTACTIVE).
+ */
+export declare function verifyJwt<T>(token: string, key: string | Buffer, opts?: JwtVerifyOptions): T;
+/**
+ * Verifies a password against a hash, which has been created by 'hashPassword()'.
+ *
+ * @param {string} password The password.
+ * @param {string} hash The hash.
+ *
+ * @returns {Promise<boolean>} The promise that indicates if the password matches or not.
+ */
+export declare function verifyPassword(password: string, hash: string): Promise<boolean>;
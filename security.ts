@@ -0,0 +1,513 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as crypto from 'crypto';
+import * as Moment from 'moment';
+import * as TB from './index';
+
+
+/**
+ * Supported algorithms for JSON Web Tokens.
+ */
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'RS512';
+
+/**
+ * Options for 'signJwt()'.
+ */
+export interface JwtSignOptions {
+    /**
+     * The algorithm. Default: HS256
+     */
+    algorithm?: JwtAlgorithm;
+    /**
+     * The lifetime of the token, in seconds ('exp' claim).
+     */
+    expiresIn?: number;
+    /**
+     * Additional header fields.
+     */
+    header?: { [name: string]: any };
+    /**
+     * The time, in seconds, the token is not valid before ('nbf' claim).
+     */
+    notBefore?: number;
+}
+
+/**
+ * Options for 'verifyJwt()'.
+ */
+export interface JwtVerifyOptions {
+    /**
+     * The allowed algorithms. Default: HS256, HS384, HS512 for secrets and RS256, RS384, RS512 for public keys
+     */
+    algorithms?: JwtAlgorithm[];
+    /**
+     * The tolerance for 'exp' and 'nbf', in seconds. Default: 0
+     */
+    clockTolerance?: number;
+    /**
+     * The custom current time. Default: utcNow()
+     */
+    now?: Moment.Moment;
+}
+
+/**
+ * Options for 'hashPassword()'.
+ */
+export interface PasswordHashOptions {
+    /**
+     * The number of PBKDF2 iterations. Default: 100000
+     */
+    iterations?: number;
+    /**
+     * The key derivation function. Default: scrypt
+     */
+    kdf?: 'pbkdf2' | 'scrypt';
+    /**
+     * The length of the hash, in bytes. Default: 32
+     */
+    keyLength?: number;
+    /**
+     * The length of the salt, in bytes. Default: 16
+     */
+    saltLength?: number;
+}
+
+/**
+ * Possible output encodings for 'randomToken()'.
+ */
+export type TokenEncoding = 'base64' | 'base64url' | 'hex';
+
+
+const JWT_ALGORITHMS: { [algorithm: string]: { digest: string, isHmac: boolean } } = {
+    'HS256': { digest: 'sha256', isHmac: true },
+    'HS384': { digest: 'sha384', isHmac: true },
+    'HS512': { digest: 'sha512', isHmac: true },
+    'RS256': { digest: 'RSA-SHA256', isHmac: false },
+    'RS384': { digest: 'RSA-SHA384', isHmac: false },
+    'RS512': { digest: 'RSA-SHA512', isHmac: false },
+};
+/**
+ * The upper limit of PBKDF2 iterations, which are accepted from a password hash.
+ */
+const MAX_ITERATIONS = 10000000;
+/**
+ * The upper limit of memory, in bytes, which scrypt is allowed to use (128 * N * r).
+ */
+const MAX_SCRYPT_MEMORY = 32 * 1024 * 1024;
+/**
+ * The minimum length of a password hash, in bytes.
+ */
+const MIN_HASH_LENGTH = 16;
+/**
+ * The minimum length of the salt of a password hash, in bytes.
+ */
+const MIN_SALT_LENGTH = 8;
+
+
+function createJwtError(msg: string, code: string): any {
+    let err: any = new Error(msg);
+    err.code = code;
+
+    return err;
+}
+
+function derivePasswordHash(password: string, salt: Buffer, kdf: string, params: { [name: string]: number }, keyLength: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        validatePasswordHashParams(salt, kdf, params, keyLength);
+
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+        switch (kdf) {
+            case 'pbkdf2-sha256':
+                crypto.pbkdf2(password, salt, params['i'], keyLength, 'sha256', completed);
+                break;
+
+            case 'scrypt':
+                (<any>crypto).scrypt(password, salt, keyLength, {
+                    maxmem: 256 * params['N'] * params['r'] + 1048576,
+                    N: params['N'],
+                    p: params['p'],
+                    r: params['r'],
+                }, completed);
+                break;
+
+            default:
+                throw new Error(`Key derivation function '${kdf}' is NOT supported!`);
+        }
+    });
+}
+
+function fromBase64Url(str: string): Buffer {
+    str = str.replace(/-/g, '+').replace(/_/g, '/');
+    while (str.length % 4) {
+        str += '=';
+    }
+
+    return Buffer.from(str, 'base64');
+}
+
+function isPublicOrPrivateKey(key: string | Buffer): boolean {
+    return TB.toStringSafe(key).indexOf('-----BEGIN') > -1;
+}
+
+function signJwtData(data: string, key: string | Buffer, algorithm: string): Buffer {
+    let algo = JWT_ALGORITHMS[algorithm];
+
+    if (algo.isHmac) {
+        return crypto.createHmac(algo.digest, key)
+                     .update(data)
+                     .digest();
+    }
+
+    return crypto.createSign(algo.digest)
+                 .update(data)
+                 .sign(TB.toStringSafe(key));
+}
+
+function toBase64Url(data: Buffer): string {
+    return data.toString('base64')
+               .replace(/\+/g, '-')
+               .replace(/\//g, '_')
+               .replace(/=+$/, '');
+}
+
+function validatePasswordHashParams(salt: Buffer, kdf: string, params: { [name: string]: number }, keyLength: number) {
+    let isIntegerInRange = (val: any, min: number, max: number) => {
+        return 'number' === typeof val &&
+               val % 1 === 0 &&
+               val >= min && val <= max;
+    };
+
+    if (!isIntegerInRange(keyLength, MIN_HASH_LENGTH, 1024)) {
+        throw new Error(`Length of the hash must be between ${MIN_HASH_LENGTH} and 1024 bytes!`);
+    }
+
+    if (salt.length < MIN_SALT_LENGTH) {
+        throw new Error(`Salt must have at least ${MIN_SALT_LENGTH} bytes!`);
+    }
+
+    switch (kdf) {
+        case 'pbkdf2-sha256':
+            if (!isIntegerInRange(params['i'], 1, MAX_ITERATIONS)) {
+                throw new Error(`Number of iterations must be between 1 and ${MAX_ITERATIONS}!`);
+            }
+            break;
+
+        case 'scrypt':
+            {
+                let N = params['N'];
+                let r = params['r'];
+
+                // N must be a power of 2
+                if (!isIntegerInRange(N, 2, Math.pow(2, 20)) || 0 !== (N & (N - 1))) {
+                    throw new Error(`Invalid scrypt cost parameter N '${N}'!`);
+                }
+                if (!isIntegerInRange(r, 1, 32) || !isIntegerInRange(params['p'], 1, 16)) {
+                    throw new Error('Invalid scrypt parameters r and/or p!');
+                }
+                if (128 * N * r > MAX_SCRYPT_MEMORY) {
+                    throw new Error('scrypt parameters exceed the memory limit!');
+                }
+            }
+            break;
+
+        default:
+            throw new Error(`Key derivation function '${kdf}' is NOT supported!`);
+    }
+}
+
+
+/**
+ * Compares two values in constant time.
+ * 
+ * @param {string|Buffer} x The "left" value.
+ * @param {string|Buffer} y The "right" value.
+ * 
+ * @returns {boolean} Are equal or not.
+ */
+export function constantTimeEquals(x: string | Buffer, y: string | Buffer): boolean {
+    let bufferX = Buffer.isBuffer(x) ? x : Buffer.from(TB.toStringSafe(x), 'utf8');
+    let bufferY = Buffer.isBuffer(y) ? y : Buffer.from(TB.toStringSafe(y), 'utf8');
+
+    if (bufferX.length !== bufferY.length) {
+        // compare anyway, so the time does not depend on the position of a difference
+        crypto.timingSafeEqual(bufferX, bufferX);
+
+        return false;
+    }
+
+    return crypto.timingSafeEqual(bufferX, bufferY);
+}
+
+/**
+ * Hashes a password.
+ * 
+ * @param {string} password The password.
+ * @param {PasswordHashOptions} [opts] The options.
+ * 
+ * @returns {Promise<string>} The promise with the hash, which also contains the parameters and the salt,
+ *                            like '$scrypt$N=16384,r=8,p=1$<salt>$<hash>'.
+ */
+export function hashPassword(password: string, opts?: PasswordHashOptions): Promise<string> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let getNumber = (val: any, defaultValue: number) => {
+        let n = parseInt(TB.toStringSafe(val).trim());
+
+        return (isNaN(n) || n < 1) ? defaultValue : n;
+    };
+
+    let kdf: string;
+    let params: { [name: string]: number };
+
+    switch (TB.normalizeString(opts.kdf)) {
+        case '':
+        case 'scrypt':
+            kdf = 'scrypt';
+            params = { N: 16384, r: 8, p: 1 };
+            break;
+
+        case 'pbkdf2':
+            kdf = 'pbkdf2-sha256';
+            params = { i: getNumber(opts.iterations, 100000) };
+            break;
+
+        default:
+            return Promise.reject(new Error(`Key derivation function '${opts.kdf}' is NOT supported!`));
+    }
+
+    let salt = crypto.randomBytes(getNumber(opts.saltLength, 16));
+
+    return new Promise<string>((resolve, reject) => {
+        try {
+            derivePasswordHash(TB.toStringSafe(password), salt, kdf, params, getNumber(opts.keyLength, 32)).then((hash) => {
+                let paramList = Object.keys(params).map(p => p + '=' + params[p]).join(',');
+
+                resolve(`$${kdf}$${paramList}$${salt.toString('base64')}$${hash.toString('base64')}`);
+            }, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Generates a cryptographically random token.
+ * 
+ * @param {number} [size] The number of random bytes. Default: 32
+ * @param {TokenEncoding} [encoding] The encoding. Default: hex
+ * 
+ * @returns {string} The token.
+ */
+export function randomToken(size = 32, encoding?: TokenEncoding): string {
+    let bytes = crypto.randomBytes(size);
+
+    switch (TB.normalizeString(encoding)) {
+        case '':
+        case 'hex':
+            return bytes.toString('hex');
+
+        case 'base64':
+            return bytes.toString('base64');
+
+        case 'base64url':
+            return toBase64Url(bytes);
+    }
+
+    throw new Error(`Encoding '${encoding}' is NOT supported!`);
+}
+
+/**
+ * Creates a JSON Web Token.
+ * 
+ * @param {any} payload The payload.
+ * @param {string|Buffer} key The secret (HS*) or the private key in PEM format (RS*).
+ * @param {JwtSignOptions} [opts] The options.
+ * 
+ * @returns {string} The token.
+ */
+export function signJwt(payload: any, key: string | Buffer, opts?: JwtSignOptions): string {
+    if (!opts) {
+        opts = {};
+    }
+
+    let algorithm = TB.toStringSafe(opts.algorithm).trim().toUpperCase();
+    if ('' === algorithm) {
+        algorithm = 'HS256';
+    }
+    if (!JWT_ALGORITHMS[algorithm]) {
+        throw new Error(`Algorithm '${algorithm}' is NOT supported!`);
+    }
+
+    if (TB.isNullOrUndefined(payload)) {
+        payload = {};
+    }
+    if ('[object Object]' !== Object.prototype.toString.call(payload)) {
+        throw new Error('Payload must be a plain object!');
+    }
+
+    let claims: any = TB.cloneObject(payload);
+
+    let now = TB.utcNow().unix();
+    if (TB.isNullOrUndefined(claims.iat)) {
+        claims.iat = now;
+    }
+    if (!TB.isNullOrUndefined(opts.expiresIn)) {
+        claims.exp = now + opts.expiresIn;
+    }
+    if (!TB.isNullOrUndefined(opts.notBefore)) {
+        claims.nbf = now + opts.notBefore;
+    }
+
+    let header: any = TB.cloneObject(opts.header || {});
+    header.alg = algorithm;
+    header.typ = 'JWT';
+
+    let data = toBase64Url(Buffer.from(JSON.stringify(header), 'utf8')) + '.' +
+               toBase64Url(Buffer.from(JSON.stringify(claims), 'utf8'));
+
+    return data + '.' + toBase64Url(signJwtData(data, key, algorithm));
+}
+
+/**
+ * Verifies a JSON Web Token and returns its payload.
+ * 
+ * @param {string} token The token.
+ * @param {string|Buffer} key The secret (HS*) or the public key in PEM format (RS*).
+ * @param {JwtVerifyOptions} [opts] The options.
+ * 
+ * @returns {T} The payload.
+ * 
+ * @throws {Error} Token is invalid (code: EINVALIDTOKEN), expired (code: ETOKENEXPIRED) or not active yet (code: ETOKENNOTACTIVE).
+ */
+export function verifyJwt<T>(token: string, key: string | Buffer, opts?: JwtVerifyOptions): T {
+    if (!opts) {
+        opts = {};
+    }
+
+    let parts = TB.toStringSafe(token).trim().split('.');
+    if (3 !== parts.length) {
+        throw createJwtError('Token is malformed!', 'EINVALIDTOKEN');
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+        header = JSON.parse(fromBase64Url(parts[0]).toString('utf8'));
+        claims = JSON.parse(fromBase64Url(parts[1]).toString('utf8'));
+    }
+    catch (e) {
+        throw createJwtError('Token is malformed!', 'EINVALIDTOKEN');
+    }
+
+    let algorithms: string[] = opts.algorithms;
+    if (!algorithms) {
+        // do not allow to use a public key as HMAC secret
+        algorithms = isPublicOrPrivateKey(key) ? [ 'RS256', 'RS384', 'RS512' ]
+                                               : [ 'HS256', 'HS384', 'HS512' ];
+    }
+
+    let algorithm = TB.toStringSafe(header ? header.alg : null);
+    let algo = JWT_ALGORITHMS[algorithm];
+    if (!algo || algorithms.indexOf(algorithm) < 0) {
+        throw createJwtError(`Algorithm '${algorithm}' is not allowed!`, 'EINVALIDTOKEN');
+    }
+
+    // never use a public key as HMAC secret or a secret as public key,
+    // even if both kinds of algorithms are allowed
+    if (algo.isHmac === isPublicOrPrivateKey(key)) {
+        throw createJwtError(`Algorithm '${algorithm}' cannot be used with that key!`, 'EINVALIDTOKEN');
+    }
+
+    let data = parts[0] + '.' + parts[1];
+    let signature = fromBase64Url(parts[2]);
+
+    let isValid: boolean;
+    if (algo.isHmac) {
+        isValid = constantTimeEquals(signJwtData(data, key, algorithm), signature);
+    }
+    else {
+        isValid = crypto.createVerify(algo.digest)
+                        .update(data)
+                        .verify(TB.toStringSafe(key), signature);
+    }
+
+    if (!isValid) {
+        throw createJwtError('Signature is invalid!', 'EINVALIDTOKEN');
+    }
+
+    let now = (opts.now || TB.utcNow()).unix();
+    let tolerance = parseInt(TB.toStringSafe(opts.clockTolerance).trim()) || 0;
+
+    if (claims && 'number' === typeof claims.exp && now - tolerance >= claims.exp) {
+        throw createJwtError('Token has expired!', 'ETOKENEXPIRED');
+    }
+    if (claims && 'number' === typeof claims.nbf && now + tolerance < claims.nbf) {
+        throw createJwtError('Token is not active yet!', 'ETOKENNOTACTIVE');
+    }
+
+    return claims;
+}
+
+/**
+ * Verifies a password against a hash, which has been created by 'hashPassword()'.
+ * 
+ * @param {string} password The password.
+ * @param {string} hash The hash.
+ * 
+ * @returns {Promise<boolean>} The promise that indicates if the password matches or not.
+ */
+export function verifyPassword(password: string, hash: string): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+        try {
+            // $<kdf>$<params>$<salt>$<hash>
+            let parts = TB.toStringSafe(hash).split('$');
+            if (5 !== parts.length || '' !== parts[0]) {
+                throw new Error('Invalid password hash!');
+            }
+
+            let params: { [name: string]: number } = {};
+            parts[2].split(',').forEach(p => {
+                let separator = p.indexOf('=');
+
+                params[p.substr(0, separator)] = parseInt(p.substr(separator + 1));
+            });
+
+            // the length of the hash and the salt are checked by 'derivePasswordHash()',
+            // so an empty hash cannot match any password
+            let expected = Buffer.from(parts[4], 'base64');
+
+            derivePasswordHash(TB.toStringSafe(password), Buffer.from(parts[3], 'base64'), parts[1], params, expected.length).then((actual) => {
+                resolve(constantTimeEquals(actual, expected));
+            }, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
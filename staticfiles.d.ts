@@ -0,0 +1,43 @@
+import * as Routing from './routing';
+/**
+ * Options for 'staticFiles()'.
+ */
+export interface StaticFilesOptions {
+    /**
+     * Compress content (brotli, gzip, deflate) if the client supports it. Default: (true)
+     */
+    compress?: boolean;
+    /**
+     * Send ETags or not. Default: (true)
+     */
+    etag?: boolean;
+    /**
+     * One or more patterns of files to exclude, relative to the root directory.
+     */
+    exclude?: string | string[];
+    /**
+     * One or more patterns of files to include, relative to the root directory. Default: **
+     */
+    include?: string | string[];
+    /**
+     * One or more names of index files for directories. Default: index.html
+     */
+    index?: string | string[];
+    /**
+     * The value for the 'max-age' of the 'Cache-Control' header, in seconds. Default: 0
+     */
+    maxAge?: number;
+    /**
+     * The path prefix, that is removed from the request path, before resolving a file.
+     */
+    prefix?: string;
+}
+/**
+ * Creates a middleware, which serves static files from a directory.
+ *
+ * @param {string} root The root directory.
+ * @param {StaticFilesOptions} [opts] The options.
+ *
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export declare function staticFiles(root: string, opts?: StaticFilesOptions): Routing.HttpMiddleware;
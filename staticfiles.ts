@@ -0,0 +1,563 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as Path from 'path';
+import * as Routing from './routing';
+import * as TB from './index';
+import * as ZLib from 'zlib';
+
+
+/**
+ * Options for 'staticFiles()'.
+ */
+export interface StaticFilesOptions {
+    /**
+     * Compress content (brotli, gzip, deflate) if the client supports it. Default: (true)
+     */
+    compress?: boolean;
+    /**
+     * Send ETags or not. Default: (true)
+     */
+    etag?: boolean;
+    /**
+     * One or more patterns of files to exclude, relative to the root directory.
+     */
+    exclude?: string | string[];
+    /**
+     * One or more patterns of files to include, relative to the root directory. Default: **
+     */
+    include?: string | string[];
+    /**
+     * One or more names of index files for directories. Default: index.html
+     */
+    index?: string | string[];
+    /**
+     * The value for the 'max-age' of the 'Cache-Control' header, in seconds. Default: 0
+     */
+    maxAge?: number;
+    /**
+     * The path prefix, that is removed from the request path, before resolving a file.
+     */
+    prefix?: string;
+}
+
+interface ByteRange {
+    end: number;
+    start: number;
+}
+
+interface ETagCacheEntry {
+    etag: string;
+    mtime: number;
+    size: number;
+}
+
+
+const COMPRESSION_MIN_SIZE = 1024;
+const ETAG_CACHE: { [path: string]: ETagCacheEntry } = {};
+/**
+ * The maximum number of entries in 'ETAG_CACHE'. The least recently used entries are removed first.
+ */
+const MAX_ETAG_CACHE_SIZE = 1000;
+
+
+/**
+ * Creates a middleware, which serves static files from a directory.
+ * 
+ * @param {string} root The root directory.
+ * @param {StaticFilesOptions} [opts] The options.
+ * 
+ * @returns {Routing.HttpMiddleware} The new middleware.
+ */
+export function staticFiles(root: string, opts?: StaticFilesOptions): Routing.HttpMiddleware {
+    if (!opts) {
+        opts = {};
+    }
+
+    root = Path.resolve(TB.toStringSafe(root));
+
+    let prefix = TB.toStringSafe(opts.prefix).split('/')
+                                             .filter(x => '' !== x)
+                                             .join('/');
+    if ('' !== prefix) {
+        prefix = '/' + prefix;
+    }
+
+    let indexFiles = TB.asArray(opts.index).map(x => TB.toStringSafe(x).trim())
+                                           .filter(x => '' !== x);
+    if (indexFiles.length < 1) {
+        indexFiles = [ 'index.html' ];
+    }
+
+    let includePatterns = TB.asArray(opts.include).map(x => TB.toStringSafe(x))
+                                                   .filter(x => !TB.isEmptyString(x));
+    if (includePatterns.length < 1) {
+        includePatterns = [ '**' ];
+    }
+    let excludePatterns = TB.asArray(opts.exclude).map(x => TB.toStringSafe(x))
+                                                   .filter(x => !TB.isEmptyString(x));
+
+    let maxAge = parseInt(TB.toStringSafe(opts.maxAge).trim());
+    if (isNaN(maxAge) || maxAge < 0) {
+        maxAge = 0;
+    }
+
+    return (ctx, next) => {
+        if ('GET' !== ctx.method && 'HEAD' !== ctx.method) {
+            return next();
+        }
+
+        let relPath = ctx.path;
+        if ('' !== prefix) {
+            if (relPath.toLowerCase() !== prefix.toLowerCase() &&
+                0 !== relPath.toLowerCase().indexOf(prefix.toLowerCase() + '/')) {
+                return next();
+            }
+
+            relPath = relPath.substr(prefix.length);
+        }
+
+        if (relPath.indexOf('\0') > -1) {
+            throw Routing.createHttpError(400);
+        }
+
+        let fullPath = Path.resolve(root, '.' + Path.sep + relPath);
+        if (fullPath !== root && 0 !== fullPath.indexOf(root + Path.sep)) {
+            // outside root directory
+            throw Routing.createHttpError(403);
+        }
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+            let goNext = () => {
+                next().then((result) => {
+                    completed(null, result);
+                }, (err) => {
+                    completed(err);
+                });
+            };
+
+            resolveFile(fullPath, indexFiles).then((file) => {
+                if (!file) {
+                    goNext();
+                    return;
+                }
+
+                let relFile = Path.relative(root, file.path).split(Path.sep).join('/');
+                if (TB.match(relFile, includePatterns, { dot: true }).length < 1 ||
+                    TB.match(relFile, excludePatterns, { dot: true }).length > 0) {
+                    goNext();
+                    return;
+                }
+
+                sendFile(ctx, file.path, file.stat, opts, maxAge).then(() => {
+                    completed(null);
+                }, (err) => {
+                    completed(err);
+                });
+            }, (err) => {
+                completed(err);
+            });
+        });
+    };
+}
+
+
+function detectMime(file: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        let mime = TB.detectMimeByFilename(file, '');
+        if ('' !== mime && 'application/octet-stream' !== mime) {
+            resolve(mime);
+            return;
+        }
+
+        // try magic bytes
+        readHeader(file, 4100).then((header) => {
+            TB.fileType(header).then((result) => {
+                resolve(result ? result.mime : TB.DefauleMimeType);
+            }, (err) => {
+                reject(err);
+            });
+        }, (err) => {
+            reject(err);
+        });
+    });
+}
+
+function getETag(file: string, stat: fs.Stats): Promise<string> {
+    let mtime = stat.mtime.getTime();
+
+    let entry = ETAG_CACHE[file];
+    if (entry && entry.mtime === mtime && entry.size === stat.size) {
+        // move to the end, as most recently used
+        delete ETAG_CACHE[file];
+        ETAG_CACHE[file] = entry;
+
+        return Promise.resolve(entry.etag);
+    }
+
+    return new Promise<string>((resolve, reject) => {
+        TB.hash(fs.createReadStream(file), 'sha1').then((hash) => {
+            let etag = '"' + hash.toString('base64') + '"';
+
+            delete ETAG_CACHE[file];
+
+            let paths = Object.keys(ETAG_CACHE);
+            if (paths.length >= MAX_ETAG_CACHE_SIZE) {
+                delete ETAG_CACHE[paths[0]];
+            }
+
+            ETAG_CACHE[file] = {
+                etag: etag,
+                mtime: mtime,
+                size: stat.size,
+            };
+
+            resolve(etag);
+        }, (err) => {
+            reject(err);
+        });
+    });
+}
+
+function isCompressible(mime: string): boolean {
+    mime = TB.normalizeString(mime.split(';')[0]);
+
+    return 0 === mime.indexOf('text/') ||
+           /^application\/(javascript|json|xml|x-javascript)$/.test(mime) ||
+           /\+(json|xml)$/.test(mime) ||
+           'image/svg+xml' === mime;
+}
+
+function isNotModified(req: http.IncomingMessage, etag: string, stat: fs.Stats): boolean {
+    let ifNoneMatch = TB.toStringSafe(req.headers['if-none-match']).trim();
+    if ('' !== ifNoneMatch) {
+        if (!etag) {
+            return false;
+        }
+
+        return ifNoneMatch.split(',').map(x => x.trim().replace(/^W\//, ''))
+                                     .some(x => '*' === x || etag === x);
+    }
+
+    let ifModifiedSince = Date.parse(TB.toStringSafe(req.headers['if-modified-since']).trim());
+    if (!isNaN(ifModifiedSince)) {
+        // HTTP dates have no milliseconds
+        return Math.floor(stat.mtime.getTime() / 1000) <= Math.floor(ifModifiedSince / 1000);
+    }
+
+    return false;
+}
+
+function negotiateEncoding(req: http.IncomingMessage): string {
+    let accepted = TB.toStringSafe(req.headers['accept-encoding']).split(',').map(x => {
+        let parts = x.split(';');
+
+        let q = 1;
+        let qMatch = /q=([0-9.]+)/.exec(parts.slice(1).join(';'));
+        if (qMatch) {
+            q = parseFloat(qMatch[1]);
+        }
+
+        return {
+            name: TB.normalizeString(parts[0]),
+            q: q,
+        };
+    }).filter(x => x.q > 0);
+
+    let supported = [ 'gzip', 'deflate' ];
+    if (TB.isFunc((<any>ZLib).createBrotliCompress)) {
+        supported.unshift('br');
+    }
+
+    let best: string;
+    let bestQ = 0;
+    supported.forEach(enc => {
+        accepted.filter(x => enc === x.name || '*' === x.name).forEach(x => {
+            if (x.q > bestQ) {
+                best = enc;
+                bestQ = x.q;
+            }
+        });
+    });
+
+    return best;
+}
+
+function parseRange(header: string, size: number): ByteRange | false {
+    let match = /^bytes=(\d*)-(\d*)$/.exec(TB.toStringSafe(header).trim());
+    if (!match) {
+        // unsupported, like multiple ranges
+        return null;
+    }
+
+    let start: number;
+    let end: number;
+    if ('' === match[1]) {
+        // suffix
+        if ('' === match[2]) {
+            return null;
+        }
+
+        start = Math.max(0, size - parseInt(match[2]));
+        end = size - 1;
+    }
+    else {
+        start = parseInt(match[1]);
+        end = '' === match[2] ? (size - 1) : Math.min(parseInt(match[2]), size - 1);
+    }
+
+    if (start > end || start >= size) {
+        return false;  // not satisfiable
+    }
+
+    return {
+        end: end,
+        start: start,
+    };
+}
+
+function readHeader(file: string, maxLength: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        fs.open(file, 'r', (err, fd) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            let buff = Buffer.alloc(maxLength);
+            fs.read(fd, buff, 0, maxLength, 0, (err, bytesRead) => {
+                fs.close(fd, () => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(buff.slice(0, bytesRead));
+                    }
+                });
+            });
+        });
+    });
+}
+
+function resolveFile(fullPath: string, indexFiles: string[]): Promise<{ path: string, stat: fs.Stats }> {
+    return new Promise<{ path: string, stat: fs.Stats }>((resolve, reject) => {
+        fs.stat(fullPath, (err, stat) => {
+            if (err) {
+                if ('ENOENT' === err.code || 'ENOTDIR' === err.code) {
+                    resolve(null);
+                }
+                else {
+                    reject(err);
+                }
+
+                return;
+            }
+
+            if (stat.isFile()) {
+                resolve({
+                    path: fullPath,
+                    stat: stat,
+                });
+                return;
+            }
+
+            if (!stat.isDirectory()) {
+                resolve(null);
+                return;
+            }
+
+            // try index files
+            let candidates = indexFiles.map(x => Path.join(fullPath, x));
+
+            let nextCandidate: () => void;
+            nextCandidate = () => {
+                if (candidates.length < 1) {
+                    resolve(null);
+                    return;
+                }
+
+                let c = candidates.shift();
+                fs.stat(c, (err, stat) => {
+                    if (!err && stat.isFile()) {
+                        resolve({
+                            path: c,
+                            stat: stat,
+                        });
+                    }
+                    else {
+                        nextCandidate();
+                    }
+                });
+            };
+
+            nextCandidate();
+        });
+    });
+}
+
+function sendFile(ctx: Routing.HttpRequestContext, file: string, stat: fs.Stats,
+                  opts: StaticFilesOptions, maxAge: number): Promise<any> {
+    let req = ctx.request;
+    let resp = ctx.response;
+
+    return new Promise<any>((resolve, reject) => {
+        let completed = TB.createSimpleCompletedAction(resolve, reject);
+
+        let etagPromise: Promise<string>;
+        if (TB.toBooleanSafe(opts.etag, true)) {
+            etagPromise = getETag(file, stat);
+        }
+        else {
+            etagPromise = Promise.resolve(<string>null);
+        }
+
+        etagPromise.then((etag) => {
+            detectMime(file).then((mime) => {
+                try {
+                    resp.setHeader('Accept-Ranges', 'bytes');
+                    resp.setHeader('Cache-Control', 'public, max-age=' + maxAge);
+                    resp.setHeader('Last-Modified', stat.mtime.toUTCString());
+                    if (etag) {
+                        resp.setHeader('ETag', etag);
+                    }
+
+                    if (isNotModified(req, etag, stat)) {
+                        resp.statusCode = 304;
+                        resp.end();
+
+                        completed(null);
+                        return;
+                    }
+
+                    if (0 === mime.indexOf('text/') && mime.indexOf('charset') < 0) {
+                        mime += '; charset=utf-8';
+                    }
+                    resp.setHeader('Content-Type', mime);
+
+                    let range: ByteRange;
+                    let rangeHeader = TB.toStringSafe(req.headers['range']);
+                    if (!TB.isEmptyString(rangeHeader) && stat.size > 0) {
+                        let ifRange = TB.toStringSafe(req.headers['if-range']).trim();
+                        if ('' === ifRange || ifRange === etag) {
+                            let parsedRange = parseRange(rangeHeader, stat.size);
+                            if (false === parsedRange) {
+                                resp.setHeader('Content-Range', 'bytes */' + stat.size);
+                                throw Routing.createHttpError(416);
+                            }
+
+                            range = parsedRange;
+                        }
+                    }
+
+                    let encoding: string;
+                    if (!range && TB.toBooleanSafe(opts.compress, true) &&
+                        stat.size >= COMPRESSION_MIN_SIZE && isCompressible(mime)) {
+                        resp.setHeader('Vary', 'Accept-Encoding');
+
+                        encoding = negotiateEncoding(req);
+                    }
+
+                    let compressor: NodeJS.ReadWriteStream;
+                    switch (encoding) {
+                        case 'br':
+                            compressor = (<any>ZLib).createBrotliCompress();
+                            break;
+
+                        case 'deflate':
+                            compressor = ZLib.createDeflate();
+                            break;
+
+                        case 'gzip':
+                            compressor = ZLib.createGzip();
+                            break;
+                    }
+
+                    if (compressor) {
+                        resp.setHeader('Content-Encoding', encoding);
+                    }
+                    else if (range) {
+                        resp.statusCode = 206;
+                        resp.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stat.size}`);
+                        resp.setHeader('Content-Length', '' + (range.end - range.start + 1));
+                    }
+                    else {
+                        resp.setHeader('Content-Length', '' + stat.size);
+                    }
+
+                    if ('HEAD' === ctx.method) {
+                        resp.end();
+
+                        completed(null);
+                        return;
+                    }
+
+                    let stream: NodeJS.ReadableStream = fs.createReadStream(file, range ? {
+                        end: range.end,
+                        start: range.start,
+                    } : undefined);
+
+                    stream.once('error', (err: any) => {
+                        if (resp.headersSent) {
+                            resp.end();
+                        }
+
+                        completed(err);
+                    });
+
+                    resp.once('finish', () => {
+                        completed(null);
+                    });
+                    resp.once('close', () => {
+                        completed(null);
+                    });
+
+                    if (compressor) {
+                        let fileStream = stream;
+
+                        compressor.once('error', (err: any) => {
+                            (<any>fileStream).destroy();
+                            (<any>resp).destroy();
+
+                            completed(err);
+                        });
+
+                        stream = stream.pipe(compressor);
+                    }
+                    stream.pipe(resp);
+                }
+                catch (e) {
+                    completed(e);
+                }
+            }, (err) => {
+                completed(err);
+            });
+        }, (err) => {
+            completed(err);
+        });
+    });
+}
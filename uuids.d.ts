@@ -0,0 +1,97 @@
+import * as Moment from 'moment';
+import * as UUID from 'node-uuid';
+/**
+ * Information about a parsed UUID or ULID.
+ */
+export interface UuidInfo {
+    /**
+     * The 16 bytes.
+     */
+    buffer: Buffer;
+    /**
+     * The format.
+     */
+    format: 'ulid' | 'uuid';
+    /**
+     * The timestamp (v1, v7 and ULID).
+     */
+    time?: Moment.Moment;
+    /**
+     * The variant (UUID only).
+     */
+    variant?: UuidVariant;
+    /**
+     * The version (UUID only).
+     */
+    version?: number;
+}
+/**
+ * Options for 'uuid()'.
+ */
+export interface UuidOptions extends UUID.UUIDOptions {
+    /**
+     * The name for v3 and v5.
+     */
+    name?: string | Buffer;
+    /**
+     * The namespace for v3 and v5: 'dns', 'url', 'oid', 'x500' or a custom UUID.
+     */
+    namespace?: string;
+}
+/**
+ * Possible values for the variant of an UUID.
+ */
+export declare type UuidVariant = 'future' | 'microsoft' | 'ncs' | 'rfc4122';
+/**
+ * The standard namespaces for v3 and v5 UUIDs.
+ */
+export declare const UuidNamespaces: {
+    DNS: string;
+    OID: string;
+    URL: string;
+    X500: string;
+};
+/**
+ * Generates an UUID or ULID.
+ *
+ * @param {string} [format] The format: 'v1', 'v3', 'v4', 'v5', 'v7' or 'ulid'. Default: v4
+ * @param {UuidOptions} [opts] The options.
+ *
+ * @returns {string} The generated ID.
+ */
+export declare function generateUuid(format?: string, opts?: UuidOptions): string;
+/**
+ * Checks if a value is a valid UUID or ULID.
+ *
+ * @param {any} val The value to check.
+ * @param {string} [format] The expected format: 'v1', 'v3', 'v4', 'v5', 'v7', 'ulid' or 'uuid' (any version).
+ *                          Default: any UUID or ULID
+ *
+ * @returns {boolean} Is valid or not.
+ */
+export declare function isUuid(val: any, format?: string): boolean;
+/**
+ * Parses an UUID or ULID.
+ *
+ * @param {any} val The string or the Buffer with 16 bytes.
+ *
+ * @returns {UuidInfo} The information or (null) if invalid.
+ */
+export declare function parseUuid(val: any): UuidInfo;
+/**
+ * Converts 16 bytes to an UUID or ULID string.
+ *
+ * @param {Buffer} buffer The bytes.
+ * @param {string} [format] The format: 'uuid' or 'ulid'. Default: uuid
+ *
+ * @returns {string} The string.
+ */
+export declare function uuidFromBuffer(buffer: Buffer, format?: string): string;
+/**
+ * Converts an UUID or ULID string to 16 bytes.
+ *
+ * @param {string} id The UUID or ULID.
+ *
+ * @returns {Buffer} The bytes.
+ */
+export declare function uuidToBuffer(id: string): Buffer;
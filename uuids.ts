@@ -0,0 +1,408 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as crypto from 'crypto';
+import * as Moment from 'moment';
+import * as TB from './index';
+import * as UUID from 'node-uuid';
+
+
+/**
+ * Information about a parsed UUID or ULID.
+ */
+export interface UuidInfo {
+    /**
+     * The 16 bytes.
+     */
+    buffer: Buffer;
+    /**
+     * The format.
+     */
+    format: 'ulid' | 'uuid';
+    /**
+     * The timestamp (v1, v7 and ULID).
+     */
+    time?: Moment.Moment;
+    /**
+     * The variant (UUID only).
+     */
+    variant?: UuidVariant;
+    /**
+     * The version (UUID only).
+     */
+    version?: number;
+}
+
+/**
+ * Options for 'uuid()'.
+ */
+export interface UuidOptions extends UUID.UUIDOptions {
+    /**
+     * The name for v3 and v5.
+     */
+    name?: string | Buffer;
+    /**
+     * The namespace for v3 and v5: 'dns', 'url', 'oid', 'x500' or a custom UUID.
+     */
+    namespace?: string;
+}
+
+/**
+ * Possible values for the variant of an UUID.
+ */
+export type UuidVariant = 'future' | 'microsoft' | 'ncs' | 'rfc4122';
+
+
+/**
+ * The standard namespaces for v3 and v5 UUIDs.
+ */
+export const UuidNamespaces = {
+    DNS: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+    OID: '6ba7b812-9dad-11d1-80b4-00c04fd430c8',
+    URL: '6ba7b811-9dad-11d1-80b4-00c04fd430c8',
+    X500: '6ba7b814-9dad-11d1-80b4-00c04fd430c8',
+};
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+/**
+ * The difference between the UUID epoch (1582-10-15) and the unix epoch, in milliseconds.
+ */
+const UUID_EPOCH_OFFSET = 12219292800000;
+
+
+function createNameBasedUuid(version: number, opts: UuidOptions): Buffer {
+    if (TB.isNullOrUndefined(opts.name)) {
+        throw new Error(`v${version} UUIDs require a name!`);
+    }
+
+    let namespace = TB.toStringSafe(opts.namespace).trim();
+    switch (namespace.toLowerCase()) {
+        case '':
+            throw new Error(`v${version} UUIDs require a namespace!`);
+
+        case 'dns':
+            namespace = UuidNamespaces.DNS;
+            break;
+
+        case 'oid':
+            namespace = UuidNamespaces.OID;
+            break;
+
+        case 'url':
+            namespace = UuidNamespaces.URL;
+            break;
+
+        case 'x500':
+            namespace = UuidNamespaces.X500;
+            break;
+    }
+
+    let name = Buffer.isBuffer(opts.name) ? opts.name : Buffer.from(TB.toStringSafe(opts.name), 'utf8');
+
+    let bytes = crypto.createHash(3 === version ? 'md5' : 'sha1')
+                      .update(Buffer.concat([ uuidToBuffer(namespace), name ]))
+                      .digest()
+                      .slice(0, 16);
+
+    return setVersion(bytes, version);
+}
+
+function createTimeBasedId(opts: UuidOptions): Buffer {
+    let time = Date.now();
+    if (!TB.isNullOrUndefined(opts.msecs)) {
+        time = Moment(<any>opts.msecs).valueOf();
+    }
+
+    let bytes = crypto.randomBytes(16);
+    writeTimestamp(bytes, time);
+
+    return bytes;
+}
+
+function decodeUlid(ulid: string): Buffer {
+    let bytes = Buffer.alloc(16);
+
+    // 26 characters with 5 bits each = 130 bits, the first 2 bits are always 0
+    let bitBuffer = 0;
+    let bitCount = -2;
+    let index = 0;
+
+    ulid.toUpperCase().split('').forEach(c => {
+        let value = CROCKFORD_BASE32.indexOf(c);
+
+        bitBuffer = (bitBuffer << 5) | value;
+        bitCount += 5;
+
+        if (bitCount >= 8) {
+            bitCount -= 8;
+            bytes[index++] = (bitBuffer >> bitCount) & 0xFF;
+        }
+
+        bitBuffer &= (1 << bitCount) - 1;
+    });
+
+    return bytes;
+}
+
+function encodeUlid(bytes: Buffer): string {
+    let ulid = '';
+
+    let bitBuffer = 0;
+    let bitCount = 2;  // the 2 leading 0 bits
+
+    for (let i = 0; i < bytes.length; i++) {
+        bitBuffer = (bitBuffer << 8) | bytes[i];
+        bitCount += 8;
+
+        while (bitCount >= 5) {
+            bitCount -= 5;
+            ulid += CROCKFORD_BASE32[(bitBuffer >> bitCount) & 0x1F];
+        }
+
+        bitBuffer &= (1 << bitCount) - 1;
+    }
+
+    return ulid;
+}
+
+function readTimestamp(bytes: Buffer): number {
+    return bytes.readUIntBE(0, 6);
+}
+
+function setVersion(bytes: Buffer, version: number): Buffer {
+    bytes[6] = (bytes[6] & 0x0F) | (version << 4);
+    bytes[8] = (bytes[8] & 0x3F) | 0x80;  // RFC 4122 variant
+
+    return bytes;
+}
+
+function writeTimestamp(bytes: Buffer, time: number) {
+    bytes.writeUIntBE(time, 0, 6);
+}
+
+
+/**
+ * Generates an UUID or ULID.
+ * 
+ * @param {string} [format] The format: 'v1', 'v3', 'v4', 'v5', 'v7' or 'ulid'. Default: v4
+ * @param {UuidOptions} [opts] The options.
+ * 
+ * @returns {string} The generated ID.
+ */
+export function generateUuid(format?: string, opts?: UuidOptions): string {
+    format = TB.normalizeString(format);
+    if (!opts) {
+        opts = {};
+    }
+
+    switch (format) {
+        case '':
+        case '4':
+        case 'v4':
+            return UUID.v4(opts);
+
+        case '1':
+        case 'v1':
+            return UUID.v1(opts);
+
+        case '3':
+        case 'v3':
+            return uuidFromBuffer(createNameBasedUuid(3, opts));
+
+        case '5':
+        case 'v5':
+            return uuidFromBuffer(createNameBasedUuid(5, opts));
+
+        case '7':
+        case 'v7':
+            return uuidFromBuffer(setVersion(createTimeBasedId(opts), 7));
+
+        case 'ulid':
+            return uuidFromBuffer(createTimeBasedId(opts), 'ulid');
+    }
+
+    throw Error(`'${format}' is NOT supported!`);
+}
+
+/**
+ * Checks if a value is a valid UUID or ULID.
+ * 
+ * @param {any} val The value to check.
+ * @param {string} [format] The expected format: 'v1', 'v3', 'v4', 'v5', 'v7', 'ulid' or 'uuid' (any version).
+ *                          Default: any UUID or ULID
+ * 
+ * @returns {boolean} Is valid or not.
+ */
+export function isUuid(val: any, format?: string): boolean {
+    let info = parseUuid(val);
+    if (!info) {
+        return false;
+    }
+
+    format = TB.normalizeString(format).replace(/^v/, '');
+    switch (format) {
+        case '':
+            return true;
+
+        case 'ulid':
+        case 'uuid':
+            return info.format === format;
+    }
+
+    return 'uuid' === info.format &&
+           'rfc4122' === info.variant &&
+           TB.toStringSafe(info.version) === format;
+}
+
+/**
+ * Parses an UUID or ULID.
+ * 
+ * @param {any} val The string or the Buffer with 16 bytes.
+ * 
+ * @returns {UuidInfo} The information or (null) if invalid.
+ */
+export function parseUuid(val: any): UuidInfo {
+    if (TB.isNullOrUndefined(val)) {
+        return null;
+    }
+
+    let info: UuidInfo;
+
+    if (Buffer.isBuffer(val)) {
+        if (16 !== val.length) {
+            return null;
+        }
+
+        info = {
+            buffer: Buffer.from(val),
+            format: 'uuid',
+        };
+    }
+    else {
+        let str = TB.toStringSafe(val).trim();
+
+        if (/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(str)) {
+            let ulidBuffer = decodeUlid(str);
+
+            return {
+                buffer: ulidBuffer,
+                format: 'ulid',
+                time: Moment(readTimestamp(ulidBuffer)).utc(),
+            };
+        }
+
+        if (!/^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i.test(str)) {
+            return null;
+        }
+
+        info = {
+            buffer: uuidToBuffer(str),
+            format: 'uuid',
+        };
+    }
+
+    let bytes = info.buffer;
+
+    let variantBits = bytes[8] >> 5;
+    if (variantBits < 4) {
+        info.variant = 'ncs';
+    }
+    else if (variantBits < 6) {
+        info.variant = 'rfc4122';
+    }
+    else if (6 === variantBits) {
+        info.variant = 'microsoft';
+    }
+    else {
+        info.variant = 'future';
+    }
+
+    if ('rfc4122' === info.variant) {
+        info.version = bytes[6] >> 4;
+
+        if (1 === info.version) {
+            // 60 bit timestamp, in 100 nanoseconds since the UUID epoch
+            let timeHigh = ((bytes[6] & 0x0F) << 8 | bytes[7]) * 65536 + bytes.readUInt16BE(4);
+            let timeLow = bytes.readUInt32BE(0);
+
+            info.time = Moment(Math.floor((timeHigh * 4294967296 + timeLow) / 10000) - UUID_EPOCH_OFFSET).utc();
+        }
+        else if (7 === info.version) {
+            info.time = Moment(readTimestamp(bytes)).utc();
+        }
+    }
+
+    return info;
+}
+
+/**
+ * Converts 16 bytes to an UUID or ULID string.
+ * 
+ * @param {Buffer} buffer The bytes.
+ * @param {string} [format] The format: 'uuid' or 'ulid'. Default: uuid
+ * 
+ * @returns {string} The string.
+ */
+export function uuidFromBuffer(buffer: Buffer, format?: string): string {
+    if (!Buffer.isBuffer(buffer) || 16 !== buffer.length) {
+        throw new Error('Buffer must contain 16 bytes!');
+    }
+
+    switch (TB.normalizeString(format)) {
+        case '':
+        case 'uuid':
+            {
+                let hex = buffer.toString('hex');
+
+                return [ hex.substr(0, 8), hex.substr(8, 4), hex.substr(12, 4), hex.substr(16, 4), hex.substr(20) ].join('-');
+            }
+
+        case 'ulid':
+            return encodeUlid(buffer);
+    }
+
+    throw Error(`'${format}' is NOT supported!`);
+}
+
+/**
+ * Converts an UUID or ULID string to 16 bytes.
+ * 
+ * @param {string} id The UUID or ULID.
+ * 
+ * @returns {Buffer} The bytes.
+ */
+export function uuidToBuffer(id: string): Buffer {
+    let str = TB.toStringSafe(id).trim();
+
+    if (/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(str)) {
+        return decodeUlid(str);
+    }
+
+    let hex = str.replace(/[{}-]/g, '');
+    if (!/^[0-9a-f]{32}$/i.test(hex)) {
+        throw new Error(`'${id}' is no valid UUID!`);
+    }
+
+    return Buffer.from(hex, 'hex');
+}
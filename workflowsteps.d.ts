@@ -0,0 +1,67 @@
+import * as Workflows from 'node-workflows';
+/**
+ * Joins the results of sub workflows.
+ *
+ * @param {any[]} results The results, in the order of the branches / items.
+ * @param {Workflows.WorkflowActionContext} ctx The context of the step.
+ *
+ * @returns {any} The result, which can also be a promise.
+ */
+export declare type WorkflowJoin = (results: any[], ctx: Workflows.WorkflowActionContext) => any;
+/**
+ * Options for a map step.
+ */
+export interface WorkflowMapOptions {
+    /**
+     * The maximum number of items, which are processed at the same time. Default: 1
+     *
+     * A value greater than 1 requires executors as sub workflow, because
+     * a 'Workflows.Workflow' instance cannot run more than once at the same time.
+     */
+    concurrency?: number;
+    /**
+     * The custom join function. Default: the results are written to 'ctx.value'
+     */
+    join?: WorkflowJoin;
+}
+/**
+ * A sub workflow: an existing workflow, a single executor or a list of executors.
+ *
+ * A sub workflow runs isolated from its parent workflow: it has its own 'ctx.globals',
+ * 'ctx.workflowState' and action states. Only 'ctx.value' is passed in and the result is passed back.
+ */
+export declare type WorkflowSubFlow = Workflows.Workflow | Workflows.WorkflowExecutorType | Workflows.WorkflowExecutorType[];
+/**
+ * Creates a step, which runs one of several sub workflows, depending on 'ctx'.
+ * The sub workflow starts with the current 'ctx.value' and its result is written to 'ctx.value'.
+ *
+ * @param {Function} selector The function, which returns the name of the branch (can also be a promise).
+ * @param {Object} branches The sub workflows, by name.
+ * @param {string} [defaultBranch] The name of the branch, which is used if the selected one does not exist.
+ *
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export declare function branchStep(selector: (ctx: Workflows.WorkflowActionContext) => any, branches: {
+    [name: string]: WorkflowSubFlow;
+}, defaultBranch?: string): Workflows.WorkflowAction;
+/**
+ * Creates a step, which runs a sub workflow for each item of a list.
+ * Each sub workflow starts with its item as 'ctx.value'.
+ *
+ * @param {any[]|Function} items The items or the function, which returns them (can also be a promise).
+ * @param {WorkflowSubFlow} flow The sub workflow.
+ * @param {WorkflowMapOptions} [opts] The options.
+ *
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export declare function mapStep(items: any[] | ((ctx: Workflows.WorkflowActionContext) => any), flow: WorkflowSubFlow, opts?: WorkflowMapOptions): Workflows.WorkflowAction;
+/**
+ * Creates a step, which runs sub workflows in parallel and joins their results.
+ * Each sub workflow starts with the current 'ctx.value'.
+ *
+ * @param {WorkflowSubFlow[]} flows The sub workflows.
+ * @param {WorkflowJoin} [join] The custom join function. Default: the results are written to 'ctx.value'
+ *
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export declare function parallelStep(flows: WorkflowSubFlow[], join?: WorkflowJoin): Workflows.WorkflowAction;
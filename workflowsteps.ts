@@ -0,0 +1,250 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// ts-toolbox (https://github.com/mkloubert/ts-toolbox)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+
+import * as TB from './index';
+import * as Workflows from 'node-workflows';
+
+
+/**
+ * Joins the results of sub workflows.
+ * 
+ * @param {any[]} results The results, in the order of the branches / items.
+ * @param {Workflows.WorkflowActionContext} ctx The context of the step.
+ * 
+ * @returns {any} The result, which can also be a promise.
+ */
+export type WorkflowJoin = (results: any[], ctx: Workflows.WorkflowActionContext) => any;
+
+/**
+ * Options for a map step.
+ */
+export interface WorkflowMapOptions {
+    /**
+     * The maximum number of items, which are processed at the same time. Default: 1
+     * 
+     * A value greater than 1 requires executors as sub workflow, because
+     * a 'Workflows.Workflow' instance cannot run more than once at the same time.
+     */
+    concurrency?: number;
+    /**
+     * The custom join function. Default: the results are written to 'ctx.value'
+     */
+    join?: WorkflowJoin;
+}
+
+/**
+ * A sub workflow: an existing workflow, a single executor or a list of executors.
+ * 
+ * A sub workflow runs isolated from its parent workflow: it has its own 'ctx.globals',
+ * 'ctx.workflowState' and action states. Only 'ctx.value' is passed in and the result is passed back.
+ */
+export type WorkflowSubFlow = Workflows.Workflow | Workflows.WorkflowExecutorType | Workflows.WorkflowExecutorType[];
+
+
+function runSubFlow(flow: WorkflowSubFlow, value: any): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        try {
+            let workflow: Workflows.Workflow;
+            if (flow instanceof Workflows.Workflow) {
+                workflow = flow;
+            }
+            else {
+                workflow = TB.newWorkflow.apply(null, TB.asArray(<any>flow));
+            }
+
+            workflow.start(value).then(resolve, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+function joinResults(results: any[], ctx: Workflows.WorkflowActionContext, join: WorkflowJoin): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        if (!join) {
+            ctx.value = results;
+
+            resolve();
+            return;
+        }
+
+        try {
+            TB.asPromise(join(results, ctx)).then(() => {
+                resolve();
+            }, reject);
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+
+/**
+ * Creates a step, which runs one of several sub workflows, depending on 'ctx'.
+ * The sub workflow starts with the current 'ctx.value' and its result is written to 'ctx.value'.
+ * 
+ * @param {Function} selector The function, which returns the name of the branch (can also be a promise).
+ * @param {Object} branches The sub workflows, by name.
+ * @param {string} [defaultBranch] The name of the branch, which is used if the selected one does not exist.
+ * 
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export function branchStep(selector: (ctx: Workflows.WorkflowActionContext) => any,
+                           branches: { [name: string]: WorkflowSubFlow },
+                           defaultBranch?: string): Workflows.WorkflowAction {
+    return (ctx) => {
+        return new Promise<any>((resolve, reject) => {
+            try {
+                TB.asPromise(selector(ctx)).then((name) => {
+                    name = TB.toStringSafe(name);
+
+                    let flow = branches[name];
+                    if (!flow && !TB.isNullOrUndefined(defaultBranch)) {
+                        flow = branches[defaultBranch];
+                    }
+
+                    if (!flow) {
+                        reject(new Error(`Branch '${name}' not found!`));
+                        return;
+                    }
+
+                    runSubFlow(flow, ctx.value).then((result) => {
+                        ctx.value = result;
+
+                        resolve();
+                    }, reject);
+                }, reject);
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    };
+}
+
+/**
+ * Creates a step, which runs a sub workflow for each item of a list.
+ * Each sub workflow starts with its item as 'ctx.value'.
+ * 
+ * @param {any[]|Function} items The items or the function, which returns them (can also be a promise).
+ * @param {WorkflowSubFlow} flow The sub workflow.
+ * @param {WorkflowMapOptions} [opts] The options.
+ * 
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export function mapStep(items: any[] | ((ctx: Workflows.WorkflowActionContext) => any),
+                        flow: WorkflowSubFlow,
+                        opts?: WorkflowMapOptions): Workflows.WorkflowAction {
+    if (!opts) {
+        opts = {};
+    }
+
+    let concurrency = parseInt(TB.toStringSafe(opts.concurrency).trim());
+    if (isNaN(concurrency) || concurrency < 1) {
+        concurrency = 1;
+    }
+
+    if (concurrency > 1 && flow instanceof Workflows.Workflow) {
+        throw new Error('A workflow instance cannot process more than one item at the same time! Use executors instead.');
+    }
+
+    return (ctx) => {
+        return new Promise<any>((resolve, reject) => {
+            try {
+                let itemsResult = 'function' === typeof items ? (<Function>items)(ctx) : items;
+
+                TB.asPromise(itemsResult).then((list: any[]) => {
+                    list = TB.isNullOrUndefined(list) ? [] : TB.asArray(list, false);
+
+                    let results: any[] = new Array(list.length);
+                    let nextIndex = 0;
+                    let running = 0;
+                    let failed = false;
+
+                    let startNext = () => {
+                        if (failed) {
+                            return;
+                        }
+
+                        if (nextIndex >= list.length) {
+                            if (running < 1) {
+                                joinResults(results, ctx, opts.join).then(resolve, reject);
+                            }
+
+                            return;
+                        }
+
+                        let index = nextIndex++;
+                        ++running;
+
+                        runSubFlow(flow, list[index]).then((result) => {
+                            --running;
+                            results[index] = result;
+
+                            startNext();
+                        }, (err) => {
+                            --running;
+                            failed = true;
+
+                            reject(err);
+                        });
+                    };
+
+                    if (list.length < 1) {
+                        startNext();
+                    }
+                    else {
+                        for (let i = 0; i < Math.min(concurrency, list.length); i++) {
+                            startNext();
+                        }
+                    }
+                }, reject);
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    };
+}
+
+/**
+ * Creates a step, which runs sub workflows in parallel and joins their results.
+ * Each sub workflow starts with the current 'ctx.value'.
+ * 
+ * @param {WorkflowSubFlow[]} flows The sub workflows.
+ * @param {WorkflowJoin} [join] The custom join function. Default: the results are written to 'ctx.value'
+ * 
+ * @returns {Workflows.WorkflowAction} The step.
+ */
+export function parallelStep(flows: WorkflowSubFlow[], join?: WorkflowJoin): Workflows.WorkflowAction {
+    return (ctx) => {
+        return new Promise<any>((resolve, reject) => {
+            Promise.all(TB.asArray(flows, false).map(f => runSubFlow(f, ctx.value))).then((results) => {
+                joinResults(results, ctx, join).then(resolve, reject);
+            }, reject);
+        });
+    };
+}